@@ -109,9 +109,15 @@ export default withMermaid(
               { text: "Channel Configuration", link: "/guide/channel-configuration" },
               { text: "Bridge Exchanges", link: "/guide/bridge-exchanges" },
               { text: "Message Compression", link: "/guide/message-compression" },
+              { text: "Message Serialization", link: "/guide/message-serialization" },
+              { text: "Message Encryption", link: "/guide/message-encryption" },
+              { text: "Message Signing", link: "/guide/message-signing" },
+              { text: "Transactional Outbox", link: "/guide/transactional-outbox" },
               { text: "Schema Libraries", link: "/guide/schema-libraries" },
               { text: "Performance Tuning", link: "/guide/performance" },
               { text: "AsyncAPI Generation", link: "/guide/asyncapi-generation" },
+              { text: "Contract Evolution", link: "/guide/contract-evolution" },
+              { text: "Topology Drift", link: "/guide/topology-drift" },
               {
                 text: "Observability",
                 collapsed: true,
@@ -1,5 +1,5 @@
 import { orderContract } from "@amqp-contract-examples/basic-order-processing-contract";
-import { PublishOptions, TypedAmqpClient } from "@amqp-contract/client";
+import { type ClientInferPublishArgs, TypedAmqpClient } from "@amqp-contract/client";
 import pino from "pino";
 import { z } from "zod";
 
@@ -40,11 +40,11 @@ async function main() {
   const publishWithLog = async <T extends Parameters<typeof client.publish>[0]>(
     publisherName: T,
     message: Parameters<typeof client.publish<T>>[1],
-    options?: PublishOptions,
+    ...options: ClientInferPublishArgs<typeof orderContract, T>
   ): Promise<void> => {
     (
       await client
-        .publish(publisherName, message, options)
+        .publish(publisherName, message, ...options)
         .orTee((error) => logger.error({ error }, `Failed to publish: ${publisherName}`))
         .andTee(() => logger.debug(`Successfully published to ${publisherName}`))
     )._unsafeUnwrap();
@@ -0,0 +1,24 @@
+import {
+  defineContract,
+  defineEventConsumer,
+  defineEventPublisher,
+  defineExchange,
+  defineMessage,
+  defineQueue,
+} from "@amqp-contract/contract";
+import { z } from "zod";
+
+const ordersExchange = defineExchange("orders", { type: "topic" });
+
+const orderCreated = defineEventPublisher(
+  ordersExchange,
+  defineMessage(z.object({ orderId: z.string(), amount: z.number() })),
+  { routingKey: "order.created" },
+);
+
+export const contract = defineContract({
+  publishers: { orderCreated },
+  consumers: {
+    processOrder: defineEventConsumer(orderCreated, defineQueue("order-processing")),
+  },
+});
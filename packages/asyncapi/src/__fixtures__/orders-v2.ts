@@ -0,0 +1,26 @@
+import {
+  defineContract,
+  defineEventConsumer,
+  defineEventPublisher,
+  defineExchange,
+  defineMessage,
+  defineQueue,
+} from "@amqp-contract/contract";
+import { z } from "zod";
+
+const ordersExchange = defineExchange("orders", { type: "topic" });
+
+const orderCreated = defineEventPublisher(
+  ordersExchange,
+  defineMessage(
+    z.object({ orderId: z.string(), amount: z.string(), currency: z.string().optional() }),
+  ),
+  { routingKey: "order.created" },
+);
+
+export const ordersContract = defineContract({
+  publishers: { orderCreated },
+  consumers: {
+    processOrder: defineEventConsumer(orderCreated, defineQueue("order-processing")),
+  },
+});
@@ -0,0 +1,10 @@
+#!/usr/bin/env node
+import { runCli } from "./cli/main.js";
+
+void runCli(process.argv.slice(2), {
+  cwd: process.cwd(),
+  stdout: process.stdout,
+  stderr: process.stderr,
+}).then((exitCode) => {
+  process.exitCode = exitCode;
+});
@@ -0,0 +1,148 @@
+import { readFile, writeFile } from "node:fs/promises";
+import { extname, join, resolve } from "node:path";
+import { parseArgs } from "node:util";
+import YAML from "yaml";
+import { AsyncAPIGenerator, type AsyncAPIGeneratorGenerateOptions } from "../index.js";
+import { loadContract, loadSchemaConverters } from "./load.js";
+import type { CliCommand } from "./main.js";
+
+const USAGE = `Usage: amqp-contract asyncapi <contract> [options]
+
+Generate an AsyncAPI 3 document from a contract.
+
+The contract is a module reference of the form <file>[#<export>]. Without an
+export name, the "contract" export is used, then the default export.
+
+TypeScript modules are loaded with the type stripping of Node.js 22.18 or
+later: their relative imports must name the ".ts" file. On older versions, run
+the CLI through a loader such as tsx.
+
+Options:
+  -o, --output <file>       Write the document to a file instead of stdout
+  --format <json|yaml>      Output format, from the --output extension by default, else json
+  --check                   Exit with code 1 when --output is missing or out of date
+  --title <title>           Document title, the package.json name by default
+  --api-version <version>   Document version, the package.json version by default
+  --description <text>      Document description
+  --id <id>                 Document id
+  --server <name>=<host>    AMQP server, can be repeated
+  --strict                  Fail when a schema has no matching schema converter
+  -h, --help
+`;
+
+/**
+ * `amqp-contract asyncapi <contract>`
+ *
+ * @internal
+ */
+export const runAsyncAPI: CliCommand = async (args, context) => {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      output: { type: "string", short: "o" },
+      format: { type: "string" },
+      check: { type: "boolean", default: false },
+      title: { type: "string" },
+      "api-version": { type: "string" },
+      description: { type: "string" },
+      id: { type: "string" },
+      server: { type: "string", multiple: true, default: [] },
+      strict: { type: "boolean", default: false },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  });
+
+  if (values.help) {
+    context.stdout.write(USAGE);
+    return 0;
+  }
+  const [reference] = positionals;
+  if (reference === undefined || positionals.length > 1) {
+    context.stderr.write(USAGE);
+    return 2;
+  }
+  if (values.check && values.output === undefined) {
+    context.stderr.write("--check requires --output\n");
+    return 2;
+  }
+  const format = values.format ?? formatOf(values.output);
+  if (format !== "json" && format !== "yaml") {
+    context.stderr.write(`Invalid --format "${format}": expected json or yaml\n`);
+    return 2;
+  }
+
+  const servers: NonNullable<AsyncAPIGeneratorGenerateOptions["servers"]> = {};
+  for (const server of values.server) {
+    const separator = server.indexOf("=");
+    if (separator <= 0) {
+      context.stderr.write(`Invalid --server "${server}": expected <name>=<host>\n`);
+      return 2;
+    }
+    servers[server.slice(0, separator)] = { host: server.slice(separator + 1), protocol: "amqp" };
+  }
+
+  const [contract, schemaConverters, packageJson] = await Promise.all([
+    loadContract(reference, context.cwd),
+    loadSchemaConverters(context.cwd),
+    readPackageJson(context.cwd),
+  ]);
+  const generator = new AsyncAPIGenerator({
+    schemaConverters,
+    failOnMissingConverter: values.strict,
+    logger: { warn: (message) => context.stderr.write(`${message}\n`) },
+  });
+  const document = await generator.generate(contract, {
+    info: {
+      title: values.title ?? packageJson.name ?? "AMQP API",
+      version: values["api-version"] ?? packageJson.version ?? "1.0.0",
+      ...(values.description !== undefined && { description: values.description }),
+    },
+    ...(values.id !== undefined && { id: values.id }),
+    ...(Object.keys(servers).length > 0 && { servers }),
+  });
+  const content =
+    format === "yaml" ? YAML.stringify(document) : `${JSON.stringify(document, null, 2)}\n`;
+
+  if (values.output === undefined) {
+    context.stdout.write(content);
+    return 0;
+  }
+
+  const outputPath = resolve(context.cwd, values.output);
+  if (values.check) {
+    const current = await readFile(outputPath, "utf8").catch(() => undefined);
+    if (current === content) {
+      context.stdout.write(`${values.output} is up to date.\n`);
+      return 0;
+    }
+    context.stderr.write(
+      `${values.output} is ${current === undefined ? "missing" : "out of date"}. ` +
+        `Run the same command without --check to update it.\n`,
+    );
+    return 1;
+  }
+
+  await writeFile(outputPath, content);
+  context.stdout.write(`Wrote ${values.output}.\n`);
+  return 0;
+};
+
+function formatOf(output: string | undefined): string {
+  const extension = output === undefined ? "" : extname(output).toLowerCase();
+  return extension === ".yaml" || extension === ".yml" ? "yaml" : "json";
+}
+
+async function readPackageJson(cwd: string): Promise<{ name?: string; version?: string }> {
+  try {
+    const packageJson: unknown = JSON.parse(await readFile(join(cwd, "package.json"), "utf8"));
+    if (typeof packageJson !== "object" || packageJson === null) return {};
+    const { name, version } = packageJson as Record<string, unknown>;
+    return {
+      ...(typeof name === "string" && { name }),
+      ...(typeof version === "string" && { version }),
+    };
+  } catch {
+    return {};
+  }
+}
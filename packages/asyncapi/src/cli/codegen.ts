@@ -0,0 +1,80 @@
+import { readFile, writeFile } from "node:fs/promises";
+import { resolve } from "node:path";
+import { parseArgs } from "node:util";
+import YAML from "yaml";
+import { ContractSourceGenerator } from "../contract-generator.js";
+import type { CliCommand } from "./main.js";
+
+const USAGE = `Usage: amqp-contract codegen <asyncapi document> [options]
+
+Generate a TypeScript contract from an AsyncAPI 3 document (JSON or YAML).
+
+Options:
+  -o, --output <file>       Write the contract to a file instead of stdout
+  --export-name <name>      Name of the exported contract, "contract" by default
+  --check                   Exit with code 1 when --output is missing or out of date
+  -h, --help
+`;
+
+/**
+ * `amqp-contract codegen <asyncapi document>`
+ *
+ * @internal
+ */
+export const runCodegen: CliCommand = async (args, context) => {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      output: { type: "string", short: "o" },
+      "export-name": { type: "string" },
+      check: { type: "boolean", default: false },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  });
+
+  if (values.help) {
+    context.stdout.write(USAGE);
+    return 0;
+  }
+  const [input] = positionals;
+  if (input === undefined || positionals.length > 1) {
+    context.stderr.write(USAGE);
+    return 2;
+  }
+  if (values.check && values.output === undefined) {
+    context.stderr.write("--check requires --output\n");
+    return 2;
+  }
+
+  // YAML is a superset of JSON, so both formats are parsed the same way
+  const document: unknown = YAML.parse(await readFile(resolve(context.cwd, input), "utf8"));
+  const generator = new ContractSourceGenerator({
+    ...(values["export-name"] !== undefined && { exportName: values["export-name"] }),
+    logger: { warn: (message) => context.stderr.write(`${message}\n`) },
+  });
+  const content = generator.generate(document as Parameters<typeof generator.generate>[0]);
+
+  if (values.output === undefined) {
+    context.stdout.write(content);
+    return 0;
+  }
+
+  const outputPath = resolve(context.cwd, values.output);
+  if (values.check) {
+    const current = await readFile(outputPath, "utf8").catch(() => undefined);
+    if (current === content) {
+      context.stdout.write(`${values.output} is up to date.\n`);
+      return 0;
+    }
+    context.stderr.write(
+      `${values.output} is ${current === undefined ? "missing" : "out of date"}. ` +
+        `Run the same command without --check to update it.\n`,
+    );
+    return 1;
+  }
+
+  await writeFile(outputPath, content);
+  context.stdout.write(`Wrote ${values.output}.\n`);
+  return 0;
+};
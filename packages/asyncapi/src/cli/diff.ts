@@ -0,0 +1,80 @@
+import { parseArgs } from "node:util";
+import { type ContractChange, diffContracts } from "../diff.js";
+import { loadContract, loadSchemaConverters } from "./load.js";
+import type { CliCommand } from "./main.js";
+
+const USAGE = `Usage: amqp-contract diff <old> <new> [options]
+
+Compare two contracts and exit with code 1 when a change is breaking.
+
+Contracts are module references of the form <file>[#<export>]. Without an
+export name, the "contract" export is used, then the default export.
+
+TypeScript modules are loaded with the type stripping of Node.js 22.18 or
+later: their relative imports must name the ".ts" file. On older versions, run
+the CLI through a loader such as tsx.
+
+Options:
+  --json    Print the diff as JSON
+  -h, --help
+`;
+
+/**
+ * `amqp-contract diff <old> <new>`
+ *
+ * @internal
+ */
+export const runDiff: CliCommand = async (args, context) => {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      json: { type: "boolean", default: false },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  });
+
+  if (values.help) {
+    context.stdout.write(USAGE);
+    return 0;
+  }
+  const [oldReference, newReference] = positionals;
+  if (oldReference === undefined || newReference === undefined || positionals.length > 2) {
+    context.stderr.write(USAGE);
+    return 2;
+  }
+
+  const [oldContract, newContract, schemaConverters] = await Promise.all([
+    loadContract(oldReference, context.cwd),
+    loadContract(newReference, context.cwd),
+    loadSchemaConverters(context.cwd),
+  ]);
+  const diff = await diffContracts(oldContract, newContract, {
+    schemaConverters,
+    logger: { warn: (message) => context.stderr.write(`${message}\n`) },
+  });
+
+  if (values.json) {
+    context.stdout.write(`${JSON.stringify(diff, null, 2)}\n`);
+  } else {
+    context.stdout.write(formatChanges(diff.changes));
+  }
+  return diff.breaking ? 1 : 0;
+};
+
+function formatChanges(changes: ContractChange[]): string {
+  if (changes.length === 0) return "No changes.\n";
+
+  const sections: string[] = [];
+  for (const severity of ["breaking", "compatible"] as const) {
+    const matching = changes.filter((change) => change.severity === severity);
+    if (matching.length === 0) continue;
+    const title = severity === "breaking" ? "Breaking changes" : "Compatible changes";
+    sections.push(
+      `${title} (${matching.length}):\n${matching
+        .map((change) => `  ${change.path}: ${change.message}\n`)
+        .join("")}`,
+    );
+  }
+  return sections.join("\n");
+}
@@ -0,0 +1,81 @@
+import type { ContractDefinition } from "@amqp-contract/contract";
+import type { ConditionalSchemaConverter } from "@orpc/openapi";
+import { createRequire } from "node:module";
+import { join, resolve } from "node:path";
+import { pathToFileURL } from "node:url";
+
+/**
+ * Schema converters the CLI uses when their package is installed in the
+ * project it runs in.
+ */
+const KNOWN_CONVERTERS = [
+  { specifier: "@orpc/zod/zod4", exportName: "ZodToJsonSchemaConverter" },
+  { specifier: "@orpc/valibot", exportName: "experimental_ValibotToJsonSchemaConverter" },
+  { specifier: "@orpc/arktype", exportName: "experimental_ArkTypeToJsonSchemaConverter" },
+];
+
+/**
+ * Load a contract from a module reference of the form `<file>[#<export>]`.
+ * Without an export name, the `contract` export is used, then the default
+ * export.
+ *
+ * Modules are loaded with a plain `import()`, so TypeScript modules rely on
+ * the type stripping of Node.js 22.18 or later, or on a loader registered by
+ * the user (e.g. `node --import tsx`).
+ *
+ * @internal
+ */
+export async function loadContract(reference: string, cwd: string): Promise<ContractDefinition> {
+  const separator = reference.lastIndexOf("#");
+  const file = separator > 0 ? reference.slice(0, separator) : reference;
+  const exportName = separator > 0 ? reference.slice(separator + 1) : undefined;
+
+  let module: Record<string, unknown>;
+  try {
+    module = (await import(pathToFileURL(resolve(cwd, file)).href)) as Record<string, unknown>;
+  } catch (error: unknown) {
+    const hint =
+      /\.[cm]?ts$/.test(file) && !process.features.typescript
+        ? " (TypeScript modules need Node.js 22.18 or later, or a loader such as tsx)"
+        : "";
+    throw new Error(
+      `Cannot load contract module "${file}": ${error instanceof Error ? error.message : String(error)}${hint}`,
+      { cause: error },
+    );
+  }
+
+  const contract = exportName ? module[exportName] : (module["contract"] ?? module["default"]);
+  if (typeof contract !== "object" || contract === null) {
+    throw new Error(
+      exportName
+        ? `Module "${file}" has no "${exportName}" export`
+        : `Module "${file}" has neither a "contract" nor a default export`,
+    );
+  }
+  return contract as ContractDefinition;
+}
+
+/**
+ * Instantiate the known schema converters whose package can be resolved from
+ * `cwd`.
+ *
+ * @internal
+ */
+export async function loadSchemaConverters(cwd: string): Promise<ConditionalSchemaConverter[]> {
+  const require = createRequire(join(cwd, "package.json"));
+  const converters: ConditionalSchemaConverter[] = [];
+  for (const { specifier, exportName } of KNOWN_CONVERTERS) {
+    let path: string;
+    try {
+      path = require.resolve(specifier);
+    } catch {
+      continue;
+    }
+    const module = (await import(pathToFileURL(path).href)) as Record<string, unknown>;
+    const Converter = module[exportName];
+    if (typeof Converter === "function") {
+      converters.push(new (Converter as new () => ConditionalSchemaConverter)());
+    }
+  }
+  return converters;
+}
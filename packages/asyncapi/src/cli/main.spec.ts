@@ -0,0 +1,277 @@
+import { ZodToJsonSchemaConverter } from "@orpc/zod/zod4";
+import { execFile } from "node:child_process";
+import { mkdtemp, readFile, rm, symlink, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { promisify } from "node:util";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import YAML from "yaml";
+import { contract as v1 } from "../__fixtures__/orders-v1.js";
+import { ordersContract as v2 } from "../__fixtures__/orders-v2.js";
+import { diffContracts } from "../diff.js";
+import { AsyncAPIGenerator, ContractSourceGenerator } from "../index.js";
+import { runCli } from "./main.js";
+
+const cwd = fileURLToPath(new URL("..", import.meta.url));
+
+const run = async (args: string[]) => {
+  let stdout = "";
+  let stderr = "";
+  const exitCode = await runCli(args, {
+    cwd,
+    stdout: { write: (chunk: string) => (stdout += chunk) },
+    stderr: { write: (chunk: string) => (stderr += chunk) },
+  });
+  return { exitCode, stdout, stderr };
+};
+
+describe("amqp-contract CLI", () => {
+  describe("diff", () => {
+    it("should exit with code 1 and list breaking changes", async () => {
+      // WHEN
+      const result = await run([
+        "diff",
+        "__fixtures__/orders-v1.ts",
+        "__fixtures__/orders-v2.ts#ordersContract",
+      ]);
+
+      // THEN
+      expect(result.exitCode).toBe(1);
+      expect(result.stdout).toContain("Breaking changes (2):");
+      expect(result.stdout).toContain(
+        "publishers.orderCreated.message.payload.properties.amount.type",
+      );
+      expect(result.stdout).toContain("Compatible changes");
+    });
+
+    it("should print the same diff as diffContracts with --json", async () => {
+      // WHEN
+      const result = await run([
+        "diff",
+        "__fixtures__/orders-v1.ts",
+        "__fixtures__/orders-v2.ts#ordersContract",
+        "--json",
+      ]);
+
+      // THEN
+      expect(JSON.parse(result.stdout)).toEqual(
+        await diffContracts(v1, v2, { schemaConverters: [new ZodToJsonSchemaConverter()] }),
+      );
+    });
+
+    it("should exit with code 0 when no change is breaking", async () => {
+      // WHEN
+      const result = await run(["diff", "__fixtures__/orders-v1.ts", "__fixtures__/orders-v1.ts"]);
+
+      // THEN
+      expect(result).toEqual({ exitCode: 0, stdout: "No changes.\n", stderr: "" });
+    });
+
+    it("should exit with code 2 when a contract export is missing", async () => {
+      // WHEN
+      const result = await run(["diff", "__fixtures__/orders-v1.ts", "__fixtures__/orders-v2.ts"]);
+
+      // THEN
+      expect(result.exitCode).toBe(2);
+      expect(result.stderr).toContain('has neither a "contract" nor a default export');
+    });
+  });
+
+  describe("asyncapi", () => {
+    let outputDir: string;
+
+    beforeEach(async () => {
+      outputDir = await mkdtemp(join(tmpdir(), "amqp-contract-cli-"));
+    });
+
+    afterEach(async () => {
+      await rm(outputDir, { recursive: true, force: true });
+    });
+
+    const expectedDocument = () =>
+      new AsyncAPIGenerator({ schemaConverters: [new ZodToJsonSchemaConverter()] }).generate(v1, {
+        info: { title: "Orders", version: "2.0.0" },
+        servers: { production: { host: "rabbitmq:5672", protocol: "amqp" } },
+      });
+
+    it("should print the document as JSON", async () => {
+      // WHEN
+      const result = await run([
+        "asyncapi",
+        "__fixtures__/orders-v1.ts",
+        "--title",
+        "Orders",
+        "--api-version",
+        "2.0.0",
+        "--server",
+        "production=rabbitmq:5672",
+      ]);
+
+      // THEN
+      expect(result.exitCode).toBe(0);
+      expect(JSON.parse(result.stdout)).toEqual(await expectedDocument());
+    });
+
+    it("should write YAML when the output file has a yaml extension", async () => {
+      // GIVEN
+      const output = join(outputDir, "asyncapi.yaml");
+
+      // WHEN
+      const result = await run([
+        "asyncapi",
+        "__fixtures__/orders-v1.ts",
+        "--output",
+        output,
+        "--title",
+        "Orders",
+        "--api-version",
+        "2.0.0",
+        "--server",
+        "production=rabbitmq:5672",
+      ]);
+
+      // THEN
+      expect(result.exitCode).toBe(0);
+      expect(YAML.parse(await readFile(output, "utf8"))).toEqual(await expectedDocument());
+    });
+
+    it("should exit with code 1 in check mode when the output is stale", async () => {
+      // GIVEN
+      const output = join(outputDir, "asyncapi.json");
+      const args = ["asyncapi", "__fixtures__/orders-v1.ts", "--output", output];
+      await run(args);
+      const upToDate = await run([...args, "--check"]);
+      await writeFile(output, "{}\n");
+
+      // WHEN
+      const stale = await run([...args, "--check"]);
+
+      // THEN
+      expect(upToDate.exitCode).toBe(0);
+      expect(stale.exitCode).toBe(1);
+      expect(stale.stderr).toContain("is out of date");
+      expect(await readFile(output, "utf8")).toBe("{}\n");
+    });
+  });
+
+  describe("codegen", () => {
+    let outputDir: string;
+
+    beforeEach(async () => {
+      outputDir = await mkdtemp(join(tmpdir(), "amqp-contract-cli-"));
+    });
+
+    afterEach(async () => {
+      await rm(outputDir, { recursive: true, force: true });
+    });
+
+    it("should generate a contract from a YAML document", async () => {
+      // GIVEN
+      const document = await new AsyncAPIGenerator({
+        schemaConverters: [new ZodToJsonSchemaConverter()],
+      }).generate(v1, { info: { title: "Orders", version: "1.0.0" } });
+      const input = join(outputDir, "asyncapi.yaml");
+      await writeFile(input, YAML.stringify(document));
+
+      // WHEN
+      const result = await run(["codegen", input, "--export-name", "ordersContract"]);
+
+      // THEN
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout).toBe(
+        new ContractSourceGenerator({ exportName: "ordersContract" }).generate(document),
+      );
+      expect(result.stdout).toContain("export const ordersContract = defineContract({");
+    });
+  });
+
+  describe.skipIf(!process.features.typescript)("built binary", () => {
+    const packageDir = fileURLToPath(new URL("../..", import.meta.url));
+    let projectDir: string;
+
+    beforeEach(async () => {
+      projectDir = await mkdtemp(join(tmpdir(), "amqp-contract-bin-"));
+      await symlink(join(packageDir, "node_modules"), join(projectDir, "node_modules"), "junction");
+    });
+
+    afterEach(async () => {
+      await rm(projectDir, { recursive: true, force: true });
+    });
+
+    it("should load a TypeScript contract with relative imports", async () => {
+      // GIVEN
+      await writeFile(
+        join(projectDir, "messages.ts"),
+        `import { defineMessage } from "@amqp-contract/contract";
+import { z } from "zod";
+
+export const orderCreatedMessage = defineMessage(
+  z.object({ orderId: z.string(), amount: z.number() }),
+);
+`,
+      );
+      await writeFile(
+        join(projectDir, "contract.ts"),
+        `import {
+  defineContract,
+  defineEventConsumer,
+  defineEventPublisher,
+  defineExchange,
+  defineQueue,
+} from "@amqp-contract/contract";
+import { orderCreatedMessage } from "./messages.ts";
+
+const ordersExchange = defineExchange("orders", { type: "topic" });
+
+const orderCreated = defineEventPublisher(ordersExchange, orderCreatedMessage, {
+  routingKey: "order.created",
+});
+
+export const contract = defineContract({
+  publishers: { orderCreated },
+  consumers: {
+    processOrder: defineEventConsumer(orderCreated, defineQueue("order-processing")),
+  },
+});
+`,
+      );
+
+      // WHEN
+      const { stdout } = await promisify(execFile)(
+        process.execPath,
+        [
+          join(packageDir, "dist/bin.mjs"),
+          "asyncapi",
+          "contract.ts",
+          "--title",
+          "Orders",
+          "--api-version",
+          "2.0.0",
+          "--server",
+          "production=rabbitmq:5672",
+        ],
+        { cwd: projectDir },
+      );
+
+      // THEN
+      expect(JSON.parse(stdout)).toEqual(
+        await new AsyncAPIGenerator({
+          schemaConverters: [new ZodToJsonSchemaConverter()],
+        }).generate(v1, {
+          info: { title: "Orders", version: "2.0.0" },
+          servers: { production: { host: "rabbitmq:5672", protocol: "amqp" } },
+        }),
+      );
+    });
+  });
+
+  it("should exit with code 2 on unknown commands", async () => {
+    // WHEN
+    const result = await run(["publish"]);
+
+    // THEN
+    expect(result.exitCode).toBe(2);
+    expect(result.stderr).toContain('Unknown command "publish"');
+  });
+});
@@ -0,0 +1,67 @@
+import { runAsyncAPI } from "./asyncapi.js";
+import { runCodegen } from "./codegen.js";
+import { runDiff } from "./diff.js";
+
+/**
+ * Environment the CLI runs in.
+ *
+ * @internal
+ */
+export type CliContext = {
+  /** Directory relative paths and schema converter packages are resolved from */
+  cwd: string;
+  stdout: { write: (chunk: string) => unknown };
+  stderr: { write: (chunk: string) => unknown };
+};
+
+/**
+ * A CLI command, resolving to the process exit code.
+ *
+ * @internal
+ */
+export type CliCommand = (args: string[], context: CliContext) => Promise<number>;
+
+const COMMANDS: Record<string, { run: CliCommand; summary: string }> = {
+  asyncapi: { run: runAsyncAPI, summary: "Generate an AsyncAPI document from a contract" },
+  codegen: { run: runCodegen, summary: "Generate a contract from an AsyncAPI document" },
+  diff: { run: runDiff, summary: "Compare two contracts and report breaking changes" },
+};
+
+const USAGE = `Usage: amqp-contract <command> [options]
+
+Commands:
+${Object.entries(COMMANDS)
+  .map(([name, { summary }]) => `  ${name.padEnd(10)}${summary}`)
+  .join("\n")}
+
+Run "amqp-contract <command> --help" for the options of a command.
+`;
+
+/**
+ * Run the `amqp-contract` CLI.
+ *
+ * Exit codes: `0` on success, `1` when the command found a problem (e.g.
+ * breaking changes), `2` on invalid usage or when a contract cannot be loaded.
+ *
+ * @internal
+ */
+export async function runCli(args: string[], context: CliContext): Promise<number> {
+  const [name, ...commandArgs] = args;
+  if (name === undefined || name === "--help" || name === "-h") {
+    context.stdout.write(USAGE);
+    return name === undefined ? 2 : 0;
+  }
+
+  const command = COMMANDS[name];
+  if (!command) {
+    context.stderr.write(`Unknown command "${name}".\n\n${USAGE}`);
+    return 2;
+  }
+
+  try {
+    return await command.run(commandArgs, context);
+  } catch (error: unknown) {
+    context.stderr.write(`${error instanceof Error ? error.message : String(error)}\n`);
+    return 2;
+  }
+}
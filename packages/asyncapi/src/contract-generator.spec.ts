@@ -0,0 +1,180 @@
+import {
+  defineCommandConsumer,
+  defineConsumer,
+  defineContract,
+  defineEventConsumer,
+  defineEventPublisher,
+  defineExchange,
+  defineMessage,
+  defineQueue,
+} from "@amqp-contract/contract";
+import type { ContractDefinition } from "@amqp-contract/contract";
+import { ZodToJsonSchemaConverter } from "@orpc/zod/zod4";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import { AsyncAPIGenerator, ContractSourceGenerator } from "./index.js";
+
+const asyncAPIGenerator = new AsyncAPIGenerator({
+  schemaConverters: [new ZodToJsonSchemaConverter()],
+});
+const info = { title: "Orders", version: "1.0.0" };
+
+describe("ContractSourceGenerator", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    // Inside the package, so that the generated imports resolve
+    dir = await mkdtemp(join(fileURLToPath(new URL(".", import.meta.url)), ".codegen-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  const importSource = async (source: string): Promise<ContractDefinition> => {
+    const file = join(dir, "contract.ts");
+    await writeFile(file, source);
+    const module = (await import(file)) as { contract: ContractDefinition };
+    return module.contract;
+  };
+
+  it("should round-trip a contract through AsyncAPI", async () => {
+    // GIVEN
+    const ordersExchange = defineExchange("orders", { type: "topic" });
+    const ordersDlx = defineExchange("orders-dlx", { type: "direct" });
+    const tasksExchange = defineExchange("tasks", { type: "direct", durable: false });
+    const orderCreated = defineEventPublisher(
+      ordersExchange,
+      defineMessage(
+        z.object({
+          orderId: z.uuid(),
+          amount: z.number().min(0),
+          status: z.enum(["pending", "paid"]),
+          note: z.string().nullable(),
+          tags: z.array(z.string()).optional(),
+        }),
+        { headers: z.object({ tenant: z.string() }), summary: "Order created" },
+      ),
+      { routingKey: "order.created" },
+    );
+    const contract = defineContract({
+      publishers: { orderCreated },
+      consumers: {
+        processOrder: defineEventConsumer(
+          orderCreated,
+          defineQueue("order-processing", {
+            deadLetter: { exchange: ordersDlx, routingKey: "dead" },
+            retry: { mode: "ttl-backoff", maxRetries: 5, initialDelayMs: 1000 },
+          }),
+        ),
+        auditOrders: defineEventConsumer(
+          orderCreated,
+          defineQueue("order-audit", { type: "classic", durable: false }),
+          { routingKey: "order.*" },
+        ),
+        runTask: defineCommandConsumer(
+          defineQueue("task-stream", { type: "stream", maxAge: "7D" }),
+          tasksExchange,
+          defineMessage(z.object({ id: z.int() }), { contentType: "application/msgpack" }),
+          { routingKey: "task.run" },
+        ),
+        audit: defineConsumer(defineQueue("audit"), defineMessage(z.string())),
+      },
+    });
+    const document = await asyncAPIGenerator.generate(contract, { info });
+
+    // WHEN
+    const source = new ContractSourceGenerator().generate(document);
+
+    // THEN
+    const generated = await importSource(source);
+    expect(await asyncAPIGenerator.generate(generated, { info })).toEqual(document);
+    expect(source).toContain(
+      "processOrder: defineEventConsumer(orderCreated, orderProcessingQueue),",
+    );
+    expect(source).toContain('deadLetter: { exchange: ordersDlxExchange, routingKey: "dead" },');
+    expect(source).not.toContain("wait-exchange");
+    expect(source).toContain('contentType: "application/msgpack"');
+  });
+
+  it("should generate a command consumer when no publisher sends the consumed message", async () => {
+    // GIVEN
+    const contract = defineContract({
+      consumers: {
+        processOrder: defineCommandConsumer(
+          defineQueue("order-processing"),
+          defineExchange("orders", { type: "topic" }),
+          defineMessage(z.object({ orderId: z.string() })),
+          { routingKey: "order.process" },
+        ),
+      },
+    });
+    const document = await asyncAPIGenerator.generate(contract, { info });
+
+    // WHEN
+    const source = new ContractSourceGenerator({ exportName: "ordersContract" }).generate(document);
+
+    // THEN
+    expect(source).toMatchInlineSnapshot(`
+      "// Generated from an AsyncAPI document by @amqp-contract/asyncapi.
+
+      import {
+        defineCommandConsumer,
+        defineContract,
+        defineExchange,
+        defineMessage,
+        defineQueue,
+      } from "@amqp-contract/contract";
+      import { z } from "zod";
+
+      const ordersExchange = defineExchange("orders", { type: "topic" });
+
+      const orderProcessingQueue = defineQueue("order-processing");
+
+      const processOrderMessage = defineMessage(
+        z.object({
+          orderId: z.string(),
+        }),
+      );
+
+      export const ordersContract = defineContract({
+        consumers: {
+          processOrder: defineCommandConsumer(
+            orderProcessingQueue,
+            ordersExchange,
+            processOrderMessage,
+            { routingKey: "order.process" },
+          ),
+        },
+      });
+      "
+    `);
+  });
+
+  it("should warn about channels without AMQP bindings", () => {
+    // GIVEN
+    const warn = vi.fn();
+
+    // WHEN
+    new ContractSourceGenerator({ logger: { warn } }).generate({
+      asyncapi: "3.0.0",
+      info,
+      channels: { orders: { address: "orders" } },
+    });
+
+    // THEN
+    expect(warn).toHaveBeenCalledWith(
+      'ContractSourceGenerator: channel "orders" has no AMQP exchange or queue binding and is skipped',
+    );
+  });
+
+  it("should throw on documents that are not AsyncAPI 3", () => {
+    // WHEN / THEN
+    expect(() =>
+      new ContractSourceGenerator().generate({ asyncapi: "2.6.0", info } as never),
+    ).toThrow("expected an AsyncAPI 3 document");
+  });
+});
@@ -0,0 +1,718 @@
+import type { AsyncAPIObject } from "@asyncapi/parser/esm/spec-types/v3.js";
+import { propertyKey, ZodSourceGenerator } from "./zod-source.js";
+
+/**
+ * Options for configuring the contract generator.
+ */
+export type ContractSourceGeneratorOptions = {
+  /**
+   * Name of the exported contract constant. Defaults to `contract`.
+   */
+  exportName?: string;
+  /**
+   * Optional logger for warnings during generation (e.g. AsyncAPI features
+   * without a contract equivalent).
+   */
+  logger?: { warn: (message: string) => void };
+};
+
+type Json = Record<string, unknown>;
+
+type ExchangeInfo = {
+  name: string;
+  type: "direct" | "topic" | "fanout" | "headers";
+  options: Json;
+};
+
+type QueueBindingInfo = {
+  exchange: string;
+  routingKey?: string;
+  arguments?: Json;
+};
+
+type QueueInfo = {
+  name: string;
+  type: "quorum" | "classic" | "stream";
+  options: Json;
+  deadLetter?: { exchange: string; routingKey?: string };
+  retry?: Json;
+  bindings: QueueBindingInfo[];
+};
+
+type MessageInfo = {
+  /** Identity of the message, to reuse the same definition */
+  key: string;
+  message: Json;
+};
+
+type PublisherInfo = {
+  name: string;
+  exchange: ExchangeInfo;
+  routingKey?: string;
+  message: MessageInfo;
+};
+
+type ConsumerInfo = {
+  name: string;
+  queue: QueueInfo;
+  message: MessageInfo;
+};
+
+/** Content type of messages defined without one */
+const DEFAULT_CONTENT_TYPE = "application/json";
+
+const EXCHANGE_TYPES = new Set(["direct", "topic", "fanout", "headers"]);
+const QUEUE_TYPES = new Set(["quorum", "classic", "stream"]);
+
+/**
+ * Queue arguments derived from contract options, see {@link AsyncAPIGenerator}.
+ */
+const DERIVED_QUEUE_ARGUMENTS = new Set([
+  "x-dead-letter-exchange",
+  "x-dead-letter-routing-key",
+  "x-queue-type",
+  "x-max-age",
+  "x-max-length-bytes",
+  "x-stream-max-segment-size-bytes",
+]);
+
+const RESERVED_WORDS = new Set(
+  (
+    "break case catch class const continue debugger default delete do else enum export extends " +
+    "false finally for function if import in instanceof new null return super switch this throw " +
+    "true try typeof var void while with yield let static implements interface package private " +
+    "protected public await z"
+  ).split(" "),
+);
+
+/**
+ * Source code emitted as is by {@link toSource}, optionally depending on the
+ * indentation and column it starts on.
+ */
+class RawSource {
+  constructor(readonly code: string | ((indent: string, offset: number) => string)) {}
+
+  render(indent: string, offset: number): string {
+    return typeof this.code === "string" ? this.code : this.code(indent, offset);
+  }
+}
+
+const PRINT_WIDTH = 100;
+
+/**
+ * Generator for creating TypeScript contract source code from AsyncAPI 3
+ * documents — the reverse of {@link AsyncAPIGenerator}.
+ *
+ * Channels with AMQP exchange bindings become `defineExchange` calls, channels
+ * with AMQP queue bindings become `defineQueue` calls, `send` operations
+ * become `defineEventPublisher` calls and `receive` operations become
+ * consumers. Message payloads and headers become Zod schemas.
+ *
+ * The queue bindings, dead letter exchanges and retry policies written by the
+ * {@link AsyncAPIGenerator} (`x-amqp-queue-bindings` and `x-amqp-retry`) are
+ * read back, so a contract survives a round trip through AsyncAPI. A consumer
+ * bound to the exchange of a publisher with the same message is generated
+ * with `defineEventConsumer`, other bound consumers with
+ * `defineCommandConsumer`.
+ *
+ * @example
+ * ```typescript
+ * import { ContractSourceGenerator } from '@amqp-contract/asyncapi';
+ * import { readFileSync, writeFileSync } from 'node:fs';
+ * import YAML from 'yaml';
+ *
+ * const document = YAML.parse(readFileSync('asyncapi.yaml', 'utf8'));
+ * const source = new ContractSourceGenerator().generate(document);
+ * writeFileSync('src/contract.ts', source);
+ * ```
+ */
+export class ContractSourceGenerator {
+  private readonly exportName: string;
+  private readonly logger?: { warn: (message: string) => void } | undefined;
+
+  /**
+   * Create a new contract generator instance.
+   *
+   * @param options - Configuration options
+   */
+  constructor(options: ContractSourceGeneratorOptions = {}) {
+    this.exportName = options.exportName ?? "contract";
+    this.logger = options.logger;
+  }
+
+  /**
+   * Generate the TypeScript source of a contract from an AsyncAPI 3 document.
+   *
+   * @param document - The AsyncAPI 3 document, e.g. parsed from JSON or YAML
+   * @returns The source code of a module exporting the contract
+   * @throws Error if the document is not an AsyncAPI 3 document
+   */
+  generate(document: AsyncAPIObject): string {
+    const doc = document as unknown as Json;
+    if (typeof doc["asyncapi"] !== "string" || !doc["asyncapi"].startsWith("3.")) {
+      throw new Error(
+        `ContractSourceGenerator: expected an AsyncAPI 3 document, got version ${JSON.stringify(doc["asyncapi"])}`,
+      );
+    }
+
+    const resolveRef = (ref: string): unknown => resolvePointer(doc, ref);
+    const deref = (value: unknown): Json => {
+      let current = value;
+      for (let depth = 0; isObject(current) && typeof current["$ref"] === "string"; depth++) {
+        if (depth > 32) throw new Error(`ContractSourceGenerator: too many nested $refs`);
+        current = resolveRef(current["$ref"]);
+      }
+      return isObject(current) ? current : {};
+    };
+
+    // Channels: exchanges and queues
+    const exchanges = new Map<string, ExchangeInfo>();
+    const queues = new Map<string, QueueInfo>();
+    const channelTargets = new Map<Json, ExchangeInfo | QueueInfo>();
+    for (const [channelKey, channelValue] of Object.entries(asObject(doc["channels"]))) {
+      const channel = deref(channelValue);
+      const amqp = asObject(asObject(channel["bindings"])["amqp"]);
+      if (amqp["is"] === "routingKey") {
+        const exchange = this.readExchange(channelKey, channel, amqp);
+        exchanges.set(exchange.name, exchange);
+        channelTargets.set(channel, exchange);
+      } else if (amqp["is"] === "queue") {
+        const queue = this.readQueue(channelKey, channel, amqp);
+        queues.set(queue.name, queue);
+        channelTargets.set(channel, queue);
+      } else {
+        this.warn(`channel "${channelKey}" has no AMQP exchange or queue binding and is skipped`);
+      }
+      if (channel["x-amqp-exchange-bindings"] !== undefined) {
+        this.warn(
+          `exchange-to-exchange bindings of channel "${channelKey}" are not supported and are skipped`,
+        );
+      }
+    }
+
+    // Exchanges and queues created by ttl-backoff retry policies are part of
+    // the queue definition, not of the generated source.
+    const retryInfrastructure = new Set<string>();
+    for (const queue of queues.values()) {
+      if (queue.retry?.["mode"] !== "ttl-backoff") continue;
+      retryInfrastructure.add(stringOr(queue.retry["waitQueueName"], `${queue.name}-wait`));
+      retryInfrastructure.add(stringOr(queue.retry["waitExchangeName"], "wait-exchange"));
+      retryInfrastructure.add(stringOr(queue.retry["retryExchangeName"], "retry-exchange"));
+    }
+
+    // Operations: publishers and consumers
+    const publishers: PublisherInfo[] = [];
+    const consumers: ConsumerInfo[] = [];
+    for (const [operationName, operationValue] of Object.entries(asObject(doc["operations"]))) {
+      const operation = deref(operationValue);
+      const channel = deref(operation["channel"]);
+      const target = channelTargets.get(channel);
+      const [firstMessage] = Array.isArray(operation["messages"])
+        ? (operation["messages"] as unknown[])
+        : Object.values(asObject(channel["messages"]));
+      const message = deref(firstMessage);
+      const messageInfo = { key: stableStringify(message), message };
+
+      if (operation["action"] === "send" && target && isExchange(target)) {
+        const cc = asObject(asObject(operation["bindings"])["amqp"])["cc"];
+        const routingKey = Array.isArray(cc) && typeof cc[0] === "string" ? cc[0] : undefined;
+        publishers.push({
+          name: operationName,
+          exchange: target,
+          ...(routingKey !== undefined && { routingKey }),
+          message: messageInfo,
+        });
+      } else if (operation["action"] === "receive" && target && !isExchange(target)) {
+        consumers.push({ name: operationName, queue: target, message: messageInfo });
+      } else {
+        this.warn(
+          `operation "${operationName}" is not a send to an exchange or a receive from a queue and is skipped`,
+        );
+      }
+    }
+
+    return new SourceWriter(
+      this.exportName,
+      exchanges,
+      retryInfrastructure,
+      stringOr(doc["defaultContentType"], DEFAULT_CONTENT_TYPE),
+      new ZodSourceGenerator(resolveRef, (message) => this.warn(message)),
+      (message) => this.warn(message),
+    ).write(publishers, consumers);
+  }
+
+  private readExchange(channelKey: string, channel: Json, amqp: Json): ExchangeInfo {
+    const binding = asObject(amqp["exchange"]);
+    const name = stringOr(binding["name"], stringOr(channel["address"], channelKey));
+    let type = binding["type"];
+    if (typeof type !== "string" || !EXCHANGE_TYPES.has(type)) {
+      this.warn(`exchange "${name}" has unsupported type ${JSON.stringify(type)}, using "topic"`);
+      type = "topic";
+    }
+    const options: Json = {};
+    if (binding["durable"] === false) options["durable"] = false;
+    if (binding["autoDelete"] === true) options["autoDelete"] = true;
+    if (binding["internal"] === true) options["internal"] = true;
+    if (isObject(binding["arguments"]) && Object.keys(binding["arguments"]).length > 0) {
+      options["arguments"] = binding["arguments"];
+    }
+    return { name, type: type as ExchangeInfo["type"], options };
+  }
+
+  private readQueue(channelKey: string, channel: Json, amqp: Json): QueueInfo {
+    const binding = asObject(amqp["queue"]);
+    const name = stringOr(binding["name"], stringOr(channel["address"], channelKey));
+    const args = asObject(binding["arguments"]);
+    const declaredType = binding["type"] ?? args["x-queue-type"] ?? "quorum";
+    const type = (
+      typeof declaredType === "string" && QUEUE_TYPES.has(declaredType) ? declaredType : "quorum"
+    ) as QueueInfo["type"];
+
+    const options: Json = {};
+    if (type === "classic") {
+      if (binding["durable"] === false) options["durable"] = false;
+      if (binding["exclusive"] === true) options["exclusive"] = true;
+      if (binding["autoDelete"] === true) options["autoDelete"] = true;
+      if (typeof binding["maxPriority"] === "number")
+        options["maxPriority"] = binding["maxPriority"];
+    }
+    if (type === "stream") {
+      if (args["x-max-age"] !== undefined) options["maxAge"] = args["x-max-age"];
+      if (args["x-max-length-bytes"] !== undefined) {
+        options["maxLengthBytes"] = args["x-max-length-bytes"];
+      }
+      if (args["x-stream-max-segment-size-bytes"] !== undefined) {
+        options["maxSegmentSizeBytes"] = args["x-stream-max-segment-size-bytes"];
+      }
+    }
+    const remainingArgs = Object.fromEntries(
+      Object.entries(args).filter(([key]) => !DERIVED_QUEUE_ARGUMENTS.has(key)),
+    );
+    if (Object.keys(remainingArgs).length > 0) options["arguments"] = remainingArgs;
+
+    const deadLetterExchange = args["x-dead-letter-exchange"];
+    const deadLetterRoutingKey = args["x-dead-letter-routing-key"];
+    const retry = channel["x-amqp-retry"];
+    const bindings = Array.isArray(channel["x-amqp-queue-bindings"])
+      ? (channel["x-amqp-queue-bindings"] as unknown[]).filter(isObject).flatMap((entry) =>
+          typeof entry["exchange"] === "string"
+            ? [
+                {
+                  exchange: entry["exchange"],
+                  ...(typeof entry["routingKey"] === "string" && {
+                    routingKey: entry["routingKey"],
+                  }),
+                  ...(isObject(entry["arguments"]) && { arguments: entry["arguments"] }),
+                },
+              ]
+            : [],
+        )
+      : [];
+
+    return {
+      name,
+      type,
+      options,
+      ...(typeof deadLetterExchange === "string" && {
+        deadLetter: {
+          exchange: deadLetterExchange,
+          ...(typeof deadLetterRoutingKey === "string" && { routingKey: deadLetterRoutingKey }),
+        },
+      }),
+      ...(isObject(retry) && { retry }),
+      bindings,
+    };
+  }
+
+  private warn(message: string): void {
+    this.logger?.warn(`ContractSourceGenerator: ${message}`);
+  }
+}
+
+/**
+ * Writes the source of a contract module, allocating a unique identifier to
+ * every definition.
+ */
+class SourceWriter {
+  private readonly identifiers = new Set<string>();
+  private readonly imports = new Set<string>(["defineContract"]);
+  private readonly exchangeSources: string[] = [];
+  private readonly queueSources: string[] = [];
+  private readonly messageSources: string[] = [];
+  private readonly publisherSources: string[] = [];
+  private readonly exchangeIdentifiers = new Map<string, string>();
+  private readonly queueIdentifiers = new Map<string, string>();
+  private readonly messageIdentifiers = new Map<string, string>();
+
+  constructor(
+    private readonly exportName: string,
+    private readonly exchanges: Map<string, ExchangeInfo>,
+    private readonly retryInfrastructure: Set<string>,
+    /** `defaultContentType` of the document, for messages without a content type */
+    private readonly defaultContentType: string,
+    private readonly zod: ZodSourceGenerator,
+    private readonly warn: (message: string) => void,
+  ) {
+    this.identifiers.add(exportName);
+  }
+
+  write(publishers: PublisherInfo[], consumers: ConsumerInfo[]): string {
+    const publisherEntries: Json = {};
+    const publisherIdentifiers = new Map<PublisherInfo, string>();
+    for (const publisher of publishers) {
+      const identifier = this.allocate(publisher.name);
+      publisherIdentifiers.set(publisher, identifier);
+      publisherEntries[publisher.name] = new RawSource(identifier);
+
+      const exchange = this.exchange(publisher.exchange);
+      const message = this.message(publisher.message, `${identifier}Message`);
+      const routed = isRouted(publisher.exchange);
+      if (routed && publisher.routingKey === undefined) {
+        this.warn(`publisher "${publisher.name}" has no routing key (bindings.amqp.cc)`);
+      }
+      this.imports.add("defineEventPublisher");
+      this.publisherSources.push(
+        statement(identifier, "defineEventPublisher", [
+          new RawSource(exchange),
+          new RawSource(message),
+          ...(routed && publisher.routingKey !== undefined
+            ? [{ routingKey: publisher.routingKey }]
+            : []),
+        ]),
+      );
+    }
+
+    const consumerEntries: Json = {};
+    for (const consumer of consumers) {
+      consumerEntries[consumer.name] = this.consumer(consumer, publishers, publisherIdentifiers);
+    }
+
+    const contract: Json = {
+      ...(publishers.length > 0 && { publishers: publisherEntries }),
+      ...(consumers.length > 0 && { consumers: consumerEntries }),
+    };
+    const imports = [...this.imports].toSorted().map((name) => `  ${name},\n`);
+    return [
+      "// Generated from an AsyncAPI document by @amqp-contract/asyncapi.\n",
+      `import {\n${imports.join("")}} from "@amqp-contract/contract";\nimport { z } from "zod";\n`,
+      ...[this.exchangeSources, this.queueSources, this.messageSources, this.publisherSources]
+        .filter((section) => section.length > 0)
+        .map((section) => section.join("")),
+      `export const ${this.exportName} = ${call("defineContract", [contract], "", `export const ${this.exportName} = `.length)};\n`,
+    ].join("\n");
+  }
+
+  /**
+   * Consumer definition: an event consumer of a publisher with the same
+   * message and exchange, else a command consumer of its exchange binding,
+   * else an unbound consumer.
+   */
+  private consumer(
+    consumer: ConsumerInfo,
+    publishers: PublisherInfo[],
+    publisherIdentifiers: Map<PublisherInfo, string>,
+  ): RawSource {
+    const queue = new RawSource(this.queue(consumer.queue));
+    const bindings = consumer.queue.bindings.filter(
+      (binding) => !this.retryInfrastructure.has(binding.exchange),
+    );
+    if (bindings.length > 1) {
+      this.warn(
+        `queue "${consumer.queue.name}" has ${bindings.length} bindings, only the first one is generated`,
+      );
+    }
+    const [binding] = bindings;
+    const exchange = binding && this.exchangeInfo(binding.exchange);
+    const messageName = `${camelCase(consumer.name)}Message`;
+
+    if (!binding || !exchange) {
+      this.imports.add("defineConsumer");
+      const message = new RawSource(this.message(consumer.message, messageName));
+      return callSource("defineConsumer", [queue, message]);
+    }
+
+    const routed = isRouted(exchange);
+    const candidates = publishers.filter(
+      (publisher) =>
+        publisher.exchange.name === exchange.name && publisher.message.key === consumer.message.key,
+    );
+    const publisher =
+      candidates.find((candidate) => !routed || candidate.routingKey === binding.routingKey) ??
+      (exchange.type === "topic" ? candidates[0] : undefined);
+
+    if (publisher) {
+      this.imports.add("defineEventConsumer");
+      const options: Json = {
+        ...(routed &&
+          binding.routingKey !== undefined &&
+          binding.routingKey !== publisher.routingKey && { routingKey: binding.routingKey }),
+        ...(binding.arguments && { arguments: binding.arguments }),
+      };
+      return callSource("defineEventConsumer", [
+        new RawSource(publisherIdentifiers.get(publisher) ?? ""),
+        queue,
+        ...(Object.keys(options).length > 0 ? [options] : []),
+      ]);
+    }
+
+    this.imports.add("defineCommandConsumer");
+    const options: Json = {
+      ...(routed && binding.routingKey !== undefined && { routingKey: binding.routingKey }),
+      ...(binding.arguments && { arguments: binding.arguments }),
+    };
+    return callSource("defineCommandConsumer", [
+      queue,
+      new RawSource(this.exchange(exchange)),
+      new RawSource(this.message(consumer.message, messageName)),
+      ...(Object.keys(options).length > 0 ? [options] : []),
+    ]);
+  }
+
+  private exchangeInfo(name: string): ExchangeInfo | undefined {
+    const exchange = this.exchanges.get(name);
+    if (!exchange) this.warn(`exchange "${name}" is not defined by any channel`);
+    return exchange;
+  }
+
+  private exchange(exchange: ExchangeInfo): string {
+    const existing = this.exchangeIdentifiers.get(exchange.name);
+    if (existing) return existing;
+
+    const identifier = this.allocate(exchange.name, "Exchange");
+    this.exchangeIdentifiers.set(exchange.name, identifier);
+    this.imports.add("defineExchange");
+    this.exchangeSources.push(
+      statement(identifier, "defineExchange", [
+        exchange.name,
+        { type: exchange.type, ...exchange.options },
+      ]),
+    );
+    return identifier;
+  }
+
+  private queue(queue: QueueInfo): string {
+    const existing = this.queueIdentifiers.get(queue.name);
+    if (existing) return existing;
+
+    const options: Json = {
+      ...(queue.type !== "quorum" && { type: queue.type }),
+      ...queue.options,
+    };
+    if (queue.deadLetter) {
+      const exchange = this.exchangeInfo(queue.deadLetter.exchange);
+      if (!exchange) this.imports.add("defineExchange");
+      options["deadLetter"] = {
+        exchange: exchange
+          ? new RawSource(this.exchange(exchange))
+          : callSource("defineExchange", [queue.deadLetter.exchange]),
+        ...(queue.deadLetter.routingKey !== undefined && {
+          routingKey: queue.deadLetter.routingKey,
+        }),
+      };
+    }
+    if (queue.retry) options["retry"] = this.retry(queue);
+
+    const identifier = this.allocate(queue.name, "Queue");
+    this.queueIdentifiers.set(queue.name, identifier);
+    this.imports.add("defineQueue");
+    this.queueSources.push(
+      statement(identifier, "defineQueue", [
+        queue.name,
+        ...(Object.keys(options).length > 0 ? [options] : []),
+      ]),
+    );
+    return identifier;
+  }
+
+  /**
+   * Retry options of a queue, leaving out the default names of the ttl-backoff
+   * infrastructure.
+   */
+  private retry(queue: QueueInfo): Json {
+    const retry = { ...queue.retry };
+    const defaults: Json = {
+      waitQueueName: `${queue.name}-wait`,
+      waitExchangeName: "wait-exchange",
+      retryExchangeName: "retry-exchange",
+    };
+    for (const [key, value] of Object.entries(defaults)) {
+      if (retry[key] === value) delete retry[key];
+    }
+    return retry;
+  }
+
+  private message({ key, message }: MessageInfo, name: string): string {
+    const existing = this.messageIdentifiers.get(key);
+    if (existing) return existing;
+
+    const identifier = this.allocate(name);
+    this.messageIdentifiers.set(key, identifier);
+    this.imports.add("defineMessage");
+
+    const options: Json = {};
+    if (message["headers"] !== undefined) {
+      const headers = message["headers"];
+      options["headers"] = new RawSource((indent) => this.zod.generate(headers, indent));
+    }
+    const contentType = stringOr(message["contentType"], this.defaultContentType);
+    if (contentType !== DEFAULT_CONTENT_TYPE) options["contentType"] = contentType;
+    if (typeof message["summary"] === "string") options["summary"] = message["summary"];
+    if (typeof message["description"] === "string") {
+      options["description"] = message["description"];
+    }
+    this.messageSources.push(
+      statement(identifier, "defineMessage", [
+        new RawSource((indent) => this.zod.generate(message["payload"], indent)),
+        ...(Object.keys(options).length > 0 ? [options] : []),
+      ]),
+    );
+    return identifier;
+  }
+
+  /**
+   * Allocate a unique identifier, e.g. `orderProcessingQueue` for
+   * `order-processing` with the `Queue` suffix.
+   */
+  private allocate(name: string, suffix = ""): string {
+    const camel = camelCase(name);
+    const base = camel.toLowerCase().endsWith(suffix.toLowerCase()) ? camel : `${camel}${suffix}`;
+    let identifier = base;
+    for (let counter = 2; this.identifiers.has(identifier) || RESERVED_WORDS.has(identifier); ) {
+      identifier = `${base}${counter++}`;
+    }
+    this.identifiers.add(identifier);
+    return identifier;
+  }
+}
+
+function isRouted(exchange: ExchangeInfo): boolean {
+  return exchange.type === "direct" || exchange.type === "topic";
+}
+
+/**
+ * camelCase identifier for a name, e.g. `orderProcessing` for
+ * `order-processing`.
+ */
+function camelCase(name: string): string {
+  const camel = name
+    .split(/[^A-Za-z0-9]+/)
+    .filter((word) => word.length > 0)
+    .map((word, index) =>
+      index === 0
+        ? word.charAt(0).toLowerCase() + word.slice(1)
+        : word.charAt(0).toUpperCase() + word.slice(1),
+    )
+    .join("");
+  return /^[A-Za-z_$]/.test(camel) ? camel : `_${camel}`;
+}
+
+/**
+ * Source of a `const` declaration initialized with a function call.
+ */
+function statement(identifier: string, callee: string, args: unknown[]): string {
+  const prefix = `const ${identifier} = `;
+  return `${prefix}${call(callee, args, "", prefix.length)};\n`;
+}
+
+function callSource(callee: string, args: unknown[]): RawSource {
+  return new RawSource((indent, offset) => call(callee, args, indent, offset));
+}
+
+/**
+ * Source of a function call, on one line when it fits, else with the last
+ * object argument hugged, else with one argument per line.
+ */
+function call(callee: string, args: unknown[], indent: string, offset: number): string {
+  const inline = `${callee}(${args.map((arg) => toSource(arg, indent, 0)).join(", ")})`;
+  if (!inline.includes("\n") && offset + inline.length < PRINT_WIDTH) return inline;
+
+  const last = args.at(-1);
+  const head = args.slice(0, -1).map((arg) => toSource(arg, indent, 0));
+  const huggedHead = `${callee}(${head.map((arg) => `${arg}, `).join("")}{`;
+  if (
+    isObject(last) &&
+    !(last instanceof RawSource) &&
+    !head.some((arg) => arg.includes("\n")) &&
+    offset + huggedHead.length < PRINT_WIDTH
+  ) {
+    return `${callee}(${head.map((arg) => `${arg}, `).join("")}${toSource(last, indent, Infinity)})`;
+  }
+
+  const inner = `${indent}  `;
+  const lines = args.map((arg) => `${inner}${toSource(arg, inner, inner.length)},\n`);
+  return `${callee}(\n${lines.join("")}${indent})`;
+}
+
+/**
+ * Source code of a value starting at column `offset`, printing
+ * {@link RawSource} values as is.
+ */
+function toSource(value: unknown, indent: string, offset: number): string {
+  if (value instanceof RawSource) return value.render(indent, offset);
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => toSource(item, indent, 0)).join(", ")}]`;
+  }
+  if (!isObject(value)) return JSON.stringify(value) ?? "undefined";
+
+  const entries = Object.entries(value).filter(([, entry]) => entry !== undefined);
+  if (entries.length === 0) return "{}";
+  const inline = `{ ${entries
+    .map(([key, entry]) => printEntry(key, entry, indent, 0))
+    .join(", ")} }`;
+  if (!inline.includes("\n") && offset + inline.length < PRINT_WIDTH) return inline;
+
+  const inner = `${indent}  `;
+  const lines = entries.map(
+    ([key, entry]) => `${inner}${printEntry(key, entry, inner, inner.length)},\n`,
+  );
+  return `{\n${lines.join("")}${indent}}`;
+}
+
+function printEntry(key: string, value: unknown, indent: string, offset: number): string {
+  if (value instanceof RawSource && value.code === key) return key;
+  const prefix = `${propertyKey(key)}: `;
+  return `${prefix}${toSource(value, indent, offset + prefix.length)}`;
+}
+
+function isObject(value: unknown): value is Json {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function asObject(value: unknown): Json {
+  return isObject(value) ? value : {};
+}
+
+function stringOr(value: unknown, fallback: string): string {
+  return typeof value === "string" ? value : fallback;
+}
+
+function isExchange(target: ExchangeInfo | QueueInfo): target is ExchangeInfo {
+  return !("bindings" in target);
+}
+
+function resolvePointer(document: Json, ref: string): unknown {
+  if (!ref.startsWith("#/")) {
+    throw new Error(`ContractSourceGenerator: only local $refs are supported, got "${ref}"`);
+  }
+  let current: unknown = document;
+  for (const segment of ref.slice(2).split("/")) {
+    const key = decodeURIComponent(segment).replaceAll("~1", "/").replaceAll("~0", "~");
+    if (typeof current !== "object" || current === null) {
+      throw new Error(`ContractSourceGenerator: cannot resolve $ref "${ref}"`);
+    }
+    current = (current as Json)[key];
+  }
+  if (current === undefined) {
+    throw new Error(`ContractSourceGenerator: cannot resolve $ref "${ref}"`);
+  }
+  return current;
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+  if (!isObject(value)) return JSON.stringify(value) ?? "undefined";
+  return `{${Object.keys(value)
+    .toSorted()
+    .map((key) => `${JSON.stringify(key)}:${stableStringify(value[key])}`)
+    .join(",")}}`;
+}
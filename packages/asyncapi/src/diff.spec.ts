@@ -0,0 +1,244 @@
+import {
+  type ContractDefinition,
+  defineConsumer,
+  defineContract,
+  defineEventConsumer,
+  defineEventPublisher,
+  defineExchange,
+  defineMessage,
+  defineQueue,
+  defineRpc,
+} from "@amqp-contract/contract";
+import { ZodToJsonSchemaConverter } from "@orpc/zod/zod4";
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+import { diffContracts } from "./diff.js";
+
+const options = { schemaConverters: [new ZodToJsonSchemaConverter()] };
+
+const ordersContract = (
+  payload: z.ZodObject,
+  {
+    exchangeDurable = true,
+    queueType = "quorum",
+    routingKey = "order.created",
+  }: {
+    exchangeDurable?: boolean;
+    queueType?: "quorum" | "classic";
+    routingKey?: string;
+  } = {},
+): ContractDefinition => {
+  const orderCreated = defineEventPublisher(
+    defineExchange("orders", { type: "topic", durable: exchangeDurable }),
+    defineMessage(payload),
+    { routingKey },
+  );
+  return defineContract({
+    publishers: { orderCreated },
+    consumers: {
+      processOrder: defineEventConsumer(
+        orderCreated,
+        defineQueue("order-processing", { type: queueType }),
+      ),
+    },
+  });
+};
+
+describe("diffContracts", () => {
+  it("should report no changes for equivalent contracts", async () => {
+    // GIVEN
+    const payload = z.object({ orderId: z.string() });
+
+    // WHEN
+    const diff = await diffContracts(ordersContract(payload), ordersContract(payload), options);
+
+    // THEN
+    expect(diff).toEqual({ changes: [], breaking: false });
+  });
+
+  it("should report declaration changes of exchanges and queues as breaking", async () => {
+    // GIVEN
+    const payload = z.object({ orderId: z.string() });
+
+    // WHEN
+    const diff = await diffContracts(
+      ordersContract(payload),
+      ordersContract(payload, { exchangeDurable: false, queueType: "classic" }),
+      options,
+    );
+
+    // THEN
+    expect(diff.breaking).toBe(true);
+    expect(diff.changes).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({
+          severity: "breaking",
+          kind: "exchange",
+          path: "exchanges.orders.durable",
+        }),
+        expect.objectContaining({
+          severity: "breaking",
+          kind: "queue",
+          path: "queues.order-processing.type",
+        }),
+      ]),
+    );
+  });
+
+  it("should report a changed routing key and binding as breaking", async () => {
+    // GIVEN
+    const payload = z.object({ orderId: z.string() });
+
+    // WHEN
+    const diff = await diffContracts(
+      ordersContract(payload),
+      ordersContract(payload, { routingKey: "order.placed" }),
+      options,
+    );
+
+    // THEN
+    expect(diff.changes).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({
+          severity: "breaking",
+          path: "publishers.orderCreated.routingKey",
+          message: 'routingKey changed from "order.created" to "order.placed"',
+        }),
+        expect.objectContaining({ severity: "breaking", kind: "binding" }),
+        expect.objectContaining({ severity: "compatible", kind: "binding" }),
+      ]),
+    );
+  });
+
+  it("should classify payload schema changes", async () => {
+    // GIVEN
+    const before = z.object({ orderId: z.string(), amount: z.number(), note: z.string() });
+    const after = z.object({
+      orderId: z.string().describe("Order identifier"),
+      amount: z.string(),
+      customerId: z.string(),
+      currency: z.string().optional(),
+    });
+
+    // WHEN
+    const diff = await diffContracts(ordersContract(before), ordersContract(after), options);
+
+    // THEN
+    const payloadChanges = diff.changes
+      .filter((change) => change.path.startsWith("publishers.orderCreated.message.payload"))
+      .map(({ severity, path }) => ({ severity, path }));
+    expect(payloadChanges).toEqual(
+      expect.arrayContaining([
+        {
+          severity: "compatible",
+          path: "publishers.orderCreated.message.payload.properties.orderId.description",
+        },
+        {
+          severity: "breaking",
+          path: "publishers.orderCreated.message.payload.properties.amount.type",
+        },
+        { severity: "breaking", path: "publishers.orderCreated.message.payload.properties.note" },
+        {
+          severity: "breaking",
+          path: "publishers.orderCreated.message.payload.properties.customerId",
+        },
+        {
+          severity: "compatible",
+          path: "publishers.orderCreated.message.payload.properties.currency",
+        },
+      ]),
+    );
+    expect(payloadChanges).toHaveLength(5);
+  });
+
+  it("should compare union branches schema by schema", async () => {
+    // GIVEN
+    const before = z.object({
+      status: z.union([z.literal("paid"), z.number()]),
+      note: z.string().nullable(),
+    });
+    const after = z.object({
+      status: z.union([z.literal("paid").describe("Paid order"), z.number()]),
+      note: z.string().max(100).nullable(),
+    });
+
+    // WHEN
+    const diff = await diffContracts(ordersContract(before), ordersContract(after), options);
+
+    // THEN
+    const payloadChanges = diff.changes
+      .filter((change) => change.path.startsWith("publishers.orderCreated.message.payload"))
+      .map(({ severity, path }) => ({ severity, path }));
+    expect(payloadChanges).toEqual([
+      {
+        severity: "compatible",
+        path: "publishers.orderCreated.message.payload.properties.status.anyOf.0.description",
+      },
+      {
+        severity: "breaking",
+        path: "publishers.orderCreated.message.payload.properties.note.anyOf.0.maxLength",
+      },
+    ]);
+  });
+
+  it("should report removed publishers and rpcs as breaking and added ones as compatible", async () => {
+    // GIVEN
+    const rpc = defineRpc(defineQueue("rpc-add", { type: "classic" }), {
+      request: defineMessage(z.object({ a: z.number() })),
+      response: defineMessage(z.object({ sum: z.number() })),
+    });
+    const orderCreated = defineEventPublisher(
+      defineExchange("orders"),
+      defineMessage(z.object({ orderId: z.string() })),
+      { routingKey: "order.created" },
+    );
+
+    // WHEN
+    const diff = await diffContracts(
+      defineContract({ rpcs: { add: rpc } }),
+      defineContract({ publishers: { orderCreated } }),
+      options,
+    );
+
+    // THEN
+    expect(diff.changes).toEqual([
+      expect.objectContaining({
+        severity: "compatible",
+        kind: "exchange",
+        path: "exchanges.orders",
+      }),
+      expect.objectContaining({ severity: "breaking", kind: "queue", path: "queues.rpc-add" }),
+      expect.objectContaining({
+        severity: "compatible",
+        kind: "publisher",
+        path: "publishers.orderCreated",
+      }),
+      expect.objectContaining({ severity: "breaking", kind: "rpc", path: "rpcs.add" }),
+    ]);
+  });
+
+  it("should report retry option changes within the same mode as compatible", async () => {
+    // GIVEN
+    const queue = (maxRetries: number) =>
+      defineQueue("order-processing", {
+        deadLetter: { exchange: defineExchange("orders-dlx") },
+        retry: { mode: "immediate-requeue", maxRetries },
+      });
+    const message = defineMessage(z.object({ orderId: z.string() }));
+
+    // WHEN
+    const diff = await diffContracts(
+      defineContract({ consumers: { processOrder: defineConsumer(queue(3), message) } }),
+      defineContract({ consumers: { processOrder: defineConsumer(queue(5), message) } }),
+      options,
+    );
+
+    // THEN
+    expect(diff).toEqual({
+      changes: [
+        expect.objectContaining({ severity: "compatible", path: "queues.order-processing.retry" }),
+      ],
+      breaking: false,
+    });
+  });
+});
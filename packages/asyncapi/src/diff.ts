@@ -0,0 +1,540 @@
+import type {
+  BindingDefinition,
+  ContractDefinition,
+  ExchangeDefinition,
+  MessageDefinition,
+  QueueDefinition,
+} from "@amqp-contract/contract";
+import { extractConsumer, extractQueue } from "@amqp-contract/contract";
+import type { JSONSchema } from "@orpc/openapi";
+import type { AsyncAPIGeneratorOptions } from "./index.js";
+import { convertSchema, type SchemaConversionOptions } from "./schema.js";
+
+/**
+ * Options for {@link diffContracts}.
+ */
+export type DiffContractsOptions = AsyncAPIGeneratorOptions;
+
+/**
+ * Whether a change can break services built against the other version of the
+ * contract.
+ */
+export type ContractChangeSeverity = "breaking" | "compatible";
+
+/**
+ * A single difference between two contracts.
+ */
+export type ContractChange = {
+  /** Whether the change can break services built against the old contract */
+  severity: ContractChangeSeverity;
+  /** Kind of contract element that changed */
+  kind: "exchange" | "queue" | "binding" | "publisher" | "consumer" | "rpc";
+  /**
+   * Location of the change, e.g. `exchanges.orders.type` or
+   * `publishers.orderCreated.message.payload.properties.amount`
+   */
+  path: string;
+  /** Human-readable description of the change */
+  message: string;
+};
+
+/**
+ * Result of {@link diffContracts}.
+ */
+export type ContractDiff = {
+  /** Every difference found, breaking and compatible */
+  changes: ContractChange[];
+  /** Whether at least one change is breaking */
+  breaking: boolean;
+};
+
+/**
+ * JSON Schema keywords that document a schema without changing which values
+ * it accepts.
+ */
+const ANNOTATION_KEYWORDS = new Set([
+  "$comment",
+  "default",
+  "deprecated",
+  "description",
+  "examples",
+  "readOnly",
+  "title",
+  "writeOnly",
+]);
+
+/**
+ * JSON Schema keywords combining subschemas, compared branch by branch so
+ * that annotation-only changes inside a branch stay compatible.
+ */
+const COMPOSITION_KEYWORDS = ["allOf", "anyOf", "oneOf"] as const;
+
+/**
+ * Compare two contracts and classify every difference as breaking or
+ * compatible.
+ *
+ * Contracts are shared by services deployed independently, so a change is
+ * breaking when a service built against one version can fail against a
+ * service built against the other:
+ *
+ * - Exchanges, queues and bindings are compared by AMQP name. Removing one,
+ *   or changing how it is declared, is breaking: redeclaring an existing
+ *   exchange or queue with other properties fails. Adding one is compatible.
+ * - Publishers, consumers and RPCs are compared by contract key. Removing
+ *   one, or changing its exchange, routing key or queue, is breaking.
+ * - Message payloads and headers are compared as JSON Schema, converted
+ *   with the same `schemaConverters` as the {@link AsyncAPIGenerator}.
+ *   Adding or removing an optional property and changing annotations such
+ *   as `description` are compatible. Any other change that makes the schema
+ *   accept more or fewer values is breaking, since either old publishers or
+ *   old consumers would then see messages their schema rejects.
+ *
+ * @param oldContract - The contract currently deployed
+ * @param newContract - The contract to compare it with
+ * @param options - Schema converters used to compare message schemas
+ * @returns Promise resolving to the changes between the two contracts
+ *
+ * @example
+ * ```typescript
+ * import { diffContracts } from '@amqp-contract/asyncapi';
+ * import { ZodToJsonSchemaConverter } from '@orpc/zod/zod4';
+ *
+ * const diff = await diffContracts(previousContract, contract, {
+ *   schemaConverters: [new ZodToJsonSchemaConverter()],
+ * });
+ * if (diff.breaking) {
+ *   console.error(diff.changes.filter((change) => change.severity === 'breaking'));
+ * }
+ * ```
+ */
+export async function diffContracts(
+  oldContract: ContractDefinition,
+  newContract: ContractDefinition,
+  options: DiffContractsOptions = {},
+): Promise<ContractDiff> {
+  const differ = new ContractDiffer({
+    converters: options.schemaConverters ?? [],
+    logger: options.logger,
+    failOnMissingConverter: options.failOnMissingConverter ?? false,
+    source: "diffContracts",
+  });
+
+  differ.diffExchanges(oldContract, newContract);
+  differ.diffQueues(oldContract, newContract);
+  differ.diffBindings(oldContract, newContract);
+  await differ.diffPublishers(oldContract, newContract);
+  await differ.diffConsumers(oldContract, newContract);
+  await differ.diffRpcs(oldContract, newContract);
+
+  return {
+    changes: differ.changes,
+    breaking: differ.changes.some((change) => change.severity === "breaking"),
+  };
+}
+
+/**
+ * Accumulates the changes between two contracts.
+ */
+class ContractDiffer {
+  readonly changes: ContractChange[] = [];
+
+  constructor(private readonly conversion: SchemaConversionOptions) {}
+
+  diffExchanges(oldContract: ContractDefinition, newContract: ContractDefinition): void {
+    const oldExchanges = byName(Object.values(oldContract.exchanges ?? {}));
+    const newExchanges = byName(Object.values(newContract.exchanges ?? {}));
+
+    this.diffKeys("exchange", "exchanges", oldExchanges, newExchanges, (path, before, after) =>
+      this.diffDeclaration(
+        "exchange",
+        path,
+        exchangeDeclaration(before),
+        exchangeDeclaration(after),
+      ),
+    );
+  }
+
+  diffQueues(oldContract: ContractDefinition, newContract: ContractDefinition): void {
+    const oldQueues = byName(Object.values(oldContract.queues ?? {}).map(extractQueue));
+    const newQueues = byName(Object.values(newContract.queues ?? {}).map(extractQueue));
+
+    this.diffKeys("queue", "queues", oldQueues, newQueues, (path, before, after) => {
+      this.diffDeclaration("queue", path, queueDeclaration(before), queueDeclaration(after));
+
+      if (before.retry.mode !== after.retry.mode) {
+        this.add(
+          "breaking",
+          "queue",
+          `${path}.retry.mode`,
+          `retry mode changed from "${before.retry.mode}" to "${after.retry.mode}"`,
+        );
+      } else if (!isDeepEqual(before.retry, after.retry)) {
+        this.add("compatible", "queue", `${path}.retry`, "retry options changed");
+      }
+    });
+  }
+
+  diffBindings(oldContract: ContractDefinition, newContract: ContractDefinition): void {
+    const oldBindings = new Map(
+      Object.values(oldContract.bindings ?? {}).map((binding) => [bindingKey(binding), binding]),
+    );
+    const newBindings = new Map(
+      Object.values(newContract.bindings ?? {}).map((binding) => [bindingKey(binding), binding]),
+    );
+
+    // A binding is identified by all its properties, so a changed binding is
+    // reported as one removed and one added binding.
+    this.diffKeys("binding", "bindings", oldBindings, newBindings, () => {});
+  }
+
+  async diffPublishers(
+    oldContract: ContractDefinition,
+    newContract: ContractDefinition,
+  ): Promise<void> {
+    await this.diffKeysAsync(
+      "publisher",
+      "publishers",
+      toMap(oldContract.publishers),
+      toMap(newContract.publishers),
+      async (path, before, after) => {
+        this.diffReference(
+          "publisher",
+          `${path}.exchange`,
+          before.exchange.name,
+          after.exchange.name,
+        );
+        this.diffReference("publisher", `${path}.routingKey`, before.routingKey, after.routingKey);
+        await this.diffMessage("publisher", `${path}.message`, before.message, after.message);
+      },
+    );
+  }
+
+  async diffConsumers(
+    oldContract: ContractDefinition,
+    newContract: ContractDefinition,
+  ): Promise<void> {
+    await this.diffKeysAsync(
+      "consumer",
+      "consumers",
+      toMap(oldContract.consumers),
+      toMap(newContract.consumers),
+      async (path, beforeEntry, afterEntry) => {
+        const before = extractConsumer(beforeEntry);
+        const after = extractConsumer(afterEntry);
+        this.diffReference(
+          "consumer",
+          `${path}.queue`,
+          extractQueue(before.queue).name,
+          extractQueue(after.queue).name,
+        );
+        await this.diffMessage("consumer", `${path}.message`, before.message, after.message);
+      },
+    );
+  }
+
+  async diffRpcs(oldContract: ContractDefinition, newContract: ContractDefinition): Promise<void> {
+    await this.diffKeysAsync(
+      "rpc",
+      "rpcs",
+      toMap(oldContract.rpcs),
+      toMap(newContract.rpcs),
+      async (path, before, after) => {
+        this.diffReference(
+          "rpc",
+          `${path}.queue`,
+          extractQueue(before.queue).name,
+          extractQueue(after.queue).name,
+        );
+        await this.diffMessage("rpc", `${path}.request`, before.request, after.request);
+        await this.diffMessage("rpc", `${path}.response`, before.response, after.response);
+      },
+    );
+  }
+
+  private diffKeys<T>(
+    kind: ContractChange["kind"],
+    section: string,
+    before: Map<string, T>,
+    after: Map<string, T>,
+    diffCommon: (path: string, before: T, after: T) => void,
+  ): void {
+    for (const [key, value] of before) {
+      const path = `${section}.${key}`;
+      const next = after.get(key);
+      if (next === undefined) {
+        this.add("breaking", kind, path, `${kind} "${key}" removed`);
+      } else {
+        diffCommon(path, value, next);
+      }
+    }
+    for (const key of after.keys()) {
+      if (!before.has(key)) {
+        this.add("compatible", kind, `${section}.${key}`, `${kind} "${key}" added`);
+      }
+    }
+  }
+
+  private async diffKeysAsync<T>(
+    kind: ContractChange["kind"],
+    section: string,
+    before: Map<string, T>,
+    after: Map<string, T>,
+    diffCommon: (path: string, before: T, after: T) => Promise<void>,
+  ): Promise<void> {
+    const common: Array<[string, T, T]> = [];
+    this.diffKeys(kind, section, before, after, (path, value, next) => {
+      common.push([path, value, next]);
+    });
+    for (const [path, value, next] of common) {
+      await diffCommon(path, value, next);
+    }
+  }
+
+  /**
+   * Compare the properties an exchange or a queue is declared with.
+   */
+  private diffDeclaration(
+    kind: ContractChange["kind"],
+    path: string,
+    before: Record<string, unknown>,
+    after: Record<string, unknown>,
+  ): void {
+    for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+      if (!isDeepEqual(before[key], after[key])) {
+        this.add(
+          "breaking",
+          kind,
+          `${path}.${key}`,
+          `${key} changed from ${format(before[key])} to ${format(after[key])}`,
+        );
+      }
+    }
+  }
+
+  private diffReference(
+    kind: ContractChange["kind"],
+    path: string,
+    before: string | undefined,
+    after: string | undefined,
+  ): void {
+    if (before !== after) {
+      const property = path.slice(path.lastIndexOf(".") + 1);
+      this.add(
+        "breaking",
+        kind,
+        path,
+        `${property} changed from ${format(before)} to ${format(after)}`,
+      );
+    }
+  }
+
+  private async diffMessage(
+    kind: ContractChange["kind"],
+    path: string,
+    before: MessageDefinition,
+    after: MessageDefinition,
+  ): Promise<void> {
+    const [oldPayload, newPayload] = await Promise.all([
+      convertSchema(before.payload, "input", this.conversion),
+      convertSchema(after.payload, "input", this.conversion),
+    ]);
+    this.diffSchema(kind, `${path}.payload`, oldPayload, newPayload);
+
+    const [oldHeaders, newHeaders] = await Promise.all([
+      before.headers ? convertSchema(before.headers, "input", this.conversion) : undefined,
+      after.headers ? convertSchema(after.headers, "input", this.conversion) : undefined,
+    ]);
+    if (oldHeaders === undefined && newHeaders !== undefined) {
+      this.add("breaking", kind, `${path}.headers`, "headers schema added");
+    } else if (oldHeaders !== undefined && newHeaders === undefined) {
+      this.add("breaking", kind, `${path}.headers`, "headers schema removed");
+    } else if (oldHeaders !== undefined && newHeaders !== undefined) {
+      this.diffSchema(kind, `${path}.headers`, oldHeaders, newHeaders);
+    }
+  }
+
+  private diffSchema(
+    kind: ContractChange["kind"],
+    path: string,
+    before: JSONSchema,
+    after: JSONSchema,
+  ): void {
+    if (isDeepEqual(before, after)) return;
+    if (typeof before === "boolean" || typeof after === "boolean") {
+      this.add("breaking", kind, path, `schema changed from ${format(before)} to ${format(after)}`);
+      return;
+    }
+
+    const oldProperties = before.properties ?? {};
+    const newProperties = after.properties ?? {};
+    const oldRequired = new Set(before.required ?? []);
+    const newRequired = new Set(after.required ?? []);
+    const propertyNames = new Set([
+      ...Object.keys(oldProperties),
+      ...Object.keys(newProperties),
+      ...oldRequired,
+      ...newRequired,
+    ]);
+
+    for (const name of propertyNames) {
+      const propertyPath = `${path}.properties.${name}`;
+      const oldProperty = oldProperties[name];
+      const newProperty = newProperties[name];
+
+      if (oldProperty === undefined && newProperty !== undefined) {
+        if (newRequired.has(name)) {
+          this.add("breaking", kind, propertyPath, `required property "${name}" added`);
+        } else if (before.additionalProperties === false) {
+          this.add(
+            "breaking",
+            kind,
+            propertyPath,
+            `property "${name}" added while additional properties were not allowed`,
+          );
+        } else {
+          this.add("compatible", kind, propertyPath, `optional property "${name}" added`);
+        }
+        continue;
+      }
+
+      if (oldProperty !== undefined && newProperty === undefined) {
+        if (oldRequired.has(name)) {
+          this.add("breaking", kind, propertyPath, `required property "${name}" removed`);
+        } else if (after.additionalProperties === false) {
+          this.add(
+            "breaking",
+            kind,
+            propertyPath,
+            `property "${name}" removed while additional properties are not allowed`,
+          );
+        } else {
+          this.add("compatible", kind, propertyPath, `optional property "${name}" removed`);
+        }
+        continue;
+      }
+
+      if (oldRequired.has(name) !== newRequired.has(name)) {
+        this.add(
+          "breaking",
+          kind,
+          propertyPath,
+          newRequired.has(name)
+            ? `property "${name}" became required`
+            : `property "${name}" became optional`,
+        );
+      }
+      if (oldProperty !== undefined && newProperty !== undefined) {
+        this.diffSchema(kind, propertyPath, oldProperty, newProperty);
+      }
+    }
+
+    if (
+      before.items !== undefined &&
+      after.items !== undefined &&
+      !Array.isArray(before.items) &&
+      !Array.isArray(after.items)
+    ) {
+      this.diffSchema(kind, `${path}.items`, before.items, after.items);
+    } else if (!isDeepEqual(before.items, after.items)) {
+      this.add("breaking", kind, `${path}.items`, "items schema changed");
+    }
+
+    for (const keyword of COMPOSITION_KEYWORDS) {
+      const oldBranches = before[keyword];
+      const newBranches = after[keyword];
+      if (oldBranches !== undefined && newBranches?.length === oldBranches.length) {
+        oldBranches.forEach((oldBranch, index) =>
+          this.diffSchema(kind, `${path}.${keyword}.${index}`, oldBranch, newBranches[index]!),
+        );
+      } else if (!isDeepEqual(oldBranches, newBranches)) {
+        this.add(
+          "breaking",
+          kind,
+          `${path}.${keyword}`,
+          `${keyword} changed from ${format(oldBranches)} to ${format(newBranches)}`,
+        );
+      }
+    }
+
+    const handled = new Set<string>(["properties", "required", "items", ...COMPOSITION_KEYWORDS]);
+    const keywords = new Set([...Object.keys(before), ...Object.keys(after)]);
+    for (const keyword of keywords) {
+      if (handled.has(keyword)) continue;
+      const oldValue = (before as Record<string, unknown>)[keyword];
+      const newValue = (after as Record<string, unknown>)[keyword];
+      if (isDeepEqual(oldValue, newValue)) continue;
+      this.add(
+        ANNOTATION_KEYWORDS.has(keyword) ? "compatible" : "breaking",
+        kind,
+        `${path}.${keyword}`,
+        `${keyword} changed from ${format(oldValue)} to ${format(newValue)}`,
+      );
+    }
+  }
+
+  private add(
+    severity: ContractChangeSeverity,
+    kind: ContractChange["kind"],
+    path: string,
+    message: string,
+  ): void {
+    this.changes.push({ severity, kind, path, message });
+  }
+}
+
+/**
+ * Properties an exchange is declared with.
+ */
+function exchangeDeclaration({ name: _name, ...declaration }: ExchangeDefinition) {
+  return declaration as Record<string, unknown>;
+}
+
+/**
+ * Properties a queue is declared with. The dead letter exchange is compared
+ * by name, and the retry policy separately.
+ */
+function queueDeclaration({
+  name: _name,
+  retry: _retry,
+  deadLetter,
+  ...declaration
+}: QueueDefinition) {
+  return {
+    ...declaration,
+    ...(deadLetter && {
+      deadLetter: { exchange: deadLetter.exchange.name, routingKey: deadLetter.routingKey },
+    }),
+  } as Record<string, unknown>;
+}
+
+function bindingKey(binding: BindingDefinition): string {
+  const routing = `${binding.routingKey ?? ""}${binding.arguments ? ` ${format(binding.arguments)}` : ""}`;
+  return binding.type === "queue"
+    ? `queue ${binding.queue.name} <- ${binding.exchange.name}${routing ? ` ${routing}` : ""}`
+    : `exchange ${binding.destination.name} <- ${binding.source.name}${routing ? ` ${routing}` : ""}`;
+}
+
+function byName<T extends { name: string }>(definitions: T[]): Map<string, T> {
+  return new Map(definitions.map((definition) => [definition.name, definition]));
+}
+
+function toMap<T>(record: Record<string, T> | undefined): Map<string, T> {
+  return new Map(Object.entries(record ?? {}));
+}
+
+function format(value: unknown): string {
+  return value === undefined ? "undefined" : JSON.stringify(value);
+}
+
+function isDeepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== "object" || typeof b !== "object" || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  const aRecord = a as Record<string, unknown>;
+  const bRecord = b as Record<string, unknown>;
+  const keys = new Set([...Object.keys(aRecord), ...Object.keys(bRecord)]);
+  for (const key of keys) {
+    if (!isDeepEqual(aRecord[key], bRecord[key])) return false;
+  }
+  return true;
+}
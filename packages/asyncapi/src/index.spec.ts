@@ -1770,6 +1770,50 @@ describe("AsyncAPIGenerator", () => {
       );
     });
 
+    it("emits stream retention arguments on stream queue channels", async () => {
+      const exchange = defineExchange("audit", { type: "fanout" });
+      const queue = defineQueue("audit-log", {
+        type: "stream",
+        maxAge: "7D",
+        maxLengthBytes: 5_000_000_000,
+        maxSegmentSizeBytes: 100_000_000,
+      });
+      const message = defineMessage(z.object({ id: z.string() }));
+
+      const generator = new AsyncAPIGenerator({
+        schemaConverters: [new ZodToJsonSchemaConverter()],
+      });
+
+      const doc = await generator.generate(
+        defineContract({
+          publishers: { sent: definePublisher(exchange, message) },
+          consumers: { replay: defineConsumer(queue, message) },
+        }) as unknown as ContractDefinition,
+        { info: { title: "Stream Test", version: "1.0.0" } },
+      );
+
+      const queueChannel = doc.channels?.["audit-log"] as unknown as Record<string, unknown>;
+      const queueBinding = (queueChannel["bindings"] as Record<string, unknown>)["amqp"] as Record<
+        string,
+        unknown
+      >;
+
+      expect(queueBinding["queue"]).toMatchObject({
+        type: "stream",
+        durable: true,
+        arguments: {
+          "x-max-age": "7D",
+          "x-max-length-bytes": 5_000_000_000,
+          "x-stream-max-segment-size-bytes": 100_000_000,
+        },
+      });
+
+      const parser = new Parser();
+      await expect(parser.parse(JSON.stringify(doc))).resolves.toEqual(
+        expect.objectContaining({ diagnostics: [] }),
+      );
+    });
+
     it("represents exchange-to-exchange bindings in source and destination channels", async () => {
       const orders = defineExchange("orders");
       const billing = defineExchange("billing");
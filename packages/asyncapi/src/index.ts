@@ -18,6 +18,7 @@ import type {
 } from "@amqp-contract/contract";
 import { extractConsumer, extractQueue } from "@amqp-contract/contract";
 import type { StandardSchemaV1 } from "@standard-schema/spec";
+import { convertSchema } from "./schema.js";
 
 /**
  * Options for configuring the AsyncAPI generator.
@@ -315,7 +316,7 @@ export class AsyncAPIGenerator {
     // Build result with required properties
     const result: Record<string, unknown> = {
       payload: payloadJsonSchema,
-      contentType: "application/json",
+      contentType: message.contentType ?? "application/json",
     };
 
     // Add optional properties only if they exist
@@ -348,6 +349,9 @@ export class AsyncAPIGenerator {
    *    what a consumer of the spec would actually use to recreate the queue.
    * 2. The channel description summarises DLX + retry policy in human-readable
    *    form so the topology is visible without reading the binding details.
+   *
+   * The exchanges the queue is bound to are listed the same way, in the
+   * description and in the non-standard `x-amqp-queue-bindings` extension.
    */
   private queueToChannel(
     queue: QueueDefinition,
@@ -365,6 +369,15 @@ export class AsyncAPIGenerator {
         derivedArgs["x-dead-letter-routing-key"] = queue.deadLetter.routingKey;
       }
     }
+    if (queue.type === "stream") {
+      if (queue.maxAge !== undefined) derivedArgs["x-max-age"] = queue.maxAge;
+      if (queue.maxLengthBytes !== undefined) {
+        derivedArgs["x-max-length-bytes"] = queue.maxLengthBytes;
+      }
+      if (queue.maxSegmentSizeBytes !== undefined) {
+        derivedArgs["x-stream-max-segment-size-bytes"] = queue.maxSegmentSizeBytes;
+      }
+    }
     const mergedArgs = { ...derivedArgs, ...queue.arguments };
 
     let description = `AMQP Queue: ${queue.name}`;
@@ -448,11 +461,25 @@ export class AsyncAPIGenerator {
                 ? { backoffMultiplier: queue.retry.backoffMultiplier }
                 : {}),
               ...(queue.retry.jitter !== undefined ? { jitter: queue.retry.jitter } : {}),
+              waitQueueName: queue.retry.waitQueueName,
+              waitExchangeName: queue.retry.waitExchangeName,
+              retryExchangeName: queue.retry.retryExchangeName,
             }
           : {}),
       };
     }
 
+    if (bindings.length > 0) {
+      // Spec extension: the AMQP channel binding of a queue has no field for
+      // the exchanges it is bound to, which tooling needs to recreate the
+      // topology (e.g. the contract generator).
+      (result as Record<string, unknown>)["x-amqp-queue-bindings"] = bindings.map((b) => ({
+        exchange: b.exchange.name,
+        ...("routingKey" in b && b.routingKey !== undefined ? { routingKey: b.routingKey } : {}),
+        ...(b.arguments !== undefined ? { arguments: b.arguments } : {}),
+      }));
+    }
+
     return result as ChannelObject;
   }
 
@@ -617,31 +644,26 @@ export class AsyncAPIGenerator {
   /**
    * Convert a Standard Schema to JSON Schema using oRPC converters
    */
-  private async convertSchema(
+  private convertSchema(
     schema: StandardSchemaV1,
     strategy: "input" | "output",
   ): Promise<JSONSchema> {
-    // Try each converter until one matches
-    for (const converter of this.converters) {
-      const matches = await converter.condition(schema, { strategy });
-      if (matches) {
-        const [_required, jsonSchema] = await converter.convert(schema, { strategy });
-        return jsonSchema;
-      }
-    }
-
-    const message =
-      `No schema converter matched for schema. ` +
-      `Configure schemaConverters (e.g. zodToJsonSchema) to generate accurate schemas.`;
-
-    if (this.failOnMissingConverter) {
-      throw new Error(`AsyncAPIGenerator: ${message}`);
-    }
-
-    // No converter matched — the output will contain a generic { type: "object" } placeholder.
-    this.logger?.warn(
-      `${message} The generated spec will use a generic { type: "object" } placeholder.`,
-    );
-    return { type: "object" };
+    return convertSchema(schema, strategy, {
+      converters: this.converters,
+      logger: this.logger,
+      failOnMissingConverter: this.failOnMissingConverter,
+      source: "AsyncAPIGenerator",
+    });
   }
 }
+
+export { diffContracts } from "./diff.js";
+export type {
+  ContractChange,
+  ContractChangeSeverity,
+  ContractDiff,
+  DiffContractsOptions,
+} from "./diff.js";
+
+export { ContractSourceGenerator } from "./contract-generator.js";
+export type { ContractSourceGeneratorOptions } from "./contract-generator.js";
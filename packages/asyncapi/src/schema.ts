@@ -0,0 +1,47 @@
+import type { ConditionalSchemaConverter, JSONSchema } from "@orpc/openapi";
+import type { StandardSchemaV1 } from "@standard-schema/spec";
+
+/**
+ * Options shared by the tools converting contract schemas to JSON Schema.
+ *
+ * @internal
+ */
+export type SchemaConversionOptions = {
+  converters: ConditionalSchemaConverter[];
+  logger?: { warn: (message: string) => void } | undefined;
+  failOnMissingConverter: boolean;
+  /** Prefix of the error thrown when no converter matches, e.g. `AsyncAPIGenerator` */
+  source: string;
+};
+
+/**
+ * Convert a Standard Schema to JSON Schema using oRPC converters
+ *
+ * @internal
+ */
+export async function convertSchema(
+  schema: StandardSchemaV1,
+  strategy: "input" | "output",
+  { converters, logger, failOnMissingConverter, source }: SchemaConversionOptions,
+): Promise<JSONSchema> {
+  // Try each converter until one matches
+  for (const converter of converters) {
+    const matches = await converter.condition(schema, { strategy });
+    if (matches) {
+      const [_required, jsonSchema] = await converter.convert(schema, { strategy });
+      return jsonSchema;
+    }
+  }
+
+  const message =
+    `No schema converter matched for schema. ` +
+    `Configure schemaConverters (e.g. zodToJsonSchema) to generate accurate schemas.`;
+
+  if (failOnMissingConverter) {
+    throw new Error(`${source}: ${message}`);
+  }
+
+  // No converter matched — the output will contain a generic { type: "object" } placeholder.
+  logger?.warn(`${message} The generated spec will use a generic { type: "object" } placeholder.`);
+  return { type: "object" };
+}
@@ -0,0 +1,235 @@
+/**
+ * Turns JSON Schemas into the source code of equivalent Zod schemas.
+ *
+ * Covers the subset of JSON Schema produced by the oRPC converters: types,
+ * formats, bounds, enums, constants, nullable and union types, tuples,
+ * records, `description` and `default`. Keywords without a Zod equivalent are
+ * dropped and reported through `onUnsupported`.
+ *
+ * @internal
+ */
+export class ZodSourceGenerator {
+  /** `$ref`s currently being expanded, to stop on recursive schemas */
+  private readonly expanding = new Set<string>();
+
+  constructor(
+    private readonly resolveRef: (ref: string) => unknown,
+    private readonly onUnsupported: (message: string) => void,
+  ) {}
+
+  /**
+   * Source code of the Zod schema equivalent to a JSON Schema.
+   *
+   * @param schema - The JSON Schema
+   * @param indent - Indentation of the line the source starts on
+   */
+  generate(schema: unknown, indent = ""): string {
+    if (schema === true || schema === undefined) return "z.unknown()";
+    if (schema === false) return "z.never()";
+    if (typeof schema !== "object" || schema === null) return "z.unknown()";
+    const s = schema as Record<string, unknown>;
+
+    let source = this.base(s, indent);
+    if (typeof s["description"] === "string") {
+      source += `.describe(${JSON.stringify(s["description"])})`;
+    }
+    if (s["default"] !== undefined) {
+      source += `.default(${JSON.stringify(s["default"])})`;
+    }
+    return source;
+  }
+
+  private base(s: Record<string, unknown>, indent: string): string {
+    if (typeof s["$ref"] === "string") {
+      const ref = s["$ref"];
+      if (this.expanding.has(ref)) {
+        this.onUnsupported(`recursive schema "${ref}" replaced by z.unknown()`);
+        return "z.unknown()";
+      }
+      this.expanding.add(ref);
+      try {
+        return this.generate(this.resolveRef(ref), indent);
+      } finally {
+        this.expanding.delete(ref);
+      }
+    }
+
+    if ("const" in s) return literal(s["const"]);
+
+    if (Array.isArray(s["enum"])) {
+      const values = s["enum"] as unknown[];
+      if (values.length > 0 && values.every((value) => typeof value === "string")) {
+        return `z.enum([${values.map((value) => JSON.stringify(value)).join(", ")}])`;
+      }
+      return values.length === 1
+        ? literal(values[0])
+        : `z.union([${values.map((value) => literal(value)).join(", ")}])`;
+    }
+
+    const variants = (s["anyOf"] ?? s["oneOf"]) as unknown[] | undefined;
+    if (Array.isArray(variants)) return this.union(variants, indent);
+
+    if (Array.isArray(s["allOf"])) {
+      const [first, ...rest] = (s["allOf"] as unknown[]).map((part) => this.generate(part, indent));
+      return rest.reduce(
+        (left, right) => `z.intersection(${left}, ${right})`,
+        first ?? "z.unknown()",
+      );
+    }
+
+    const type = s["type"];
+    if (Array.isArray(type)) {
+      return this.union(
+        type.map((variant: unknown) => ({ ...s, type: variant, description: undefined })),
+        indent,
+      );
+    }
+
+    switch (type) {
+      case "string":
+        return this.string(s);
+      case "number":
+      case "integer":
+        return this.number(s, type);
+      case "boolean":
+        return "z.boolean()";
+      case "null":
+        return "z.null()";
+      case "array":
+        return this.array(s, indent);
+      case "object":
+        return this.object(s, indent);
+      default:
+        return s["properties"] !== undefined ? this.object(s, indent) : "z.unknown()";
+    }
+  }
+
+  private union(variants: unknown[], indent: string): string {
+    const nonNull = variants.filter(
+      (variant) => !(typeof variant === "object" && variant !== null && isNullSchema(variant)),
+    );
+    if (nonNull.length === variants.length - 1 && nonNull.length === 1) {
+      return `${this.generate(nonNull[0], indent)}.nullable()`;
+    }
+    return `z.union([${variants.map((variant) => this.generate(variant, indent)).join(", ")}])`;
+  }
+
+  private string(s: Record<string, unknown>): string {
+    const formats: Record<string, string> = {
+      email: "z.email()",
+      uuid: "z.uuid()",
+      uri: "z.url()",
+      url: "z.url()",
+      "date-time": "z.iso.datetime()",
+      date: "z.iso.date()",
+      time: "z.iso.time()",
+      duration: "z.iso.duration()",
+      ipv4: "z.ipv4()",
+      ipv6: "z.ipv6()",
+    };
+    const format = typeof s["format"] === "string" ? s["format"] : undefined;
+    let source = "z.string()";
+    if (format !== undefined) {
+      const formatSource = formats[format];
+      if (formatSource) {
+        source = formatSource;
+      } else {
+        this.onUnsupported(`string format "${format}" dropped`);
+      }
+    }
+    if (typeof s["minLength"] === "number") source += `.min(${s["minLength"]})`;
+    if (typeof s["maxLength"] === "number") source += `.max(${s["maxLength"]})`;
+    if (typeof s["pattern"] === "string" && format === undefined) {
+      source += `.regex(new RegExp(${JSON.stringify(s["pattern"])}))`;
+    }
+    return source;
+  }
+
+  private number(s: Record<string, unknown>, type: "number" | "integer"): string {
+    let source = type === "integer" ? "z.int()" : "z.number()";
+    const safe = type === "integer";
+    if (typeof s["minimum"] === "number" && !(safe && s["minimum"] === Number.MIN_SAFE_INTEGER)) {
+      source += `.min(${s["minimum"]})`;
+    }
+    if (typeof s["maximum"] === "number" && !(safe && s["maximum"] === Number.MAX_SAFE_INTEGER)) {
+      source += `.max(${s["maximum"]})`;
+    }
+    if (typeof s["exclusiveMinimum"] === "number") source += `.gt(${s["exclusiveMinimum"]})`;
+    if (typeof s["exclusiveMaximum"] === "number") source += `.lt(${s["exclusiveMaximum"]})`;
+    if (typeof s["multipleOf"] === "number") source += `.multipleOf(${s["multipleOf"]})`;
+    return source;
+  }
+
+  private array(s: Record<string, unknown>, indent: string): string {
+    if (Array.isArray(s["prefixItems"])) {
+      const items = (s["prefixItems"] as unknown[]).map((item) => this.generate(item, indent));
+      const rest =
+        s["items"] !== undefined && s["items"] !== false
+          ? `, ${this.generate(s["items"], indent)}`
+          : "";
+      return `z.tuple([${items.join(", ")}]${rest})`;
+    }
+    let source = `z.array(${this.generate(s["items"], indent)})`;
+    if (typeof s["minItems"] === "number") source += `.min(${s["minItems"]})`;
+    if (typeof s["maxItems"] === "number") source += `.max(${s["maxItems"]})`;
+    return source;
+  }
+
+  private object(s: Record<string, unknown>, indent: string): string {
+    const properties = s["properties"] as Record<string, unknown> | undefined;
+    const additional = s["additionalProperties"];
+
+    if (properties === undefined || Object.keys(properties).length === 0) {
+      if (typeof additional === "object" && additional !== null) {
+        const key =
+          s["propertyNames"] !== undefined
+            ? this.generate(s["propertyNames"], indent)
+            : "z.string()";
+        return `z.record(${key}, ${this.generate(additional, indent)})`;
+      }
+      if (properties === undefined && additional !== false) {
+        return "z.record(z.string(), z.unknown())";
+      }
+    }
+
+    const required = new Set(Array.isArray(s["required"]) ? (s["required"] as string[]) : []);
+    const inner = `${indent}  `;
+    const entries = Object.entries(properties ?? {}).map(([name, property]) => {
+      let source = this.generate(property, inner);
+      const hasDefault = typeof property === "object" && property !== null && "default" in property;
+      if (!required.has(name) && !hasDefault) source += ".optional()";
+      return `${inner}${propertyKey(name)}: ${source},\n`;
+    });
+
+    const isLoose =
+      additional === true ||
+      (typeof additional === "object" &&
+        additional !== null &&
+        Object.keys(additional).length === 0);
+    const factory =
+      additional === false ? "z.strictObject" : isLoose ? "z.looseObject" : "z.object";
+    const source =
+      entries.length === 0 ? `${factory}({})` : `${factory}({\n${entries.join("")}${indent}})`;
+    return typeof additional === "object" && additional !== null && !isLoose
+      ? `${source}.catchall(${this.generate(additional, indent)})`
+      : source;
+  }
+}
+
+function isNullSchema(schema: object): boolean {
+  return (schema as Record<string, unknown>)["type"] === "null";
+}
+
+function literal(value: unknown): string {
+  if (value === null) return "z.null()";
+  return `z.literal(${JSON.stringify(value)})`;
+}
+
+/**
+ * Object key in source code, quoted unless it is a valid identifier.
+ *
+ * @internal
+ */
+export function propertyKey(name: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : JSON.stringify(name);
+}
@@ -1,36 +1,65 @@
 import {
   extractQueue,
   type CompressionAlgorithm,
+  type CompressionOptions,
   type ContractDefinition,
   type InferPublisherNames,
   type InferRpcNames,
+  type MessageDefinition,
+  type PublisherDefinition,
 } from "@amqp-contract/contract";
 import {
   AmqpClient,
   PublishOptions as AmqpClientPublishOptions,
+  CAUSATION_ID_HEADER,
+  type Codec,
+  CodecRegistry,
+  DEFAULT_CONTENT_TYPE,
+  decryptMessage,
+  encryptMessage,
+  getMessageContext,
+  type KeyProvider,
   type Logger,
   MessagingSemanticConventions,
+  signMessage,
+  type SigningOptions,
   TechnicalError,
   type TelemetryProvider,
+  type TopologyMode,
   defaultTelemetryProvider,
   endSpanError,
   endSpanSuccess,
   recordLateRpcReply,
   recordPublishMetric,
-  safeJsonParse,
   startPublishSpan,
 } from "@amqp-contract/core";
 import type { StandardSchemaV1 } from "@standard-schema/spec";
 import type { AmqpConnectionManagerOptions, ConnectionUrl } from "amqp-connection-manager";
 import { err, errAsync, ok, okAsync, Result, ResultAsync } from "neverthrow";
 import { randomUUID } from "node:crypto";
-import { compressBuffer } from "./compression.js";
-import { MessageValidationError, RpcCancelledError, RpcTimeoutError } from "./errors.js";
+import { compressBuffer, resolveCompression } from "./compression.js";
+import {
+  MessageValidationError,
+  PublishVetoedError,
+  RpcCancelledError,
+  RpcTimeoutError,
+} from "./errors.js";
+import {
+  type InterceptedPublish,
+  type PublishInterceptor,
+  runPublishInterceptors,
+} from "./interceptors.js";
 import type {
+  ClientInferCallOptions,
+  ClientInferDelayedPublisherNames,
+  ClientInferPublishArgs,
+  ClientInferPublishOptions,
   ClientInferPublisherInput,
   ClientInferRpcRequestInput,
   ClientInferRpcResponseOutput,
+  OptionsArgs,
 } from "./types.js";
+import { mergeHeaders, validateHeaders, validateMessage } from "./validation.js";
 
 /**
  * The RabbitMQ direct-reply-to pseudo-queue. Publishing with `replyTo` set to
@@ -42,17 +71,36 @@ import type {
  */
 const DIRECT_REPLY_TO = "amq.rabbitmq.reply-to";
 
+/**
+ * Longest delay the delayed message plugin supports: its `x-delay` header is
+ * an unsigned 32-bit integer.
+ */
+const MAX_DELAY_MS = 4_294_967_295;
+
+/**
+ * A message validated for publishing, with its publish options carrying the
+ * validated headers.
+ */
+type ValidatedPublish = {
+  payload: unknown;
+  options: DelayedPublishOptions | undefined;
+};
+
 /**
  * In-flight RPC call tracked by `TypedAmqpClient`. The reply consumer
  * looks up entries by `correlationId` when responses arrive.
  */
 type PendingCall = {
   rpcName: string;
-  responseSchema: StandardSchemaV1;
+  response: MessageDefinition;
   resolve: (
     result: Result<
       unknown,
-      TechnicalError | MessageValidationError | RpcTimeoutError | RpcCancelledError
+      | TechnicalError
+      | MessageValidationError
+      | PublishVetoedError
+      | RpcTimeoutError
+      | RpcCancelledError
     >,
   ) => void;
   timer: ReturnType<typeof setTimeout>;
@@ -66,10 +114,39 @@ export type PublishOptions = AmqpClientPublishOptions & {
    * Optional compression algorithm to use for the message payload.
    * When specified, the message will be compressed using the chosen algorithm
    * and the contentEncoding header will be set automatically.
+   * Use `{ algorithm, minBytes }` to only compress payloads of at least
+   * `minBytes` bytes once encoded.
    */
-  compression?: CompressionAlgorithm | undefined;
+  compression?: CompressionAlgorithm | CompressionOptions | undefined;
 };
 
+/**
+ * Publish options of a publisher whose exchange is declared with
+ * `delayed: true`.
+ */
+export type DelayedPublishOptions = PublishOptions & {
+  /**
+   * Time in ms the exchange holds the message before routing it, sent as the
+   * `x-delay` header. At most 2^32 - 1 ms (about 49 days).
+   */
+  delayMs?: number | undefined;
+};
+
+/**
+ * Outcome of a single message in a {@link TypedAmqpClient.publishBatch} call.
+ * `index` is the message's position in the input array.
+ *
+ * - `confirmed`: the broker confirmed the message
+ * - `nacked`: the broker nacked the message, or the channel failed before confirming it
+ * - `invalid`: the message failed schema validation and was not published
+ * - `vetoed`: a publish interceptor refused the message and it was not published
+ */
+export type PublishBatchOutcome =
+  | { status: "confirmed"; index: number }
+  | { status: "nacked"; index: number; error: TechnicalError }
+  | { status: "invalid"; index: number; error: TechnicalError | MessageValidationError }
+  | { status: "vetoed"; index: number; error: PublishVetoedError };
+
 /**
  * Options for creating a client
  */
@@ -86,10 +163,42 @@ export type CreateClientOptions<TContract extends ContractDefinition> = {
   telemetry?: TelemetryProvider | undefined;
   /**
    * Default publish options that will be applied to all publish operations.
-   * These can be overridden by options passed to the publish method.
+   * These can be overridden by options passed to the publish method; their
+   * `headers` are merged with the headers of the call, which take precedence
+   * per key, before being validated against the message headers schema.
    * By default, persistent is set to true for message durability.
    */
   defaultPublishOptions?: PublishOptions | undefined;
+  /**
+   * Hooks run, in order, after schema validation and before each message
+   * is published by `publish`, `publishBatch` and `call`. They can rewrite
+   * the payload and publish options, or veto the publish.
+   */
+  interceptors?: ReadonlyArray<PublishInterceptor> | undefined;
+  /**
+   * Codecs used to encode payloads, selected by the `contentType` of each
+   * message definition, in addition to the built-in JSON, MessagePack and
+   * CBOR codecs. A codec replaces the built-in one with the same content type.
+   * RPC replies are decoded with them too.
+   */
+  codecs?: ReadonlyArray<Codec> | undefined;
+  /**
+   * Provider of the keys encrypting messages defined with
+   * `encryption: "required"`, after validation and compression. Encrypted
+   * RPC replies are decrypted with it too.
+   */
+  keyProvider?: KeyProvider | undefined;
+  /**
+   * Sign every published message, including RPC requests, so consumers can
+   * verify it comes from this producer. The signature covers the published
+   * body, after compression and encryption, and the selected properties.
+   */
+  signing?: SigningOptions | undefined;
+  /**
+   * Name of the application, sent as the `appId` property of every published
+   * message.
+   */
+  appId?: string | undefined;
   /**
    * Maximum time in ms to wait for the AMQP connection to become ready before
    * `create()` resolves to an `err(TechnicalError)`. Defaults to 30s
@@ -97,6 +206,14 @@ export type CreateClientOptions<TContract extends ContractDefinition> = {
    * disable the timeout and let amqp-connection-manager retry indefinitely.
    */
   connectTimeoutMs?: number | null | undefined;
+  /**
+   * How the contract topology is handled on connect: `"assert"` (default)
+   * creates it, `"verify"` checks that its exchanges and queues exist and
+   * fails `create()` with a `TechnicalError` listing the missing ones, and
+   * `"skip"` leaves it alone. Use `"verify"` or `"skip"` when the application
+   * lacks the `configure` permission.
+   */
+  topology?: TopologyMode | undefined;
 };
 
 /**
@@ -139,6 +256,11 @@ export class TypedAmqpClient<TContract extends ContractDefinition> {
     private readonly contract: TContract,
     private readonly amqpClient: AmqpClient,
     private readonly defaultPublishOptions: PublishOptions,
+    private readonly interceptors: ReadonlyArray<PublishInterceptor>,
+    private readonly codecs: CodecRegistry,
+    private readonly keyProvider: KeyProvider | undefined,
+    private readonly signing: SigningOptions | undefined,
+    private readonly appId: string | undefined,
     private readonly logger?: Logger,
     private readonly telemetry: TelemetryProvider = defaultTelemetryProvider,
   ) {}
@@ -158,14 +280,25 @@ export class TypedAmqpClient<TContract extends ContractDefinition> {
     urls,
     connectionOptions,
     defaultPublishOptions,
+    interceptors,
+    codecs,
+    keyProvider,
+    signing,
+    appId,
     logger,
     telemetry,
     connectTimeoutMs,
+    topology,
   }: CreateClientOptions<TContract>): ResultAsync<TypedAmqpClient<TContract>, TechnicalError> {
     const client = new TypedAmqpClient(
       contract,
-      new AmqpClient(contract, { urls, connectionOptions, connectTimeoutMs }),
+      new AmqpClient(contract, { urls, connectionOptions, connectTimeoutMs, topology }),
       { persistent: true, ...defaultPublishOptions },
+      interceptors ?? [],
+      new CodecRegistry(codecs),
+      keyProvider,
+      signing,
+      appId,
       logger,
       telemetry ?? defaultTelemetryProvider,
     );
@@ -241,23 +374,28 @@ export class TypedAmqpClient<TContract extends ContractDefinition> {
     this.pendingCalls.delete(correlationId);
     clearTimeout(pending.timer);
 
-    const parseResult = safeJsonParse(
-      msg.content,
-      (error) =>
-        new TechnicalError(`Failed to parse RPC reply JSON for "${pending.rpcName}"`, error),
-    );
-    if (parseResult.isErr()) {
-      pending.resolve(err(parseResult.error));
-      return;
-    }
-    const parsed = parseResult.value;
+    void decryptMessage(msg.content, msg.properties.headers, pending.response, this.keyProvider)
+      .andThen((content) => this.codecs.decode(content, msg.properties.contentType))
+      .mapErr(
+        (error) => new TechnicalError(`Failed to parse RPC reply for "${pending.rpcName}"`, error),
+      )
+      .match(
+        (parsed) => this.validateRpcReply(pending, parsed),
+        (error) => pending.resolve(err(error)),
+      );
+  }
 
+  /**
+   * Validate a decoded RPC reply against the call's response schema and
+   * resolve the awaiting caller.
+   */
+  private validateRpcReply(pending: PendingCall, parsed: unknown): void {
     // Wrap the validate call itself — a Standard Schema implementation may
     // throw synchronously, and the throw would otherwise escape the consume
     // callback and could crash the reply consumer.
     let rawValidation: ReturnType<StandardSchemaV1["~standard"]["validate"]>;
     try {
-      rawValidation = pending.responseSchema["~standard"].validate(parsed);
+      rawValidation = pending.response.payload["~standard"].validate(parsed);
     } catch (error: unknown) {
       pending.resolve(
         err(new TechnicalError(`RPC reply validation threw for "${pending.rpcName}"`, error)),
@@ -288,18 +426,36 @@ export class TypedAmqpClient<TContract extends ContractDefinition> {
    *
    * @param publisherName - The name of the publisher to use
    * @param message - The message to publish
-   * @param options - Optional publish options including compression, headers, priority, etc.
+   * @param options - Publish options including compression, headers, priority, etc. Required
+   *   when the message's headers schema has required fields.
    *
    * @remarks
+   * When the publisher's message defines a headers schema, `options.headers` is
+   * typed from it and validated along with the payload; the validated headers
+   * are published.
+   *
    * If `options.compression` is specified, the message will be compressed before publishing
    * and the `contentEncoding` property will be set automatically. Any `contentEncoding`
    * value already in options will be overwritten by the compression algorithm.
+   * The publisher's `compression` is used when the call does not specify one, and
+   * takes precedence over `defaultPublishOptions.compression`. A compression with
+   * `minBytes` leaves smaller payloads uncompressed.
+   *
+   * Publish interceptors run after validation and before compression; a
+   * vetoed publish resolves to `err(PublishVetoedError)`.
+   *
+   * Messages defined with `encryption: "required"` are encrypted last, with
+   * the current key of the client's `keyProvider`.
+   *
+   * Publishers of an exchange declared with `delayed: true` also accept
+   * `options.delayMs`: the exchange holds the message for that long before
+   * routing it.
    */
   publish<TName extends InferPublisherNames<TContract>>(
     publisherName: TName,
     message: ClientInferPublisherInput<TContract, TName>,
-    options?: PublishOptions,
-  ): ResultAsync<void, TechnicalError | MessageValidationError> {
+    ...[options]: ClientInferPublishArgs<TContract, TName>
+  ): ResultAsync<void, TechnicalError | MessageValidationError | PublishVetoedError> {
     const startTime = Date.now();
     // Non-null assertions safe: TypeScript guarantees these exist for valid TName
     const publisher = this.contract.publishers![publisherName as string]!;
@@ -310,71 +466,45 @@ export class TypedAmqpClient<TContract extends ContractDefinition> {
       [MessagingSemanticConventions.AMQP_PUBLISHER_NAME]: String(publisherName),
     });
 
-    const validateMessage = (): ResultAsync<unknown, TechnicalError | MessageValidationError> => {
-      const validationResult = publisher.message.payload["~standard"].validate(message);
-      const promise =
-        validationResult instanceof Promise ? validationResult : Promise.resolve(validationResult);
-      return ResultAsync.fromPromise(
-        promise,
-        (error): TechnicalError | MessageValidationError =>
-          new TechnicalError("Validation failed", error),
-      ).andThen((validation) => {
-        if (validation.issues) {
-          return err<unknown, TechnicalError | MessageValidationError>(
-            new MessageValidationError(String(publisherName), validation.issues),
-          );
-        }
-        return ok<unknown, TechnicalError | MessageValidationError>(validation.value);
-      });
-    };
-
-    const publishMessage = (validatedMessage: unknown): ResultAsync<void, TechnicalError> => {
-      // Merge default options with provided options
-      const mergedOptions = { ...this.defaultPublishOptions, ...options };
-
-      // Extract compression from merged options and create publish options without it
-      const { compression, ...restOptions } = mergedOptions;
-      const publishOptions: AmqpClientPublishOptions = { ...restOptions };
-
-      // Prepare payload and options based on compression configuration
-      const preparePayload = (): ResultAsync<Buffer | unknown, TechnicalError> => {
-        if (compression) {
-          // Compress the message payload
-          const messageBuffer = Buffer.from(JSON.stringify(validatedMessage));
-          publishOptions.contentEncoding = compression;
-          return compressBuffer(messageBuffer, compression);
-        }
-
-        // No compression: use the channel's built-in JSON serialization
-        return okAsync(validatedMessage);
-      };
-
-      return preparePayload().andThen((payload) =>
-        this.amqpClient
-          .publish(publisher.exchange.name, publisher.routingKey ?? "", payload, publishOptions)
-          .andThen((published) => {
-            if (!published) {
-              return err<void, TechnicalError>(
-                new TechnicalError(
-                  `Failed to publish message for publisher "${String(publisherName)}": Channel rejected the message (buffer full or other channel issue)`,
-                ),
-              );
-            }
+    const publishMessage = ({
+      payload: validatedMessage,
+      options: validatedOptions,
+    }: ValidatedPublish): ResultAsync<void, TechnicalError | PublishVetoedError> =>
+      this.interceptPublish(publisherName, validatedMessage, validatedOptions).andThen(
+        (intercepted) =>
+          this.preparePublish(intercepted, publisher).andThen(({ payload, publishOptions }) =>
+            this.amqpClient
+              .publish(publisher.exchange.name, publisher.routingKey ?? "", payload, publishOptions)
+              .andThen((published) => {
+                if (!published) {
+                  return err<void, TechnicalError>(
+                    new TechnicalError(
+                      `Failed to publish message for publisher "${String(publisherName)}": Channel rejected the message (buffer full or other channel issue)`,
+                    ),
+                  );
+                }
 
-            this.logger?.info("Message published successfully", {
-              publisherName: String(publisherName),
-              exchange: publisher.exchange.name,
-              routingKey: publisher.routingKey,
-              compressed: !!compression,
-            });
+                this.logger?.info("Message published successfully", {
+                  publisherName: String(publisherName),
+                  exchange: publisher.exchange.name,
+                  routingKey: publisher.routingKey,
+                  compressed: publishOptions.contentEncoding !== undefined,
+                  ...(intercepted.options.delayMs !== undefined && {
+                    delayMs: intercepted.options.delayMs,
+                  }),
+                });
 
-            return ok<void, TechnicalError>(undefined);
-          }),
+                return ok<void, TechnicalError>(undefined);
+              }),
+          ),
       );
-    };
 
-    return validateMessage()
-      .andThen((validatedMessage) => publishMessage(validatedMessage))
+    return this.validatePublisherMessage(
+      publisherName,
+      message,
+      options as DelayedPublishOptions | undefined,
+    )
+      .andThen((validated) => publishMessage(validated))
       .andTee(() => {
         const durationMs = Date.now() - startTime;
         endSpanSuccess(span);
@@ -387,11 +517,341 @@ export class TypedAmqpClient<TContract extends ContractDefinition> {
       });
   }
 
+  /**
+   * Publish many messages using a defined publisher, with publisher confirms
+   * pipelined across the whole batch.
+   *
+   * Every message is validated against the publisher schema before anything
+   * is sent; messages that fail validation are skipped and reported as
+   * `invalid`. The valid messages are then published without waiting for
+   * each other's confirms, and the returned `ResultAsync` resolves once the
+   * broker has confirmed or nacked all of them.
+   *
+   * @param publisherName - The name of the publisher to use
+   * @param messages - The messages to publish
+   * @param options - Publish options applied to every message in the batch. Required when the
+   *   message's headers schema has required fields; the headers are validated with each message.
+   * @returns One {@link PublishBatchOutcome} per message, in input order. The result is
+   *   only an `err` when the batch could not be prepared (e.g. compression or a publish
+   *   interceptor failed), in which case nothing was published.
+   *
+   * @example
+   * ```typescript
+   * const result = await client.publishBatch('orderCreated', orders);
+   * const failed = result._unsafeUnwrap().filter((outcome) => outcome.status !== 'confirmed');
+   * ```
+   */
+  publishBatch<TName extends InferPublisherNames<TContract>>(
+    publisherName: TName,
+    messages: ReadonlyArray<ClientInferPublisherInput<TContract, TName>>,
+    ...[options]: ClientInferPublishArgs<TContract, TName>
+  ): ResultAsync<PublishBatchOutcome[], TechnicalError> {
+    const startTime = Date.now();
+    // Non-null assertions safe: TypeScript guarantees these exist for valid TName
+    const publisher = this.contract.publishers![publisherName as string]!;
+    const { exchange, routingKey } = publisher;
+
+    const span = startPublishSpan(this.telemetry, exchange.name, routingKey, {
+      [MessagingSemanticConventions.AMQP_PUBLISHER_NAME]: String(publisherName),
+      [MessagingSemanticConventions.MESSAGING_BATCH_MESSAGE_COUNT]: messages.length,
+    });
+
+    type Prepared =
+      | { index: number; payload: unknown; publishOptions: AmqpClientPublishOptions }
+      | Extract<PublishBatchOutcome, { status: "invalid" | "vetoed" }>;
+
+    // Validation errors are per-message outcomes, never batch failures.
+    const validateAll = ResultAsync.combine(
+      messages.map((message, index) =>
+        this.validatePublisherMessage(
+          publisherName,
+          message,
+          options as DelayedPublishOptions | undefined,
+        )
+          .map((validated) => ({ index, validated }))
+          .orElse((error) => ok({ index, error })),
+      ),
+    );
+
+    const prepareAll = validateAll.andThen((validations) =>
+      ResultAsync.combine(
+        validations.map((validation): ResultAsync<Prepared, TechnicalError> => {
+          const { index } = validation;
+          if ("error" in validation) {
+            return okAsync({ status: "invalid", index, error: validation.error });
+          }
+          const { payload, options: validatedOptions } = validation.validated;
+          return this.interceptPublish(publisherName, payload, validatedOptions)
+            .andThen((intercepted) => this.preparePublish(intercepted, publisher))
+            .map((prepared): Prepared => ({ index, ...prepared }))
+            .orElse((error) =>
+              // Vetoes are per-message outcomes; interceptor failures fail the batch.
+              error instanceof PublishVetoedError
+                ? okAsync<Prepared, TechnicalError>({ status: "vetoed", index, error })
+                : errAsync(error),
+            );
+        }),
+      ),
+    );
+
+    const publishAll = (prepared: Prepared[]): ResultAsync<PublishBatchOutcome[], never> =>
+      ResultAsync.combine(
+        prepared.map((entry): ResultAsync<PublishBatchOutcome, never> => {
+          if ("status" in entry) return okAsync(entry);
+          const { index, payload, publishOptions } = entry;
+          return this.amqpClient
+            .publish(exchange.name, routingKey ?? "", payload, publishOptions)
+            .andThen((published) =>
+              published
+                ? ok<PublishBatchOutcome, TechnicalError>({ status: "confirmed", index })
+                : err<PublishBatchOutcome, TechnicalError>(
+                    new TechnicalError(
+                      `Failed to publish message for publisher "${String(publisherName)}": Channel rejected the message (buffer full or other channel issue)`,
+                    ),
+                  ),
+            )
+            .orElse((error) => ok<PublishBatchOutcome, never>({ status: "nacked", index, error }))
+            .andTee((outcome) => {
+              recordPublishMetric(
+                this.telemetry,
+                exchange.name,
+                routingKey,
+                outcome.status === "confirmed",
+                Date.now() - startTime,
+              );
+            });
+        }),
+      );
+
+    return prepareAll
+      .andThen(publishAll)
+      .andTee((outcomes) => {
+        const failed = outcomes.filter((outcome) => outcome.status !== "confirmed").length;
+        this.logger?.info("Message batch published", {
+          publisherName: String(publisherName),
+          exchange: exchange.name,
+          routingKey,
+          confirmed: outcomes.length - failed,
+          failed,
+        });
+        if (failed === 0) {
+          endSpanSuccess(span);
+        } else {
+          endSpanError(
+            span,
+            new TechnicalError(`${failed} of ${outcomes.length} messages were not confirmed`),
+          );
+        }
+      })
+      .orTee((error) => {
+        endSpanError(span, error);
+      });
+  }
+
+  /**
+   * Publish a message using a defined publisher of a delayed exchange, to be
+   * routed at the given date. Dates in the past are routed right away.
+   *
+   * @param publisherName - The name of a publisher whose exchange is declared with `delayed: true`
+   * @param message - The message to publish
+   * @param date - When the exchange routes the message, at most 2^32 - 1 ms from now
+   * @param options - Publish options, required when the message's headers schema has required fields
+   *
+   * @example
+   * ```typescript
+   * const result = await client.publishAt(
+   *   'reminderDue',
+   *   { reminderId: '123' },
+   *   new Date(Date.now() + 15 * 60_000),
+   * );
+   * ```
+   */
+  publishAt<TName extends ClientInferDelayedPublisherNames<TContract>>(
+    publisherName: TName,
+    message: ClientInferPublisherInput<TContract, TName>,
+    date: Date,
+    ...[options]: OptionsArgs<Omit<ClientInferPublishOptions<TContract, TName>, "delayMs">>
+  ): ResultAsync<void, TechnicalError | MessageValidationError | PublishVetoedError> {
+    const time = date.getTime();
+    if (Number.isNaN(time)) {
+      return errAsync(
+        new TechnicalError(
+          `Invalid date for publisher "${String(publisherName)}": date is an invalid date`,
+        ),
+      );
+    }
+    const delayedOptions: DelayedPublishOptions = {
+      ...options,
+      delayMs: Math.max(0, time - Date.now()),
+    };
+    return this.publish(
+      publisherName,
+      message,
+      ...([delayedOptions] as ClientInferPublishArgs<TContract, TName>),
+    );
+  }
+
+  /**
+   * Validate a message against a publisher's payload schema, and the headers of
+   * its publish options, merged over the default publish headers, against the
+   * message's headers schema, if any.
+   */
+  private validatePublisherMessage(
+    publisherName: InferPublisherNames<TContract>,
+    message: unknown,
+    options: DelayedPublishOptions | undefined,
+  ): ResultAsync<ValidatedPublish, TechnicalError | MessageValidationError> {
+    const publisher = this.contract.publishers![publisherName as string]!;
+    const name = String(publisherName);
+    const headers = mergeHeaders(this.defaultPublishOptions.headers, options?.headers);
+    return validateMessage(publisher.message.payload, message, name).andThen((payload) =>
+      validateHeaders(publisher.message.headers, headers, name).map((validatedHeaders) => ({
+        payload,
+        options:
+          validatedHeaders === undefined ? options : { ...options, headers: validatedHeaders },
+      })),
+    );
+  }
+
+  /**
+   * Merge publish options over the publisher's compression, the client
+   * defaults and the message defaults, and run the publish interceptors over
+   * the validated message.
+   */
+  private interceptPublish(
+    publisherName: InferPublisherNames<TContract>,
+    validatedMessage: unknown,
+    options: DelayedPublishOptions | undefined,
+  ): ResultAsync<InterceptedPublish, TechnicalError | PublishVetoedError> {
+    const publisher = this.contract.publishers![publisherName as string]!;
+    return runPublishInterceptors(this.interceptors, {
+      publisherName: String(publisherName),
+      kind: "publish",
+      payload: validatedMessage,
+      options: this.withMessageDefaults(String(publisherName), {
+        ...this.defaultPublishOptions,
+        ...(publisher.compression !== undefined && { compression: publisher.compression }),
+        ...options,
+      }),
+    });
+  }
+
+  /**
+   * Fill in the properties every published message gets unless set in the
+   * options: a fresh `messageId`, the `timestamp` in seconds, the publisher or
+   * RPC name as `type`, the client's `appId`, and, when publishing while a
+   * message is handled, its correlation id and its `messageId` as causation id.
+   */
+  private withMessageDefaults(type: string, options: DelayedPublishOptions): DelayedPublishOptions {
+    const context = getMessageContext();
+    return {
+      messageId: randomUUID(),
+      timestamp: Math.floor(Date.now() / 1000),
+      type,
+      ...(this.appId !== undefined && { appId: this.appId }),
+      ...(context?.correlationId !== undefined && { correlationId: context.correlationId }),
+      ...options,
+      ...(context?.messageId !== undefined && {
+        headers: { [CAUSATION_ID_HEADER]: context.messageId, ...options.headers },
+      }),
+    };
+  }
+
+  /**
+   * Encode an intercepted message with the codec of the publisher's message
+   * content type, compress it when a compression algorithm is configured and
+   * the encoded payload reaches its `minBytes` threshold, encrypt it when the
+   * message requires encryption, sign it when signing is configured, and turn
+   * `delayMs` into the `x-delay` header of the delayed message plugin.
+   */
+  private preparePublish(
+    { payload: validatedMessage, options }: InterceptedPublish,
+    { exchange, message }: PublisherDefinition,
+  ): ResultAsync<{ payload: Buffer; publishOptions: AmqpClientPublishOptions }, TechnicalError> {
+    // Extract compression and delay from the options and create publish options without them
+    const { compression, delayMs, ...restOptions } = options;
+    const publishOptions: AmqpClientPublishOptions = { ...restOptions };
+
+    if (delayMs !== undefined) {
+      if (!exchange.delayed) {
+        return errAsync(
+          new TechnicalError(
+            `Cannot delay a message: exchange "${exchange.name}" is not declared with delayed: true`,
+          ),
+        );
+      }
+      if (!Number.isFinite(delayMs) || delayMs < 0 || delayMs > MAX_DELAY_MS) {
+        return errAsync(
+          new TechnicalError(
+            `Invalid delayMs: expected a finite non-negative number ≤ ${MAX_DELAY_MS}, got ${String(delayMs)}`,
+          ),
+        );
+      }
+      publishOptions.headers = { ...publishOptions.headers, "x-delay": Math.round(delayMs) };
+    }
+
+    // The content type selects the codec the worker decodes with, so it
+    // always reflects the message definition.
+    const contentType = message.contentType ?? DEFAULT_CONTENT_TYPE;
+    publishOptions.contentType = contentType;
+    const encoded = this.codecs.encode(validatedMessage, contentType);
+    if (encoded.isErr()) {
+      return errAsync(encoded.error);
+    }
+
+    const algorithm = resolveCompression(compression, encoded.value.length);
+    if (algorithm) {
+      publishOptions.contentEncoding = algorithm;
+    }
+
+    // Encrypt last: ciphertext does not compress.
+    return (algorithm ? compressBuffer(encoded.value, algorithm) : okAsync(encoded.value))
+      .andThen((compressed) => this.encrypt(compressed, message, publishOptions))
+      .andThen((encrypted) => this.sign(encrypted, publishOptions))
+      .map((payload) => ({ payload, publishOptions }));
+  }
+
+  /**
+   * Encrypt a message body when its definition requires it, adding the key
+   * id header to the publish options.
+   */
+  private encrypt(
+    content: Buffer,
+    message: MessageDefinition,
+    publishOptions: AmqpClientPublishOptions,
+  ): ResultAsync<Buffer, TechnicalError> {
+    return encryptMessage(content, message, this.keyProvider).map(({ content, headers }) => {
+      if (Object.keys(headers).length > 0) {
+        publishOptions.headers = { ...publishOptions.headers, ...headers };
+      }
+      return content;
+    });
+  }
+  /**
+   * Sign the published body and properties when signing is configured,
+   * adding the signature headers to the publish options. Runs last, once the
+   * body and properties are final.
+   */
+  private sign(
+    content: Buffer,
+    publishOptions: AmqpClientPublishOptions,
+  ): Result<Buffer, TechnicalError> {
+    if (!this.signing) {
+      return ok(content);
+    }
+    return signMessage(content, publishOptions, this.signing).map((headers) => {
+      publishOptions.headers = { ...publishOptions.headers, ...headers };
+      return content;
+    });
+  }
+
   /**
    * Invoke an RPC defined via `defineRpc` and await the typed response.
    *
-   * The request payload is validated against the RPC's request schema, then
-   * published to the AMQP default exchange with the server's queue name as
+   * The request payload is validated against the RPC's request schema, and
+   * `options.publishOptions.headers` against its headers schema if it defines
+   * one (they are then typed from it, and required when it has required
+   * fields). The request is then published to the AMQP default exchange with the server's queue name as
    * routing key, `replyTo` set to `amq.rabbitmq.reply-to`, and a fresh UUID
    * `correlationId`. The returned ResultAsync resolves once a matching reply
    * arrives and validates against the response schema, or once `timeoutMs`
@@ -406,13 +866,22 @@ export class TypedAmqpClient<TContract extends ContractDefinition> {
   call<TName extends InferRpcNames<TContract>>(
     rpcName: TName,
     request: ClientInferRpcRequestInput<TContract, TName>,
-    options: CallOptions,
+    options: ClientInferCallOptions<TContract, TName>,
   ): ResultAsync<
     ClientInferRpcResponseOutput<TContract, TName>,
-    TechnicalError | MessageValidationError | RpcTimeoutError | RpcCancelledError
+    | TechnicalError
+    | MessageValidationError
+    | PublishVetoedError
+    | RpcTimeoutError
+    | RpcCancelledError
   > {
     type ResponseType = ClientInferRpcResponseOutput<TContract, TName>;
-    type CallError = TechnicalError | MessageValidationError | RpcTimeoutError | RpcCancelledError;
+    type CallError =
+      | TechnicalError
+      | MessageValidationError
+      | PublishVetoedError
+      | RpcTimeoutError
+      | RpcCancelledError;
     type CallResult = Result<ResponseType, CallError>;
 
     // setTimeout truncates fractional ms and clamps anything outside the
@@ -436,7 +905,6 @@ export class TypedAmqpClient<TContract extends ContractDefinition> {
     // Non-null assertion safe: TName is constrained to RPC names in the contract.
     const rpc = this.contract.rpcs![rpcName as string]!;
     const requestSchema = rpc.request.payload;
-    const responseSchema = rpc.response.payload;
     const queueName = extractQueue(rpc.queue).name;
 
     // RPC publishes to the default exchange with the queue name as routing key.
@@ -463,7 +931,7 @@ export class TypedAmqpClient<TContract extends ContractDefinition> {
 
     this.pendingCalls.set(correlationId, {
       rpcName: String(rpcName),
-      responseSchema,
+      response: rpc.response,
       resolve: resolveCall as PendingCall["resolve"],
       timer,
     });
@@ -495,36 +963,76 @@ export class TypedAmqpClient<TContract extends ContractDefinition> {
       );
     };
 
-    const publishRequest = (validatedRequest: unknown): ResultAsync<void, TechnicalError> => {
+    const validateRequestHeaders = (): ResultAsync<
+      CallOptions["publishOptions"],
+      TechnicalError | MessageValidationError
+    > => {
+      const { publishOptions } = options as CallOptions;
+      const headers = mergeHeaders(this.defaultPublishOptions.headers, publishOptions?.headers);
+      return validateHeaders(rpc.request.headers, headers, String(rpcName)).map(
+        (validatedHeaders) =>
+          validatedHeaders === undefined
+            ? publishOptions
+            : { ...publishOptions, headers: validatedHeaders },
+      );
+    };
+
+    const publishRequest = (
+      validatedRequest: unknown,
+      callPublishOptions: CallOptions["publishOptions"],
+    ): ResultAsync<void, TechnicalError | PublishVetoedError> => {
       // Merge `defaultPublishOptions` (persistent, priority, headers, …) with
-      // the per-call options, then layer the RPC-managed fields on top so they
-      // cannot be overridden. `compression` is intentionally dropped: RPC v1
-      // does not implement reply-side decompression, so request-side
-      // compression would break the round-trip.
+      // the per-call options and the message defaults, run the interceptors,
+      // then layer the RPC-managed fields on top so they cannot be overridden
+      // (an inherited correlation id gives way to the call's). `compression` is
+      // intentionally dropped: RPC v1 does not implement reply-side
+      // decompression, so request-side compression would break the round-trip.
       const { compression: _ignoredCompression, ...defaultsWithoutCompression } =
         this.defaultPublishOptions;
-      const publishOptions: AmqpClientPublishOptions = {
-        ...defaultsWithoutCompression,
-        ...options.publishOptions,
-        replyTo: DIRECT_REPLY_TO,
-        correlationId,
-        contentType: "application/json",
-      };
-      return this.amqpClient
-        .publish("", queueName, validatedRequest, publishOptions)
-        .andThen((published) =>
-          published
-            ? ok<void, TechnicalError>(undefined)
-            : err<void, TechnicalError>(
-                new TechnicalError(
-                  `Failed to publish RPC request for "${String(rpcName)}": channel buffer full`,
+      return runPublishInterceptors(this.interceptors, {
+        publisherName: String(rpcName),
+        kind: "call",
+        payload: validatedRequest,
+        options: this.withMessageDefaults(String(rpcName), {
+          ...defaultsWithoutCompression,
+          ...callPublishOptions,
+        }),
+      }).andThen(({ payload, options: interceptedOptions }) => {
+        const {
+          compression: _interceptedCompression,
+          delayMs: _interceptedDelay,
+          ...requestOptions
+        } = interceptedOptions;
+        const contentType = rpc.request.contentType ?? DEFAULT_CONTENT_TYPE;
+        const publishOptions: AmqpClientPublishOptions = {
+          ...requestOptions,
+          replyTo: DIRECT_REPLY_TO,
+          correlationId,
+          contentType,
+        };
+        return this.codecs
+          .encode(payload, contentType)
+          .asyncAndThen((content) => this.encrypt(content, rpc.request, publishOptions))
+          .andThen((content) => this.sign(content, publishOptions))
+          .andThen((content) => this.amqpClient.publish("", queueName, content, publishOptions))
+          .andThen((published) =>
+            published
+              ? ok<void, TechnicalError>(undefined)
+              : err<void, TechnicalError>(
+                  new TechnicalError(
+                    `Failed to publish RPC request for "${String(rpcName)}": channel buffer full`,
+                  ),
                 ),
-              ),
-        );
+          );
+      });
     };
 
     return validateRequest()
-      .andThen((validated) => publishRequest(validated))
+      .andThen((validated) =>
+        validateRequestHeaders().andThen((callPublishOptions) =>
+          publishRequest(validated, callPublishOptions),
+        ),
+      )
       .andThen(() => callResultAsync)
       .orElse((error: CallError) => {
         // If preflight failed (validate or publish), the pending entry still
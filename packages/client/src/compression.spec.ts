@@ -1,6 +1,6 @@
 import { describe, expect, it } from "vitest";
 
-import { compressBuffer } from "./compression.js";
+import { compressBuffer, resolveCompression } from "./compression.js";
 
 describe("Compression utilities", () => {
   describe("compressBuffer", () => {
@@ -28,6 +28,28 @@ describe("Compression utilities", () => {
       expect(decompressed).toEqual(testData);
     });
 
+    it("should compress and decompress data with brotli algorithm", async () => {
+      const { brotliDecompressSync } = await import("node:zlib");
+
+      const testData = Buffer.from(JSON.stringify({ message: "Hello, World!" }));
+      const compressed = (await compressBuffer(testData, "br"))._unsafeUnwrap();
+
+      expect(brotliDecompressSync(compressed)).toEqual(testData);
+    });
+
+    it("should compress data with zstd or report it unsupported", async () => {
+      const zlib = await import("node:zlib");
+
+      const testData = Buffer.from(JSON.stringify({ message: "Hello, World!" }));
+      const result = await compressBuffer(testData, "zstd");
+
+      if (typeof zlib.zstdDecompressSync === "function") {
+        expect(zlib.zstdDecompressSync(result._unsafeUnwrap())).toEqual(testData);
+      } else {
+        expect(result._unsafeUnwrapErr().message).toContain("zstd compression is not supported");
+      }
+    });
+
     it("should compress large data efficiently", async () => {
       // Create a large JSON object with repetitive data
       const largeData = Buffer.from(
@@ -46,4 +68,14 @@ describe("Compression utilities", () => {
       expect(compressed.length).toBeLessThan(largeData.length);
     });
   });
+
+  describe("resolveCompression", () => {
+    it("should only compress payloads reaching the minBytes threshold", () => {
+      expect(resolveCompression(undefined, 10)).toBeUndefined();
+      expect(resolveCompression("gzip", 0)).toBe("gzip");
+      expect(resolveCompression({ algorithm: "br" }, 0)).toBe("br");
+      expect(resolveCompression({ algorithm: "br", minBytes: 1024 }, 1023)).toBeUndefined();
+      expect(resolveCompression({ algorithm: "br", minBytes: 1024 }, 1024)).toBe("br");
+    });
+  });
 });
@@ -1,12 +1,13 @@
-import type { CompressionAlgorithm } from "@amqp-contract/contract";
+import type { CompressionAlgorithm, CompressionOptions } from "@amqp-contract/contract";
 import { TechnicalError } from "@amqp-contract/core";
-import { ResultAsync } from "neverthrow";
-import { deflate, gzip } from "node:zlib";
+import { errAsync, ResultAsync } from "neverthrow";
+import * as zlib from "node:zlib";
 import { promisify } from "node:util";
 import { match } from "ts-pattern";
 
-const gzipAsync = promisify(gzip);
-const deflateAsync = promisify(deflate);
+const gzipAsync = promisify(zlib.gzip);
+const deflateAsync = promisify(zlib.deflate);
+const brotliCompressAsync = promisify(zlib.brotliCompress);
 
 /**
  * Compress a buffer using the specified compression algorithm.
@@ -34,5 +35,44 @@ export function compressBuffer(
         (error) => new TechnicalError("Failed to compress with deflate", error),
       ),
     )
+    .with("br", () =>
+      ResultAsync.fromPromise(
+        brotliCompressAsync(buffer),
+        (error) => new TechnicalError("Failed to compress with br", error),
+      ),
+    )
+    .with("zstd", () => {
+      // Looked up at call time: zstd is missing from older Node.js versions
+      if (typeof zlib.zstdCompress !== "function") {
+        return errAsync(
+          new TechnicalError(
+            `zstd compression is not supported by Node.js ${process.version}, it requires Node.js 22.15 or later`,
+          ),
+        );
+      }
+      return ResultAsync.fromPromise(
+        promisify(zlib.zstdCompress)(buffer),
+        (error) => new TechnicalError("Failed to compress with zstd", error),
+      );
+    })
     .exhaustive();
 }
+
+/**
+ * Resolve the algorithm to compress a payload of `size` bytes with, if any.
+ *
+ * @param compression - A compression algorithm, or one with a `minBytes` threshold
+ * @param size - Size in bytes of the encoded payload
+ * @returns The algorithm to use, or `undefined` when the payload is below the threshold
+ *
+ * @internal
+ */
+export function resolveCompression(
+  compression: CompressionAlgorithm | CompressionOptions | undefined,
+  size: number,
+): CompressionAlgorithm | undefined {
+  if (compression === undefined || typeof compression === "string") {
+    return compression;
+  }
+  return size >= (compression.minBytes ?? 0) ? compression.algorithm : undefined;
+}
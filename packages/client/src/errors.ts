@@ -43,3 +43,19 @@ export class RpcCancelledError extends Error {
     captureStack(this, this.constructor);
   }
 }
+
+/**
+ * Returned from `TypedAmqpClient.publish()` and `call()` when a
+ * `PublishInterceptor` refuses to let a message be published. Nothing
+ * is sent to the broker.
+ */
+export class PublishVetoedError extends Error {
+  constructor(
+    public readonly publisherName: string,
+    public readonly reason: string,
+  ) {
+    super(`Publish for "${publisherName}" was vetoed: ${reason}`);
+    this.name = "PublishVetoedError";
+    captureStack(this, this.constructor);
+  }
+}
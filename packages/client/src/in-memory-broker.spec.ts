@@ -0,0 +1,869 @@
+import {
+  defineContract,
+  defineEventConsumer,
+  defineEventPublisher,
+  defineExchange,
+  defineMessage,
+  definePublisher,
+  defineQueue,
+  defineRpc,
+} from "@amqp-contract/contract";
+import {
+  AmqpClient,
+  CAUSATION_ID_HEADER,
+  decryptMessage,
+  ENCRYPTION_KEY_ID_HEADER,
+  InMemoryBroker,
+  InMemoryKeyProvider,
+  InMemorySignatureVerifier,
+  messagePackCodec,
+  runWithMessageContext,
+  SIGNATURE_KEY_ID_HEADER,
+  TechnicalError,
+  verifyMessageSignature,
+} from "@amqp-contract/core";
+import type { ConsumeMessage } from "amqplib";
+import { errAsync, okAsync, type ResultAsync } from "neverthrow";
+import { generateKeyPairSync, randomBytes } from "node:crypto";
+import { brotliDecompressSync, gunzipSync, inflateSync } from "node:zlib";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import { TypedAmqpClient } from "./client.js";
+import { MessageValidationError, PublishVetoedError } from "./errors.js";
+import type { PublishInterceptor } from "./interceptors.js";
+
+describe("TypedAmqpClient with InMemoryBroker", () => {
+  let broker: InMemoryBroker;
+  const closables: Array<{ close: () => ResultAsync<void, unknown> }> = [];
+
+  beforeEach(() => {
+    broker = new InMemoryBroker();
+  });
+
+  afterEach(async () => {
+    for (const closable of closables.splice(0).reverse()) {
+      await closable.close();
+    }
+    await broker.close();
+  });
+
+  it("should publish validated messages to bound queues", async () => {
+    // GIVEN
+    const exchange = defineExchange("orders", { type: "topic" });
+    const queue = defineQueue("order-audit", { type: "classic" });
+    const orderCreated = defineEventPublisher(
+      exchange,
+      defineMessage(z.object({ orderId: z.string() })),
+      { routingKey: "order.created" },
+    );
+    const contract = defineContract({
+      publishers: { orderCreated },
+      consumers: { auditOrder: defineEventConsumer(orderCreated, queue) },
+    });
+    const client = (await TypedAmqpClient.create({ contract, urls: [broker.url] }))._unsafeUnwrap();
+    closables.push(client);
+
+    // WHEN
+    const result = await client.publish("orderCreated", { orderId: "order-1" });
+
+    // THEN
+    expect(result.isOk()).toBe(true);
+    await vi.waitFor(() => expect(broker.getQueueInfo("order-audit")?.messageCount).toBe(1));
+  });
+
+  it("should set default message properties and inherit the message context", async () => {
+    // GIVEN
+    const exchange = defineExchange("orders", { type: "topic" });
+    const orderCreated = defineEventPublisher(
+      exchange,
+      defineMessage(z.object({ orderId: z.string() })),
+      { routingKey: "order.created" },
+    );
+    const contract = defineContract({
+      publishers: { orderCreated },
+      consumers: {
+        auditOrder: defineEventConsumer(
+          orderCreated,
+          defineQueue("order-audit", { type: "classic" }),
+        ),
+      },
+    });
+    const client = (
+      await TypedAmqpClient.create({ contract, urls: [broker.url], appId: "order-service" })
+    )._unsafeUnwrap();
+    closables.push(client);
+    const consumer = new AmqpClient(contract, { urls: [broker.url] });
+    closables.push(consumer);
+    const received: ConsumeMessage[] = [];
+    (
+      await consumer.consume("order-audit", (msg) => {
+        if (msg) received.push(msg);
+      })
+    )._unsafeUnwrap();
+    const before = Math.floor(Date.now() / 1000);
+
+    // WHEN
+    (await client.publish("orderCreated", { orderId: "order-1" }))._unsafeUnwrap();
+    (
+      await runWithMessageContext({ messageId: "cause-1", correlationId: "flow-1" }, () =>
+        client.publish("orderCreated", { orderId: "order-2" }),
+      )
+    )._unsafeUnwrap();
+    (
+      await client.publish(
+        "orderCreated",
+        { orderId: "order-3" },
+        { messageId: "order-3", type: "order.imported" },
+      )
+    )._unsafeUnwrap();
+
+    // THEN
+    await vi.waitFor(() => expect(received).toHaveLength(3));
+    const [first, inherited, overridden] = received.map((msg) => msg.properties);
+    expect(first).toMatchObject({
+      messageId: expect.stringMatching(/^[0-9a-f-]{36}$/),
+      timestamp: expect.any(Number),
+      type: "orderCreated",
+      appId: "order-service",
+    });
+    expect(first!.timestamp).toBeGreaterThanOrEqual(before);
+    expect(first!.correlationId).toBeUndefined();
+    expect(inherited).toMatchObject({
+      correlationId: "flow-1",
+      headers: { [CAUSATION_ID_HEADER]: "cause-1" },
+    });
+    expect(inherited!.messageId).not.toBe(first!.messageId);
+    expect(overridden).toMatchObject({ messageId: "order-3", type: "order.imported" });
+  });
+
+  it("should validate publish headers against the message headers schema", async () => {
+    // GIVEN
+    const exchange = defineExchange("orders", { type: "topic" });
+    const queue = defineQueue("order-audit", { type: "classic" });
+    const orderCreated = defineEventPublisher(
+      exchange,
+      defineMessage(z.object({ orderId: z.string() }), {
+        headers: z.object({
+          "x-tenant-id": z.string(),
+          "x-priority": z.coerce.number().optional(),
+        }),
+      }),
+      { routingKey: "order.created" },
+    );
+    const contract = defineContract({
+      publishers: { orderCreated },
+      consumers: { auditOrder: defineEventConsumer(orderCreated, queue) },
+    });
+    const client = (await TypedAmqpClient.create({ contract, urls: [broker.url] }))._unsafeUnwrap();
+    closables.push(client);
+    const consumer = new AmqpClient(contract, { urls: [broker.url] });
+    closables.push(consumer);
+    const received: ConsumeMessage[] = [];
+    (
+      await consumer.consume("order-audit", (msg) => {
+        if (msg) received.push(msg);
+      })
+    )._unsafeUnwrap();
+
+    // WHEN
+    const result = await client.publish(
+      "orderCreated",
+      { orderId: "order-1" },
+      { headers: { "x-tenant-id": "acme", "x-priority": "2", traceparent: "00-trace-span-01" } },
+    );
+    // @ts-expect-error headers are required by the message headers schema
+    const missing = await client.publish("orderCreated", { orderId: "order-2" });
+    const invalid = await client.publish(
+      "orderCreated",
+      { orderId: "order-3" },
+      // @ts-expect-error x-tenant-id must be a string
+      { headers: { "x-tenant-id": 42 } },
+    );
+
+    // THEN
+    expect(result.isOk()).toBe(true);
+    expect(missing._unsafeUnwrapErr()).toBeInstanceOf(MessageValidationError);
+    expect(invalid._unsafeUnwrapErr()).toBeInstanceOf(MessageValidationError);
+    await vi.waitFor(() => expect(received).toHaveLength(1));
+    expect(received[0]!.properties.headers).toEqual({
+      "x-tenant-id": "acme",
+      "x-priority": 2,
+      traceparent: "00-trace-span-01",
+    });
+  });
+
+  it("should merge publish headers over the default headers before validating them", async () => {
+    // GIVEN
+    const exchange = defineExchange("orders", { type: "topic" });
+    const queue = defineQueue("order-audit", { type: "classic" });
+    const orderCreated = defineEventPublisher(
+      exchange,
+      defineMessage(z.object({ orderId: z.string() }), {
+        headers: z.object({
+          "x-tenant-id": z.string(),
+          "x-priority": z.coerce.number().optional(),
+        }),
+      }),
+      { routingKey: "order.created" },
+    );
+    const contract = defineContract({
+      publishers: { orderCreated },
+      consumers: { auditOrder: defineEventConsumer(orderCreated, queue) },
+    });
+    const client = (
+      await TypedAmqpClient.create({
+        contract,
+        urls: [broker.url],
+        defaultPublishOptions: { headers: { "x-tenant-id": "acme", "x-source": "orders" } },
+      })
+    )._unsafeUnwrap();
+    closables.push(client);
+    const consumer = new AmqpClient(contract, { urls: [broker.url] });
+    closables.push(consumer);
+    const received: ConsumeMessage[] = [];
+    (
+      await consumer.consume("order-audit", (msg) => {
+        if (msg) received.push(msg);
+      })
+    )._unsafeUnwrap();
+
+    // WHEN
+    const fromDefaults = await client.publish(
+      "orderCreated",
+      { orderId: "order-1" },
+      // @ts-expect-error x-tenant-id is only set in the default publish options
+      { headers: { "x-priority": "2" } },
+    );
+    const overridden = await client.publish(
+      "orderCreated",
+      { orderId: "order-2" },
+      { headers: { "x-tenant-id": "globex" } },
+    );
+
+    // THEN
+    expect(fromDefaults.isOk()).toBe(true);
+    expect(overridden.isOk()).toBe(true);
+    await vi.waitFor(() => expect(received).toHaveLength(2));
+    expect(received.map((msg) => msg.properties.headers)).toEqual([
+      { "x-tenant-id": "acme", "x-source": "orders", "x-priority": 2 },
+      { "x-tenant-id": "globex", "x-source": "orders" },
+    ]);
+  });
+
+  it("should encode payloads with the codec of the message content type", async () => {
+    // GIVEN
+    const exchange = defineExchange("telemetry", { type: "topic" });
+    const queue = defineQueue("telemetry-archive", { type: "classic" });
+    const readingRecorded = defineEventPublisher(
+      exchange,
+      defineMessage(z.object({ sensorId: z.string(), values: z.array(z.number()) }), {
+        contentType: "application/msgpack",
+      }),
+      { routingKey: "reading.recorded" },
+    );
+    const contract = defineContract({
+      publishers: { readingRecorded },
+      consumers: { archiveReading: defineEventConsumer(readingRecorded, queue) },
+    });
+    const client = (await TypedAmqpClient.create({ contract, urls: [broker.url] }))._unsafeUnwrap();
+    closables.push(client);
+    const consumer = new AmqpClient(contract, { urls: [broker.url] });
+    closables.push(consumer);
+    const received: ConsumeMessage[] = [];
+    (
+      await consumer.consume("telemetry-archive", (msg) => {
+        if (msg) received.push(msg);
+      })
+    )._unsafeUnwrap();
+
+    // WHEN
+    const result = await client.publish(
+      "readingRecorded",
+      { sensorId: "sensor-1", values: [21.5, 22] },
+      { compression: "gzip" },
+    );
+
+    // THEN
+    expect(result.isOk()).toBe(true);
+    await vi.waitFor(() => expect(received).toHaveLength(1));
+    const [message] = received;
+    expect(message!.properties).toMatchObject({
+      contentType: "application/msgpack",
+      contentEncoding: "gzip",
+    });
+    expect(messagePackCodec.decode(gunzipSync(message!.content))).toEqual({
+      sensorId: "sensor-1",
+      values: [21.5, 22],
+    });
+  });
+
+  it("should apply the publisher compression above its minBytes threshold", async () => {
+    // GIVEN
+    const exchange = defineExchange("reports", { type: "fanout" });
+    const message = defineMessage(z.object({ body: z.string() }));
+    const contract = defineContract({
+      publishers: {
+        reportPublished: definePublisher(exchange, message, {
+          compression: { algorithm: "br", minBytes: 100 },
+        }),
+      },
+      consumers: {
+        archiveReport: defineEventConsumer(
+          defineEventPublisher(exchange, message),
+          defineQueue("report-archive", { type: "classic" }),
+        ),
+      },
+    });
+    const client = (
+      await TypedAmqpClient.create({
+        contract,
+        urls: [broker.url],
+        defaultPublishOptions: { compression: "gzip" },
+      })
+    )._unsafeUnwrap();
+    closables.push(client);
+    const consumer = new AmqpClient(contract, { urls: [broker.url] });
+    closables.push(consumer);
+    const received: ConsumeMessage[] = [];
+    (
+      await consumer.consume("report-archive", (msg) => {
+        if (msg) received.push(msg);
+      })
+    )._unsafeUnwrap();
+
+    // WHEN
+    const small = await client.publish("reportPublished", { body: "short" });
+    const large = await client.publish("reportPublished", { body: "x".repeat(200) });
+    const overridden = await client.publish(
+      "reportPublished",
+      { body: "short" },
+      { compression: "deflate" },
+    );
+
+    // THEN
+    expect(small.isOk() && large.isOk() && overridden.isOk()).toBe(true);
+    await vi.waitFor(() => expect(received).toHaveLength(3));
+    const [smallMessage, largeMessage, overriddenMessage] = received;
+    expect(smallMessage!.properties.contentEncoding).toBeUndefined();
+    expect(JSON.parse(smallMessage!.content.toString())).toEqual({ body: "short" });
+    expect(largeMessage!.properties.contentEncoding).toBe("br");
+    expect(JSON.parse(brotliDecompressSync(largeMessage!.content).toString())).toEqual({
+      body: "x".repeat(200),
+    });
+    expect(overriddenMessage!.properties.contentEncoding).toBe("deflate");
+    expect(JSON.parse(inflateSync(overriddenMessage!.content).toString())).toEqual({
+      body: "short",
+    });
+  });
+
+  it("should encrypt messages requiring encryption with the current key", async () => {
+    // GIVEN
+    const exchange = defineExchange("customers", { type: "topic" });
+    const message = defineMessage(z.object({ email: z.string() }), { encryption: "required" });
+    const customerUpdated = defineEventPublisher(exchange, message, {
+      routingKey: "customer.updated",
+    });
+    const contract = defineContract({
+      publishers: { customerUpdated },
+      consumers: {
+        syncCustomer: defineEventConsumer(
+          customerUpdated,
+          defineQueue("customer-sync", { type: "classic" }),
+        ),
+      },
+    });
+    const keyProvider = new InMemoryKeyProvider({
+      currentKeyId: "k1",
+      keys: { k1: randomBytes(32) },
+    });
+    const client = (
+      await TypedAmqpClient.create({ contract, urls: [broker.url], keyProvider })
+    )._unsafeUnwrap();
+    closables.push(client);
+    const clientWithoutKeys = (
+      await TypedAmqpClient.create({ contract, urls: [broker.url] })
+    )._unsafeUnwrap();
+    closables.push(clientWithoutKeys);
+    const consumer = new AmqpClient(contract, { urls: [broker.url] });
+    closables.push(consumer);
+    const received: ConsumeMessage[] = [];
+    (
+      await consumer.consume("customer-sync", (msg) => {
+        if (msg) received.push(msg);
+      })
+    )._unsafeUnwrap();
+
+    // WHEN
+    const result = await client.publish(
+      "customerUpdated",
+      { email: "jane@example.com" },
+      { compression: "gzip" },
+    );
+    const unencrypted = await clientWithoutKeys.publish("customerUpdated", {
+      email: "jane@example.com",
+    });
+
+    // THEN
+    expect(result.isOk()).toBe(true);
+    expect(unencrypted._unsafeUnwrapErr().message).toBe(
+      "Message requires encryption but no keyProvider is configured",
+    );
+    await vi.waitFor(() => expect(received).toHaveLength(1));
+    const [encrypted] = received;
+    expect(encrypted!.properties.headers).toMatchObject({ [ENCRYPTION_KEY_ID_HEADER]: "k1" });
+    const decrypted = await decryptMessage(
+      encrypted!.content,
+      encrypted!.properties.headers,
+      message,
+      keyProvider,
+    );
+    expect(JSON.parse(gunzipSync(decrypted._unsafeUnwrap()).toString())).toEqual({
+      email: "jane@example.com",
+    });
+  });
+
+  it("should sign the published body and properties", async () => {
+    // GIVEN
+    const exchange = defineExchange("payments", { type: "topic" });
+    const paymentCaptured = defineEventPublisher(
+      exchange,
+      defineMessage(z.object({ paymentId: z.string() })),
+      { routingKey: "payment.captured" },
+    );
+    const contract = defineContract({
+      publishers: { paymentCaptured },
+      consumers: {
+        capturePayment: defineEventConsumer(
+          paymentCaptured,
+          defineQueue("payment-processing", { type: "classic" }),
+        ),
+      },
+    });
+    const { privateKey, publicKey } = generateKeyPairSync("ed25519");
+    const client = (
+      await TypedAmqpClient.create({
+        contract,
+        urls: [broker.url],
+        signing: { algorithm: "ed25519", keyId: "billing-service", key: privateKey },
+      })
+    )._unsafeUnwrap();
+    closables.push(client);
+    const consumer = new AmqpClient(contract, { urls: [broker.url] });
+    closables.push(consumer);
+    const received: ConsumeMessage[] = [];
+    (
+      await consumer.consume("payment-processing", (msg) => {
+        if (msg) received.push(msg);
+      })
+    )._unsafeUnwrap();
+
+    // WHEN
+    const result = await client.publish(
+      "paymentCaptured",
+      { paymentId: "payment-1" },
+      { compression: "gzip", messageId: "message-1", appId: "billing-service" },
+    );
+
+    // THEN
+    expect(result.isOk()).toBe(true);
+    await vi.waitFor(() => expect(received).toHaveLength(1));
+    const [signed] = received;
+    expect(signed!.properties.headers).toMatchObject({
+      [SIGNATURE_KEY_ID_HEADER]: "billing-service",
+    });
+    const verified = await verifyMessageSignature(
+      signed!.content,
+      signed!.properties,
+      new InMemorySignatureVerifier({
+        "billing-service": { algorithm: "ed25519", key: publicKey },
+      }),
+      "capturePayment",
+    );
+    expect(verified.isOk()).toBe(true);
+  });
+
+  describe("publishBatch", () => {
+    const exchange = defineExchange("orders", { type: "topic" });
+    const orderCreated = defineEventPublisher(
+      exchange,
+      defineMessage(z.object({ orderId: z.string() })),
+      { routingKey: "order.created" },
+    );
+    const contract = defineContract({
+      publishers: { orderCreated },
+      consumers: {
+        auditOrder: defineEventConsumer(
+          orderCreated,
+          defineQueue("order-audit", { type: "classic" }),
+        ),
+      },
+    });
+
+    it("should report an outcome for every message in input order", async () => {
+      // GIVEN
+      const client = (
+        await TypedAmqpClient.create({ contract, urls: [broker.url] })
+      )._unsafeUnwrap();
+      closables.push(client);
+
+      // WHEN
+      const result = await client.publishBatch("orderCreated", [
+        { orderId: "order-1" },
+        { orderId: 2 } as unknown as { orderId: string },
+        { orderId: "order-3" },
+      ]);
+
+      // THEN
+      expect(result._unsafeUnwrap()).toEqual([
+        { status: "confirmed", index: 0 },
+        { status: "invalid", index: 1, error: expect.any(MessageValidationError) },
+        { status: "confirmed", index: 2 },
+      ]);
+      await vi.waitFor(() => expect(broker.getQueueInfo("order-audit")?.messageCount).toBe(2));
+    });
+
+    it("should report messages the channel failed to confirm as nacked", async () => {
+      // GIVEN
+      const client = (
+        await TypedAmqpClient.create({ contract, urls: [broker.url] })
+      )._unsafeUnwrap();
+      closables.push(client);
+      await broker.close();
+
+      // WHEN
+      const result = await client.publishBatch("orderCreated", [
+        { orderId: "order-1" },
+        { orderId: "order-2" },
+      ]);
+
+      // THEN
+      expect(result._unsafeUnwrap()).toEqual([
+        { status: "nacked", index: 0, error: expect.any(TechnicalError) },
+        { status: "nacked", index: 1, error: expect.any(TechnicalError) },
+      ]);
+    });
+
+    it("should resolve to an empty list for an empty batch", async () => {
+      // GIVEN
+      const client = (
+        await TypedAmqpClient.create({ contract, urls: [broker.url] })
+      )._unsafeUnwrap();
+      closables.push(client);
+
+      // WHEN
+      const result = await client.publishBatch("orderCreated", []);
+
+      // THEN
+      expect(result._unsafeUnwrap()).toEqual([]);
+    });
+  });
+
+  describe("delayed publishing", () => {
+    const reminders = defineExchange("reminders", { type: "direct", delayed: true });
+    const reminderDue = defineEventPublisher(
+      reminders,
+      defineMessage(z.object({ reminderId: z.string() })),
+      { routingKey: "reminder.due" },
+    );
+    const orders = defineExchange("orders", { type: "topic" });
+    const orderCreated = defineEventPublisher(
+      orders,
+      defineMessage(z.object({ orderId: z.string() })),
+      { routingKey: "order.created" },
+    );
+    const contract = defineContract({
+      publishers: { reminderDue, orderCreated },
+      consumers: {
+        sendReminder: defineEventConsumer(
+          reminderDue,
+          defineQueue("reminder-delivery", { type: "classic" }),
+        ),
+      },
+    });
+
+    it("should hold messages published with delayMs", async () => {
+      // GIVEN
+      const client = (
+        await TypedAmqpClient.create({ contract, urls: [broker.url] })
+      )._unsafeUnwrap();
+      closables.push(client);
+
+      // WHEN
+      const result = await client.publish("reminderDue", { reminderId: "r-1" }, { delayMs: 50 });
+
+      // THEN
+      expect(result.isOk()).toBe(true);
+      expect(broker.getQueueInfo("reminder-delivery")?.messageCount).toBe(0);
+      await vi.waitFor(() =>
+        expect(broker.getQueueInfo("reminder-delivery")?.messageCount).toBe(1),
+      );
+    });
+
+    it("should hold messages published with publishAt until the given date", async () => {
+      // GIVEN
+      const client = (
+        await TypedAmqpClient.create({ contract, urls: [broker.url] })
+      )._unsafeUnwrap();
+      closables.push(client);
+
+      // WHEN
+      const result = await client.publishAt(
+        "reminderDue",
+        { reminderId: "r-1" },
+        new Date(Date.now() + 50),
+      );
+
+      // THEN
+      expect(result.isOk()).toBe(true);
+      expect(broker.getQueueInfo("reminder-delivery")?.messageCount).toBe(0);
+      await vi.waitFor(() =>
+        expect(broker.getQueueInfo("reminder-delivery")?.messageCount).toBe(1),
+      );
+    });
+
+    it("should reject delays on publishers of non-delayed exchanges", async () => {
+      // GIVEN
+      const client = (
+        await TypedAmqpClient.create({ contract, urls: [broker.url] })
+      )._unsafeUnwrap();
+      closables.push(client);
+
+      // WHEN
+      const result = await client.publish(
+        "orderCreated",
+        { orderId: "order-1" },
+        // @ts-expect-error delayMs is only accepted by publishers of delayed exchanges
+        { delayMs: 50 },
+      );
+
+      // THEN
+      expect(result._unsafeUnwrapErr()).toBeInstanceOf(TechnicalError);
+      expect(result._unsafeUnwrapErr().message).toContain('exchange "orders"');
+    });
+
+    it("should reject invalid delays", async () => {
+      // GIVEN
+      const client = (
+        await TypedAmqpClient.create({ contract, urls: [broker.url] })
+      )._unsafeUnwrap();
+      closables.push(client);
+
+      // WHEN
+      const negative = await client.publish("reminderDue", { reminderId: "r-1" }, { delayMs: -1 });
+      const invalidDate = await client.publishAt(
+        "reminderDue",
+        { reminderId: "r-1" },
+        new Date(Number.NaN),
+      );
+
+      // THEN
+      expect(negative._unsafeUnwrapErr()).toBeInstanceOf(TechnicalError);
+      expect(invalidDate._unsafeUnwrapErr()).toBeInstanceOf(TechnicalError);
+    });
+  });
+
+  describe("interceptors", () => {
+    const exchange = defineExchange("orders", { type: "topic" });
+    const orderCreated = defineEventPublisher(
+      exchange,
+      defineMessage(z.object({ orderId: z.string() })),
+      { routingKey: "order.created" },
+    );
+    const contract = defineContract({
+      publishers: { orderCreated },
+      consumers: {
+        auditOrder: defineEventConsumer(
+          orderCreated,
+          defineQueue("order-audit", { type: "classic" }),
+        ),
+      },
+    });
+    const stampTenant: PublishInterceptor = ({ payload, options }) =>
+      okAsync({
+        payload,
+        options: { ...options, headers: { ...options.headers, tenant: "acme" } },
+      });
+    const vetoBlocked: PublishInterceptor = (context) =>
+      (context.payload as { orderId: string }).orderId === "blocked"
+        ? errAsync(new PublishVetoedError(context.publisherName, "order is blocked"))
+        : okAsync(context);
+
+    it("should publish the message returned by the interceptors", async () => {
+      // GIVEN
+      const client = (
+        await TypedAmqpClient.create({
+          contract,
+          urls: [broker.url],
+          interceptors: [stampTenant, vetoBlocked],
+        })
+      )._unsafeUnwrap();
+      closables.push(client);
+      const consumer = new AmqpClient(contract, { urls: [broker.url] });
+      closables.push(consumer);
+      const received: ConsumeMessage[] = [];
+      (
+        await consumer.consume("order-audit", (msg) => {
+          if (msg) received.push(msg);
+        })
+      )._unsafeUnwrap();
+
+      // WHEN
+      const result = await client.publish("orderCreated", { orderId: "order-1" });
+
+      // THEN
+      expect(result.isOk()).toBe(true);
+      await vi.waitFor(() => expect(received).toHaveLength(1));
+      expect(received[0]!.properties.headers).toMatchObject({ tenant: "acme" });
+    });
+
+    it("should not publish vetoed messages", async () => {
+      // GIVEN
+      const client = (
+        await TypedAmqpClient.create({ contract, urls: [broker.url], interceptors: [vetoBlocked] })
+      )._unsafeUnwrap();
+      closables.push(client);
+
+      // WHEN
+      const single = await client.publish("orderCreated", { orderId: "blocked" });
+      const batch = await client.publishBatch("orderCreated", [
+        { orderId: "blocked" },
+        { orderId: "order-2" },
+      ]);
+
+      // THEN
+      expect(single._unsafeUnwrapErr()).toEqual(
+        new PublishVetoedError("orderCreated", "order is blocked"),
+      );
+      expect(batch._unsafeUnwrap()).toEqual([
+        { status: "vetoed", index: 0, error: expect.any(PublishVetoedError) },
+        { status: "confirmed", index: 1 },
+      ]);
+      await vi.waitFor(() => expect(broker.getQueueInfo("order-audit")?.messageCount).toBe(1));
+    });
+  });
+
+  it("should resolve calls with the reply received over direct reply-to", async () => {
+    // GIVEN
+    const add = defineRpc(defineQueue("rpc-add", { type: "classic" }), {
+      request: defineMessage(z.object({ a: z.number(), b: z.number() })),
+      response: defineMessage(z.object({ sum: z.number() })),
+    });
+    const contract = defineContract({ rpcs: { add } });
+
+    const server = new AmqpClient(contract, { urls: [broker.url] });
+    closables.push(server);
+    (
+      await server.consume("rpc-add", (msg: ConsumeMessage | null) => {
+        if (!msg) return;
+        const { a, b } = JSON.parse(msg.content.toString()) as { a: number; b: number };
+        server.ack(msg);
+        void server.publish(
+          "",
+          msg.properties.replyTo,
+          { sum: a + b },
+          { correlationId: msg.properties.correlationId },
+        );
+      })
+    )._unsafeUnwrap();
+
+    const client = (await TypedAmqpClient.create({ contract, urls: [broker.url] }))._unsafeUnwrap();
+    closables.push(client);
+
+    // WHEN
+    const result = await client.call("add", { a: 1, b: 2 }, { timeoutMs: 1_000 });
+
+    // THEN
+    expect(result._unsafeUnwrap()).toEqual({ sum: 3 });
+  });
+
+  it("should validate RPC request headers against the request headers schema", async () => {
+    // GIVEN
+    const add = defineRpc(defineQueue("rpc-add", { type: "classic" }), {
+      request: defineMessage(z.object({ a: z.number(), b: z.number() }), {
+        headers: z.object({ "x-tenant-id": z.string() }),
+      }),
+      response: defineMessage(z.object({ sum: z.number() })),
+    });
+    const contract = defineContract({ rpcs: { add } });
+
+    const server = new AmqpClient(contract, { urls: [broker.url] });
+    closables.push(server);
+    const tenants: unknown[] = [];
+    (
+      await server.consume("rpc-add", (msg: ConsumeMessage | null) => {
+        if (!msg) return;
+        const { a, b } = JSON.parse(msg.content.toString()) as { a: number; b: number };
+        tenants.push(msg.properties.headers?.["x-tenant-id"]);
+        server.ack(msg);
+        void server.publish(
+          "",
+          msg.properties.replyTo,
+          { sum: a + b },
+          { correlationId: msg.properties.correlationId },
+        );
+      })
+    )._unsafeUnwrap();
+
+    const client = (await TypedAmqpClient.create({ contract, urls: [broker.url] }))._unsafeUnwrap();
+    closables.push(client);
+
+    // WHEN
+    const result = await client.call(
+      "add",
+      { a: 1, b: 2 },
+      { timeoutMs: 1_000, publishOptions: { headers: { "x-tenant-id": "acme" } } },
+    );
+    // @ts-expect-error publishOptions.headers is required by the request headers schema
+    const missing = await client.call("add", { a: 1, b: 2 }, { timeoutMs: 1_000 });
+
+    // THEN
+    expect(result._unsafeUnwrap()).toEqual({ sum: 3 });
+    expect(missing._unsafeUnwrapErr()).toBeInstanceOf(MessageValidationError);
+    expect(tenants).toEqual(["acme"]);
+  });
+
+  it("should run interceptors on RPC requests without overriding reply routing", async () => {
+    // GIVEN
+    const add = defineRpc(defineQueue("rpc-add", { type: "classic" }), {
+      request: defineMessage(z.object({ a: z.number(), b: z.number() })),
+      response: defineMessage(z.object({ sum: z.number() })),
+    });
+    const contract = defineContract({ rpcs: { add } });
+
+    const server = new AmqpClient(contract, { urls: [broker.url] });
+    closables.push(server);
+    (
+      await server.consume("rpc-add", (msg: ConsumeMessage | null) => {
+        if (!msg) return;
+        const { a, b } = JSON.parse(msg.content.toString()) as { a: number; b: number };
+        server.ack(msg);
+        void server.publish(
+          "",
+          msg.properties.replyTo,
+          { sum: a + b + Number(msg.properties.headers?.["x-offset"]) },
+          { correlationId: msg.properties.correlationId },
+        );
+      })
+    )._unsafeUnwrap();
+
+    const client = (
+      await TypedAmqpClient.create({
+        contract,
+        urls: [broker.url],
+        interceptors: [
+          ({ payload, options }) =>
+            okAsync({ payload, options: { ...options, headers: { "x-offset": 10 } } }),
+          ({ payload, options }) =>
+            okAsync({ payload, options: { ...options, correlationId: "x" } }),
+        ],
+      })
+    )._unsafeUnwrap();
+    closables.push(client);
+
+    // WHEN
+    const result = await client.call("add", { a: 1, b: 2 }, { timeoutMs: 1_000 });
+
+    // THEN
+    expect(result._unsafeUnwrap()).toEqual({ sum: 13 });
+  });
+});
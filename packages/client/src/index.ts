@@ -1,7 +1,39 @@
 export { TypedAmqpClient } from "./client.js";
-export type { CallOptions, CreateClientOptions, PublishOptions } from "./client.js";
-export { MessageValidationError, RpcCancelledError, RpcTimeoutError } from "./errors.js";
 export type {
+  CallOptions,
+  CreateClientOptions,
+  DelayedPublishOptions,
+  PublishBatchOutcome,
+  PublishOptions,
+} from "./client.js";
+export {
+  MessageValidationError,
+  PublishVetoedError,
+  RpcCancelledError,
+  RpcTimeoutError,
+} from "./errors.js";
+export type {
+  InterceptedPublish,
+  PublishInterceptor,
+  PublishInterceptorContext,
+} from "./interceptors.js";
+export { OutboxRelay, TypedOutbox } from "./outbox.js";
+export type {
+  CreateOutboxOptions,
+  OutboxDispatchResult,
+  OutboxInferPublishOptions,
+  OutboxMessage,
+  OutboxPublishOptions,
+  OutboxRelayOptions,
+  OutboxStore,
+} from "./outbox.js";
+export { InMemoryOutboxStore, SqliteOutboxStore } from "./outbox-store.js";
+export type { SqliteDatabase, SqliteOutboxStoreOptions } from "./outbox-store.js";
+export type {
+  ClientInferCallOptions,
+  ClientInferDelayedPublisherNames,
+  ClientInferPublishArgs,
+  ClientInferPublishOptions,
   ClientInferPublisherInput,
   ClientInferRpcRequestInput,
   ClientInferRpcResponseOutput,
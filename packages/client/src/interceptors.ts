@@ -0,0 +1,72 @@
+import type { TechnicalError } from "@amqp-contract/core";
+import { okAsync, type ResultAsync } from "neverthrow";
+import type { DelayedPublishOptions } from "./client.js";
+import type { PublishVetoedError } from "./errors.js";
+
+/**
+ * A message about to be published, as seen and returned by a {@link PublishInterceptor}.
+ */
+export type InterceptedPublish = {
+  /** The validated payload */
+  payload: unknown;
+  /**
+   * The publish options, already merged with the client's `defaultPublishOptions`
+   * and the publisher's `compression`.
+   * `delayMs` is only supported by publishers of delayed exchanges.
+   */
+  options: DelayedPublishOptions;
+};
+
+/**
+ * What a {@link PublishInterceptor} receives for each message.
+ */
+export type PublishInterceptorContext = InterceptedPublish & {
+  /** Name of the publisher, or of the RPC for `call` */
+  publisherName: string;
+  /** Whether the message is published with `publish`/`publishBatch` or is an RPC request from `call` */
+  kind: "publish" | "call";
+};
+
+/**
+ * Hook run after schema validation and right before a message is published.
+ *
+ * Interceptors run in registration order, each receiving the payload and
+ * options returned by the previous one. The returned payload is not
+ * validated again. Returning an error aborts the publish: use
+ * {@link PublishVetoedError} to refuse a message, or `TechnicalError` when the
+ * interceptor itself failed.
+ *
+ * For `call`, the `replyTo`, `correlationId` and `contentType` options are
+ * managed by the client and `compression` and `delayMs` are not supported,
+ * so changes to those options are ignored.
+ *
+ * @example
+ * ```typescript
+ * const maxSize: PublishInterceptor = (context) =>
+ *   JSON.stringify(context.payload).length > 64_000
+ *     ? errAsync(new PublishVetoedError(context.publisherName, 'payload too large'))
+ *     : okAsync(context);
+ * ```
+ */
+export type PublishInterceptor = (
+  context: PublishInterceptorContext,
+) => ResultAsync<InterceptedPublish, TechnicalError | PublishVetoedError>;
+
+/**
+ * Run interceptors in order over a message.
+ *
+ * @internal
+ */
+export function runPublishInterceptors(
+  interceptors: ReadonlyArray<PublishInterceptor>,
+  context: PublishInterceptorContext,
+): ResultAsync<InterceptedPublish, TechnicalError | PublishVetoedError> {
+  const { publisherName, kind } = context;
+  return interceptors.reduce<ResultAsync<InterceptedPublish, TechnicalError | PublishVetoedError>>(
+    (result, interceptor) =>
+      result.andThen(({ payload, options }) =>
+        interceptor({ publisherName, kind, payload, options }),
+      ),
+    okAsync({ payload: context.payload, options: context.options }),
+  );
+}
@@ -0,0 +1,127 @@
+import type { DatabaseSync } from "node:sqlite";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { OutboxMessage } from "./outbox.js";
+import { SqliteOutboxStore } from "./outbox-store.js";
+
+// `node:sqlite` is only available from Node.js 22.5.
+const sqlite = await import("node:sqlite").catch(() => undefined);
+
+describe.skipIf(sqlite === undefined)("SqliteOutboxStore", () => {
+  let db: DatabaseSync;
+
+  const message = (id: string): OutboxMessage => ({
+    id,
+    publisherName: "orderCreated",
+    payload: JSON.stringify({ orderId: id }),
+    options: undefined,
+    createdAt: new Date(1_700_000_000_000),
+    attempts: 0,
+    lastError: undefined,
+  });
+
+  beforeEach(() => {
+    db = new sqlite!.DatabaseSync(":memory:");
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it("should return pending messages in insertion order up to the limit", async () => {
+    // GIVEN
+    const store = new SqliteOutboxStore(db);
+    for (const id of ["a", "b", "c"]) {
+      (await store.add(message(id)))._unsafeUnwrap();
+    }
+
+    // WHEN
+    const pending = await store.fetchPending(2);
+
+    // THEN
+    expect(pending._unsafeUnwrap()).toEqual([message("a"), message("b")]);
+  });
+
+  it("should stop returning dispatched messages", async () => {
+    // GIVEN
+    const store = new SqliteOutboxStore(db);
+    for (const id of ["a", "b"]) {
+      (await store.add(message(id)))._unsafeUnwrap();
+    }
+
+    // WHEN
+    (await store.markDispatched(["a"]))._unsafeUnwrap();
+
+    // THEN
+    expect((await store.fetchPending(10))._unsafeUnwrap()).toEqual([message("b")]);
+  });
+
+  it("should record failed attempts", async () => {
+    // GIVEN
+    const store = new SqliteOutboxStore(db);
+    (await store.add(message("a")))._unsafeUnwrap();
+
+    // WHEN
+    (await store.markFailed("a", "Channel closed"))._unsafeUnwrap();
+    (await store.markFailed("a", "Broker unavailable"))._unsafeUnwrap();
+
+    // THEN
+    expect((await store.fetchPending(10))._unsafeUnwrap()).toEqual([
+      { ...message("a"), attempts: 2, lastError: "Broker unavailable" },
+    ]);
+  });
+
+  it("should stop returning dead messages and keep their last error", async () => {
+    // GIVEN
+    const store = new SqliteOutboxStore(db);
+    for (const id of ["a", "b"]) {
+      (await store.add(message(id)))._unsafeUnwrap();
+    }
+
+    // WHEN
+    (await store.markDead("a", "Unknown publisher"))._unsafeUnwrap();
+
+    // THEN
+    expect({
+      pending: (await store.fetchPending(10))._unsafeUnwrap(),
+      dead: db
+        .prepare("SELECT id, attempts, last_error FROM amqp_outbox WHERE dead_at IS NOT NULL")
+        .all(),
+    }).toEqual({
+      pending: [message("b")],
+      dead: [{ id: "a", attempts: 1, last_error: "Unknown publisher" }],
+    });
+  });
+
+  it("should roll back messages added in a rolled back transaction", async () => {
+    // GIVEN
+    const store = new SqliteOutboxStore(db, { tableName: "orders_outbox" });
+
+    // WHEN
+    db.exec("BEGIN");
+    (await store.add(message("a")))._unsafeUnwrap();
+    db.exec("ROLLBACK");
+
+    // THEN
+    expect((await store.fetchPending(10))._unsafeUnwrap()).toEqual([]);
+  });
+
+  it("should reject table names that are not plain identifiers", () => {
+    // WHEN / THEN
+    expect(() => new SqliteOutboxStore(db, { tableName: "outbox; DROP TABLE orders" })).toThrow(
+      "Invalid outbox table name",
+    );
+  });
+
+  it("should return an error when the database fails", async () => {
+    // GIVEN
+    const store = new SqliteOutboxStore(db);
+    db.close();
+
+    // WHEN
+    const result = await store.fetchPending(10);
+
+    // THEN
+    expect(result.isErr()).toBe(true);
+    db = new sqlite!.DatabaseSync(":memory:");
+  });
+});
@@ -0,0 +1,228 @@
+import { TechnicalError } from "@amqp-contract/core";
+import { okAsync, Result, ResultAsync } from "neverthrow";
+import type { OutboxMessage, OutboxStore } from "./outbox.js";
+
+type OutboxMessageStatus = "pending" | "dispatched" | "dead";
+
+/**
+ * {@link OutboxStore} that keeps messages in memory.
+ *
+ * Messages are lost when the process exits, so this store cannot provide
+ * transactional guarantees; use it in tests and local development.
+ */
+export class InMemoryOutboxStore implements OutboxStore {
+  private readonly messages = new Map<string, OutboxMessage & { status: OutboxMessageStatus }>();
+
+  add(message: OutboxMessage): ResultAsync<void, TechnicalError> {
+    this.messages.set(message.id, { ...message, status: "pending" });
+    return okAsync(undefined);
+  }
+
+  fetchPending(limit: number): ResultAsync<OutboxMessage[], TechnicalError> {
+    return okAsync(this.getMessages("pending").slice(0, limit));
+  }
+
+  markDispatched(ids: string[]): ResultAsync<void, TechnicalError> {
+    for (const id of ids) {
+      const message = this.messages.get(id);
+      if (message) message.status = "dispatched";
+    }
+    return okAsync(undefined);
+  }
+
+  markFailed(id: string, error: string): ResultAsync<void, TechnicalError> {
+    const message = this.messages.get(id);
+    if (message) {
+      message.attempts += 1;
+      message.lastError = error;
+    }
+    return okAsync(undefined);
+  }
+
+  markDead(id: string, error: string): ResultAsync<void, TechnicalError> {
+    const message = this.messages.get(id);
+    if (message) {
+      message.attempts += 1;
+      message.lastError = error;
+      message.status = "dead";
+    }
+    return okAsync(undefined);
+  }
+
+  /**
+   * Messages that have not been dispatched yet, oldest first.
+   */
+  getPending(): OutboxMessage[] {
+    return this.getMessages("pending");
+  }
+
+  /**
+   * Messages marked as dead, oldest first.
+   */
+  getDead(): OutboxMessage[] {
+    return this.getMessages("dead");
+  }
+
+  private getMessages(status: OutboxMessageStatus): OutboxMessage[] {
+    return Array.from(this.messages.values())
+      .filter((message) => message.status === status)
+      .map(({ status: _status, ...message }) => message);
+  }
+}
+
+/**
+ * Value that can be bound to a SQLite statement parameter.
+ */
+type SqliteValue = string | number | null;
+
+/**
+ * Minimal synchronous SQLite database handle, satisfied by both `node:sqlite`'s
+ * `DatabaseSync` and `better-sqlite3`'s `Database`.
+ */
+export type SqliteDatabase = {
+  exec(sql: string): unknown;
+  prepare(sql: string): {
+    run(...params: SqliteValue[]): unknown;
+    all(...params: SqliteValue[]): unknown[];
+  };
+};
+
+/**
+ * Options for {@link SqliteOutboxStore}.
+ */
+export type SqliteOutboxStoreOptions = {
+  /** Name of the outbox table, created if it does not exist. Defaults to `amqp_outbox`. */
+  tableName?: string | undefined;
+};
+
+type OutboxRow = {
+  id: string;
+  publisher_name: string;
+  payload: string;
+  options: string | null;
+  created_at: number;
+  attempts: number;
+  last_error: string | null;
+};
+
+/**
+ * Reference {@link OutboxStore} backed by SQLite.
+ *
+ * Pass the same database handle your service writes its business data with,
+ * and call {@link TypedOutbox.enqueue} inside the transaction: the outbox row
+ * is then committed or rolled back together with that data.
+ *
+ * @example
+ * ```typescript
+ * import { DatabaseSync } from 'node:sqlite';
+ *
+ * const db = new DatabaseSync('service.db');
+ * const store = new SqliteOutboxStore(db);
+ * ```
+ */
+export class SqliteOutboxStore implements OutboxStore {
+  private readonly table: string;
+
+  /**
+   * Create the store, creating the outbox table if needed.
+   *
+   * @throws {TechnicalError} If `tableName` is not a valid SQL identifier
+   */
+  constructor(
+    private readonly db: SqliteDatabase,
+    options: SqliteOutboxStoreOptions = {},
+  ) {
+    const table = options.tableName ?? "amqp_outbox";
+    // The table name is interpolated into SQL, so only accept plain identifiers.
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(table)) {
+      throw new TechnicalError(`Invalid outbox table name: ${table}`);
+    }
+    this.table = table;
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS ${table} (
+        seq INTEGER PRIMARY KEY AUTOINCREMENT,
+        id TEXT NOT NULL UNIQUE,
+        publisher_name TEXT NOT NULL,
+        payload TEXT NOT NULL,
+        options TEXT,
+        created_at INTEGER NOT NULL,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        last_error TEXT,
+        dispatched_at INTEGER,
+        dead_at INTEGER
+      );
+      CREATE INDEX IF NOT EXISTS ${table}_pending ON ${table} (dispatched_at, dead_at, seq);
+    `);
+  }
+
+  add(message: OutboxMessage): ResultAsync<void, TechnicalError> {
+    return this.run("Failed to add outbox message", () => {
+      this.db
+        .prepare(
+          `INSERT INTO ${this.table} (id, publisher_name, payload, options, created_at, attempts, last_error) VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        )
+        .run(
+          message.id,
+          message.publisherName,
+          message.payload,
+          message.options ?? null,
+          message.createdAt.getTime(),
+          message.attempts,
+          message.lastError ?? null,
+        );
+    });
+  }
+
+  fetchPending(limit: number): ResultAsync<OutboxMessage[], TechnicalError> {
+    return this.run("Failed to fetch pending outbox messages", () =>
+      (
+        this.db
+          .prepare(
+            `SELECT id, publisher_name, payload, options, created_at, attempts, last_error FROM ${this.table} WHERE dispatched_at IS NULL AND dead_at IS NULL ORDER BY seq LIMIT ?`,
+          )
+          .all(limit) as OutboxRow[]
+      ).map(
+        (row): OutboxMessage => ({
+          id: row.id,
+          publisherName: row.publisher_name,
+          payload: row.payload,
+          options: row.options ?? undefined,
+          createdAt: new Date(row.created_at),
+          attempts: row.attempts,
+          lastError: row.last_error ?? undefined,
+        }),
+      ),
+    );
+  }
+
+  markDispatched(ids: string[]): ResultAsync<void, TechnicalError> {
+    return this.run("Failed to mark outbox messages as dispatched", () => {
+      const statement = this.db.prepare(`UPDATE ${this.table} SET dispatched_at = ? WHERE id = ?`);
+      const now = Date.now();
+      for (const id of ids) statement.run(now, id);
+    });
+  }
+
+  markFailed(id: string, error: string): ResultAsync<void, TechnicalError> {
+    return this.run("Failed to record outbox publish failure", () => {
+      this.db
+        .prepare(`UPDATE ${this.table} SET attempts = attempts + 1, last_error = ? WHERE id = ?`)
+        .run(error, id);
+    });
+  }
+
+  markDead(id: string, error: string): ResultAsync<void, TechnicalError> {
+    return this.run("Failed to mark outbox message as dead", () => {
+      this.db
+        .prepare(
+          `UPDATE ${this.table} SET attempts = attempts + 1, last_error = ?, dead_at = ? WHERE id = ?`,
+        )
+        .run(error, Date.now(), id);
+    });
+  }
+
+  private run<T>(message: string, fn: () => T): ResultAsync<T, TechnicalError> {
+    const result = Result.fromThrowable(fn, (error) => new TechnicalError(message, error))();
+    return new ResultAsync(Promise.resolve(result));
+  }
+}
@@ -0,0 +1,376 @@
+import {
+  defineContract,
+  defineEventConsumer,
+  defineEventPublisher,
+  defineExchange,
+  defineMessage,
+  defineQueue,
+} from "@amqp-contract/contract";
+import { InMemoryBroker, TechnicalError } from "@amqp-contract/core";
+import { errAsync, okAsync } from "neverthrow";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import { TypedAmqpClient } from "./client.js";
+import { MessageValidationError, PublishVetoedError } from "./errors.js";
+import { type OutboxMessage, TypedOutbox } from "./outbox.js";
+import { InMemoryOutboxStore } from "./outbox-store.js";
+
+const storedMessage = (id: string, message: Partial<OutboxMessage> = {}): OutboxMessage => ({
+  id,
+  publisherName: "orderCreated",
+  payload: JSON.stringify({ orderId: id, amount: "1" }),
+  options: undefined,
+  createdAt: new Date(),
+  attempts: 0,
+  lastError: undefined,
+  ...message,
+});
+
+describe("TypedOutbox", () => {
+  const exchange = defineExchange("orders", { type: "topic" });
+  const orderCreated = defineEventPublisher(
+    exchange,
+    defineMessage(z.object({ orderId: z.string(), amount: z.string().transform(Number) })),
+    { routingKey: "order.created" },
+  );
+  const contract = defineContract({
+    publishers: { orderCreated },
+    consumers: {
+      auditOrder: defineEventConsumer(
+        orderCreated,
+        defineQueue("order-audit", { type: "classic" }),
+      ),
+    },
+  });
+
+  let broker: InMemoryBroker;
+  let client: TypedAmqpClient<typeof contract>;
+  let store: InMemoryOutboxStore;
+  let outbox: TypedOutbox<typeof contract>;
+
+  beforeEach(async () => {
+    broker = new InMemoryBroker();
+    client = (await TypedAmqpClient.create({ contract, urls: [broker.url] }))._unsafeUnwrap();
+    store = new InMemoryOutboxStore();
+    outbox = new TypedOutbox({ contract, store });
+  });
+
+  afterEach(async () => {
+    await client.close();
+    await broker.close();
+  });
+
+  describe("enqueue", () => {
+    it("should store the serialized message and options", async () => {
+      // WHEN
+      const result = await outbox.enqueue(
+        "orderCreated",
+        { orderId: "order-1", amount: "42" },
+        { priority: 5 },
+      );
+
+      // THEN
+      expect(store.getPending()).toEqual([
+        {
+          id: result._unsafeUnwrap(),
+          publisherName: "orderCreated",
+          payload: JSON.stringify({ orderId: "order-1", amount: "42" }),
+          options: JSON.stringify({ priority: 5 }),
+          createdAt: expect.any(Date),
+          attempts: 0,
+          lastError: undefined,
+        },
+      ]);
+    });
+
+    it("should reject messages that do not match the publisher schema", async () => {
+      // WHEN
+      const result = await outbox.enqueue("orderCreated", {
+        orderId: 1,
+      } as unknown as { orderId: string; amount: string });
+
+      // THEN
+      expect({
+        error: result._unsafeUnwrapErr(),
+        pending: store.getPending(),
+      }).toEqual({ error: expect.any(MessageValidationError), pending: [] });
+    });
+
+    it("should return an error for messages that cannot be serialized", async () => {
+      // WHEN
+      const result = await outbox.enqueue("orderCreated", {
+        orderId: "order-1",
+        amount: 42n,
+      } as unknown as { orderId: string; amount: string });
+
+      // THEN
+      expect({
+        error: result._unsafeUnwrapErr(),
+        pending: store.getPending(),
+      }).toEqual({ error: expect.any(TechnicalError), pending: [] });
+    });
+
+    it("should reject messages that no longer match the schema once stored as JSON", async () => {
+      // GIVEN
+      const orderScheduled = defineEventPublisher(
+        exchange,
+        defineMessage(z.object({ orderId: z.string(), scheduledAt: z.date() })),
+        { routingKey: "order.scheduled" },
+      );
+      const scheduledOutbox = new TypedOutbox({
+        contract: defineContract({ publishers: { orderScheduled } }),
+        store,
+      });
+
+      // WHEN
+      const result = await scheduledOutbox.enqueue("orderScheduled", {
+        orderId: "order-1",
+        scheduledAt: new Date(),
+      });
+
+      // THEN
+      expect({
+        error: result._unsafeUnwrapErr(),
+        pending: store.getPending(),
+      }).toEqual({ error: expect.any(MessageValidationError), pending: [] });
+    });
+
+    it("should validate the headers against the message headers schema", async () => {
+      // GIVEN
+      const orderTagged = defineEventPublisher(
+        exchange,
+        defineMessage(z.object({ orderId: z.string() }), {
+          headers: z.object({ "x-tenant-id": z.string() }),
+        }),
+        { routingKey: "order.tagged" },
+      );
+      const taggedOutbox = new TypedOutbox({
+        contract: defineContract({ publishers: { orderTagged } }),
+        store,
+      });
+
+      // WHEN
+      // @ts-expect-error headers are required by the message headers schema
+      const missing = await taggedOutbox.enqueue("orderTagged", { orderId: "order-1" });
+      const invalid = await taggedOutbox.enqueue(
+        "orderTagged",
+        { orderId: "order-1" },
+        // @ts-expect-error x-tenant-id must be a string
+        { headers: { "x-tenant-id": 1 } },
+      );
+      const valid = await taggedOutbox.enqueue(
+        "orderTagged",
+        { orderId: "order-2" },
+        { headers: { "x-tenant-id": "tenant-1", traceparent: "00-trace" } },
+      );
+
+      // THEN
+      expect({
+        errors: [missing._unsafeUnwrapErr(), invalid._unsafeUnwrapErr()],
+        pending: store.getPending(),
+      }).toEqual({
+        errors: [expect.any(MessageValidationError), expect.any(MessageValidationError)],
+        pending: [
+          expect.objectContaining({
+            id: valid._unsafeUnwrap(),
+            options: JSON.stringify({
+              headers: { "x-tenant-id": "tenant-1", traceparent: "00-trace" },
+            }),
+          }),
+        ],
+      });
+    });
+  });
+
+  describe("relay", () => {
+    it("should publish pending messages and mark them as dispatched", async () => {
+      // GIVEN
+      await outbox.enqueue("orderCreated", { orderId: "order-1", amount: "10" });
+      await outbox.enqueue("orderCreated", { orderId: "order-2", amount: "20" });
+      const relay = outbox.createRelay({ client });
+
+      // WHEN
+      const result = await relay.dispatchPending();
+
+      // THEN
+      expect({
+        result: result._unsafeUnwrap(),
+        pending: store.getPending(),
+      }).toEqual({ result: { dispatched: 2, failed: 0, dead: 0 }, pending: [] });
+      await vi.waitFor(() => expect(broker.getQueueInfo("order-audit")?.messageCount).toBe(2));
+    });
+
+    it("should publish every attempt with the outbox id as message id", async () => {
+      // GIVEN
+      const messageIds: Array<string | undefined> = [];
+      const recordingClient = (
+        await TypedAmqpClient.create({
+          contract,
+          urls: [broker.url],
+          interceptors: [
+            (publish) => {
+              messageIds.push(publish.options.messageId);
+              return okAsync(publish);
+            },
+          ],
+        })
+      )._unsafeUnwrap();
+      const id = (
+        await outbox.enqueue("orderCreated", { orderId: "order-1", amount: "10" })
+      )._unsafeUnwrap();
+      await outbox.enqueue(
+        "orderCreated",
+        { orderId: "order-2", amount: "20" },
+        { messageId: "order-2" },
+      );
+      // The first iteration publishes but fails to mark the messages as
+      // dispatched, like a relay crashing in between.
+      const markDispatched = vi
+        .spyOn(store, "markDispatched")
+        .mockReturnValueOnce(errAsync(new TechnicalError("Store unavailable")));
+      const relay = outbox.createRelay({ client: recordingClient });
+
+      // WHEN
+      const first = await relay.dispatchPending();
+      const second = await relay.dispatchPending();
+
+      // THEN
+      expect({
+        first: first._unsafeUnwrapErr(),
+        second: second._unsafeUnwrap(),
+        messageIds,
+      }).toEqual({
+        first: expect.any(TechnicalError),
+        second: { dispatched: 2, failed: 0, dead: 0 },
+        messageIds: [id, "order-2", id, "order-2"],
+      });
+      expect(markDispatched).toHaveBeenCalledTimes(2);
+      await recordingClient.close();
+    });
+
+    it("should mark messages that can never be published as dead", async () => {
+      // GIVEN
+      await outbox.enqueue("orderCreated", { orderId: "order-1", amount: "10" });
+      await store.add(storedMessage("stale", { publisherName: "orderDeleted" }));
+      await store.add(storedMessage("unreadable", { payload: "{" }));
+      await store.add(storedMessage("invalid", { payload: JSON.stringify({ orderId: 1 }) }));
+      const relay = outbox.createRelay({ client });
+
+      // WHEN
+      const result = await relay.dispatchPending();
+
+      // THEN
+      expect({
+        result: result._unsafeUnwrap(),
+        pending: store.getPending(),
+        dead: store.getDead(),
+      }).toEqual({
+        result: { dispatched: 1, failed: 0, dead: 3 },
+        pending: [],
+        dead: [
+          expect.objectContaining({
+            id: "stale",
+            attempts: 1,
+            lastError: 'Unknown publisher "orderDeleted" for outbox message',
+          }),
+          expect.objectContaining({ id: "unreadable", attempts: 1 }),
+          expect.objectContaining({ id: "invalid", attempts: 1 }),
+        ],
+      });
+    });
+
+    it("should retry failed publishes until maxAttempts", async () => {
+      // GIVEN
+      const vetoingClient = (
+        await TypedAmqpClient.create({
+          contract,
+          urls: [broker.url],
+          interceptors: [
+            (publish) => errAsync(new PublishVetoedError(publish.publisherName, "maintenance")),
+          ],
+        })
+      )._unsafeUnwrap();
+      await outbox.enqueue("orderCreated", { orderId: "order-1", amount: "10" });
+      const relay = outbox.createRelay({ client: vetoingClient, maxAttempts: 2 });
+
+      // WHEN
+      const first = await relay.dispatchPending();
+      const pendingAfterFirst = store.getPending();
+      const second = await relay.dispatchPending();
+
+      // THEN
+      expect({
+        first: first._unsafeUnwrap(),
+        pendingAfterFirst,
+        second: second._unsafeUnwrap(),
+        pending: store.getPending(),
+        dead: store.getDead(),
+      }).toEqual({
+        first: { dispatched: 0, failed: 1, dead: 0 },
+        pendingAfterFirst: [
+          expect.objectContaining({
+            attempts: 1,
+            lastError: 'Publish for "orderCreated" was vetoed: maintenance',
+          }),
+        ],
+        second: { dispatched: 0, failed: 0, dead: 1 },
+        pending: [],
+        dead: [expect.objectContaining({ attempts: 2 })],
+      });
+      await vetoingClient.close();
+    });
+
+    it("should keep publishing new messages when a full batch can never be published", async () => {
+      // GIVEN
+      await store.add(storedMessage("stale-1", { publisherName: "orderDeleted" }));
+      await store.add(storedMessage("stale-2", { publisherName: "orderDeleted" }));
+      await outbox.enqueue("orderCreated", { orderId: "order-1", amount: "10" });
+      const relay = outbox.createRelay({ client, batchSize: 2, pollIntervalMs: 10 });
+
+      // WHEN
+      relay.start();
+
+      // THEN
+      await vi.waitFor(() => expect(store.getPending()).toEqual([]));
+      await relay.stop();
+      expect(store.getDead().map(({ id }) => id)).toEqual(["stale-1", "stale-2"]);
+      await vi.waitFor(() => expect(broker.getQueueInfo("order-audit")?.messageCount).toBe(1));
+    });
+
+    it("should drain the store in batches while started", async () => {
+      // GIVEN
+      for (const orderId of ["order-1", "order-2", "order-3"]) {
+        await outbox.enqueue("orderCreated", { orderId, amount: "1" });
+      }
+      const relay = outbox.createRelay({ client, batchSize: 2, pollIntervalMs: 10 });
+
+      // WHEN
+      relay.start();
+
+      // THEN
+      await vi.waitFor(() => expect(store.getPending()).toEqual([]));
+      await relay.stop();
+      await vi.waitFor(() => expect(broker.getQueueInfo("order-audit")?.messageCount).toBe(3));
+    });
+
+    it("should fail the iteration when the store fails", async () => {
+      // GIVEN
+      const relay = new TypedOutbox({
+        contract,
+        store: {
+          add: () => okAsync(undefined),
+          fetchPending: () => errAsync(new TechnicalError("Store unavailable")),
+          markDispatched: () => okAsync(undefined),
+          markFailed: () => okAsync(undefined),
+          markDead: () => okAsync(undefined),
+        },
+      }).createRelay({ client });
+
+      // WHEN
+      const result = await relay.dispatchPending();
+
+      // THEN
+      expect(result._unsafeUnwrapErr()).toBeInstanceOf(TechnicalError);
+    });
+  });
+});
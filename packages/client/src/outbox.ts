@@ -0,0 +1,414 @@
+import type { ContractDefinition, InferPublisherNames } from "@amqp-contract/contract";
+import { type Logger, TechnicalError } from "@amqp-contract/core";
+import { errAsync, ok, okAsync, Result, ResultAsync } from "neverthrow";
+import { randomUUID } from "node:crypto";
+import type { PublishOptions, TypedAmqpClient } from "./client.js";
+import { MessageValidationError, type PublishVetoedError } from "./errors.js";
+import type { ClientInferPublishOptions, ClientInferPublisherInput, OptionsArgs } from "./types.js";
+import { validateHeaders, validateMessage } from "./validation.js";
+
+/**
+ * Publish options that can be stored alongside an outbox message. They are
+ * persisted as JSON, so `timestamp` (a `Date`-bearing property on the wire)
+ * is not supported — set it when the relay publishes instead.
+ */
+export type OutboxPublishOptions = Omit<PublishOptions, "timestamp">;
+
+/**
+ * Publish options accepted by `outbox.enqueue(name, ...)` for a specific
+ * publisher: the options of `client.publish(name, ...)`, with `headers` typed
+ * from the message's headers schema, except `timestamp`.
+ */
+export type OutboxInferPublishOptions<
+  TContract extends ContractDefinition,
+  TName extends InferPublisherNames<TContract>,
+> = Omit<ClientInferPublishOptions<TContract, TName>, "timestamp">;
+
+/**
+ * A message waiting in an {@link OutboxStore} to be published.
+ */
+export type OutboxMessage = {
+  /** Unique message id, generated by {@link TypedOutbox.enqueue}. */
+  id: string;
+  /** Name of the contract publisher the message is published with. */
+  publisherName: string;
+  /** JSON-serialized message payload, as passed to `enqueue`. */
+  payload: string;
+  /** JSON-serialized {@link OutboxPublishOptions}, if any. */
+  options: string | undefined;
+  createdAt: Date;
+  /** Number of failed publish attempts so far. */
+  attempts: number;
+  /** Error message of the last failed publish attempt. */
+  lastError: string | undefined;
+};
+
+/**
+ * Persistence for outbox messages.
+ *
+ * To make "write to the database + publish" atomic, `add` must write to the
+ * same transaction as the business data it accompanies. Messages are
+ * returned by `fetchPending` in insertion order until they are marked as
+ * dispatched.
+ *
+ * Messages that cannot be published are marked as dead: they are no longer
+ * returned by `fetchPending`, so they cannot hold back the newer messages,
+ * and are kept in the store for inspection.
+ *
+ * A store is drained by a single {@link OutboxRelay}; running several relays
+ * against the same store publishes messages more than once.
+ */
+export type OutboxStore = {
+  /** Persist a new message. */
+  add(message: OutboxMessage): ResultAsync<void, TechnicalError>;
+  /** Return up to `limit` messages that have not been dispatched yet, oldest first. */
+  fetchPending(limit: number): ResultAsync<OutboxMessage[], TechnicalError>;
+  /** Mark messages as published so they are no longer returned by `fetchPending`. */
+  markDispatched(ids: string[]): ResultAsync<void, TechnicalError>;
+  /** Record a failed publish attempt; the message stays pending and is retried. */
+  markFailed(id: string, error: string): ResultAsync<void, TechnicalError>;
+  /**
+   * Record the last failed publish attempt of a message that will never be
+   * published, and stop returning it from `fetchPending`.
+   */
+  markDead(id: string, error: string): ResultAsync<void, TechnicalError>;
+};
+
+/**
+ * Options for creating a {@link TypedOutbox}.
+ */
+export type CreateOutboxOptions<TContract extends ContractDefinition> = {
+  contract: TContract;
+  store: OutboxStore;
+};
+
+/**
+ * Options for {@link TypedOutbox.createRelay}.
+ */
+export type OutboxRelayOptions<TContract extends ContractDefinition> = {
+  /** Client used to publish messages. Publishes are awaited until confirmed by the broker. */
+  client: TypedAmqpClient<TContract>;
+  /** Maximum number of messages fetched and published per iteration. Defaults to 100. */
+  batchSize?: number | undefined;
+  /** Delay in ms between polls once the store is drained. Defaults to 1000. */
+  pollIntervalMs?: number | undefined;
+  /**
+   * Number of failed publish attempts after which a message is marked as
+   * dead. Messages that can never be published (unknown publisher, invalid
+   * payload or headers, unreadable row) are marked as dead on their first
+   * attempt. Defaults to 10.
+   */
+  maxAttempts?: number | undefined;
+  logger?: Logger | undefined;
+};
+
+/**
+ * Result of one {@link OutboxRelay.dispatchPending} iteration.
+ */
+export type OutboxDispatchResult = {
+  /** Number of messages published and marked as dispatched. */
+  dispatched: number;
+  /** Number of messages whose publish failed; they stay pending. */
+  failed: number;
+  /** Number of messages whose publish failed for good; they are marked as dead. */
+  dead: number;
+};
+
+/**
+ * A failed publish attempt, and whether it fails on every attempt.
+ */
+type PublishFailure = {
+  error: TechnicalError | MessageValidationError | PublishVetoedError;
+  permanent: boolean;
+};
+
+const toJson = Result.fromThrowable(
+  (value: unknown): string => {
+    // `JSON.stringify` returns undefined for `undefined`, functions and symbols.
+    const json = JSON.stringify(value) as string | undefined;
+    if (json === undefined) throw new TypeError(`Cannot serialize ${typeof value} as JSON`);
+    return json;
+  },
+  (error) => new TechnicalError("Failed to serialize outbox message", error),
+);
+
+const DEFAULT_BATCH_SIZE = 100;
+const DEFAULT_POLL_INTERVAL_MS = 1_000;
+const DEFAULT_MAX_ATTEMPTS = 10;
+
+/**
+ * Transactional outbox for a contract's publishers.
+ *
+ * Instead of publishing directly, services enqueue messages into an
+ * {@link OutboxStore} in the same transaction as their business data. An
+ * {@link OutboxRelay} then publishes the stored messages and marks them as
+ * dispatched, so a message is published if and only if its transaction
+ * committed (at least once, since a crash between publish and mark
+ * re-publishes it).
+ *
+ * @example
+ * ```typescript
+ * const outbox = new TypedOutbox({ contract, store: new SqliteOutboxStore(db) });
+ *
+ * db.exec('BEGIN');
+ * db.prepare('INSERT INTO orders (id) VALUES (?)').run(orderId);
+ * await outbox.enqueue('orderCreated', { orderId });
+ * db.exec('COMMIT');
+ *
+ * const relay = outbox.createRelay({ client });
+ * relay.start();
+ * ```
+ */
+export class TypedOutbox<TContract extends ContractDefinition> {
+  private readonly contract: TContract;
+  private readonly store: OutboxStore;
+
+  constructor({ contract, store }: CreateOutboxOptions<TContract>) {
+    this.contract = contract;
+    this.store = store;
+  }
+
+  /**
+   * Validate a message against the publisher schema and add it to the store.
+   *
+   * Messages and options are stored as JSON, so only values that survive a
+   * JSON round-trip are supported: the message is validated as the relay will
+   * read it back, and a `Date` where the schema expects one fails validation.
+   *
+   * @param publisherName - The name of the publisher to publish the message with
+   * @param message - The message to publish
+   * @param options - Publish options, stored with the message. Required when
+   *   the message's headers schema has required fields; the headers are
+   *   validated against it like in `client.publish`.
+   * @returns The id of the stored message
+   */
+  enqueue<TName extends InferPublisherNames<TContract>>(
+    publisherName: TName,
+    message: ClientInferPublisherInput<TContract, TName>,
+    ...[publishOptions]: OptionsArgs<OutboxInferPublishOptions<TContract, TName>>
+  ): ResultAsync<string, TechnicalError | MessageValidationError> {
+    // Non-null assertion safe: TypeScript guarantees the publisher exists for valid TName
+    const publisher = this.contract.publishers![publisherName as string]!;
+    const options = publishOptions as OutboxPublishOptions | undefined;
+
+    const name = String(publisherName);
+
+    // Store the input rather than the validated output: the relay publishes
+    // through `TypedAmqpClient.publish`, which validates again and would
+    // reject the output of transforming schemas. The input is validated as
+    // the relay reads it back from JSON, so values JSON does not round-trip,
+    // such as dates, fail here instead of on every relay attempt.
+    return toJson(message)
+      .andThen((payload) =>
+        (options === undefined ? ok(undefined) : toJson(options)).map((serializedOptions) => ({
+          payload,
+          serializedOptions,
+        })),
+      )
+      .asyncAndThen(({ payload, serializedOptions }) =>
+        validateMessage(publisher.message.payload, JSON.parse(payload), name)
+          .andThen(() =>
+            validateHeaders(
+              publisher.message.headers,
+              serializedOptions === undefined
+                ? undefined
+                : (JSON.parse(serializedOptions) as OutboxPublishOptions).headers,
+              name,
+            ),
+          )
+          .andThen(() => {
+            const outboxMessage: OutboxMessage = {
+              id: randomUUID(),
+              publisherName: name,
+              payload,
+              options: serializedOptions,
+              createdAt: new Date(),
+              attempts: 0,
+              lastError: undefined,
+            };
+            return this.store.add(outboxMessage).map(() => outboxMessage.id);
+          }),
+      );
+  }
+
+  /**
+   * Create a relay that publishes this outbox's pending messages.
+   */
+  createRelay(options: OutboxRelayOptions<TContract>): OutboxRelay<TContract> {
+    return new OutboxRelay(this.contract, this.store, options);
+  }
+}
+
+/**
+ * Drains an {@link OutboxStore} by publishing its pending messages through a
+ * {@link TypedAmqpClient}, marking each one as dispatched once the broker
+ * confirmed it. Messages whose publish fails stay pending and are retried
+ * on the next iteration, until `maxAttempts` is reached; messages that can
+ * never be published are marked as dead right away.
+ *
+ * Messages are published with their outbox id as `messageId`, unless their
+ * options set one, so that every copy of a message published more than once
+ * carries the same id.
+ *
+ * Created with {@link TypedOutbox.createRelay}.
+ */
+export class OutboxRelay<TContract extends ContractDefinition> {
+  private readonly client: TypedAmqpClient<TContract>;
+  private readonly batchSize: number;
+  private readonly pollIntervalMs: number;
+  private readonly maxAttempts: number;
+  private readonly logger: Logger | undefined;
+  private timer: ReturnType<typeof setTimeout> | undefined;
+  private running = false;
+  private inFlight: Promise<unknown> | undefined;
+
+  /** @internal */
+  constructor(
+    private readonly contract: TContract,
+    private readonly store: OutboxStore,
+    options: OutboxRelayOptions<TContract>,
+  ) {
+    this.client = options.client;
+    this.batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+    this.pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+    this.maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+    this.logger = options.logger;
+  }
+
+  /**
+   * Publish one batch of pending messages.
+   *
+   * Messages in a batch are published without waiting for each other's
+   * confirms; the returned ResultAsync resolves once every publish has been
+   * confirmed or has failed, and the store has been updated.
+   */
+  dispatchPending(): ResultAsync<OutboxDispatchResult, TechnicalError> {
+    return this.store.fetchPending(this.batchSize).andThen((messages) =>
+      ResultAsync.combine(
+        messages.map((message) =>
+          this.publish(message)
+            .map(() => ({ message, failure: undefined }))
+            .orElse((failure) => ok({ message, failure })),
+        ),
+      ).andThen((outcomes) => {
+        const dispatchedIds = outcomes
+          .filter((o) => o.failure === undefined)
+          .map((o) => o.message.id);
+        const failures = outcomes.flatMap(({ message, failure }) =>
+          failure === undefined
+            ? []
+            : [
+                {
+                  message,
+                  error: failure.error,
+                  dead: failure.permanent || message.attempts + 1 >= this.maxAttempts,
+                },
+              ],
+        );
+        const dead = failures.filter((f) => f.dead).length;
+
+        const markDispatched =
+          dispatchedIds.length > 0 ? this.store.markDispatched(dispatchedIds) : okAsync(undefined);
+
+        return markDispatched
+          .andThen(() =>
+            ResultAsync.combine(
+              failures.map(({ message: { id, attempts }, error, dead }) => {
+                if (dead) {
+                  this.logger?.error("Failed to publish outbox message; marking it as dead", {
+                    id,
+                    attempts: attempts + 1,
+                    error,
+                  });
+                  return this.store.markDead(id, error.message);
+                }
+                this.logger?.warn("Failed to publish outbox message", { id, error });
+                return this.store.markFailed(id, error.message);
+              }),
+            ),
+          )
+          .map(() => ({
+            dispatched: dispatchedIds.length,
+            failed: failures.length - dead,
+            dead,
+          }));
+      }),
+    );
+  }
+
+  /**
+   * Start polling the store in the background. Full batches are followed by
+   * another iteration immediately; otherwise the relay waits
+   * `pollIntervalMs` before polling again.
+   */
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    this.schedule(0);
+  }
+
+  /**
+   * Stop polling and wait for the in-flight iteration, if any, to finish.
+   */
+  stop(): ResultAsync<void, never> {
+    this.running = false;
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    return ResultAsync.fromSafePromise(Promise.resolve(this.inFlight).then(() => undefined));
+  }
+
+  private schedule(delayMs: number): void {
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      const iteration = this.dispatchPending().match(
+        ({ dispatched, failed, dead }) => {
+          const drained = dispatched + failed + dead < this.batchSize;
+          if (this.running) this.schedule(drained || failed > 0 ? this.pollIntervalMs : 0);
+        },
+        (error) => {
+          this.logger?.error("Outbox relay iteration failed", { error });
+          if (this.running) this.schedule(this.pollIntervalMs);
+        },
+      );
+      this.inFlight = iteration;
+    }, delayMs);
+  }
+
+  private publish(message: OutboxMessage): ResultAsync<void, PublishFailure> {
+    // Rows may outlive the contract version that wrote them.
+    if (!Object.hasOwn(this.contract.publishers ?? {}, message.publisherName)) {
+      return errAsync({
+        error: new TechnicalError(
+          `Unknown publisher "${message.publisherName}" for outbox message`,
+        ),
+        permanent: true,
+      });
+    }
+
+    let payload: unknown;
+    let options: OutboxPublishOptions | undefined;
+    try {
+      payload = JSON.parse(message.payload);
+      options = message.options === undefined ? undefined : JSON.parse(message.options);
+    } catch (error: unknown) {
+      return errAsync({
+        error: new TechnicalError("Failed to parse outbox message", error),
+        permanent: true,
+      });
+    }
+
+    // Publish every attempt with the row id as message id, so consumers can
+    // deduplicate the copies published again after a crash before
+    // `markDispatched`.
+    return this.client
+      .publish(
+        message.publisherName as InferPublisherNames<TContract>,
+        payload as ClientInferPublisherInput<TContract, InferPublisherNames<TContract>>,
+        { messageId: message.id, ...options } as ClientInferPublishOptions<
+          TContract,
+          InferPublisherNames<TContract>
+        >,
+      )
+      .mapErr((error) => ({ error, permanent: error instanceof MessageValidationError }));
+  }
+}
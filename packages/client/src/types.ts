@@ -7,6 +7,7 @@ import type {
   RpcDefinition,
 } from "@amqp-contract/contract";
 import type { StandardSchemaV1 } from "@standard-schema/spec";
+import type { CallOptions, DelayedPublishOptions, PublishOptions } from "./client.js";
 
 /**
  * Infer the TypeScript type from a schema (input side, used for publish payloads).
@@ -45,6 +46,75 @@ export type ClientInferPublisherInput<
   TName extends InferPublisherNames<TContract>,
 > = PublisherInferInput<InferPublisher<TContract, TName>>;
 
+/**
+ * Infer the input type of a message's headers schema (used for publish
+ * headers). Returns undefined if no headers schema is defined.
+ */
+type MessageInferHeadersInput<TMessage> =
+  TMessage extends MessageDefinition<infer _TPayload, infer THeaders>
+    ? THeaders extends StandardSchemaV1<Record<string, unknown>>
+      ? InferSchemaInput<THeaders>
+      : undefined
+    : undefined;
+
+/**
+ * Type the `headers` of publish options from a message's headers schema,
+ * required when the schema has required fields. Headers the schema does not
+ * describe, such as tracing headers, are accepted and published as-is.
+ * Options are left as-is when the message has no headers schema.
+ */
+type WithTypedHeaders<TOptions, THeaders> = [THeaders] extends [undefined]
+  ? TOptions
+  : Omit<TOptions, "headers"> &
+      ({} extends THeaders
+        ? { headers?: (THeaders & Record<string, unknown>) | undefined }
+        : { headers: THeaders & Record<string, unknown> });
+
+/**
+ * Trailing options argument of a client method: optional, unless the options
+ * have required fields such as required headers.
+ */
+export type OptionsArgs<TOptions> = {} extends TOptions
+  ? [options?: TOptions]
+  : [options: TOptions];
+
+/**
+ * Publish options accepted by `client.publish(name, ...)` for a specific
+ * publisher: {@link DelayedPublishOptions} when its exchange is declared with
+ * `delayed: true`, {@link PublishOptions} otherwise. `headers` is typed from
+ * the headers schema of the publisher's message, if any.
+ */
+export type ClientInferPublishOptions<
+  TContract extends ContractDefinition,
+  TName extends InferPublisherNames<TContract>,
+> = WithTypedHeaders<
+  InferPublisher<TContract, TName> extends { exchange: { delayed: true } }
+    ? DelayedPublishOptions
+    : PublishOptions,
+  MessageInferHeadersInput<InferPublisher<TContract, TName>["message"]>
+>;
+
+/**
+ * Trailing arguments of `client.publish(name, message, ...)`: the publish
+ * options, required when the message's headers schema has required fields.
+ */
+export type ClientInferPublishArgs<
+  TContract extends ContractDefinition,
+  TName extends InferPublisherNames<TContract>,
+> = OptionsArgs<ClientInferPublishOptions<TContract, TName>>;
+
+/**
+ * Names of the publishers whose exchange is declared with `delayed: true`,
+ * accepted by `client.publishAt`.
+ */
+export type ClientInferDelayedPublisherNames<TContract extends ContractDefinition> = {
+  [K in InferPublisherNames<TContract>]: InferPublisher<TContract, K> extends {
+    exchange: { delayed: true };
+  }
+    ? K
+    : never;
+}[InferPublisherNames<TContract>];
+
 // =============================================================================
 // RPC inference (reads from `contract.rpcs`, not `publishers`)
 // =============================================================================
@@ -80,3 +150,23 @@ export type ClientInferRpcResponseOutput<
       ? InferSchemaOutput<TResponse["payload"]>
       : never
     : never;
+
+/**
+ * Per-call options accepted by `client.call(name, ...)`: {@link CallOptions}
+ * whose `publishOptions.headers` is typed from the headers schema of the
+ * RPC's request message, if any, and required when it has required fields.
+ */
+export type ClientInferCallOptions<
+  TContract extends ContractDefinition,
+  TName extends InferRpcNames<TContract>,
+> = Omit<CallOptions, "publishOptions"> &
+  CallPublishOptions<
+    WithTypedHeaders<
+      NonNullable<CallOptions["publishOptions"]>,
+      MessageInferHeadersInput<InferRpc<TContract, TName>["request"]>
+    >
+  >;
+
+type CallPublishOptions<TPublishOptions> = {} extends TPublishOptions
+  ? { publishOptions?: TPublishOptions }
+  : { publishOptions: TPublishOptions };
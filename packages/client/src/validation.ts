@@ -0,0 +1,89 @@
+import { TechnicalError } from "@amqp-contract/core";
+import type { StandardSchemaV1 } from "@standard-schema/spec";
+import { err, errAsync, ok, okAsync, ResultAsync } from "neverthrow";
+import { MessageValidationError } from "./errors.js";
+
+/**
+ * Validate a message against a Standard Schema.
+ *
+ * @param schema - The schema to validate against
+ * @param message - The message to validate
+ * @param name - The publisher or RPC name, reported in validation errors
+ * @returns A ResultAsync resolving to the validated value
+ *
+ * @internal
+ */
+export function validateMessage(
+  schema: StandardSchemaV1,
+  message: unknown,
+  name: string,
+): ResultAsync<unknown, TechnicalError | MessageValidationError> {
+  // Wrap the validate call itself — a Standard Schema implementation may
+  // throw synchronously, and the throw would otherwise escape the chain.
+  let validationResult: ReturnType<StandardSchemaV1["~standard"]["validate"]>;
+  try {
+    validationResult = schema["~standard"].validate(message);
+  } catch (error: unknown) {
+    return errAsync(new TechnicalError("Validation failed", error));
+  }
+  const promise =
+    validationResult instanceof Promise ? validationResult : Promise.resolve(validationResult);
+  return ResultAsync.fromPromise(
+    promise,
+    (error): TechnicalError | MessageValidationError =>
+      new TechnicalError("Validation failed", error),
+  ).andThen((validation) => {
+    if (validation.issues) {
+      return err<unknown, TechnicalError | MessageValidationError>(
+        new MessageValidationError(name, validation.issues),
+      );
+    }
+    return ok<unknown, TechnicalError | MessageValidationError>(validation.value);
+  });
+}
+
+/**
+ * Validate publish headers against a message's headers schema. Headers are
+ * returned as-is when the message has no headers schema; otherwise the
+ * validated headers are merged over them, so headers the schema does not
+ * describe are kept.
+ *
+ * @param schema - The headers schema of the message, if any
+ * @param headers - The headers passed in the publish options
+ * @param name - The publisher or RPC name, reported in validation errors
+ * @returns A ResultAsync resolving to the validated headers
+ *
+ * @internal
+ */
+export function validateHeaders(
+  schema: StandardSchemaV1<Record<string, unknown>> | undefined,
+  headers: Record<string, unknown> | undefined,
+  name: string,
+): ResultAsync<Record<string, unknown> | undefined, TechnicalError | MessageValidationError> {
+  if (schema === undefined) {
+    return okAsync(headers);
+  }
+  // Merge the validated headers over the passed ones: schemas stripping
+  // unknown keys would otherwise drop headers they do not describe, such as
+  // tracing headers.
+  return validateMessage(schema, headers ?? {}, name).map((validated) => ({
+    ...headers,
+    ...(validated as Record<string, unknown>),
+  }));
+}
+
+/**
+ * Merge the headers of publish options over default headers: headers set in
+ * both take the value of the publish options.
+ *
+ * @internal
+ */
+export function mergeHeaders(
+  defaults: Record<string, unknown> | undefined,
+  headers: Record<string, unknown> | undefined,
+): Record<string, unknown> | undefined {
+  if (defaults === undefined || headers === undefined) {
+    return headers ?? defaults;
+  }
+  return { ...defaults, ...headers };
+}
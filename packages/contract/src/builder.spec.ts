@@ -16,6 +16,7 @@ import {
   extractQueue,
   isBridgedPublisherConfig,
 } from "./builder.js";
+import type { DefineQueueOptions } from "./types.js";
 
 describe("builder", () => {
   describe("defineExchange", () => {
@@ -42,6 +43,19 @@ describe("builder", () => {
         durable: true,
       });
     });
+
+    it("should create a delayed exchange", () => {
+      // WHEN
+      const exchange = defineExchange("reminders", { type: "direct", delayed: true });
+
+      // THEN
+      expect(exchange).toEqual({
+        name: "reminders",
+        type: "direct",
+        durable: true,
+        delayed: true,
+      });
+    });
   });
 
   describe("defineQueue", () => {
@@ -286,6 +300,91 @@ describe("builder", () => {
     });
   });
 
+  describe("defineQueue with stream type", () => {
+    it("should create a stream queue with retention options", () => {
+      // WHEN
+      const queue = defineQueue("audit-log", {
+        type: "stream",
+        maxAge: "30D",
+        maxLengthBytes: 10_000_000_000,
+        maxSegmentSizeBytes: 100_000_000,
+      });
+
+      // THEN
+      expect(queue).toEqual({
+        name: "audit-log",
+        type: "stream",
+        durable: true,
+        maxAge: "30D",
+        maxLengthBytes: 10_000_000_000,
+        maxSegmentSizeBytes: 100_000_000,
+        retry: { mode: "none" },
+      });
+    });
+
+    it("should create a stream queue with minimal options", () => {
+      // WHEN
+      const queue = defineQueue("audit-log", { type: "stream" });
+
+      // THEN
+      expect(queue).toEqual({
+        name: "audit-log",
+        type: "stream",
+        durable: true,
+        retry: { mode: "none" },
+      });
+    });
+
+    it("should throw error for an invalid maxAge", () => {
+      // WHEN/THEN
+      expect(() => defineQueue("audit-log", { type: "stream", maxAge: "7 days" as "7D" })).toThrow(
+        "Invalid maxAge: 7 days. Must be a positive integer followed by one of Y, M, D, h, m, s (e.g. '7D').",
+      );
+    });
+
+    it("should throw error for a non-positive maxLengthBytes", () => {
+      // WHEN/THEN
+      expect(() => defineQueue("audit-log", { type: "stream", maxLengthBytes: 0 })).toThrow(
+        "Invalid maxLengthBytes: 0. Must be a positive integer.",
+      );
+    });
+
+    it("should throw error for unsupported options on untyped input", () => {
+      // GIVEN
+      const dlx = defineExchange("audit-dlx");
+      const unsupported = [
+        [{ durable: false }, "Non-durable queues are not supported with stream type."],
+        [{ exclusive: true }, "Exclusive queues are not supported with stream type."],
+        [{ autoDelete: true }, "Auto-deleting queues are not supported with stream type."],
+        [{ maxPriority: 10 }, "Priority queues are not supported with stream type."],
+        [
+          { deadLetter: { exchange: dlx } },
+          "Dead letter exchanges are not supported with stream type.",
+        ],
+        [
+          { retry: { mode: "immediate-requeue" } },
+          'Queue "audit-log" uses immediate-requeue retry mode, which is not supported with stream type.',
+        ],
+      ] as const;
+
+      // WHEN/THEN
+      for (const [options, message] of unsupported) {
+        expect(() =>
+          defineQueue("audit-log", { type: "stream", ...options } as DefineQueueOptions),
+        ).toThrow(message);
+      }
+    });
+
+    it("should throw error for stream options on a quorum queue", () => {
+      // WHEN/THEN
+      expect(() =>
+        defineQueue("orders", { maxAge: "7D" } as unknown as DefineQueueOptions),
+      ).toThrow(
+        'Queue "orders" sets maxAge, maxLengthBytes or maxSegmentSizeBytes, which are only supported with stream type.',
+      );
+    });
+  });
+
   describe("defineQueue with immediate-requeue retry", () => {
     it("should create a quorum queue with immediate-requeue retry", () => {
       // WHEN
@@ -905,6 +1004,24 @@ describe("builder", () => {
         message,
       });
     });
+
+    it("should create a publisher with a default compression", () => {
+      // GIVEN
+      const message = defineMessage(z.object({ id: z.string() }));
+      const exchange = defineExchange("test-exchange", { type: "fanout" });
+
+      // WHEN
+      const publisher = definePublisher(exchange, message, {
+        compression: { algorithm: "br", minBytes: 1024 },
+      });
+
+      // THEN
+      expect(publisher).toEqual({
+        exchange,
+        message,
+        compression: { algorithm: "br", minBytes: 1024 },
+      });
+    });
   });
 
   describe("defineConsumer", () => {
@@ -1339,6 +1456,30 @@ describe("builder", () => {
       // Plain consumers don't auto-generate bindings
       expect(Object.keys(contract.bindings ?? {})).not.toContain("plainConsumerBinding");
     });
+
+    it("should pass the event publisher compression to the contract publisher", () => {
+      // GIVEN
+      const message = defineMessage(z.object({ id: z.string() }));
+      const exchange = defineExchange("test-exchange", { type: "topic" });
+
+      // WHEN
+      const contract = defineContract({
+        publishers: {
+          testCreated: defineEventPublisher(exchange, message, {
+            routingKey: "test.created",
+            compression: { algorithm: "br", minBytes: 1024 },
+          }),
+        },
+      });
+
+      // THEN
+      expect(contract.publishers.testCreated).toEqual({
+        exchange,
+        message,
+        routingKey: "test.created",
+        compression: { algorithm: "br", minBytes: 1024 },
+      });
+    });
   });
 
   describe("defineCommandConsumer and defineCommandPublisher", () => {
@@ -1546,6 +1687,24 @@ describe("builder", () => {
         routingKey: "order.updated",
       });
     });
+
+    it("should create a command publisher with a default compression", () => {
+      // GIVEN
+      const message = defineMessage(z.object({ id: z.string() }));
+      const queue = defineQueue("test-queue");
+      const exchange = defineExchange("test-exchange", { type: "fanout" });
+
+      // WHEN
+      const command = defineCommandConsumer(queue, exchange, message);
+      const publisher = defineCommandPublisher(command, { compression: "gzip" });
+
+      // THEN
+      expect(publisher).toEqual({
+        exchange,
+        message,
+        compression: "gzip",
+      });
+    });
   });
 
   describe("event and command patterns with external resources", () => {
@@ -2097,6 +2256,31 @@ describe("builder", () => {
         bridgeExchange: undefined,
       });
     });
+
+    it("should create a bridged command publisher with a default compression", () => {
+      // GIVEN
+      const ordersExchange = defineExchange("orders");
+      const billingExchange = defineExchange("billing");
+      const message = defineMessage(z.object({ orderId: z.string() }));
+      const queue = defineQueue("order-processing");
+
+      // WHEN
+      const processOrder = defineCommandConsumer(queue, ordersExchange, message, {
+        routingKey: "order.process",
+      });
+      const result = defineCommandPublisher(processOrder, {
+        bridgeExchange: billingExchange,
+        compression: "zstd",
+      });
+
+      // THEN
+      expect(result.publisher).toEqual({
+        exchange: billingExchange,
+        message,
+        routingKey: "order.process",
+        compression: "zstd",
+      });
+    });
   });
 
   describe("defineContract collision detection", () => {
@@ -20,10 +20,12 @@ import {
 } from "./builder.js";
 import type {
   ConsumerDefinition,
+  DelayedExchangeDefinition,
   DirectExchangeDefinition,
   FanoutExchangeDefinition,
   HeadersExchangeDefinition,
   PublisherDefinition,
+  QueueEntry,
   TopicExchangeDefinition,
 } from "./types.js";
 
@@ -188,6 +190,65 @@ describe("Publisher and Consumer factory types", () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// Queue type options
+// ---------------------------------------------------------------------------
+
+describe("defineExchange delayed option", () => {
+  test("should mark delayed exchanges in their type", () => {
+    expectTypeOf(defineExchange("reminders", { delayed: true })).toEqualTypeOf<
+      TopicExchangeDefinition<"reminders"> & { delayed: true }
+    >();
+    expectTypeOf(defineExchange("reminders", { type: "fanout", delayed: true })).toExtend<
+      DelayedExchangeDefinition<"reminders">
+    >();
+  });
+
+  test("should leave other exchanges unchanged", () => {
+    expectTypeOf(defineExchange("orders")).toEqualTypeOf<TopicExchangeDefinition<"orders">>();
+    expectTypeOf(defineExchange("orders", { type: "fanout", delayed: false })).toEqualTypeOf<
+      FanoutExchangeDefinition<"orders">
+    >();
+  });
+});
+
+describe("defineQueue stream options", () => {
+  test("stream queues accept retention options", () => {
+    const queue = defineQueue("audit-log", {
+      type: "stream",
+      maxAge: "7D",
+      maxLengthBytes: 1_000_000,
+      maxSegmentSizeBytes: 100_000,
+    });
+    expectTypeOf(queue).toEqualTypeOf<QueueEntry<"audit-log">>();
+  });
+
+  test("stream queues reject options streams do not support", () => {
+    const dlx = defineExchange("audit-dlx");
+    // @ts-expect-error - streams cannot be exclusive
+    defineQueue("audit-log", { type: "stream", exclusive: true });
+    // @ts-expect-error - streams cannot auto-delete
+    defineQueue("audit-log", { type: "stream", autoDelete: true });
+    // @ts-expect-error - streams do not support priorities
+    defineQueue("audit-log", { type: "stream", maxPriority: 10 });
+    // @ts-expect-error - streams are always durable
+    defineQueue("audit-log", { type: "stream", durable: false });
+    // @ts-expect-error - streams never dead-letter
+    defineQueue("audit-log", { type: "stream", deadLetter: { exchange: dlx } });
+    // @ts-expect-error - streams cannot requeue
+    defineQueue("audit-log", { type: "stream", retry: { mode: "immediate-requeue" } });
+    // @ts-expect-error - maxAge needs a unit
+    defineQueue("audit-log", { type: "stream", maxAge: "7 days" });
+  });
+
+  test("quorum and classic queues reject stream-only options", () => {
+    // @ts-expect-error - maxAge is stream-only
+    defineQueue("orders", { maxAge: "7D" });
+    // @ts-expect-error - maxSegmentSizeBytes is stream-only
+    defineQueue("orders", { type: "classic", maxSegmentSizeBytes: 100_000 });
+  });
+});
+
 // ---------------------------------------------------------------------------
 // ContractOutput type inference
 // ---------------------------------------------------------------------------
@@ -1,4 +1,6 @@
 import type {
+  CompressionAlgorithm,
+  CompressionOptions,
   ConsumerDefinition,
   DirectExchangeDefinition,
   ExchangeBindingDefinition,
@@ -273,6 +275,7 @@ export function defineCommandConsumer<TMessage extends MessageDefinition>(
  * @param commandConsumer - The command consumer configuration
  * @param options - Configuration with required bridgeExchange
  * @param options.bridgeExchange - The local domain exchange to bridge through (must be fanout to match target)
+ * @param options.compression - Default compression of the published messages
  * @returns A bridged publisher configuration
  */
 export function defineCommandPublisher<
@@ -283,6 +286,7 @@ export function defineCommandPublisher<
   commandConsumer: CommandConsumerConfig<TMessage, TExchange, undefined>,
   options: {
     bridgeExchange: TBridgeExchange;
+    compression?: CompressionAlgorithm | CompressionOptions;
   },
 ): BridgedPublisherConfig<TMessage, TBridgeExchange, TExchange>;
 
@@ -292,6 +296,7 @@ export function defineCommandPublisher<
  * @param commandConsumer - The command consumer configuration
  * @param options - Configuration with required bridgeExchange
  * @param options.bridgeExchange - The local domain exchange to bridge through (must be headers to match target)
+ * @param options.compression - Default compression of the published messages
  * @returns A bridged publisher configuration
  */
 export function defineCommandPublisher<
@@ -302,6 +307,7 @@ export function defineCommandPublisher<
   commandConsumer: CommandConsumerConfig<TMessage, TExchange, undefined>,
   options: {
     bridgeExchange: TBridgeExchange;
+    compression?: CompressionAlgorithm | CompressionOptions;
   },
 ): BridgedPublisherConfig<TMessage, TBridgeExchange, TExchange>;
 
@@ -311,6 +317,7 @@ export function defineCommandPublisher<
  * @param commandConsumer - The command consumer configuration
  * @param options - Configuration with required bridgeExchange
  * @param options.bridgeExchange - The bridge exchange (must be direct or topic to preserve routing keys)
+ * @param options.compression - Default compression of the published messages
  * @returns A bridged publisher configuration
  */
 export function defineCommandPublisher<
@@ -322,6 +329,7 @@ export function defineCommandPublisher<
   commandConsumer: CommandConsumerConfig<TMessage, TExchange, TRoutingKey>,
   options: {
     bridgeExchange: TBridgeExchange;
+    compression?: CompressionAlgorithm | CompressionOptions;
   },
 ): BridgedPublisherConfig<TMessage, TBridgeExchange, TExchange>;
 
@@ -332,6 +340,7 @@ export function defineCommandPublisher<
  * @param options - Configuration with required bridgeExchange and optional routingKey override
  * @param options.bridgeExchange - The bridge exchange (must be direct or topic to preserve routing keys)
  * @param options.routingKey - Override routing key (must match consumer's pattern)
+ * @param options.compression - Default compression of the published messages
  * @returns A bridged publisher configuration
  */
 export function defineCommandPublisher<
@@ -345,6 +354,7 @@ export function defineCommandPublisher<
   options: {
     bridgeExchange: TBridgeExchange;
     routingKey?: RoutingKey<TPublisherRoutingKey>;
+    compression?: CompressionAlgorithm | CompressionOptions;
   },
 ): BridgedPublisherConfig<TMessage, TBridgeExchange, TExchange>;
 
@@ -352,6 +362,8 @@ export function defineCommandPublisher<
  * Create a publisher that sends commands to a fanout exchange consumer.
  *
  * @param commandConsumer - The command consumer configuration
+ * @param options - Optional publisher configuration
+ * @param options.compression - Default compression of the published messages
  * @returns A publisher definition
  *
  * @example
@@ -362,12 +374,17 @@ export function defineCommandPublisher<
  */
 export function defineCommandPublisher<TMessage extends MessageDefinition>(
   commandConsumer: CommandConsumerConfig<TMessage, FanoutExchangeDefinition, undefined>,
+  options?: {
+    compression?: CompressionAlgorithm | CompressionOptions;
+  },
 ): { message: TMessage; exchange: FanoutExchangeDefinition };
 
 /**
  * Create a publisher that sends commands to a headers exchange consumer.
  *
  * @param commandConsumer - The command consumer configuration
+ * @param options - Optional publisher configuration
+ * @param options.compression - Default compression of the published messages
  * @returns A publisher definition
  *
  * @example
@@ -378,12 +395,17 @@ export function defineCommandPublisher<TMessage extends MessageDefinition>(
  */
 export function defineCommandPublisher<TMessage extends MessageDefinition>(
   commandConsumer: CommandConsumerConfig<TMessage, HeadersExchangeDefinition, undefined>,
+  options?: {
+    compression?: CompressionAlgorithm | CompressionOptions;
+  },
 ): { message: TMessage; exchange: HeadersExchangeDefinition };
 
 /**
  * Create a publisher that sends commands to a direct exchange consumer.
  *
  * @param commandConsumer - The command consumer configuration
+ * @param options - Optional publisher configuration
+ * @param options.compression - Default compression of the published messages
  * @returns A publisher definition
  */
 export function defineCommandPublisher<
@@ -391,6 +413,9 @@ export function defineCommandPublisher<
   TRoutingKey extends string,
 >(
   commandConsumer: CommandConsumerConfig<TMessage, DirectExchangeDefinition, TRoutingKey>,
+  options?: {
+    compression?: CompressionAlgorithm | CompressionOptions;
+  },
 ): { message: TMessage; exchange: DirectExchangeDefinition; routingKey: string };
 
 /**
@@ -402,6 +427,7 @@ export function defineCommandPublisher<
  * @param commandConsumer - The command consumer configuration
  * @param options - Optional binding configuration
  * @param options.routingKey - Override routing key (must match consumer's pattern)
+ * @param options.compression - Default compression of the published messages
  * @returns A publisher definition
  *
  * @example
@@ -425,6 +451,7 @@ export function defineCommandPublisher<
   commandConsumer: CommandConsumerConfig<TMessage, TopicExchangeDefinition, TRoutingKey>,
   options?: {
     routingKey?: RoutingKey<TPublisherRoutingKey>;
+    compression?: CompressionAlgorithm | CompressionOptions;
   },
 ): { message: TMessage; exchange: TopicExchangeDefinition; routingKey: string };
 
@@ -437,6 +464,7 @@ export function defineCommandPublisher<TMessage extends MessageDefinition>(
   options?: {
     routingKey?: string;
     bridgeExchange?: ExchangeDefinition;
+    compression?: CompressionAlgorithm | CompressionOptions;
   },
 ):
   | PublisherDefinition<TMessage>
@@ -450,10 +478,16 @@ export function defineCommandPublisher<TMessage extends MessageDefinition>(
 
   if (bridgeExchange) {
     // Bridged: publisher publishes to bridge exchange, e2e binding from bridge → target
-    const publisherOptions: { routingKey?: string } = {};
+    const publisherOptions: {
+      routingKey?: string;
+      compression?: CompressionAlgorithm | CompressionOptions;
+    } = {};
     if (publisherRoutingKey !== undefined) {
       publisherOptions.routingKey = publisherRoutingKey;
     }
+    if (options?.compression !== undefined) {
+      publisherOptions.compression = options.compression;
+    }
 
     const publisher = definePublisherInternal(bridgeExchange, message, publisherOptions);
 
@@ -480,10 +514,16 @@ export function defineCommandPublisher<TMessage extends MessageDefinition>(
     };
   }
 
-  const publisherOptions: { routingKey?: string } = {};
+  const publisherOptions: {
+    routingKey?: string;
+    compression?: CompressionAlgorithm | CompressionOptions;
+  } = {};
   if (publisherRoutingKey !== undefined) {
     publisherOptions.routingKey = publisherRoutingKey;
   }
+  if (options?.compression !== undefined) {
+    publisherOptions.compression = options.compression;
+  }
 
   return definePublisherInternal(targetExchange, message, publisherOptions);
 }
@@ -1,5 +1,7 @@
 import type {
   BindingDefinition,
+  CompressionAlgorithm,
+  CompressionOptions,
   ConsumerDefinition,
   ContractDefinition,
   ContractDefinitionInput,
@@ -178,10 +180,16 @@ export function defineContract<TContract extends ContractDefinitionInput>(
       } else if (isEventPublisherConfig(entry)) {
         // EventPublisherConfig: extract exchange and convert to publisher definition
         addResource(exchanges, entry.exchange.name, entry.exchange, "exchange");
-        const publisherOptions: { routingKey?: string } = {};
+        const publisherOptions: {
+          routingKey?: string;
+          compression?: CompressionAlgorithm | CompressionOptions;
+        } = {};
         if (entry.routingKey !== undefined) {
           publisherOptions.routingKey = entry.routingKey;
         }
+        if (entry.compression !== undefined) {
+          publisherOptions.compression = entry.compression;
+        }
         processedPublishers[name] = definePublisherInternal(
           entry.exchange,
           entry.message,
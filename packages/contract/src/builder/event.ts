@@ -1,4 +1,6 @@
 import type {
+  CompressionAlgorithm,
+  CompressionOptions,
   ConsumerDefinition,
   DirectExchangeDefinition,
   ExchangeBindingDefinition,
@@ -40,6 +42,8 @@ export type EventPublisherConfig<
   routingKey: TRoutingKey;
   /** Additional AMQP arguments */
   arguments?: Record<string, unknown>;
+  /** Default compression of the published messages */
+  compression?: CompressionAlgorithm | CompressionOptions;
 };
 
 /**
@@ -86,6 +90,7 @@ export type EventConsumerResult<
  * @param message - The message definition (schema and metadata)
  * @param options - Optional binding configuration
  * @param options.arguments - Additional AMQP arguments
+ * @param options.compression - Default compression of the published messages
  * @returns An event publisher configuration
  *
  * @example
@@ -114,6 +119,7 @@ export function defineEventPublisher<
   message: TMessage,
   options?: {
     arguments?: Record<string, unknown>;
+    compression?: CompressionAlgorithm | CompressionOptions;
   },
 ): EventPublisherConfig<TMessage, TExchange, undefined>;
 
@@ -127,6 +133,7 @@ export function defineEventPublisher<
  * @param message - The message definition (schema and metadata)
  * @param options - Optional binding configuration
  * @param options.arguments - Additional AMQP arguments
+ * @param options.compression - Default compression of the published messages
  * @returns An event publisher configuration
  *
  * @example
@@ -155,6 +162,7 @@ export function defineEventPublisher<
   message: TMessage,
   options?: {
     arguments?: Record<string, unknown>;
+    compression?: CompressionAlgorithm | CompressionOptions;
   },
 ): EventPublisherConfig<TMessage, TExchange, undefined>;
 
@@ -169,6 +177,7 @@ export function defineEventPublisher<
  * @param options - Configuration with required routing key
  * @param options.routingKey - The routing key for message routing
  * @param options.arguments - Additional AMQP arguments
+ * @param options.compression - Default compression of the published messages
  * @returns An event publisher configuration
  *
  * @example
@@ -191,6 +200,7 @@ export function defineEventPublisher<
   options: {
     routingKey: RoutingKey<TRoutingKey>;
     arguments?: Record<string, unknown>;
+    compression?: CompressionAlgorithm | CompressionOptions;
   },
 ): EventPublisherConfig<TMessage, TExchange, TRoutingKey>;
 
@@ -205,6 +215,7 @@ export function defineEventPublisher<
  * @param options - Configuration with required routing key
  * @param options.routingKey - The concrete routing key (no wildcards)
  * @param options.arguments - Additional AMQP arguments
+ * @param options.compression - Default compression of the published messages
  * @returns An event publisher configuration
  *
  * @example
@@ -238,6 +249,7 @@ export function defineEventPublisher<
   options: {
     routingKey: RoutingKey<TRoutingKey>;
     arguments?: Record<string, unknown>;
+    compression?: CompressionAlgorithm | CompressionOptions;
   },
 ): EventPublisherConfig<TMessage, TExchange, TRoutingKey>;
 
@@ -251,6 +263,7 @@ export function defineEventPublisher<TMessage extends MessageDefinition>(
   options?: {
     routingKey?: string;
     arguments?: Record<string, unknown>;
+    compression?: CompressionAlgorithm | CompressionOptions;
   },
 ): EventPublisherConfig<TMessage, ExchangeDefinition, string | undefined> {
   const config: EventPublisherConfig<TMessage, ExchangeDefinition, string | undefined> = {
@@ -263,6 +276,9 @@ export function defineEventPublisher<TMessage extends MessageDefinition>(
   if (options?.arguments !== undefined) {
     config.arguments = options.arguments;
   }
+  if (options?.compression !== undefined) {
+    config.compression = options.compression;
+  }
 
   return config;
 }
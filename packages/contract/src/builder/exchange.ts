@@ -21,6 +21,7 @@ import type {
  * @param options.autoDelete - If true, the exchange is deleted when no queues are bound
  * @param options.internal - If true, the exchange cannot be directly published to
  * @param options.arguments - Additional AMQP arguments for the exchange
+ * @param options.delayed - If true, declare the exchange with the delayed message plugin (see {@link BaseExchangeDefinition.delayed})
  * @returns A topic exchange definition
  *
  * @example
@@ -29,12 +30,20 @@ import type {
  *
  * // Or omit type for default topic exchange
  * const ordersExchange = defineExchange('orders');
+ *
+ * // Publishers of a delayed exchange accept `delayMs` and `publishAt`
+ * const remindersExchange = defineExchange('reminders', { delayed: true });
  * ```
  */
-export function defineExchange<TName extends string>(
+export function defineExchange<TName extends string, TDelayed extends boolean = false>(
   name: TName,
-  options?: { type?: "topic" } & Omit<BaseExchangeDefinition, "name" | "type">,
-): TopicExchangeDefinition<TName>;
+  options?: { type?: "topic"; delayed?: TDelayed } & Omit<
+    BaseExchangeDefinition,
+    "name" | "type" | "delayed"
+  >,
+): TDelayed extends true
+  ? TopicExchangeDefinition<TName> & { delayed: true }
+  : TopicExchangeDefinition<TName>;
 
 /**
  * Define a direct exchange.
@@ -49,6 +58,7 @@ export function defineExchange<TName extends string>(
  * @param options.autoDelete - If true, the exchange is deleted when no queues are bound
  * @param options.internal - If true, the exchange cannot be directly published to
  * @param options.arguments - Additional AMQP arguments for the exchange
+ * @param options.delayed - If true, declare the exchange with the delayed message plugin (see {@link BaseExchangeDefinition.delayed})
  * @returns A direct exchange definition
  *
  * @example
@@ -56,10 +66,15 @@ export function defineExchange<TName extends string>(
  * const tasksExchange = defineExchange('tasks', { type: 'direct' });
  * ```
  */
-export function defineExchange<TName extends string>(
+export function defineExchange<TName extends string, TDelayed extends boolean = false>(
   name: TName,
-  options: { type: "direct" } & Omit<BaseExchangeDefinition, "name" | "type">,
-): DirectExchangeDefinition<TName>;
+  options: { type: "direct"; delayed?: TDelayed } & Omit<
+    BaseExchangeDefinition,
+    "name" | "type" | "delayed"
+  >,
+): TDelayed extends true
+  ? DirectExchangeDefinition<TName> & { delayed: true }
+  : DirectExchangeDefinition<TName>;
 
 /**
  * Define a fanout exchange.
@@ -74,6 +89,7 @@ export function defineExchange<TName extends string>(
  * @param options.autoDelete - If true, the exchange is deleted when no queues are bound
  * @param options.internal - If true, the exchange cannot be directly published to
  * @param options.arguments - Additional AMQP arguments for the exchange
+ * @param options.delayed - If true, declare the exchange with the delayed message plugin (see {@link BaseExchangeDefinition.delayed})
  * @returns A fanout exchange definition
  *
  * @example
@@ -81,10 +97,15 @@ export function defineExchange<TName extends string>(
  * const logsExchange = defineExchange('logs', { type: 'fanout' });
  * ```
  */
-export function defineExchange<TName extends string>(
+export function defineExchange<TName extends string, TDelayed extends boolean = false>(
   name: TName,
-  options: { type: "fanout" } & Omit<BaseExchangeDefinition, "name" | "type">,
-): FanoutExchangeDefinition<TName>;
+  options: { type: "fanout"; delayed?: TDelayed } & Omit<
+    BaseExchangeDefinition,
+    "name" | "type" | "delayed"
+  >,
+): TDelayed extends true
+  ? FanoutExchangeDefinition<TName> & { delayed: true }
+  : FanoutExchangeDefinition<TName>;
 
 /**
  * Define a headers exchange.
@@ -99,6 +120,7 @@ export function defineExchange<TName extends string>(
  * @param options.autoDelete - If true, the exchange is deleted when no queues are bound
  * @param options.internal - If true, the exchange cannot be directly published to
  * @param options.arguments - Additional AMQP arguments for the exchange
+ * @param options.delayed - If true, declare the exchange with the delayed message plugin (see {@link BaseExchangeDefinition.delayed})
  * @returns A headers exchange definition
  *
  * @example
@@ -106,10 +128,15 @@ export function defineExchange<TName extends string>(
  * const routesExchange = defineExchange('routes', { type: 'headers' });
  * ```
  */
-export function defineExchange<TName extends string>(
+export function defineExchange<TName extends string, TDelayed extends boolean = false>(
   name: TName,
-  options: { type: "headers" } & Omit<BaseExchangeDefinition, "name" | "type">,
-): HeadersExchangeDefinition<TName>;
+  options: { type: "headers"; delayed?: TDelayed } & Omit<
+    BaseExchangeDefinition,
+    "name" | "type" | "delayed"
+  >,
+): TDelayed extends true
+  ? HeadersExchangeDefinition<TName> & { delayed: true }
+  : HeadersExchangeDefinition<TName>;
 
 /**
  * Define an AMQP exchange.
@@ -125,6 +152,7 @@ export function defineExchange<TName extends string>(
  * @param options.autoDelete - If true, the exchange is deleted when no queues are bound
  * @param options.internal - If true, the exchange cannot be directly published to
  * @param options.arguments - Additional AMQP arguments for the exchange
+ * @param options.delayed - If true, declare the exchange with the delayed message plugin (see {@link BaseExchangeDefinition.delayed})
  * @returns An exchange definition
  * @internal
  */
@@ -11,6 +11,10 @@ import type { StandardSchemaV1 } from "@standard-schema/spec";
  * @param payload - The payload schema (must be Standard Schema v1 compatible)
  * @param options - Optional message metadata
  * @param options.headers - Optional header schema for message headers
+ * @param options.contentType - MIME type of the message body, selecting the codec that
+ *   serializes the payload (defaults to `application/json`)
+ * @param options.encryption - Set to `"required"` to encrypt the message body with the
+ *   key provider of the client and worker
  * @param options.summary - Brief description for documentation (used in AsyncAPI generation)
  * @param options.description - Detailed description for documentation (used in AsyncAPI generation)
  * @returns A message definition with inferred types
@@ -34,6 +38,16 @@ import type { StandardSchemaV1 } from "@standard-schema/spec";
  *     description: 'Emitted when a new order is created in the system'
  *   }
  * );
+ *
+ * // High-volume telemetry serialized as MessagePack
+ * const telemetryMessage = defineMessage(telemetrySchema, {
+ *   contentType: 'application/msgpack',
+ * });
+ *
+ * // Personal data encrypted end to end
+ * const customerMessage = defineMessage(customerSchema, {
+ *   encryption: 'required',
+ * });
  * ```
  */
 export function defineMessage<
@@ -43,6 +57,8 @@ export function defineMessage<
   payload: TPayload,
   options?: {
     headers?: THeaders;
+    contentType?: string;
+    encryption?: "required";
     summary?: string;
     description?: string;
   },
@@ -1,4 +1,6 @@
 import type {
+  CompressionAlgorithm,
+  CompressionOptions,
   DirectExchangeDefinition,
   ExchangeDefinition,
   FanoutExchangeDefinition,
@@ -33,6 +35,7 @@ import type {
  * @param exchange - The fanout or headers exchange definition to publish to
  * @param message - The message definition with payload schema
  * @param options - Optional publisher configuration
+ * @param options.compression - Default compression of the published messages
  * @returns A publisher definition with inferred message types
  *
  * @example
@@ -94,6 +97,8 @@ export function definePublisher<TMessage extends MessageDefinition>(
  * @param message - The message definition with payload schema
  * @param options - Publisher configuration (routingKey is required)
  * @param options.routingKey - The routing key for message routing
+ * @param options.compression - Default compression of the published messages,
+ *   e.g. `{ algorithm: "br", minBytes: 1024 }`
  * @returns A publisher definition with inferred message types
  *
  * @example
@@ -149,12 +154,15 @@ export function definePublisher<TMessage extends MessageDefinition>(
 export function definePublisher<TMessage extends MessageDefinition>(
   exchange: ExchangeDefinition,
   message: TMessage,
-  options?: { routingKey?: string },
+  options?: { routingKey?: string; compression?: CompressionAlgorithm | CompressionOptions },
 ): PublisherDefinition<TMessage> {
+  const compression = options?.compression !== undefined && { compression: options.compression };
+
   if (exchange.type === "fanout" || exchange.type === "headers") {
     return {
       exchange,
       message,
+      ...compression,
     } as PublisherDefinition<TMessage>;
   }
 
@@ -162,6 +170,7 @@ export function definePublisher<TMessage extends MessageDefinition>(
     exchange,
     message,
     routingKey: options?.routingKey ?? "",
+    ...compression,
   } as PublisherDefinition<TMessage>;
 }
 
@@ -176,11 +185,17 @@ export function definePublisherInternal<TMessage extends MessageDefinition>(
   options?: {
     routingKey?: string;
     arguments?: Record<string, unknown>;
+    compression?: CompressionAlgorithm | CompressionOptions;
   },
 ): PublisherDefinition<TMessage> {
+  const compression = options?.compression !== undefined && { compression: options.compression };
+
   // Type assertion is safe because overloaded signatures enforce routingKey requirement
   if (exchange.type === "fanout" || exchange.type === "headers") {
-    return definePublisher(exchange, message, options);
+    return definePublisher(exchange, message, { ...compression });
   }
-  return definePublisher(exchange, message, options as { routingKey: string });
+  return definePublisher(exchange, message, {
+    ...(options as { routingKey: string }),
+    ...compression,
+  });
 }
@@ -48,6 +48,47 @@ function resolveTtlBackoffOptions(
   };
 }
 
+/**
+ * Validate stream queue options at runtime, mirroring the compile-time
+ * restrictions of `StreamQueueOptions` for untyped callers.
+ * @internal
+ */
+function validateStreamQueueOptions(name: string, opts: DefineQueueOptions): void {
+  if (opts.durable === false) {
+    throw new Error("Non-durable queues are not supported with stream type.");
+  }
+  if (opts.exclusive !== undefined) {
+    throw new Error("Exclusive queues are not supported with stream type.");
+  }
+  if (opts.autoDelete !== undefined) {
+    throw new Error("Auto-deleting queues are not supported with stream type.");
+  }
+  if (opts.maxPriority !== undefined) {
+    throw new Error("Priority queues are not supported with stream type.");
+  }
+  if (opts.deadLetter !== undefined) {
+    throw new Error("Dead letter exchanges are not supported with stream type.");
+  }
+  if (opts.retry !== undefined && opts.retry.mode !== "none") {
+    throw new Error(
+      `Queue "${name}" uses ${opts.retry.mode} retry mode, which is not supported with stream type.`,
+    );
+  }
+  if (opts.maxAge !== undefined && !/^\d+[YMDhms]$/.test(opts.maxAge)) {
+    throw new Error(
+      `Invalid maxAge: ${opts.maxAge}. Must be a positive integer followed by one of Y, M, D, h, m, s (e.g. '7D').`,
+    );
+  }
+  for (const [option, value] of [
+    ["maxLengthBytes", opts.maxLengthBytes],
+    ["maxSegmentSizeBytes", opts.maxSegmentSizeBytes],
+  ] as const) {
+    if (value !== undefined && (!Number.isInteger(value) || value < 1)) {
+      throw new Error(`Invalid ${option}: ${value}. Must be a positive integer.`);
+    }
+  }
+}
+
 /**
  * Define an AMQP queue.
  *
@@ -56,17 +97,20 @@ function resolveTtlBackoffOptions(
  *
  * By default, queues are created as quorum queues which provide better durability and
  * high-availability. Use `type: 'classic'` for special cases like non-durable queues
- * or priority queues.
+ * or priority queues, and `type: 'stream'` for append-only, replayable logs.
  *
  * @param name - The name of the queue
  * @param options - Optional queue configuration
- * @param options.type - Queue type: 'quorum' (default, recommended) or 'classic'
- * @param options.durable - If true, the queue survives broker restarts. Quorum queues only support durable queues (default: true)
+ * @param options.type - Queue type: 'quorum' (default, recommended), 'classic' or 'stream'
+ * @param options.durable - If true, the queue survives broker restarts. Quorum and stream queues only support durable queues (default: true)
  * @param options.exclusive - If true, the queue can only be used by the declaring connection and is deleted when that connection closes. Only supported with classic queues.
  * @param options.autoDelete - If true, the queue is deleted when the last consumer unsubscribes. Only supported with classic queues.
  * @param options.maxPriority - Maximum priority level for priority queue (1-255, recommended: 1-10). Only supported with classic queues.
- * @param options.deadLetter - Dead letter configuration for handling failed messages
- * @param options.retry - Retry configuration for handling failed message processing
+ * @param options.maxAge - Retention age such as '7D' or '12h'. Only supported with stream queues.
+ * @param options.maxLengthBytes - Maximum stream size in bytes. Only supported with stream queues.
+ * @param options.maxSegmentSizeBytes - Stream segment file size in bytes. Only supported with stream queues.
+ * @param options.deadLetter - Dead letter configuration for handling failed messages. Not supported with stream queues.
+ * @param options.retry - Retry configuration for handling failed message processing. Stream queues only support `{ mode: 'none' }`.
  * @param options.arguments - Additional AMQP arguments (e.g., x-message-ttl)
  * @returns A queue definition
  *
@@ -101,6 +145,12 @@ function resolveTtlBackoffOptions(
  *   maxPriority: 10,
  * });
  *
+ * // Stream queue (replayable log, retained for 30 days)
+ * const auditLog = defineQueue('audit-log', {
+ *   type: 'stream',
+ *   maxAge: '30D',
+ * });
+ *
  * // Queue with TTL-backoff retry (returns infrastructure automatically)
  * const dlx = defineExchange('orders-dlx', { type: 'direct' });
  * const orderQueue = defineQueue('order-processing', {
@@ -147,7 +197,22 @@ export function defineQueue(name: string, options?: DefineQueueOptions): QueueEn
     ...(opts.maxPriority !== undefined && { maxPriority: opts.maxPriority }),
   };
 
-  if (type === "quorum") {
+  if (type !== "stream") {
+    // Stream-only options are rejected on other queue types
+    if (
+      opts.maxAge !== undefined ||
+      opts.maxLengthBytes !== undefined ||
+      opts.maxSegmentSizeBytes !== undefined
+    ) {
+      throw new Error(
+        `Queue "${name}" sets maxAge, maxLengthBytes or maxSegmentSizeBytes, which are only supported with stream type.`,
+      );
+    }
+  }
+
+  if (type === "stream") {
+    validateStreamQueueOptions(name, opts);
+  } else if (type === "quorum") {
     // Quorum queues do not support non-durable, exclusive, autoDelete, or maxPriority
     if (opts.durable === false) {
       throw new Error("Non-durable queues are not supported with quorum type.");
@@ -199,18 +264,32 @@ export function defineQueue(name: string, options?: DefineQueueOptions): QueueEn
   };
 
   const queueDefinition: QueueDefinition =
-    type === "quorum"
+    type === "stream"
       ? {
-          ...baseQueueDefinition,
+          // Stream queues never dead-letter (rejected above), so deadLetter is omitted
+          name,
+          ...(opts.arguments !== undefined && { arguments: opts.arguments }),
           type,
-          durable: true, // Quorum queues are always durable
+          durable: true, // Stream queues are always durable
+          retry: { mode: "none" },
+          ...(opts.maxAge !== undefined && { maxAge: opts.maxAge }),
+          ...(opts.maxLengthBytes !== undefined && { maxLengthBytes: opts.maxLengthBytes }),
+          ...(opts.maxSegmentSizeBytes !== undefined && {
+            maxSegmentSizeBytes: opts.maxSegmentSizeBytes,
+          }),
         }
-      : {
-          ...baseQueueDefinition,
-          ...classicProps,
-          type,
-          durable,
-        };
+      : type === "quorum"
+        ? {
+            ...baseQueueDefinition,
+            type,
+            durable: true, // Quorum queues are always durable
+          }
+        : {
+            ...baseQueueDefinition,
+            ...classicProps,
+            type,
+            durable,
+          };
 
   // If TTL-backoff retry, wrap with infrastructure
   if (retry.mode === "ttl-backoff") {
@@ -132,16 +132,17 @@ export function createTtlBackoffInfrastructure(
   };
 
   const waitQueue: QueueDefinition =
-    queue.type === "quorum"
+    queue.type === "classic"
       ? {
           ...baseWaitQueue,
           type: queue.type,
-          durable: true, // Quorum queues are always durable
+          durable: queue.durable,
         }
       : {
           ...baseWaitQueue,
-          type: queue.type,
-          durable: queue.durable,
+          // Stream queues cannot use ttl-backoff retry, so this is a quorum queue
+          type: "quorum",
+          durable: true, // Quorum queues are always durable
         };
 
   // Create binding for wait queue to receive failed messages
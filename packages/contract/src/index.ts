@@ -38,6 +38,7 @@ export type {
   ClassicQueueOptions,
   CommandConsumerConfigBase,
   CompressionAlgorithm,
+  CompressionOptions,
   ConsumerDefinition,
   ConsumerEntry,
   ContractDefinition,
@@ -45,6 +46,7 @@ export type {
   ContractOutput,
   DeadLetterConfig,
   DefineQueueOptions,
+  DelayedExchangeDefinition,
   DirectExchangeDefinition,
   EventConsumerResultBase,
   EventPublisherConfigBase,
@@ -56,6 +58,7 @@ export type {
   InferPublisherNames,
   InferRpcNames,
   MessageDefinition,
+  NoneRetryOptions,
   PublisherDefinition,
   PublisherEntry,
   QueueBindingDefinition,
@@ -70,6 +73,9 @@ export type {
   ResolvedTtlBackoffRetryOptions,
   ResolvedImmediateRequeueRetryOptions,
   RpcDefinition,
+  StreamMaxAge,
+  StreamQueueDefinition,
+  StreamQueueOptions,
   TopicExchangeDefinition,
   TtlBackoffRetryOptions,
 } from "./types.js";
@@ -173,9 +173,13 @@ export type ResolvedRetryOptions =
  *
  * - `gzip`: GZIP compression (standard, widely supported, good compression ratio)
  * - `deflate`: DEFLATE compression (faster than gzip, slightly less compression)
+ * - `br`: Brotli compression (best ratio for text payloads, slower to compress)
+ * - `zstd`: Zstandard compression (gzip-like ratio at a much higher speed),
+ *   only available on Node.js versions shipping `zlib.zstdCompress` (22.15+)
  *
  * Compression is configured at runtime via PublishOptions when calling
- * AmqpClient.publish, not at publisher definition time.
+ * AmqpClient.publish, or as a publisher default with the `compression` option
+ * of `definePublisher`.
  *
  * When compression is enabled, the message payload is compressed before publishing
  * and automatically decompressed when consuming. The `content-encoding` AMQP
@@ -196,7 +200,28 @@ export type ResolvedRetryOptions =
  * });
  * ```
  */
-export type CompressionAlgorithm = "gzip" | "deflate";
+export type CompressionAlgorithm = "gzip" | "deflate" | "br" | "zstd";
+
+/**
+ * Compression configuration with a size threshold, so that small messages,
+ * which compression barely shrinks or even grows, are published uncompressed.
+ *
+ * @example
+ * ```typescript
+ * const compression: CompressionOptions = { algorithm: "br", minBytes: 1024 };
+ * ```
+ */
+export type CompressionOptions = {
+  /** The compression algorithm to use */
+  algorithm: CompressionAlgorithm;
+
+  /**
+   * Minimum size in bytes of the encoded payload to compress it.
+   * Smaller payloads are published without a `content-encoding`.
+   * Defaults to 0, i.e. every payload is compressed.
+   */
+  minBytes?: number;
+};
 
 /**
  * Supported queue types in RabbitMQ.
@@ -205,10 +230,14 @@ export type CompressionAlgorithm = "gzip" | "deflate";
  *   using the Raft consensus algorithm. Best for most production use cases.
  * - `classic`: Classic queues - The traditional RabbitMQ queue type. Use only when you need
  *   specific features not supported by quorum queues (e.g., non-durable queues, priority queues).
+ * - `stream`: Stream queues - Append-only, replayable logs. Messages are not removed on ack,
+ *   so consumers can re-read them from any offset (e.g., audit logs, event sourcing).
  *
  * Note: Quorum queues only support durable queues, and do not support exclusive, auto-deleting, or priority queues.
+ * Stream queues have the same restrictions and additionally do not support dead lettering or retries.
  *
  * @see https://www.rabbitmq.com/docs/quorum-queues
+ * @see https://www.rabbitmq.com/docs/streams
  *
  * @example
  * ```typescript
@@ -222,9 +251,49 @@ export type CompressionAlgorithm = "gzip" | "deflate";
  *   type: 'classic',
  *   durable: false, // Only supported with classic queues
  * });
+ *
+ * // Create a stream queue (for replayable logs)
+ * const auditLog = defineQueue('audit-log', {
+ *   type: 'stream',
+ *   maxAge: '30D',
+ * });
+ * ```
+ */
+export type QueueType = "quorum" | "classic" | "stream";
+
+/**
+ * Retention age for stream queues, expressed as a number followed by a unit:
+ * `Y` (years), `M` (months), `D` (days), `h` (hours), `m` (minutes) or `s` (seconds).
+ *
+ * Maps to the `x-max-age` queue argument.
+ *
+ * @example
+ * ```typescript
+ * const maxAge: StreamMaxAge = '7D';
  * ```
  */
-export type QueueType = "quorum" | "classic";
+export type StreamMaxAge = `${number}${"Y" | "M" | "D" | "h" | "m" | "s"}`;
+
+/**
+ * Stream-only options, rejected on quorum and classic queues.
+ */
+type NoStreamQueueOptions = {
+  /**
+   * Only supported with stream queues.
+   */
+  maxAge?: never;
+
+  /**
+   * Only supported with stream queues. Use `arguments: { 'x-max-length-bytes': ... }`
+   * to cap the size of quorum or classic queues.
+   */
+  maxLengthBytes?: never;
+
+  /**
+   * Only supported with stream queues.
+   */
+  maxSegmentSizeBytes?: never;
+};
 
 /**
  * Common queue options shared between quorum and classic queues.
@@ -292,35 +361,36 @@ type BaseQueueOptions = {
  * });
  * ```
  */
-export type QuorumQueueOptions = BaseQueueOptions & {
-  /**
-   * Queue type: quorum (default, recommended)
-   */
-  type?: "quorum";
-
-  /**
-   * Quorum queues only support durable queues.
-   */
-  durable?: true;
-
-  /**
-   * Quorum queues do not support exclusive mode.
-   * Use type: 'classic' if you need exclusive queues.
-   */
-  exclusive?: never;
-
-  /**
-   * Quorum queues do not support auto-delete mode.
-   * Use type: 'classic' if you need auto-deleting queues.
-   */
-  autoDelete?: never;
-
-  /**
-   * Quorum queues do not support priority queues.
-   * Use type: 'classic' if you need priority queues.
-   */
-  maxPriority?: never;
-};
+export type QuorumQueueOptions = BaseQueueOptions &
+  NoStreamQueueOptions & {
+    /**
+     * Queue type: quorum (default, recommended)
+     */
+    type?: "quorum";
+
+    /**
+     * Quorum queues only support durable queues.
+     */
+    durable?: true;
+
+    /**
+     * Quorum queues do not support exclusive mode.
+     * Use type: 'classic' if you need exclusive queues.
+     */
+    exclusive?: never;
+
+    /**
+     * Quorum queues do not support auto-delete mode.
+     * Use type: 'classic' if you need auto-deleting queues.
+     */
+    autoDelete?: never;
+
+    /**
+     * Quorum queues do not support priority queues.
+     * Use type: 'classic' if you need priority queues.
+     */
+    maxPriority?: never;
+  };
 
 /**
  * Options for creating a classic queue.
@@ -339,44 +409,125 @@ export type QuorumQueueOptions = BaseQueueOptions & {
  * });
  * ```
  */
-export type ClassicQueueOptions = BaseQueueOptions & {
+export type ClassicQueueOptions = BaseQueueOptions &
+  NoStreamQueueOptions & {
+    /**
+     * Queue type: classic (for special cases)
+     */
+    type: "classic";
+
+    /**
+     * If true, the queue survives broker restarts. Durable queues are persisted to disk.
+     * @default true
+     */
+    durable?: boolean;
+
+    /**
+     * If true, the queue can only be used by the declaring connection and is deleted when
+     * that connection closes. Exclusive queues are private to the connection.
+     */
+    exclusive?: boolean;
+
+    /**
+     * If true, the queue is deleted when the last consumer unsubscribes.
+     */
+    autoDelete?: boolean;
+
+    /**
+     * Maximum priority level for priority queue (1-255, recommended: 1-10).
+     * Sets x-max-priority argument.
+     */
+    maxPriority?: number;
+  };
+
+/**
+ * Options for creating a stream queue.
+ *
+ * Streams are append-only logs: consuming a message does not remove it, so any
+ * number of consumers can replay the stream from a chosen offset. Retention is
+ * controlled by `maxAge` and `maxLengthBytes` instead of acknowledgements.
+ *
+ * Stream queues do not support:
+ * - `exclusive`, `autoDelete`, `maxPriority` or `durable: false`
+ * - `deadLetter` - Messages are never rejected out of a stream
+ * - `retry` other than `{ mode: 'none' }` - Streams cannot requeue or dead-letter messages
+ *
+ * @see https://www.rabbitmq.com/docs/streams
+ *
+ * @example
+ * ```typescript
+ * const auditLog = defineQueue('audit-log', {
+ *   type: 'stream',
+ *   maxAge: '30D',
+ *   maxLengthBytes: 10_000_000_000,
+ *   maxSegmentSizeBytes: 100_000_000,
+ * });
+ * ```
+ */
+export type StreamQueueOptions = Omit<BaseQueueOptions, "deadLetter" | "retry"> & {
   /**
-   * Queue type: classic (for special cases)
+   * Queue type: stream (append-only, replayable log)
    */
-  type: "classic";
+  type: "stream";
 
   /**
-   * If true, the queue survives broker restarts. Durable queues are persisted to disk.
-   * @default true
+   * Stream queues only support durable queues.
    */
-  durable?: boolean;
+  durable?: true;
 
   /**
-   * If true, the queue can only be used by the declaring connection and is deleted when
-   * that connection closes. Exclusive queues are private to the connection.
+   * Maximum age of messages retained in the stream. Sets the x-max-age argument.
    */
-  exclusive?: boolean;
+  maxAge?: StreamMaxAge;
 
   /**
-   * If true, the queue is deleted when the last consumer unsubscribes.
+   * Maximum total size of the stream in bytes. Sets the x-max-length-bytes argument.
    */
-  autoDelete?: boolean;
+  maxLengthBytes?: number;
 
   /**
-   * Maximum priority level for priority queue (1-255, recommended: 1-10).
-   * Sets x-max-priority argument.
+   * Size of the stream's on-disk segment files in bytes. Retention is applied per
+   * segment, so smaller segments make `maxAge` / `maxLengthBytes` more precise.
+   * Sets the x-stream-max-segment-size-bytes argument.
    */
-  maxPriority?: number;
+  maxSegmentSizeBytes?: number;
+
+  /**
+   * Stream queues do not support dead lettering.
+   */
+  deadLetter?: never;
+
+  /**
+   * Stream queues cannot requeue or dead-letter messages, so only `none` is supported.
+   */
+  retry?: NoneRetryOptions;
+
+  /**
+   * Stream queues do not support exclusive mode.
+   */
+  exclusive?: never;
+
+  /**
+   * Stream queues do not support auto-delete mode.
+   */
+  autoDelete?: never;
+
+  /**
+   * Stream queues do not support priority queues.
+   */
+  maxPriority?: never;
 };
 
 /**
  * Options for defining a queue. Uses a discriminated union based on the `type` property
- * to enforce quorum queue constraints at compile time.
+ * to enforce queue type constraints at compile time.
  *
  * - Quorum queues (default): Do not support `exclusive`, `autoDelete`, or `maxPriority`
  * - Classic queues: Support all options including `exclusive`, `autoDelete`, and `maxPriority`
+ * - Stream queues: Support `maxAge`, `maxLengthBytes` and `maxSegmentSizeBytes`, but not
+ *   `exclusive`, `autoDelete`, `maxPriority`, `deadLetter` or retries
  */
-export type DefineQueueOptions = QuorumQueueOptions | ClassicQueueOptions;
+export type DefineQueueOptions = QuorumQueueOptions | ClassicQueueOptions | StreamQueueOptions;
 
 /**
  * Options for defining a queue with a dead letter exchange.
@@ -419,6 +570,14 @@ export type BaseExchangeDefinition<TName extends string = string> = {
    * Common arguments include alternate-exchange for handling unroutable messages.
    */
   arguments?: Record<string, unknown>;
+
+  /**
+   * If true, the exchange is declared as an `x-delayed-message` exchange of the
+   * [delayed message plugin](https://github.com/rabbitmq/rabbitmq-delayed-message-exchange),
+   * routing messages like its `type`. Messages published with a delay are held by the
+   * exchange and routed once the delay elapses. Requires the plugin on the broker.
+   */
+  delayed?: boolean;
 };
 
 /**
@@ -508,6 +667,20 @@ export type ExchangeDefinition<TName extends string = string> =
   | FanoutExchangeDefinition<TName>
   | HeadersExchangeDefinition<TName>;
 
+/**
+ * An exchange declared with `delayed: true`, whose publishers accept a delay.
+ *
+ * @example
+ * ```typescript
+ * const remindersExchange: DelayedExchangeDefinition = defineExchange('reminders', {
+ *   delayed: true,
+ * });
+ * ```
+ */
+export type DelayedExchangeDefinition<TName extends string = string> = ExchangeDefinition<TName> & {
+  delayed: true;
+};
+
 /**
  * Configuration for dead letter exchange (DLX) on a queue.
  *
@@ -634,18 +807,78 @@ export type ClassicQueueDefinition<TName extends string = string> = BaseQueueDef
   maxPriority?: number;
 };
 
+/**
+ * Definition of a stream queue.
+ *
+ * Stream queues are append-only logs that consumers can replay from any offset.
+ * They never dead-letter or requeue messages, so `retry` is always `none`.
+ */
+export type StreamQueueDefinition<TName extends string = string> = BaseQueueDefinition<TName> & {
+  /**
+   * Queue type discriminator: stream queue.
+   */
+  type: "stream";
+
+  /**
+   * Stream queues only support durable queues.
+   */
+  durable: true;
+
+  /**
+   * Maximum age of messages retained in the stream (x-max-age).
+   */
+  maxAge?: StreamMaxAge;
+
+  /**
+   * Maximum total size of the stream in bytes (x-max-length-bytes).
+   */
+  maxLengthBytes?: number;
+
+  /**
+   * Size of the stream's segment files in bytes (x-stream-max-segment-size-bytes).
+   */
+  maxSegmentSizeBytes?: number;
+
+  /**
+   * Stream queues do not support dead lettering.
+   */
+  deadLetter?: never;
+
+  /**
+   * Stream queues cannot requeue or dead-letter messages.
+   */
+  retry: NoneRetryOptions;
+
+  /**
+   * Stream queues do not support exclusive mode.
+   */
+  exclusive?: never;
+
+  /**
+   * Stream queues do not support auto-delete mode.
+   */
+  autoDelete?: never;
+
+  /**
+   * Stream queues do not support priority queues.
+   */
+  maxPriority?: never;
+};
+
 /**
  * Definition of an AMQP queue.
  *
  * A discriminated union based on queue type:
  * - `QuorumQueueDefinition`: For quorum queues (type: "quorum")
  * - `ClassicQueueDefinition`: For classic queues (type: "classic")
+ * - `StreamQueueDefinition`: For stream queues (type: "stream")
  *
  * Use `queue.type` as the discriminator to narrow the type.
  */
 export type QueueDefinition<TName extends string = string> =
   | QuorumQueueDefinition<TName>
-  | ClassicQueueDefinition<TName>;
+  | ClassicQueueDefinition<TName>
+  | StreamQueueDefinition<TName>;
 
 /**
  * Result type for TTL-backoff retry infrastructure builder.
@@ -784,6 +1017,20 @@ export type MessageDefinition<
    */
   headers?: THeaders;
 
+  /**
+   * MIME type of the message body, selecting the codec that serializes the
+   * payload, e.g. `application/msgpack` or `application/cbor`.
+   * Defaults to `application/json`.
+   */
+  contentType?: string;
+
+  /**
+   * Set to `"required"` to encrypt the message body with the `keyProvider`
+   * of the client and worker (AES-256-GCM). Messages published without
+   * encryption are then rejected by the worker.
+   */
+  encryption?: "required";
+
   /**
    * Brief description of the message for documentation purposes.
    * Used in AsyncAPI specification generation.
@@ -897,7 +1144,8 @@ export type BindingDefinition = QueueBindingDefinition | ExchangeBindingDefiniti
  * The message payload is validated against the schema before being sent to RabbitMQ.
  *
  * Compression can be optionally applied at publish time by specifying a compression
- * algorithm when calling the publish method.
+ * algorithm when calling the publish method, or declared once on the publisher
+ * with its `compression` option.
  *
  * @template TMessage - The message definition with payload schema
  *
@@ -913,6 +1161,13 @@ export type BindingDefinition = QueueBindingDefinition | ExchangeBindingDefiniti
 export type PublisherDefinition<TMessage extends MessageDefinition = MessageDefinition> = {
   /** The message definition including the payload schema */
   message: TMessage;
+
+  /**
+   * Default compression of the messages published with this publisher.
+   * Overrides the client's `defaultPublishOptions.compression` and is
+   * overridden by the `compression` option of a publish call.
+   */
+  compression?: CompressionAlgorithm | CompressionOptions;
 } & (
   | {
       /** Direct or topic exchange requiring a routing key */
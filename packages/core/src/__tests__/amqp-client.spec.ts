@@ -376,6 +376,40 @@ describe("AmqpClient Integration", () => {
     (await client.close())._unsafeUnwrap();
   });
 
+  it("should list every missing resource in verify mode", async ({ amqpConnectionUrl }) => {
+    // GIVEN
+    const contract: ContractDefinition = {
+      exchanges: {
+        orders: defineExchange("verify-orders", { durable: false }),
+        audit: defineExchange("verify-audit", { durable: false }),
+      },
+      queues: {
+        orderProcessing: defineQueue("verify-order-processing", {
+          type: "classic",
+          durable: false,
+        }),
+      },
+    };
+    const setupClient = new AmqpClient(
+      { exchanges: { orders: contract.exchanges!["orders"]! } },
+      { urls: [amqpConnectionUrl] },
+    );
+    (await setupClient.waitForConnect())._unsafeUnwrap();
+
+    // WHEN
+    const client = new AmqpClient(contract, { urls: [amqpConnectionUrl], topology: "verify" });
+    const result = await client.waitForConnect();
+
+    // THEN
+    expect(result._unsafeUnwrapErr().message).toBe(
+      'AMQP topology verification failed, missing resources: exchange "verify-audit", queue "verify-order-processing"',
+    );
+
+    // CLEANUP
+    (await client.close())._unsafeUnwrap();
+    (await setupClient.close())._unsafeUnwrap();
+  });
+
   it("should close channel and connection properly", async ({ amqpConnectionUrl }) => {
     // GIVEN
     const contract: ContractDefinition = {
@@ -37,7 +37,7 @@ describe("AmqpClient Channel Configuration", () => {
     (await client.close())._unsafeUnwrap();
   });
 
-  it("should keep json as true by default", async ({ amqpConnectionUrl }) => {
+  it("should keep json disabled by default", async ({ amqpConnectionUrl }) => {
     // GIVEN
     const contract: ContractDefinition = {
       exchanges: {
@@ -52,7 +52,7 @@ describe("AmqpClient Channel Configuration", () => {
 
     (await client.waitForConnect())._unsafeUnwrap();
 
-    // THEN - Default json: true should be used
+    // THEN - Default json: false should be used, Buffers are published as-is
     expect(client.getConnection()).toBeDefined();
 
     // CLEANUP
@@ -202,7 +202,7 @@ describe("AmqpClient Channel Configuration", () => {
       urls: [amqpConnectionUrl],
       channelOptions: {
         name: "custom-channel",
-        json: true, // Explicitly set to true (same as default)
+        confirm: true, // Explicitly set to true (same as default)
       },
     });
 
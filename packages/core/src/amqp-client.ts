@@ -7,10 +7,11 @@ import type {
   CreateChannelOpts,
 } from "amqp-connection-manager";
 import type { Channel, ConsumeMessage, Options } from "amqplib";
-import { err, errAsync, ok, Result, ResultAsync } from "neverthrow";
+import { err, errAsync, ok, okAsync, Result, ResultAsync } from "neverthrow";
 import { ConnectionManagerSingleton } from "./connection-manager.js";
+import { jsonCodec } from "./codec.js";
 import { TechnicalError } from "./errors.js";
-import { setupAmqpTopology } from "./setup.js";
+import { setupAmqpTopology, verifyAmqpTopology } from "./setup.js";
 
 /**
  * Invoke a SetupFunc, handling both callback-based and promise-based signatures.
@@ -35,6 +36,19 @@ function callSetupFunc(
   return (setup as (channel: Channel) => Promise<void>)(channel);
 }
 
+/**
+ * Message body of a publish: `Buffer` content is already encoded (by a codec,
+ * possibly compressed) and is sent as-is, anything else is encoded as JSON.
+ * @internal
+ */
+function encodeContent(content: unknown): Result<Buffer, TechnicalError> {
+  if (Buffer.isBuffer(content)) return ok(content);
+  return Result.fromThrowable(
+    () => jsonCodec.encode(content),
+    (error) => new TechnicalError("Failed to encode message as JSON", error),
+  )();
+}
+
 /**
  * Default time `waitForConnect` will wait for the broker before erroring out.
  * Defaulting to a finite value (rather than waiting forever) means a fail-fast
@@ -64,19 +78,37 @@ function resolveConnectTimeoutMs(input: number | null | undefined): number | nul
  *
  * @property urls - AMQP broker URL(s). Multiple URLs provide failover support.
  * @property connectionOptions - Optional connection configuration (heartbeat, reconnect settings, etc.).
- * @property channelOptions - Optional channel configuration options.
+ * @property channelOptions - Optional channel configuration options. Setting
+ *   `json: true` makes the channel JSON-serialize every content, including the
+ *   `Buffer`s of compressed messages and non-JSON codecs.
  * @property connectTimeoutMs - Maximum time in ms to wait for the channel to
  *   become ready in `waitForConnect`. Defaults to {@link DEFAULT_CONNECT_TIMEOUT_MS}.
  *   Pass `null` to disable the timeout entirely (amqp-connection-manager will
  *   retry indefinitely).
+ * @property topology - How the contract topology is handled on connect, see
+ *   {@link TopologyMode}. Defaults to `"assert"`.
  */
 export type AmqpClientOptions = {
   urls: ConnectionUrl[];
   connectionOptions?: AmqpConnectionManagerOptions | undefined;
   channelOptions?: Partial<CreateChannelOpts> | undefined;
   connectTimeoutMs?: number | null | undefined;
+  topology?: TopologyMode | undefined;
 };
 
+/**
+ * How a client handles the contract topology when it connects.
+ *
+ * - `assert`: create the exchanges, queues and bindings, on every channel
+ *   (re)connection, with {@link setupAmqpTopology}. Requires the `configure`
+ *   permission.
+ * - `verify`: check that the exchanges and queues exist, without creating
+ *   them, with {@link verifyAmqpTopology}. `waitForConnect` fails with a
+ *   `TechnicalError` listing the missing resources.
+ * - `skip`: leave the topology alone, e.g. when it is provisioned elsewhere.
+ */
+export type TopologyMode = "assert" | "verify" | "skip";
+
 /**
  * Callback type for consuming messages.
  */
@@ -117,7 +149,7 @@ export type ConsumerOptions = Options.Consume & {
  * - Connection management with automatic reconnection via amqp-connection-manager
  * - Connection pooling and sharing across instances with the same URLs
  * - Automatic AMQP topology setup (exchanges, queues, bindings) from contract
- * - Channel creation with JSON serialization enabled by default
+ * - Channel creation publishing `Buffer` content as-is and other content as JSON
  *
  * All operations return `ResultAsync<T, TechnicalError>` for consistent error handling.
  *
@@ -145,6 +177,9 @@ export class AmqpClient {
   private readonly connectionOptions?: AmqpConnectionManagerOptions;
   /** Resolved timeout in ms; `null` means "wait forever". */
   private readonly connectTimeoutMs: number | null;
+  private readonly topology: TopologyMode;
+  /** Whether the topology was verified, in `verify` mode */
+  private topologyVerified = false;
   /**
    * Per-consumer prefetch setup functions registered via `addSetup` so they
    * can be removed in {@link cancel} once the consumer is gone — otherwise
@@ -161,7 +196,7 @@ export class AmqpClient {
    * The client will automatically:
    * - Get or create a shared connection using the singleton pattern
    * - Set up AMQP topology (exchanges, queues, bindings) from the contract
-   * - Create a channel with JSON serialization enabled
+   * - Create a channel that publishes `Buffer` content as-is and other content as JSON
    *
    * @param contract - The contract definition specifying the AMQP topology
    * @param options - Client configuration options
@@ -182,13 +217,16 @@ export class AmqpClient {
     // near-immediately on Infinity — neither is what a caller asking for "no
     // timeout" expects.
     this.connectTimeoutMs = resolveConnectTimeoutMs(options.connectTimeoutMs);
+    this.topology = options.topology ?? "assert";
 
     // Always use singleton to get/create connection
     const singleton = ConnectionManagerSingleton.getInstance();
     this.connection = singleton.getConnection(options.urls, options.connectionOptions);
 
-    // Create default setup function that calls setupAmqpTopology
-    const defaultSetup = (channel: Channel) => setupAmqpTopology(channel, this.contract);
+    // Create default setup function that calls setupAmqpTopology. In verify
+    // mode, the topology is checked once by waitForConnect instead.
+    const defaultSetup = (channel: Channel) =>
+      this.topology === "assert" ? setupAmqpTopology(channel, this.contract) : Promise.resolve();
 
     // Destructure setup from channelOptions to handle it separately
     const { setup: userSetup, ...otherChannelOptions } = options.channelOptions ?? {};
@@ -196,7 +234,6 @@ export class AmqpClient {
     // Merge user-provided channel options with defaults
     const channelOpts: CreateChannelOpts = {
       confirm: true,
-      json: true,
       setup: defaultSetup,
       ...otherChannelOptions,
     };
@@ -265,12 +302,32 @@ export class AmqpClient {
     return ResultAsync.fromPromise(
       racedPromise,
       (error: unknown) => new TechnicalError("Failed to connect to AMQP broker", error),
-    );
+    ).andThen(() => this.verifyTopologyIfNeeded());
+  }
+
+  /**
+   * Verify the contract topology once, in `verify` topology mode.
+   */
+  private verifyTopologyIfNeeded(): ResultAsync<void, TechnicalError> {
+    if (this.topology !== "verify" || this.topologyVerified) return okAsync(undefined);
+    const connection = this.connection.connection;
+    if (!connection) {
+      return errAsync(new TechnicalError("Failed to verify AMQP topology: connection lost"));
+    }
+    return ResultAsync.fromPromise(verifyAmqpTopology(connection, this.contract), (error) =>
+      error instanceof TechnicalError
+        ? error
+        : new TechnicalError("Failed to verify AMQP topology", error),
+    ).map(() => {
+      this.topologyVerified = true;
+    });
   }
 
   /**
    * Publish a message to an exchange.
    *
+   * A `Buffer` content is published as-is; any other content is encoded as JSON.
+   *
    * @returns ResultAsync resolving to `true` if the message was sent, `false` if the channel buffer is full.
    */
   publish(
@@ -279,15 +336,19 @@ export class AmqpClient {
     content: Buffer | unknown,
     options?: PublishOptions,
   ): ResultAsync<boolean, TechnicalError> {
-    return ResultAsync.fromPromise(
-      this.channelWrapper.publish(exchange, routingKey, content, options),
-      (error: unknown) => new TechnicalError("Failed to publish message", error),
+    return encodeContent(content).asyncAndThen((buffer) =>
+      ResultAsync.fromPromise(
+        this.channelWrapper.publish(exchange, routingKey, buffer, options),
+        (error: unknown) => new TechnicalError("Failed to publish message", error),
+      ),
     );
   }
 
   /**
    * Publish a message directly to a queue.
    *
+   * A `Buffer` content is published as-is; any other content is encoded as JSON.
+   *
    * @returns ResultAsync resolving to `true` if the message was sent, `false` if the channel buffer is full.
    */
   sendToQueue(
@@ -295,9 +356,11 @@ export class AmqpClient {
     content: Buffer | unknown,
     options?: PublishOptions,
   ): ResultAsync<boolean, TechnicalError> {
-    return ResultAsync.fromPromise(
-      this.channelWrapper.sendToQueue(queue, content, options),
-      (error: unknown) => new TechnicalError("Failed to publish message to queue", error),
+    return encodeContent(content).asyncAndThen((buffer) =>
+      ResultAsync.fromPromise(
+        this.channelWrapper.sendToQueue(queue, buffer, options),
+        (error: unknown) => new TechnicalError("Failed to publish message to queue", error),
+      ),
     );
   }
 
@@ -0,0 +1,230 @@
+/**
+ * Growable big-endian byte buffer used by the binary codecs.
+ *
+ * @internal
+ */
+export class ByteWriter {
+  private buffer = Buffer.allocUnsafe(256);
+  private length = 0;
+
+  uint8(value: number): void {
+    this.ensure(1);
+    this.buffer[this.length++] = value;
+  }
+
+  uint16(value: number): void {
+    this.ensure(2);
+    this.length = this.buffer.writeUInt16BE(value, this.length);
+  }
+
+  uint32(value: number): void {
+    this.ensure(4);
+    this.length = this.buffer.writeUInt32BE(value, this.length);
+  }
+
+  uint64(value: bigint): void {
+    this.ensure(8);
+    this.length = this.buffer.writeBigUInt64BE(value, this.length);
+  }
+
+  int8(value: number): void {
+    this.ensure(1);
+    this.length = this.buffer.writeInt8(value, this.length);
+  }
+
+  int16(value: number): void {
+    this.ensure(2);
+    this.length = this.buffer.writeInt16BE(value, this.length);
+  }
+
+  int32(value: number): void {
+    this.ensure(4);
+    this.length = this.buffer.writeInt32BE(value, this.length);
+  }
+
+  int64(value: bigint): void {
+    this.ensure(8);
+    this.length = this.buffer.writeBigInt64BE(value, this.length);
+  }
+
+  float32(value: number): void {
+    this.ensure(4);
+    this.length = this.buffer.writeFloatBE(value, this.length);
+  }
+
+  float64(value: number): void {
+    this.ensure(8);
+    this.length = this.buffer.writeDoubleBE(value, this.length);
+  }
+
+  bytes(value: Uint8Array): void {
+    this.ensure(value.length);
+    this.buffer.set(value, this.length);
+    this.length += value.length;
+  }
+
+  /** Copy of the bytes written so far */
+  toBuffer(): Buffer {
+    return Buffer.from(this.buffer.subarray(0, this.length));
+  }
+
+  private ensure(size: number): void {
+    if (this.length + size <= this.buffer.length) return;
+    const next = Buffer.allocUnsafe(Math.max(this.buffer.length * 2, this.length + size));
+    this.buffer.copy(next, 0, 0, this.length);
+    this.buffer = next;
+  }
+}
+
+/**
+ * Big-endian cursor over a buffer, throwing a `RangeError` when reading past
+ * its end.
+ *
+ * @internal
+ */
+export class ByteReader {
+  private offset = 0;
+
+  constructor(private readonly buffer: Buffer) {}
+
+  get done(): boolean {
+    return this.offset >= this.buffer.length;
+  }
+
+  /** Next byte, without consuming it */
+  peek(): number {
+    this.need(1);
+    return this.buffer[this.offset]!;
+  }
+
+  uint8(): number {
+    this.need(1);
+    return this.buffer[this.offset++]!;
+  }
+
+  uint16(): number {
+    this.need(2);
+    const value = this.buffer.readUInt16BE(this.offset);
+    this.offset += 2;
+    return value;
+  }
+
+  uint32(): number {
+    this.need(4);
+    const value = this.buffer.readUInt32BE(this.offset);
+    this.offset += 4;
+    return value;
+  }
+
+  uint64(): bigint {
+    this.need(8);
+    const value = this.buffer.readBigUInt64BE(this.offset);
+    this.offset += 8;
+    return value;
+  }
+
+  int8(): number {
+    this.need(1);
+    return this.buffer.readInt8(this.offset++);
+  }
+
+  int16(): number {
+    this.need(2);
+    const value = this.buffer.readInt16BE(this.offset);
+    this.offset += 2;
+    return value;
+  }
+
+  int32(): number {
+    this.need(4);
+    const value = this.buffer.readInt32BE(this.offset);
+    this.offset += 4;
+    return value;
+  }
+
+  int64(): bigint {
+    this.need(8);
+    const value = this.buffer.readBigInt64BE(this.offset);
+    this.offset += 8;
+    return value;
+  }
+
+  float32(): number {
+    this.need(4);
+    const value = this.buffer.readFloatBE(this.offset);
+    this.offset += 4;
+    return value;
+  }
+
+  float64(): number {
+    this.need(8);
+    const value = this.buffer.readDoubleBE(this.offset);
+    this.offset += 8;
+    return value;
+  }
+
+  /** Copy of the next `length` bytes */
+  bytes(length: number): Buffer {
+    this.need(length);
+    const value = Buffer.from(this.buffer.subarray(this.offset, this.offset + length));
+    this.offset += length;
+    return value;
+  }
+
+  /** The next `length` bytes decoded as UTF-8 */
+  utf8(length: number): string {
+    this.need(length);
+    const value = this.buffer.toString("utf8", this.offset, this.offset + length);
+    this.offset += length;
+    return value;
+  }
+
+  private need(size: number): void {
+    if (this.offset + size > this.buffer.length) {
+      throw new RangeError(`Unexpected end of data at offset ${this.offset}`);
+    }
+  }
+}
+
+/**
+ * A 64-bit integer as a number when it is safe, else as a bigint.
+ *
+ * @internal
+ */
+export function toSafeNumber(value: bigint): number | bigint {
+  return value >= BigInt(Number.MIN_SAFE_INTEGER) && value <= BigInt(Number.MAX_SAFE_INTEGER)
+    ? Number(value)
+    : value;
+}
+
+/**
+ * Own enumerable entries of a plain object that `JSON.stringify` would keep,
+ * i.e. without `undefined`, function and symbol values.
+ *
+ * @internal
+ */
+export function serializableEntries(value: object): [string, unknown][] {
+  return Object.entries(value).filter(
+    ([, entry]) => entry !== undefined && typeof entry !== "function" && typeof entry !== "symbol",
+  );
+}
+
+/**
+ * Set a decoded map entry, defining `__proto__` as an own property like
+ * `JSON.parse` does instead of replacing the prototype.
+ *
+ * @internal
+ */
+export function setEntry(target: Record<string, unknown>, key: unknown, value: unknown): void {
+  const name = typeof key === "string" ? key : String(key);
+  if (name === "__proto__") {
+    Object.defineProperty(target, name, {
+      value,
+      enumerable: true,
+      writable: true,
+      configurable: true,
+    });
+  } else {
+    target[name] = value;
+  }
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { cborCodec } from "./cbor.js";
+
+const hex = (value: unknown): string => cborCodec.encode(value).toString("hex");
+const decodeHex = (value: string): unknown => cborCodec.decode(Buffer.from(value, "hex"));
+
+describe("cborCodec", () => {
+  it("should encode the RFC 8949 examples", () => {
+    // GIVEN / WHEN / THEN
+    expect(hex(0)).toBe("00");
+    expect(hex(24)).toBe("1818");
+    expect(hex(1000)).toBe("1903e8");
+    expect(hex(-1000)).toBe("3903e7");
+    expect(hex(1.1)).toBe("fb3ff199999999999a");
+    expect(hex(18446744073709551616n)).toBe("c249010000000000000000");
+    expect(hex({ a: 1, b: [2, 3] })).toBe("a26161016162820203");
+    expect(hex(Buffer.from([1, 2, 3, 4]))).toBe("4401020304");
+  });
+
+  it("should decode the RFC 8949 examples", () => {
+    // GIVEN / WHEN / THEN
+    expect(decodeHex("f93c00")).toBe(1);
+    expect(decodeHex("f97c00")).toBe(Infinity);
+    expect(decodeHex("3bffffffffffffffff")).toBe(-18446744073709551616n);
+    expect(decodeHex("c11a514b67b0")).toEqual(new Date("2013-03-21T20:04:00Z"));
+    expect(decodeHex("c074323031332d30332d32315432303a30343a30305a")).toEqual(
+      new Date("2013-03-21T20:04:00Z"),
+    );
+    expect(decodeHex("9f018202039f0405ffff")).toEqual([1, [2, 3], [4, 5]]);
+    expect(decodeHex("bf61610161629f0203ffff")).toEqual({ a: 1, b: [2, 3] });
+    expect(decodeHex("7f657374726561646d696e67ff")).toBe("streaming");
+  });
+
+  it("should round-trip a payload", () => {
+    // GIVEN
+    const payload = {
+      deviceId: "sensor-1",
+      readings: [21.5, -3, 1_000_000, 0.1],
+      tags: { é: "ü", nested: [null, true, false, "x".repeat(300)] },
+      raw: Buffer.from("bytes"),
+      at: new Date("2026-01-02T03:04:05.678Z"),
+      big: -(2n ** 70n),
+    };
+
+    // WHEN
+    const decoded = cborCodec.decode(cborCodec.encode(payload));
+
+    // THEN
+    expect(decoded).toEqual(payload);
+  });
+
+  it("should encode like JSON.stringify for values JSON does not represent", () => {
+    // GIVEN
+    const payload = { kept: 1, missing: undefined, fn: () => 1, list: [undefined, () => 1] };
+
+    // WHEN
+    const decoded = cborCodec.decode(cborCodec.encode(payload));
+
+    // THEN
+    expect(decoded).toEqual(JSON.parse(JSON.stringify(payload)));
+  });
+
+  it("should throw on malformed content", () => {
+    // GIVEN / WHEN / THEN
+    expect(() => decodeHex("8201")).toThrow(RangeError);
+    expect(() => decodeHex("0101")).toThrow("Unexpected data after the CBOR value");
+    expect(() => decodeHex("ff")).toThrow("Unexpected CBOR break stop code");
+    expect(() => cborCodec.encode(Symbol("x"))).toThrow(TypeError);
+  });
+});
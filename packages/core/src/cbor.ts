@@ -0,0 +1,317 @@
+import { ByteReader, ByteWriter, serializableEntries, setEntry, toSafeNumber } from "./binary.js";
+import type { Codec } from "./codec.js";
+
+const UNSIGNED = 0;
+const NEGATIVE = 1;
+const BYTES = 2;
+const TEXT = 3;
+const ARRAY = 4;
+const MAP = 5;
+const TAG = 6;
+
+const INDEFINITE = 31;
+const BREAK = 0xff;
+
+const TAG_DATE_STRING = 0;
+const TAG_EPOCH = 1;
+const TAG_POSITIVE_BIGNUM = 2;
+const TAG_NEGATIVE_BIGNUM = 3;
+
+/**
+ * CBOR (RFC 8949) codec, with the `application/cbor` content type.
+ *
+ * Encodes the same values as `JSON.stringify`, plus:
+ * - `Uint8Array` and `Buffer` as byte strings, decoded as `Buffer`
+ * - `Date` as an epoch-based date/time (tag 1), decoded as `Date`
+ * - `bigint`, as a bignum (tags 2 and 3) outside the 64-bit range, decoded as
+ *   `number` when it is a safe integer
+ *
+ * Decoding also accepts indefinite-length items, half-precision floats and
+ * standard date/time strings (tag 0), so messages from other CBOR producers
+ * can be consumed. Other tags are ignored and their content is returned.
+ *
+ * @example
+ * ```typescript
+ * const telemetryMessage = defineMessage(telemetrySchema, {
+ *   contentType: cborCodec.contentType,
+ * });
+ * ```
+ */
+export const cborCodec: Codec = {
+  contentType: "application/cbor",
+  encode(value) {
+    const writer = new ByteWriter();
+    encodeValue(writer, value);
+    return writer.toBuffer();
+  },
+  decode(buffer) {
+    const reader = new ByteReader(buffer);
+    const value = decodeValue(reader);
+    if (!reader.done) throw new Error("Unexpected data after the CBOR value");
+    return value;
+  },
+};
+
+function writeHead(writer: ByteWriter, major: number, argument: number | bigint): void {
+  const type = major << 5;
+  if (typeof argument === "bigint" || argument >= 0x100000000) {
+    writer.uint8(type | 27);
+    writer.uint64(BigInt(argument));
+  } else if (argument < 24) {
+    writer.uint8(type | argument);
+  } else if (argument < 0x100) {
+    writer.uint8(type | 24);
+    writer.uint8(argument);
+  } else if (argument < 0x10000) {
+    writer.uint8(type | 25);
+    writer.uint16(argument);
+  } else {
+    writer.uint8(type | 26);
+    writer.uint32(argument);
+  }
+}
+
+function encodeValue(writer: ByteWriter, value: unknown): void {
+  if (value === null || value === undefined) {
+    writer.uint8(0xf6);
+    return;
+  }
+  switch (typeof value) {
+    case "boolean":
+      writer.uint8(value ? 0xf5 : 0xf4);
+      return;
+    case "number":
+      encodeNumber(writer, value);
+      return;
+    case "bigint":
+      encodeBigInt(writer, value);
+      return;
+    case "string": {
+      const bytes = Buffer.from(value, "utf8");
+      writeHead(writer, TEXT, bytes.length);
+      writer.bytes(bytes);
+      return;
+    }
+    case "object":
+      encodeObject(writer, value);
+      return;
+    default:
+      throw new TypeError(`Cannot encode a value of type ${typeof value} as CBOR`);
+  }
+}
+
+function encodeNumber(writer: ByteWriter, value: number): void {
+  if (Number.isSafeInteger(value)) {
+    if (value >= 0) writeHead(writer, UNSIGNED, value);
+    else writeHead(writer, NEGATIVE, -1 - value);
+  } else if (Math.fround(value) === value || Number.isNaN(value)) {
+    writer.uint8(0xfa);
+    writer.float32(value);
+  } else {
+    writer.uint8(0xfb);
+    writer.float64(value);
+  }
+}
+
+function encodeBigInt(writer: ByteWriter, value: bigint): void {
+  const major = value >= 0n ? UNSIGNED : NEGATIVE;
+  const magnitude = value >= 0n ? value : -1n - value;
+  if (magnitude < 1n << 64n) {
+    writeHead(
+      writer,
+      major,
+      magnitude <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(magnitude) : magnitude,
+    );
+    return;
+  }
+  const hex = magnitude.toString(16);
+  const bytes = Buffer.from(hex.length % 2 === 0 ? hex : `0${hex}`, "hex");
+  writeHead(writer, TAG, major === UNSIGNED ? TAG_POSITIVE_BIGNUM : TAG_NEGATIVE_BIGNUM);
+  writeHead(writer, BYTES, bytes.length);
+  writer.bytes(bytes);
+}
+
+function encodeObject(writer: ByteWriter, value: object): void {
+  if (value instanceof Uint8Array) {
+    writeHead(writer, BYTES, value.length);
+    writer.bytes(value);
+    return;
+  }
+
+  if (value instanceof Date) {
+    const time = value.getTime();
+    if (Number.isNaN(time)) throw new RangeError("Cannot encode an invalid Date as CBOR");
+    writeHead(writer, TAG, TAG_EPOCH);
+    encodeNumber(writer, time / 1000);
+    return;
+  }
+
+  if (Array.isArray(value)) {
+    writeHead(writer, ARRAY, value.length);
+    for (const item of value) {
+      // JSON.stringify writes null for array items it cannot represent.
+      encodeValue(writer, typeof item === "function" || typeof item === "symbol" ? null : item);
+    }
+    return;
+  }
+
+  const toJSON = (value as { toJSON?: unknown }).toJSON;
+  if (typeof toJSON === "function") {
+    encodeValue(writer, toJSON.call(value));
+    return;
+  }
+
+  const entries = value instanceof Map ? [...value.entries()] : serializableEntries(value);
+  writeHead(writer, MAP, entries.length);
+  for (const [key, entry] of entries) {
+    encodeValue(writer, key);
+    encodeValue(writer, entry);
+  }
+}
+
+/** Argument of a head, or `undefined` for indefinite-length items */
+function readArgument(reader: ByteReader, info: number): number | bigint | undefined {
+  if (info < 24) return info;
+  switch (info) {
+    case 24:
+      return reader.uint8();
+    case 25:
+      return reader.uint16();
+    case 26:
+      return reader.uint32();
+    case 27:
+      return toSafeNumber(reader.uint64());
+    case INDEFINITE:
+      return undefined;
+    default:
+      throw new Error(`Invalid CBOR additional information ${info}`);
+  }
+}
+
+function readLength(reader: ByteReader, info: number): number | undefined {
+  const length = readArgument(reader, info);
+  if (typeof length === "bigint") throw new RangeError("CBOR item length is too large");
+  return length;
+}
+
+/** Whether the next byte is the break stop code, consuming it if so */
+function readBreak(reader: ByteReader): boolean {
+  if (reader.peek() !== BREAK) return false;
+  reader.uint8();
+  return true;
+}
+
+function decodeValue(reader: ByteReader): unknown {
+  const byte = reader.uint8();
+  const major = byte >> 5;
+  const info = byte & 0x1f;
+
+  switch (major) {
+    case UNSIGNED:
+    case NEGATIVE: {
+      const argument = readArgument(reader, info);
+      if (argument === undefined) throw new Error("Invalid indefinite-length CBOR integer");
+      if (major === UNSIGNED) return argument;
+      return toSafeNumber(-1n - BigInt(argument));
+    }
+    case BYTES:
+    case TEXT: {
+      const bytes = decodeString(reader, major, info);
+      return major === TEXT ? bytes.toString("utf8") : bytes;
+    }
+    case ARRAY: {
+      const length = readLength(reader, info);
+      const result: unknown[] = [];
+      if (length === undefined) {
+        while (!readBreak(reader)) result.push(decodeValue(reader));
+      } else {
+        for (let index = 0; index < length; index++) result.push(decodeValue(reader));
+      }
+      return result;
+    }
+    case MAP: {
+      const length = readLength(reader, info);
+      const result: Record<string, unknown> = {};
+      for (let index = 0; length === undefined ? !readBreak(reader) : index < length; index++) {
+        const key = decodeValue(reader);
+        setEntry(result, key, decodeValue(reader));
+      }
+      return result;
+    }
+    case TAG: {
+      const tag = readArgument(reader, info);
+      if (tag === undefined) throw new Error("Invalid indefinite-length CBOR tag");
+      return decodeTag(reader, tag);
+    }
+    default:
+      // Major type 7: floats and simple values
+      return decodeSimple(reader, info);
+  }
+}
+
+function decodeString(reader: ByteReader, major: number, info: number): Buffer {
+  const length = readLength(reader, info);
+  if (length !== undefined) return reader.bytes(length);
+
+  const chunks: Buffer[] = [];
+  while (!readBreak(reader)) {
+    const byte = reader.uint8();
+    const chunkLength = byte >> 5 === major ? readLength(reader, byte & 0x1f) : undefined;
+    if (chunkLength === undefined)
+      throw new Error("Invalid chunk in indefinite-length CBOR string");
+    chunks.push(reader.bytes(chunkLength));
+  }
+  return Buffer.concat(chunks);
+}
+
+function decodeTag(reader: ByteReader, tag: number | bigint): unknown {
+  const content = decodeValue(reader);
+  switch (tag) {
+    case TAG_DATE_STRING:
+      if (typeof content !== "string") throw new Error("Invalid CBOR date/time string");
+      return new Date(content);
+    case TAG_EPOCH:
+      if (typeof content !== "number") throw new Error("Invalid CBOR epoch-based date/time");
+      return new Date(content * 1000);
+    case TAG_POSITIVE_BIGNUM:
+    case TAG_NEGATIVE_BIGNUM: {
+      if (!Buffer.isBuffer(content)) throw new Error("Invalid CBOR bignum");
+      const magnitude = content.length === 0 ? 0n : BigInt(`0x${content.toString("hex")}`);
+      return toSafeNumber(tag === TAG_POSITIVE_BIGNUM ? magnitude : -1n - magnitude);
+    }
+    default:
+      return content;
+  }
+}
+
+function decodeSimple(reader: ByteReader, info: number): unknown {
+  switch (info) {
+    case 20:
+      return false;
+    case 21:
+      return true;
+    case 22:
+      return null;
+    case 23:
+      return undefined;
+    case 25:
+      return decodeFloat16(reader.uint16());
+    case 26:
+      return reader.float32();
+    case 27:
+      return reader.float64();
+    case INDEFINITE:
+      throw new Error("Unexpected CBOR break stop code");
+    default:
+      throw new Error(`Unsupported CBOR simple value ${info}`);
+  }
+}
+
+function decodeFloat16(half: number): number {
+  const sign = half & 0x8000 ? -1 : 1;
+  const exponent = (half >> 10) & 0x1f;
+  const fraction = half & 0x03ff;
+  if (exponent === 0) return sign * fraction * 2 ** -24;
+  if (exponent === 0x1f) return fraction === 0 ? sign * Infinity : NaN;
+  return sign * (1 + fraction / 1024) * 2 ** (exponent - 15);
+}
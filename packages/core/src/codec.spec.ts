@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { cborCodec } from "./cbor.js";
+import { type Codec, CodecRegistry, jsonCodec } from "./codec.js";
+import { TechnicalError } from "./errors.js";
+import { messagePackCodec } from "./msgpack.js";
+
+describe("CodecRegistry", () => {
+  it("should resolve the built-in codecs by content type", () => {
+    // GIVEN
+    const registry = new CodecRegistry();
+
+    // WHEN / THEN
+    expect(registry.get(undefined)).toBe(jsonCodec);
+    expect(registry.get("application/json; charset=utf-8")).toBe(jsonCodec);
+    expect(registry.get("application/vnd.order.v1+json")).toBe(jsonCodec);
+    expect(registry.get("Application/MsgPack")).toBe(messagePackCodec);
+    expect(registry.get("application/cbor")).toBe(cborCodec);
+    expect(registry.get("application/x-protobuf")).toBeUndefined();
+  });
+
+  it("should prefer custom codecs over built-in ones", () => {
+    // GIVEN
+    const protobuf: Codec = {
+      contentType: "application/x-protobuf; messageType=Order",
+      encode: () => Buffer.from([8, 1]),
+      decode: () => ({ id: 1 }),
+    };
+    const json: Codec = { ...jsonCodec, decode: () => "custom" };
+    const registry = new CodecRegistry([protobuf, json]);
+
+    // WHEN / THEN
+    expect(registry.get("application/x-protobuf;messageType=Order")).toBe(protobuf);
+    expect(registry.get("application/x-protobuf; messageType=Other")).toBeUndefined();
+    expect(registry.decode(Buffer.from("{}"), undefined)._unsafeUnwrap()).toBe("custom");
+  });
+
+  it("should encode and decode with the codec of the content type", () => {
+    // GIVEN
+    const registry = new CodecRegistry();
+    const payload = { orderId: "42", amount: 9.5 };
+
+    // WHEN
+    const encoded = registry.encode(payload, "application/msgpack")._unsafeUnwrap();
+
+    // THEN
+    expect(encoded).toEqual(messagePackCodec.encode(payload));
+    expect(registry.decode(encoded, "application/msgpack")._unsafeUnwrap()).toEqual(payload);
+  });
+
+  it("should return a TechnicalError for unknown content types and codec failures", () => {
+    // GIVEN
+    const registry = new CodecRegistry();
+
+    // WHEN
+    const unknown = registry.decode(Buffer.from("x"), "text/csv");
+    const malformed = registry.decode(Buffer.from("{not json}"), undefined);
+    const unencodable = registry.encode(1n, "application/json");
+
+    // THEN
+    expect(unknown._unsafeUnwrapErr()).toBeInstanceOf(TechnicalError);
+    expect(unknown._unsafeUnwrapErr().message).toContain(
+      'No codec registered for content type "text/csv"',
+    );
+    expect(malformed._unsafeUnwrapErr().message).toBe(
+      'Failed to decode "application/json" message',
+    );
+    expect(malformed._unsafeUnwrapErr().cause).toBeInstanceOf(SyntaxError);
+    expect(unencodable._unsafeUnwrapErr().message).toBe(
+      'Failed to encode message as "application/json"',
+    );
+  });
+});
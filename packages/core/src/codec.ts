@@ -0,0 +1,153 @@
+import { err, ok, Result } from "neverthrow";
+import { cborCodec } from "./cbor.js";
+import { TechnicalError } from "./errors.js";
+import { messagePackCodec } from "./msgpack.js";
+
+/**
+ * Content type of messages whose definition does not declare one, and of
+ * incoming messages without a `contentType` property.
+ */
+export const DEFAULT_CONTENT_TYPE = "application/json";
+
+/**
+ * Serializes message payloads to and from AMQP message bodies.
+ *
+ * The client encodes a payload with the codec of its message `contentType`
+ * (see `defineMessage`) and sets the `contentType` property of the message;
+ * the worker decodes it with the codec registered for that property.
+ *
+ * @example
+ * ```typescript
+ * import protobuf from "protobufjs";
+ *
+ * const Telemetry = protobuf.loadSync("telemetry.proto").lookupType("Telemetry");
+ *
+ * const telemetryCodec: Codec = {
+ *   contentType: "application/x-protobuf; messageType=Telemetry",
+ *   encode: (value) =>
+ *     Buffer.from(Telemetry.encode(Telemetry.fromObject(value as object)).finish()),
+ *   decode: (buffer) => Telemetry.toObject(Telemetry.decode(buffer), { longs: Number }),
+ * };
+ * ```
+ */
+export type Codec = {
+  /**
+   * MIME type of the encoded payload. Matched ignoring case; a content type
+   * with parameters falls back to the codec of its media type.
+   */
+  contentType: string;
+
+  /**
+   * Encode a validated payload.
+   * @throws When the value cannot be represented in this format
+   */
+  encode(value: unknown): Buffer;
+
+  /**
+   * Decode a message body. The result is validated against the message schema.
+   * @throws When the content is malformed
+   */
+  decode(buffer: Buffer): unknown;
+};
+
+/**
+ * JSON codec, with the `application/json` content type. The default codec of
+ * messages without a content type.
+ */
+export const jsonCodec: Codec = {
+  contentType: DEFAULT_CONTENT_TYPE,
+  encode: (value) => Buffer.from(JSON.stringify(value)),
+  decode: (buffer) => JSON.parse(buffer.toString()) as unknown,
+};
+
+/**
+ * Codecs available to every client and worker.
+ */
+const builtInCodecs: readonly Codec[] = [jsonCodec, messagePackCodec, cborCodec];
+
+/**
+ * Codecs of a client or worker, by content type: the built-in JSON,
+ * MessagePack and CBOR codecs, overridden or extended by custom codecs.
+ *
+ * A content type is matched exactly first, then without its parameters, e.g.
+ * `application/json; charset=utf-8` uses the JSON codec. Structured syntax
+ * suffixes fall back to their base format, e.g. `application/vnd.order+json`
+ * uses the codec of `application/json`.
+ */
+export class CodecRegistry {
+  private readonly codecs = new Map<string, Codec>();
+
+  constructor(codecs: readonly Codec[] = []) {
+    for (const codec of [...builtInCodecs, ...codecs]) {
+      this.codecs.set(normalizeContentType(codec.contentType), codec);
+    }
+  }
+
+  /**
+   * Codec of a content type, or `undefined` when none is registered.
+   *
+   * @param contentType - The content type, {@link DEFAULT_CONTENT_TYPE} when undefined
+   */
+  get(contentType: string | undefined): Codec | undefined {
+    const normalized = normalizeContentType(contentType ?? DEFAULT_CONTENT_TYPE);
+    const mediaType = normalized.split(";")[0]!;
+    const suffix = /\+([a-z0-9.-]+)$/.exec(mediaType)?.[1];
+    return (
+      this.codecs.get(normalized) ??
+      this.codecs.get(mediaType) ??
+      (suffix === undefined ? undefined : this.codecs.get(`application/${suffix}`))
+    );
+  }
+
+  /**
+   * Encode a payload with the codec of a content type.
+   *
+   * @param value - The validated payload
+   * @param contentType - The content type, {@link DEFAULT_CONTENT_TYPE} when undefined
+   */
+  encode(value: unknown, contentType: string | undefined): Result<Buffer, TechnicalError> {
+    const type = contentType ?? DEFAULT_CONTENT_TYPE;
+    return this.require(type).andThen((codec) =>
+      Result.fromThrowable(
+        () => codec.encode(value),
+        (error) => new TechnicalError(`Failed to encode message as "${type}"`, error),
+      )(),
+    );
+  }
+
+  /**
+   * Decode a message body with the codec of its content type.
+   *
+   * @param buffer - The message body, decompressed
+   * @param contentType - The `contentType` property, {@link DEFAULT_CONTENT_TYPE} when undefined
+   */
+  decode(buffer: Buffer, contentType: string | undefined): Result<unknown, TechnicalError> {
+    const type = contentType ?? DEFAULT_CONTENT_TYPE;
+    return this.require(type).andThen((codec) =>
+      Result.fromThrowable(
+        () => codec.decode(buffer),
+        (error) => new TechnicalError(`Failed to decode "${type}" message`, error),
+      )(),
+    );
+  }
+
+  private require(contentType: string): Result<Codec, TechnicalError> {
+    const codec = this.get(contentType);
+    if (codec) return ok(codec);
+    return err(
+      new TechnicalError(
+        `No codec registered for content type "${contentType}". ` +
+          `Register one with the codecs option of the client and the worker.`,
+      ),
+    );
+  }
+}
+
+function normalizeContentType(contentType: string): string {
+  return contentType
+    .split(";")
+    .map((part) => part.trim())
+    .filter((part) => part.length > 0)
+    .join("; ")
+    .toLowerCase();
+}
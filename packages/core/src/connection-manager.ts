@@ -3,6 +3,7 @@ import amqp, {
   AmqpConnectionManagerOptions,
   ConnectionUrl,
 } from "amqp-connection-manager";
+import { connectInMemory } from "./in-memory-broker.js";
 
 /**
  * Connection manager singleton for sharing AMQP connections across clients.
@@ -57,7 +58,8 @@ export class ConnectionManagerSingleton {
     const key = this.createConnectionKey(urls, connectionOptions);
 
     if (!this.connections.has(key)) {
-      const connection = amqp.connect(urls, connectionOptions);
+      // `memory://` URLs point at an InMemoryBroker rather than a RabbitMQ node.
+      const connection = connectInMemory(urls) ?? amqp.connect(urls, connectionOptions);
       this.connections.set(key, connection);
       this.refCounts.set(key, 0);
     }
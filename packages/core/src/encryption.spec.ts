@@ -0,0 +1,131 @@
+import { defineMessage } from "@amqp-contract/contract";
+import { randomBytes } from "node:crypto";
+import { errAsync } from "neverthrow";
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+import { KeyLookupError, TechnicalError } from "./errors.js";
+import {
+  decryptMessage,
+  ENCRYPTION_KEY_ID_HEADER,
+  encryptMessage,
+  InMemoryKeyProvider,
+} from "./encryption.js";
+
+const encryptedMessage = defineMessage(z.object({ email: z.string() }), {
+  encryption: "required",
+});
+const plainMessage = defineMessage(z.object({ email: z.string() }));
+const content = Buffer.from(JSON.stringify({ email: "jane@example.com" }));
+
+describe("encryptMessage / decryptMessage", () => {
+  it("should encrypt messages requiring encryption and decrypt them by key id", async () => {
+    // GIVEN
+    const keyProvider = new InMemoryKeyProvider({
+      currentKeyId: "k1",
+      keys: { k1: randomBytes(32) },
+    });
+
+    // WHEN
+    const encrypted = (
+      await encryptMessage(content, encryptedMessage, keyProvider)
+    )._unsafeUnwrap();
+    const decrypted = await decryptMessage(
+      encrypted.content,
+      encrypted.headers,
+      encryptedMessage,
+      keyProvider,
+    );
+
+    // THEN
+    expect(encrypted.headers).toEqual({ [ENCRYPTION_KEY_ID_HEADER]: "k1" });
+    expect(encrypted.content.includes(Buffer.from("jane"))).toBe(false);
+    expect(encrypted.content).toHaveLength(content.length + 28);
+    expect(decrypted._unsafeUnwrap()).toEqual(content);
+  });
+
+  it("should keep decrypting messages encrypted with a rotated key", async () => {
+    // GIVEN
+    const keys = { k1: randomBytes(32), k2: randomBytes(32) };
+    const before = new InMemoryKeyProvider({ currentKeyId: "k1", keys });
+    const after = new InMemoryKeyProvider({ currentKeyId: "k2", keys });
+    const old = (await encryptMessage(content, encryptedMessage, before))._unsafeUnwrap();
+
+    // WHEN
+    const rotated = (await encryptMessage(content, encryptedMessage, after))._unsafeUnwrap();
+    const decrypted = await decryptMessage(old.content, old.headers, encryptedMessage, after);
+
+    // THEN
+    expect(rotated.headers[ENCRYPTION_KEY_ID_HEADER]).toBe("k2");
+    expect(decrypted._unsafeUnwrap()).toEqual(content);
+  });
+
+  it("should leave messages not requiring encryption as-is", async () => {
+    // GIVEN / WHEN
+    const encrypted = (await encryptMessage(content, plainMessage, undefined))._unsafeUnwrap();
+    const decrypted = await decryptMessage(content, {}, plainMessage, undefined);
+
+    // THEN
+    expect(encrypted).toEqual({ content, headers: {} });
+    expect(decrypted._unsafeUnwrap()).toBe(content);
+  });
+
+  it("should return a TechnicalError for messages that cannot be decrypted", async () => {
+    // GIVEN
+    const keyProvider = new InMemoryKeyProvider({
+      currentKeyId: "k1",
+      keys: { k1: randomBytes(32) },
+    });
+    const encrypted = (
+      await encryptMessage(content, encryptedMessage, keyProvider)
+    )._unsafeUnwrap();
+    const tampered = Buffer.from(encrypted.content);
+    tampered[20]! ^= 1;
+
+    // WHEN
+    const results = await Promise.all([
+      decryptMessage(tampered, encrypted.headers, encryptedMessage, keyProvider),
+      decryptMessage(
+        encrypted.content,
+        { [ENCRYPTION_KEY_ID_HEADER]: "k0" },
+        encryptedMessage,
+        keyProvider,
+      ),
+      decryptMessage(content, {}, encryptedMessage, keyProvider),
+      decryptMessage(encrypted.content, encrypted.headers, plainMessage, undefined),
+      encryptMessage(content, encryptedMessage, undefined),
+    ]);
+
+    // THEN
+    expect(results.map((result) => result._unsafeUnwrapErr().message)).toEqual([
+      'Failed to decrypt message with key "k1"',
+      'Unknown encryption key "k0"',
+      `Message must be encrypted but has no "${ENCRYPTION_KEY_ID_HEADER}" header`,
+      "Received an encrypted message but no keyProvider is configured",
+      "Message requires encryption but no keyProvider is configured",
+    ]);
+  });
+
+  it("should return a TechnicalError caused by a KeyLookupError when the key lookup fails", async () => {
+    // GIVEN
+    const keyProvider = new InMemoryKeyProvider({
+      currentKeyId: "k1",
+      keys: { k1: randomBytes(32) },
+    });
+    const encrypted = (
+      await encryptMessage(content, encryptedMessage, keyProvider)
+    )._unsafeUnwrap();
+    const unavailable = new TechnicalError("KMS throttled");
+
+    // WHEN
+    const decrypted = await decryptMessage(encrypted.content, encrypted.headers, encryptedMessage, {
+      currentKey: () => keyProvider.currentKey(),
+      getKey: () => errAsync(unavailable),
+    });
+
+    // THEN
+    const error = decrypted._unsafeUnwrapErr();
+    expect(error.message).toBe('Failed to look up encryption key "k1"');
+    expect(error.cause).toBeInstanceOf(KeyLookupError);
+    expect(error.cause).toMatchObject({ keyId: "k1", cause: unavailable });
+  });
+});
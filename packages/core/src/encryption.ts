@@ -0,0 +1,201 @@
+import type { MessageDefinition } from "@amqp-contract/contract";
+import { errAsync, okAsync, Result, ResultAsync } from "neverthrow";
+import { createCipheriv, createDecipheriv, randomBytes } from "node:crypto";
+import { KeyLookupError, TechnicalError } from "./errors.js";
+
+/**
+ * Header carrying the id of the key an encrypted message body was encrypted with.
+ */
+export const ENCRYPTION_KEY_ID_HEADER = "x-encryption-key-id";
+
+const ALGORITHM = "aes-256-gcm";
+const IV_LENGTH = 12;
+const AUTH_TAG_LENGTH = 16;
+
+/**
+ * An AES-256 key and the id it is referenced by in the
+ * {@link ENCRYPTION_KEY_ID_HEADER} header.
+ */
+export type EncryptionKey = {
+  id: string;
+  /** 32 bytes of key material */
+  key: Uint8Array;
+};
+
+/**
+ * Source of the keys encrypting messages defined with `encryption: "required"`,
+ * e.g. backed by a KMS or a secret manager.
+ *
+ * To rotate keys, make `currentKey` return the new key while `getKey` keeps
+ * resolving the previous ids until the messages encrypted with them have been
+ * consumed.
+ */
+export type KeyProvider = {
+  /** Key new messages are encrypted with. */
+  currentKey(): ResultAsync<EncryptionKey, TechnicalError>;
+  /** Key with the given id, or `undefined` when the id is unknown. */
+  getKey(id: string): ResultAsync<Uint8Array | undefined, TechnicalError>;
+};
+
+/**
+ * Options for {@link InMemoryKeyProvider}.
+ */
+export type InMemoryKeyProviderOptions = {
+  /** Id of the key new messages are encrypted with. */
+  currentKeyId: string;
+  /** Every key that may still have to decrypt messages, by id. */
+  keys: Readonly<Record<string, Uint8Array>>;
+};
+
+/**
+ * {@link KeyProvider} holding its keys in memory, e.g. loaded from
+ * environment variables at startup.
+ *
+ * @example
+ * ```typescript
+ * const keyProvider = new InMemoryKeyProvider({
+ *   currentKeyId: "2026-10",
+ *   keys: {
+ *     "2026-10": Buffer.from(process.env.PII_KEY_2026_10!, "base64"),
+ *     "2026-04": Buffer.from(process.env.PII_KEY_2026_04!, "base64"),
+ *   },
+ * });
+ * ```
+ */
+export class InMemoryKeyProvider implements KeyProvider {
+  constructor(private readonly options: InMemoryKeyProviderOptions) {}
+
+  currentKey(): ResultAsync<EncryptionKey, TechnicalError> {
+    const { currentKeyId } = this.options;
+    const key = this.options.keys[currentKeyId];
+    if (key === undefined) {
+      return errAsync(new TechnicalError(`Unknown current encryption key "${currentKeyId}"`));
+    }
+    return okAsync({ id: currentKeyId, key });
+  }
+
+  getKey(id: string): ResultAsync<Uint8Array | undefined, TechnicalError> {
+    return okAsync(Object.hasOwn(this.options.keys, id) ? this.options.keys[id] : undefined);
+  }
+}
+
+/**
+ * Encrypt a message body when its definition requires it.
+ *
+ * The body is encrypted with AES-256-GCM under the provider's current key and
+ * laid out as IV (12 bytes), ciphertext, then authentication tag (16 bytes).
+ * The key id is authenticated too and returned as the
+ * {@link ENCRYPTION_KEY_ID_HEADER} header to publish the message with.
+ *
+ * @param content - The encoded, possibly compressed, message body
+ * @param message - The definition of the published message
+ * @param keyProvider - The configured key provider, if any
+ * @returns The body to publish and the headers to add to the message
+ *
+ * @internal
+ */
+export function encryptMessage(
+  content: Buffer,
+  message: MessageDefinition,
+  keyProvider: KeyProvider | undefined,
+): ResultAsync<{ content: Buffer; headers: Record<string, string> }, TechnicalError> {
+  if (message.encryption !== "required") {
+    return okAsync({ content, headers: {} });
+  }
+  if (!keyProvider) {
+    return errAsync(
+      new TechnicalError("Message requires encryption but no keyProvider is configured"),
+    );
+  }
+
+  return keyProvider.currentKey().andThen(({ id, key }) =>
+    Result.fromThrowable(
+      () => {
+        const iv = randomBytes(IV_LENGTH);
+        const cipher = createCipheriv(ALGORITHM, key, iv, { authTagLength: AUTH_TAG_LENGTH });
+        cipher.setAAD(Buffer.from(id));
+        const ciphertext = Buffer.concat([cipher.update(content), cipher.final()]);
+        return {
+          content: Buffer.concat([iv, ciphertext, cipher.getAuthTag()]),
+          headers: { [ENCRYPTION_KEY_ID_HEADER]: id },
+        };
+      },
+      (error) => new TechnicalError(`Failed to encrypt message with key "${id}"`, error),
+    )(),
+  );
+}
+
+/**
+ * Decrypt a message body encrypted by {@link encryptMessage}.
+ *
+ * Messages without the {@link ENCRYPTION_KEY_ID_HEADER} header are returned
+ * as-is, unless their definition requires encryption. Keys are looked up by
+ * the id in the header, so messages encrypted before a key rotation still
+ * decrypt as long as the provider knows their key. Key provider failures
+ * fail with a `TechnicalError` caused by a {@link KeyLookupError}.
+ *
+ * @param content - The received message body
+ * @param headers - The received message headers
+ * @param message - The definition of the received message
+ * @param keyProvider - The configured key provider, if any
+ * @returns The decrypted body, still compressed if it was
+ *
+ * @internal
+ */
+export function decryptMessage(
+  content: Buffer,
+  headers: Record<string, unknown> | undefined,
+  message: MessageDefinition,
+  keyProvider: KeyProvider | undefined,
+): ResultAsync<Buffer, TechnicalError> {
+  const keyId = headers?.[ENCRYPTION_KEY_ID_HEADER];
+  if (keyId === undefined) {
+    return message.encryption === "required"
+      ? errAsync(
+          new TechnicalError(
+            `Message must be encrypted but has no "${ENCRYPTION_KEY_ID_HEADER}" header`,
+          ),
+        )
+      : okAsync(content);
+  }
+  if (typeof keyId !== "string") {
+    return errAsync(new TechnicalError(`Invalid "${ENCRYPTION_KEY_ID_HEADER}" header`));
+  }
+  if (!keyProvider) {
+    return errAsync(
+      new TechnicalError("Received an encrypted message but no keyProvider is configured"),
+    );
+  }
+
+  return keyProvider
+    .getKey(keyId)
+    .mapErr(
+      (error) =>
+        new TechnicalError(
+          `Failed to look up encryption key "${keyId}"`,
+          new KeyLookupError(keyId, error),
+        ),
+    )
+    .andThen((key) => {
+      if (key === undefined) {
+        return errAsync(new TechnicalError(`Unknown encryption key "${keyId}"`));
+      }
+      return Result.fromThrowable(
+        () => {
+          if (content.length < IV_LENGTH + AUTH_TAG_LENGTH) {
+            throw new RangeError("Encrypted message is too short");
+          }
+          const decipher = createDecipheriv(ALGORITHM, key, content.subarray(0, IV_LENGTH), {
+            authTagLength: AUTH_TAG_LENGTH,
+          });
+          decipher.setAAD(Buffer.from(keyId));
+          decipher.setAuthTag(content.subarray(content.length - AUTH_TAG_LENGTH));
+          return Buffer.concat([
+            decipher.update(content.subarray(IV_LENGTH, content.length - AUTH_TAG_LENGTH)),
+            decipher.final(),
+          ]);
+        },
+        (error) => new TechnicalError(`Failed to decrypt message with key "${keyId}"`, error),
+      )();
+    });
+}
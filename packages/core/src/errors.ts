@@ -46,3 +46,55 @@ export class MessageValidationError extends Error {
     }
   }
 }
+
+/**
+ * Error raised when a consumed message fails signature verification.
+ *
+ * The worker routes such messages to the dead letter exchange without retry.
+ *
+ * @param source - The name of the consumer that verified the message
+ * @param reason - Why the verification failed, e.g. `invalid signature`
+ */
+export class SignatureVerificationError extends Error {
+  constructor(
+    public readonly source: string,
+    public readonly reason: string,
+  ) {
+    super(`Signature verification failed for "${source}": ${reason}`);
+    this.name = "SignatureVerificationError";
+    // Node.js specific stack trace capture
+    const ErrorConstructor = Error as unknown as {
+      captureStackTrace?: (target: object, constructor: Function) => void;
+    };
+    if (typeof ErrorConstructor.captureStackTrace === "function") {
+      ErrorConstructor.captureStackTrace(this, this.constructor);
+    }
+  }
+}
+
+/**
+ * Error raised when a key provider or signature verifier fails to look a key
+ * up, e.g. because its KMS is unreachable or throttling.
+ *
+ * Unlike an unknown key, the failure may be temporary: the worker routes such
+ * messages through the queue's retry policy instead of rejecting them.
+ *
+ * @param keyId - The id of the key that was looked up
+ * @param cause - The error returned by the key provider or signature verifier
+ */
+export class KeyLookupError extends Error {
+  constructor(
+    public readonly keyId: string,
+    public override readonly cause?: unknown,
+  ) {
+    super(`Failed to look up key "${keyId}"`);
+    this.name = "KeyLookupError";
+    // Node.js specific stack trace capture
+    const ErrorConstructor = Error as unknown as {
+      captureStackTrace?: (target: object, constructor: Function) => void;
+    };
+    if (typeof ErrorConstructor.captureStackTrace === "function") {
+      ErrorConstructor.captureStackTrace(this, this.constructor);
+    }
+  }
+}
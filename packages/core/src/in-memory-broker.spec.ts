@@ -0,0 +1,494 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { ContractDefinition } from "@amqp-contract/contract";
+import {
+  defineExchange,
+  defineExchangeBinding,
+  defineQueue,
+  defineQueueBinding,
+} from "@amqp-contract/contract";
+import type { ConsumeMessage } from "amqplib";
+import { AmqpClient } from "./amqp-client.js";
+import { TechnicalError } from "./errors.js";
+import { InMemoryBroker } from "./in-memory-broker.js";
+
+describe("InMemoryBroker", () => {
+  let broker: InMemoryBroker;
+  const clients: AmqpClient[] = [];
+
+  const connect = async (contract: ContractDefinition) => {
+    const client = new AmqpClient(contract, { urls: [broker.url] });
+    clients.push(client);
+    (await client.waitForConnect())._unsafeUnwrap();
+    return client;
+  };
+
+  const collect = async (client: AmqpClient, queue: string, options?: { ack?: boolean }) => {
+    const messages: ConsumeMessage[] = [];
+    (
+      await client.consume(queue, (msg) => {
+        if (!msg) return;
+        messages.push(msg);
+        if (options?.ack !== false) client.ack(msg);
+      })
+    )._unsafeUnwrap();
+    return messages;
+  };
+
+  beforeEach(() => {
+    broker = new InMemoryBroker();
+  });
+
+  afterEach(async () => {
+    await Promise.all(clients.splice(0).map((client) => client.close()));
+    await broker.close();
+  });
+
+  it("should setup contract topology", async () => {
+    // GIVEN
+    const orders = defineExchange("orders");
+    const queue = defineQueue("order-processing", { type: "classic" });
+    const contract: ContractDefinition = {
+      exchanges: { orders },
+      queues: { queue },
+      bindings: { binding: defineQueueBinding(queue, orders, { routingKey: "order.#" }) },
+    };
+
+    // WHEN
+    await connect(contract);
+
+    // THEN
+    expect({
+      exchange: broker.hasExchange("orders"),
+      queue: broker.getQueueInfo("order-processing"),
+    }).toEqual({
+      exchange: true,
+      queue: { messageCount: 0, consumerCount: 0 },
+    });
+  });
+
+  it("should reject a redeclaration with different arguments", async () => {
+    // GIVEN
+    await connect({ queues: { queue: defineQueue("shared", { type: "quorum" }) } });
+
+    // WHEN
+    const client = new AmqpClient(
+      { queues: { queue: defineQueue("shared", { type: "classic" }) } },
+      { urls: [broker.url] },
+    );
+    clients.push(client);
+    const result = await client.waitForConnect();
+
+    // THEN
+    expect(result.isErr()).toBe(true);
+  });
+
+  it.each([
+    { type: "direct", routingKey: "order.created", published: "order.created", routed: true },
+    { type: "direct", routingKey: "order.created", published: "order.updated", routed: false },
+    { type: "topic", routingKey: "order.*", published: "order.created", routed: true },
+    { type: "topic", routingKey: "order.*", published: "order.created.eu", routed: false },
+    { type: "topic", routingKey: "#.eu", published: "order.created.eu", routed: true },
+  ] as const)(
+    "should route $published through a $type binding on $routingKey: $routed",
+    async ({ type, routingKey, published, routed }) => {
+      // GIVEN
+      const exchange =
+        type === "direct"
+          ? defineExchange("events", { type: "direct" })
+          : defineExchange("events", { type: "topic" });
+      const queue = defineQueue("events-queue", { type: "classic" });
+      const client = await connect({
+        exchanges: { exchange },
+        queues: { queue },
+        bindings: { binding: defineQueueBinding(queue, exchange, { routingKey }) },
+      });
+
+      // WHEN
+      (await client.publish("events", published, { id: 1 }))._unsafeUnwrap();
+
+      // THEN
+      await vi.waitFor(() => {
+        expect(broker.getQueueInfo("events-queue")?.messageCount).toBe(routed ? 1 : 0);
+      });
+    },
+  );
+
+  it("should route headers exchanges on matching headers", async () => {
+    // GIVEN
+    const exchange = defineExchange("by-region", { type: "headers" });
+    const queue = defineQueue("eu-orders", { type: "classic" });
+    const client = await connect({
+      exchanges: { exchange },
+      queues: { queue },
+      bindings: {
+        binding: defineQueueBinding(queue, exchange, {
+          arguments: { "x-match": "all", region: "eu" },
+        }),
+      },
+    });
+    const messages = await collect(client, "eu-orders");
+
+    // WHEN
+    (
+      await client.publish("by-region", "", { id: 1 }, { headers: { region: "us" } })
+    )._unsafeUnwrap();
+    (
+      await client.publish("by-region", "", { id: 2 }, { headers: { region: "eu" } })
+    )._unsafeUnwrap();
+
+    // THEN
+    await vi.waitFor(() => expect(messages).toHaveLength(1));
+    expect(JSON.parse(messages[0]!.content.toString())).toEqual({ id: 2 });
+  });
+
+  it("should hold messages published to a delayed exchange for their x-delay", async () => {
+    // GIVEN
+    const exchange = defineExchange("reminders", { type: "direct", delayed: true });
+    const queue = defineQueue("reminders-due", { type: "classic" });
+    const client = await connect({
+      exchanges: { exchange },
+      queues: { queue },
+      bindings: { binding: defineQueueBinding(queue, exchange, { routingKey: "due" }) },
+    });
+    const messages = await collect(client, "reminders-due");
+
+    // WHEN
+    (
+      await client.publish("reminders", "due", { id: 1 }, { headers: { "x-delay": 100 } })
+    )._unsafeUnwrap();
+    (await client.publish("reminders", "due", { id: 2 }))._unsafeUnwrap();
+
+    // THEN
+    await vi.waitFor(() => expect(messages).toHaveLength(1));
+    await vi.waitFor(() => expect(messages).toHaveLength(2));
+    expect(messages.map((message) => JSON.parse(message.content.toString()))).toEqual([
+      { id: 2 },
+      { id: 1 },
+    ]);
+  });
+
+  it("should route through exchange-to-exchange bindings", async () => {
+    // GIVEN
+    const source = defineExchange("source", { type: "topic" });
+    const destination = defineExchange("destination", { type: "topic" });
+    const queue = defineQueue("bridged", { type: "classic" });
+    const client = await connect({
+      exchanges: { source, destination },
+      queues: { queue },
+      bindings: {
+        bridge: defineExchangeBinding(destination, source, { routingKey: "order.#" }),
+        binding: defineQueueBinding(queue, destination, { routingKey: "order.created" }),
+      },
+    });
+    const messages = await collect(client, "bridged");
+
+    // WHEN
+    (await client.publish("source", "order.created", { id: 1 }))._unsafeUnwrap();
+
+    // THEN
+    await vi.waitFor(() => expect(messages).toHaveLength(1));
+    expect(messages[0]!.fields).toMatchObject({
+      exchange: "source",
+      routingKey: "order.created",
+      redelivered: false,
+    });
+  });
+
+  it("should fail to publish to an undeclared exchange", async () => {
+    // GIVEN
+    const client = await connect({});
+
+    // WHEN
+    const result = await client.publish("missing", "key", { id: 1 });
+
+    // THEN
+    expect(result.isErr()).toBe(true);
+  });
+
+  it("should dead-letter rejected messages with x-death headers", async () => {
+    // GIVEN
+    const dlx = defineExchange("orders-dlx", { type: "direct" });
+    const dlq = defineQueue("orders-dlq", { type: "classic" });
+    const queue = defineQueue("orders", {
+      type: "classic",
+      deadLetter: { exchange: dlx, routingKey: "failed" },
+    });
+    const client = await connect({
+      exchanges: { dlx },
+      queues: { queue, dlq },
+      bindings: { dlqBinding: defineQueueBinding(dlq, dlx, { routingKey: "failed" }) },
+    });
+    await client.consume("orders", (msg) => {
+      if (msg) client.nack(msg, false, false);
+    });
+    const deadLettered = await collect(client, "orders-dlq");
+
+    // WHEN
+    (await client.sendToQueue("orders", { id: 1 }))._unsafeUnwrap();
+
+    // THEN
+    await vi.waitFor(() => expect(deadLettered).toHaveLength(1));
+    expect(deadLettered[0]!.properties.headers).toMatchObject({
+      "x-first-death-reason": "rejected",
+      "x-first-death-queue": "orders",
+      "x-death": [expect.objectContaining({ count: 1, reason: "rejected", queue: "orders" })],
+    });
+  });
+
+  it("should dead-letter messages whose per-message TTL elapses", async () => {
+    // GIVEN
+    const dlx = defineExchange("wait-dlx", { type: "fanout" });
+    const target = defineQueue("target", { type: "classic" });
+    const wait = defineQueue("wait", { type: "classic", deadLetter: { exchange: dlx } });
+    const client = await connect({
+      exchanges: { dlx },
+      queues: { wait, target },
+      bindings: { binding: defineQueueBinding(target, dlx) },
+    });
+    const expired = await collect(client, "target");
+
+    // WHEN
+    (await client.sendToQueue("wait", { id: 1 }, { expiration: 20 }))._unsafeUnwrap();
+
+    // THEN
+    await vi.waitFor(() => expect(expired).toHaveLength(1));
+    expect({
+      expiration: expired[0]!.properties.expiration,
+      reason: expired[0]!.properties.headers?.["x-first-death-reason"],
+    }).toEqual({ expiration: undefined, reason: "expired" });
+  });
+
+  it("should redeliver requeued quorum messages with x-delivery-count", async () => {
+    // GIVEN
+    const client = await connect({ queues: { queue: defineQueue("jobs", { type: "quorum" }) } });
+    const deliveries: ConsumeMessage[] = [];
+    await client.consume("jobs", (msg) => {
+      if (!msg) return;
+      deliveries.push(msg);
+      if (deliveries.length === 1) client.nack(msg, false, true);
+      else client.ack(msg);
+    });
+
+    // WHEN
+    (await client.sendToQueue("jobs", { id: 1 }))._unsafeUnwrap();
+
+    // THEN
+    await vi.waitFor(() => expect(deliveries).toHaveLength(2));
+    expect({
+      redelivered: deliveries[1]!.fields.redelivered,
+      deliveryCount: deliveries[1]!.properties.headers?.["x-delivery-count"],
+    }).toEqual({ redelivered: true, deliveryCount: 1 });
+  });
+
+  it("should not exceed the consumer prefetch", async () => {
+    // GIVEN
+    const client = await connect({ queues: { queue: defineQueue("work", { type: "classic" }) } });
+    const messages: ConsumeMessage[] = [];
+    await client.consume(
+      "work",
+      (msg) => {
+        if (msg) messages.push(msg);
+      },
+      { prefetch: 2 },
+    );
+
+    // WHEN
+    for (const id of [1, 2, 3]) {
+      (await client.sendToQueue("work", { id }))._unsafeUnwrap();
+    }
+
+    // THEN
+    await vi.waitFor(() => expect(messages).toHaveLength(2));
+    expect(broker.getQueueInfo("work")?.messageCount).toBe(1);
+
+    // AND acking frees a slot for the remaining message
+    client.ack(messages[0]!);
+    await vi.waitFor(() => expect(messages).toHaveLength(3));
+  });
+
+  it("should declare stream queues with their retention arguments", async () => {
+    // GIVEN
+    const queue = defineQueue("events", { type: "stream", maxAge: "7D", maxLengthBytes: 1_000 });
+
+    // WHEN
+    await connect({ queues: { queue } });
+
+    // THEN
+    const client = new AmqpClient(
+      { queues: { queue: defineQueue("events", { type: "stream", maxAge: "1D" }) } },
+      { urls: [broker.url] },
+    );
+    clients.push(client);
+    expect((await client.waitForConnect()).isErr()).toBe(true);
+  });
+
+  it.each([
+    { streamOffset: "first", expected: [1, 2, 3] },
+    { streamOffset: "last", expected: [2, 3] },
+    { streamOffset: "next", expected: [3] },
+    { streamOffset: 1, expected: [2, 3] },
+  ] as const)(
+    "should read a stream from offset $streamOffset without removing entries",
+    async ({ streamOffset, expected }) => {
+      // GIVEN
+      const client = await connect({
+        queues: { queue: defineQueue("log", { type: "stream" }) },
+      });
+      for (const id of [1, 2]) {
+        (await client.sendToQueue("log", { id }))._unsafeUnwrap();
+      }
+      await vi.waitFor(() => expect(broker.getQueueInfo("log")?.messageCount).toBe(2));
+      const messages: ConsumeMessage[] = [];
+      (
+        await client.consume(
+          "log",
+          (msg) => {
+            if (!msg) return;
+            messages.push(msg);
+            client.ack(msg);
+          },
+          { prefetch: 10, arguments: { "x-stream-offset": streamOffset } },
+        )
+      )._unsafeUnwrap();
+
+      // WHEN
+      (await client.sendToQueue("log", { id: 3 }))._unsafeUnwrap();
+
+      // THEN
+      await vi.waitFor(() => expect(messages).toHaveLength(expected.length));
+      expect({
+        ids: messages.map((msg) => JSON.parse(msg.content.toString()).id),
+        lastOffset: messages.at(-1)!.properties.headers?.["x-stream-offset"],
+        retained: broker.getQueueInfo("log")?.messageCount,
+      }).toEqual({ ids: expected, lastOffset: 2, retained: 3 });
+    },
+  );
+
+  it("should refuse stream consumers without a prefetch limit", async () => {
+    // GIVEN
+    const client = await connect({ queues: { queue: defineQueue("log", { type: "stream" }) } });
+
+    // WHEN
+    const result = await client.consume("log", () => {});
+
+    // THEN
+    expect(result.isErr()).toBe(true);
+  });
+
+  it("should deliver direct reply-to responses to the requesting channel", async () => {
+    // GIVEN
+    const client = await connect({ queues: { queue: defineQueue("rpc", { type: "classic" }) } });
+    const replies: ConsumeMessage[] = [];
+    await client.consume(
+      "amq.rabbitmq.reply-to",
+      (msg) => {
+        if (msg) replies.push(msg);
+      },
+      {
+        noAck: true,
+      },
+    );
+    await client.consume("rpc", (msg) => {
+      if (!msg) return;
+      client.ack(msg);
+      void client.publish(
+        "",
+        msg.properties.replyTo,
+        { pong: true },
+        {
+          correlationId: msg.properties.correlationId,
+        },
+      );
+    });
+
+    // WHEN
+    (
+      await client.sendToQueue(
+        "rpc",
+        { ping: true },
+        {
+          replyTo: "amq.rabbitmq.reply-to",
+          correlationId: "call-1",
+        },
+      )
+    )._unsafeUnwrap();
+
+    // THEN
+    await vi.waitFor(() => expect(replies).toHaveLength(1));
+    expect({
+      correlationId: replies[0]!.properties.correlationId,
+      content: JSON.parse(replies[0]!.content.toString()),
+    }).toEqual({ correlationId: "call-1", content: { pong: true } });
+  });
+
+  describe("topology modes", () => {
+    const orders = defineExchange("orders");
+    const queue = defineQueue("order-processing", { type: "classic" });
+    const contract: ContractDefinition = {
+      exchanges: { orders },
+      queues: { queue },
+      bindings: { binding: defineQueueBinding(queue, orders, { routingKey: "order.#" }) },
+    };
+
+    it("should list the missing resources in verify mode", async () => {
+      // GIVEN
+      await connect({ exchanges: { orders } });
+
+      // WHEN
+      const client = new AmqpClient(
+        { ...contract, exchanges: { orders, audit: defineExchange("audit") } },
+        { urls: [broker.url], topology: "verify" },
+      );
+      clients.push(client);
+      const result = await client.waitForConnect();
+
+      // THEN
+      expect(result._unsafeUnwrapErr()).toEqual(
+        new TechnicalError(
+          'AMQP topology verification failed, missing resources: exchange "audit", queue "order-processing"',
+        ),
+      );
+      expect(broker.getQueueInfo("order-processing")).toBeUndefined();
+    });
+
+    it("should connect in verify mode when the topology exists", async () => {
+      // GIVEN
+      await connect(contract);
+
+      // WHEN
+      const client = new AmqpClient(contract, { urls: [broker.url], topology: "verify" });
+      clients.push(client);
+      const result = await client.waitForConnect();
+
+      // THEN
+      expect(result.isOk()).toBe(true);
+    });
+
+    it("should not declare anything in skip mode", async () => {
+      // WHEN
+      const client = new AmqpClient(contract, { urls: [broker.url], topology: "skip" });
+      clients.push(client);
+      const result = await client.waitForConnect();
+
+      // THEN
+      expect(result.isOk()).toBe(true);
+      expect({
+        exchange: broker.hasExchange("orders"),
+        queue: broker.getQueueInfo("order-processing"),
+      }).toEqual({ exchange: false, queue: undefined });
+    });
+  });
+
+  it("should fail to connect once the broker is closed", async () => {
+    // GIVEN
+    await broker.close();
+
+    // WHEN
+    const client = new AmqpClient({}, { urls: [broker.url] });
+    clients.push(client);
+    const result = await client.waitForConnect();
+
+    // THEN
+    expect(result.isErr()).toBe(true);
+  });
+});
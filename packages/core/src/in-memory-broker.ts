@@ -0,0 +1,1545 @@
+import type {
+  AmqpConnectionManager,
+  ConnectionUrl,
+  CreateChannelOpts,
+} from "amqp-connection-manager";
+import type {
+  Channel,
+  ConsumeMessage,
+  MessageProperties,
+  MessagePropertyHeaders,
+  Options,
+  Replies,
+  XDeath,
+} from "amqplib";
+import { randomUUID } from "node:crypto";
+import { EventEmitter } from "node:events";
+import type { BrokerState } from "./topology.js";
+
+/**
+ * URL scheme recognised by the connection manager as "route this connection
+ * to an {@link InMemoryBroker} instead of a real RabbitMQ node".
+ */
+const IN_MEMORY_SCHEME = "memory://";
+
+/**
+ * Pseudo-queue used by RabbitMQ direct reply-to. Consuming from it (no-ack)
+ * registers a per-channel reply consumer; publishing with it as `replyTo`
+ * rewrites the property to a channel-specific routing key.
+ */
+const DIRECT_REPLY_TO = "amq.rabbitmq.reply-to";
+
+/**
+ * Registry of live brokers keyed by URL. Module-level so that the connection
+ * manager can resolve `memory://` URLs without the broker being threaded
+ * through every `create(...)` call.
+ */
+const brokers: Map<string, InMemoryBroker> = new Map();
+
+type ExchangeType = "direct" | "topic" | "fanout" | "headers";
+
+type BindingState = {
+  destinationType: "queue" | "exchange";
+  destination: string;
+  routingKey: string;
+  arguments: Record<string, unknown>;
+};
+
+type ExchangeState = {
+  name: string;
+  /** Routing type; the `x-delayed-type` argument for delayed exchanges. */
+  type: ExchangeType;
+  /** Whether the exchange was declared as an `x-delayed-message` exchange. */
+  delayed: boolean;
+  durable: boolean;
+  autoDelete: boolean;
+  internal: boolean;
+  arguments: Record<string, unknown>;
+  bindings: BindingState[];
+};
+
+type StoredMessage = {
+  content: Buffer;
+  exchange: string;
+  routingKey: string;
+  properties: MessageProperties;
+  redelivered: boolean;
+  /** Number of times the message was returned to the queue (quorum `x-delivery-count`). */
+  deliveryCount: number;
+  /** Absolute expiry time in ms, if the message or its queue has a TTL. */
+  expiresAt: number | undefined;
+  /** Monotonic enqueue order, used to keep requeued messages at their original position. */
+  sequence: number;
+  /** Publish time in ms, used to resolve timestamp `x-stream-offset` specifications. */
+  publishedAt: number;
+};
+
+type ConsumerState = {
+  consumerTag: string;
+  queue: string;
+  channel: InMemoryChannelWrapper;
+  onMessage: (msg: ConsumeMessage | null) => void;
+  noAck: boolean;
+  /** `0` means unlimited, mirroring `basic.qos` semantics. */
+  prefetch: number;
+  unacked: number;
+  /** Offset of the next stream entry to deliver; only set for stream queue consumers. */
+  streamOffset: number | undefined;
+  arguments: Record<string, unknown>;
+};
+
+type QueueState = {
+  name: string;
+  durable: boolean;
+  exclusive: boolean;
+  autoDelete: boolean;
+  arguments: Record<string, unknown>;
+  owner: InMemoryConnection | undefined;
+  messages: StoredMessage[];
+  consumers: ConsumerState[];
+  nextConsumerIndex: number;
+  dispatchScheduled: boolean;
+  expiryTimer: NodeJS.Timeout | undefined;
+};
+
+type UnackedDelivery = {
+  message: StoredMessage;
+  queue: string;
+  consumer: ConsumerState;
+};
+
+/**
+ * Snapshot of a queue's state, returned by {@link InMemoryBroker.getQueueInfo}.
+ */
+export type InMemoryQueueInfo = {
+  /** Number of messages ready for delivery (excludes unacknowledged deliveries). */
+  messageCount: number;
+  /** Number of active consumers. */
+  consumerCount: number;
+};
+
+/**
+ * Build an error shaped like the ones amqplib raises for channel-level
+ * protocol failures, so callers that inspect `error.code` behave the same
+ * against the in-memory broker as against RabbitMQ.
+ */
+function channelError(code: number, reason: string, text: string): Error {
+  return Object.assign(new Error(`${code} (${reason}) with message "${reason} - ${text}"`), {
+    code,
+  });
+}
+
+function isStream(queue: QueueState): boolean {
+  return queue.arguments["x-queue-type"] === "stream";
+}
+
+/**
+ * Resolve a consumer's `x-stream-offset` argument to the index of the first
+ * log entry it should receive. Like RabbitMQ, consumers start at `next` when
+ * no offset is given, and `last` points at the most recent entry.
+ */
+function resolveStreamOffset(log: StoredMessage[], spec: unknown): number {
+  if (spec === undefined || spec === "next") return log.length;
+  if (spec === "first") return 0;
+  if (spec === "last") return Math.max(0, log.length - 1);
+  if (typeof spec === "number") return Math.min(Math.max(0, spec), log.length);
+  if (typeof spec === "object" && spec !== null && "!" in spec && "value" in spec) {
+    const { "!": type, value } = spec as { "!": string; value: unknown };
+    if (typeof value === "number") {
+      if (type !== "timestamp") return resolveStreamOffset(log, value);
+      // AMQP timestamps are in seconds.
+      const index = log.findIndex((message) => message.publishedAt >= value * 1000);
+      return index === -1 ? log.length : index;
+    }
+  }
+  throw channelError(406, "PRECONDITION_FAILED", `invalid x-stream-offset: ${String(spec)}`);
+}
+
+function valuesEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Match a routing key against a topic binding pattern (`*` = exactly one
+ * word, `#` = zero or more words).
+ */
+function matchesTopic(pattern: string, routingKey: string): boolean {
+  const patternWords = pattern.split(".");
+  const keyWords = routingKey === "" ? [] : routingKey.split(".");
+
+  const match = (p: number, k: number): boolean => {
+    if (p === patternWords.length) return k === keyWords.length;
+    const word = patternWords[p];
+    if (word === "#") {
+      for (let i = k; i <= keyWords.length; i++) {
+        if (match(p + 1, i)) return true;
+      }
+      return false;
+    }
+    if (k === keyWords.length) return false;
+    return (word === "*" || word === keyWords[k]) && match(p + 1, k + 1);
+  };
+
+  return match(0, 0);
+}
+
+/**
+ * Match message headers against a headers-exchange binding. Like RabbitMQ,
+ * binding arguments starting with `x-` are ignored unless `x-match` is one
+ * of the `*-with-x` variants.
+ */
+function matchesHeaders(
+  bindingArguments: Record<string, unknown>,
+  headers: MessagePropertyHeaders | undefined,
+): boolean {
+  const xMatch = bindingArguments["x-match"] ?? "all";
+  const includeX = xMatch === "all-with-x" || xMatch === "any-with-x";
+  const expected = Object.entries(bindingArguments).filter(([key]) =>
+    includeX ? key !== "x-match" : !key.startsWith("x-"),
+  );
+  const actual = headers ?? {};
+  const matchesEntry = ([key, value]: [string, unknown]) =>
+    Object.hasOwn(actual, key) && valuesEqual(actual[key], value);
+
+  if (xMatch === "any" || xMatch === "any-with-x") {
+    return expected.some(matchesEntry);
+  }
+  return expected.every(matchesEntry);
+}
+
+/**
+ * Fold amqplib's `assertQueue` convenience options into the `x-` arguments
+ * the broker actually receives.
+ */
+function queueArgumentsFrom(options: Options.AssertQueue | undefined): Record<string, unknown> {
+  const args: Record<string, unknown> = { ...options?.arguments };
+  if (options?.messageTtl !== undefined) args["x-message-ttl"] = options.messageTtl;
+  if (options?.expires !== undefined) args["x-expires"] = options.expires;
+  if (options?.deadLetterExchange !== undefined) {
+    args["x-dead-letter-exchange"] = options.deadLetterExchange;
+  }
+  if (options?.deadLetterRoutingKey !== undefined) {
+    args["x-dead-letter-routing-key"] = options.deadLetterRoutingKey;
+  }
+  if (options?.maxLength !== undefined) args["x-max-length"] = options.maxLength;
+  if (options?.maxPriority !== undefined) args["x-max-priority"] = options.maxPriority;
+  if (args["x-queue-type"] === undefined) args["x-queue-type"] = "classic";
+  return args;
+}
+
+/**
+ * Translate amqplib publish options into the message properties a consumer
+ * would observe. `CC` stays in the headers and `BCC` is stripped, as amqplib
+ * and RabbitMQ do.
+ */
+function propertiesFrom(options: Options.Publish | undefined): MessageProperties {
+  const headers: MessagePropertyHeaders | undefined =
+    options?.headers !== undefined || options?.CC !== undefined
+      ? { ...options?.headers, ...(options?.CC !== undefined && { CC: options.CC }) }
+      : undefined;
+  const deliveryMode =
+    options?.persistent === true || options?.deliveryMode === true || options?.deliveryMode === 2
+      ? 2
+      : options?.deliveryMode === undefined && options?.persistent === undefined
+        ? undefined
+        : 1;
+
+  return {
+    contentType: options?.contentType,
+    contentEncoding: options?.contentEncoding,
+    headers,
+    deliveryMode,
+    priority: options?.priority,
+    correlationId: options?.correlationId,
+    replyTo: options?.replyTo,
+    expiration: options?.expiration === undefined ? undefined : String(options.expiration),
+    messageId: options?.messageId,
+    timestamp: options?.timestamp,
+    type: options?.type,
+    userId: options?.userId,
+    appId: options?.appId,
+    clusterId: undefined,
+  };
+}
+
+/**
+ * Invoke a setup function, supporting both the promise and the callback
+ * signatures accepted by amqp-connection-manager.
+ */
+function runSetup(setup: NonNullable<CreateChannelOpts["setup"]>, channel: Channel): Promise<void> {
+  if (setup.length >= 2) {
+    return new Promise<void>((resolve, reject) => {
+      (setup as (channel: Channel, callback: (error?: Error) => void) => void)(
+        channel,
+        (error?: Error) => (error ? reject(error) : resolve()),
+      );
+    });
+  }
+  return Promise.resolve((setup as (channel: Channel) => unknown)(channel)).then(() => undefined);
+}
+
+/**
+ * In-process AMQP 0-9-1 broker for tests and local development.
+ *
+ * Every `AmqpClient` created with the broker's {@link InMemoryBroker.url}
+ * talks to this broker instead of RabbitMQ, so `TypedAmqpClient` and
+ * `TypedAmqpWorker` run unchanged — topology setup, publishing with
+ * confirms, consuming, ack/nack, dead-lettering, TTL-backoff retries and
+ * RPC via direct reply-to all behave as they do against a real node.
+ *
+ * Supported semantics:
+ * - Exchanges of type `direct`, `topic`, `fanout` and `headers`, the default
+ *   exchange, and exchange-to-exchange bindings
+ * - `x-delayed-message` exchanges of the delayed message plugin, holding
+ *   messages for their `x-delay` header
+ * - Queue arguments `x-message-ttl`, `x-dead-letter-exchange`,
+ *   `x-dead-letter-routing-key`, `x-max-length` and `x-max-priority`
+ * - Per-message `expiration`, dead-lettering with `x-death` /
+ *   `x-first-death-*` headers, and `x-delivery-count` on quorum queues
+ * - Per-consumer prefetch, round-robin dispatch and redelivery of unacked
+ *   messages when a channel closes
+ *
+ * Unlike RabbitMQ, expired messages are dead-lettered as soon as their TTL
+ * elapses rather than only when they reach the head of the queue. Nothing is
+ * persisted: all state is lost when the broker is closed.
+ *
+ * @example
+ * ```typescript
+ * const broker = new InMemoryBroker();
+ * const client = await TypedAmqpClient.create({ contract, urls: [broker.url] });
+ * const worker = await TypedAmqpWorker.create({ contract, handlers, urls: [broker.url] });
+ *
+ * // ... exercise the code under test ...
+ *
+ * await worker.close();
+ * await client.close();
+ * await broker.close();
+ * ```
+ */
+export class InMemoryBroker {
+  /** Connection URL to pass to `urls` when creating clients and workers. */
+  readonly url: string;
+
+  private readonly exchanges: Map<string, ExchangeState> = new Map();
+  private readonly queues: Map<string, QueueState> = new Map();
+  private readonly connections: Set<InMemoryConnection> = new Set();
+  private readonly replyChannels: Map<string, InMemoryChannelWrapper> = new Map();
+  /** Messages held by delayed exchanges. */
+  private readonly delayTimers: Set<NodeJS.Timeout> = new Set();
+  private sequence = 0;
+  private closed = false;
+
+  /**
+   * Create a broker and register it under a unique `memory://` URL.
+   *
+   * @param name - Optional URL suffix, handy for readable logs. Defaults to a random UUID.
+   * @throws {Error} If a live broker is already registered under the same name
+   */
+  constructor(name: string = randomUUID()) {
+    this.url = `${IN_MEMORY_SCHEME}${name}`;
+    if (brokers.has(this.url)) {
+      throw new Error(`An in-memory broker is already registered at ${this.url}`);
+    }
+    brokers.set(this.url, this);
+
+    for (const type of ["direct", "topic", "fanout", "headers"] as const) {
+      this.declareExchange(`amq.${type}`, type, { durable: true });
+    }
+  }
+
+  /**
+   * Inspect a queue.
+   *
+   * @returns The queue's message and consumer counts, or `undefined` if it does not exist
+   */
+  getQueueInfo(queue: string): InMemoryQueueInfo | undefined {
+    const state = this.queues.get(queue);
+    if (!state) return undefined;
+    return { messageCount: state.messages.length, consumerCount: state.consumers.length };
+  }
+
+  /**
+   * Check whether an exchange has been declared.
+   */
+  hasExchange(exchange: string): boolean {
+    return exchange === "" || this.exchanges.has(exchange);
+  }
+
+  /**
+   * Snapshot of the broker topology in the format of the RabbitMQ management
+   * API definitions, to compare with a contract using `planTopology`.
+   * Exclusive queues are left out, as in definitions exports.
+   */
+  getBrokerState(): BrokerState {
+    const exchanges = Array.from(this.exchanges.values());
+    return {
+      exchanges: exchanges.map((exchange) => ({
+        name: exchange.name,
+        type: exchange.delayed ? "x-delayed-message" : exchange.type,
+        durable: exchange.durable,
+        auto_delete: exchange.autoDelete,
+        internal: exchange.internal,
+        arguments: { ...exchange.arguments },
+      })),
+      queues: Array.from(this.queues.values())
+        .filter((queue) => !queue.exclusive)
+        .map((queue) => ({
+          name: queue.name,
+          durable: queue.durable,
+          auto_delete: queue.autoDelete,
+          arguments: { ...queue.arguments },
+        })),
+      bindings: exchanges.flatMap((exchange) =>
+        exchange.bindings.map((binding) => ({
+          source: exchange.name,
+          destination: binding.destination,
+          destination_type: binding.destinationType,
+          routing_key: binding.routingKey,
+          arguments: { ...binding.arguments },
+        })),
+      ),
+    };
+  }
+
+  /**
+   * Close every connection to the broker, drop all state and unregister its
+   * URL. Clients still holding a connection see their channel closed.
+   */
+  async close(): Promise<void> {
+    if (this.closed) return;
+    this.closed = true;
+    brokers.delete(this.url);
+    await Promise.all(Array.from(this.connections, (connection) => connection.close()));
+    for (const queue of this.queues.values()) {
+      clearTimeout(queue.expiryTimer);
+    }
+    for (const timer of this.delayTimers) {
+      clearTimeout(timer);
+    }
+    this.delayTimers.clear();
+    this.queues.clear();
+    this.exchanges.clear();
+  }
+
+  /**
+   * Track a connection opened against this broker so {@link close} can close it.
+   *
+   * @internal
+   */
+  _register(connection: InMemoryConnection): void {
+    this.connections.add(connection);
+  }
+
+  /** @internal */
+  _isClosed(): boolean {
+    return this.closed;
+  }
+
+  /** @internal */
+  _disconnect(connection: InMemoryConnection): void {
+    this.connections.delete(connection);
+    for (const queue of Array.from(this.queues.values())) {
+      if (queue.exclusive && queue.owner === connection) this.deleteQueue(queue.name);
+    }
+  }
+
+  /** @internal */
+  _registerReplyChannel(token: string, channel: InMemoryChannelWrapper): void {
+    this.replyChannels.set(token, channel);
+  }
+
+  /** @internal */
+  _unregisterReplyChannel(token: string): void {
+    this.replyChannels.delete(token);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Topology
+  // ---------------------------------------------------------------------------
+
+  /** @internal */
+  declareExchange(
+    name: string,
+    type: string,
+    options: Options.AssertExchange | undefined,
+  ): Replies.AssertExchange {
+    if (name === "") return { exchange: name };
+    const delayed = type === "x-delayed-message";
+    const routingType = delayed ? options?.arguments?.["x-delayed-type"] : type;
+    if (delayed && typeof routingType !== "string") {
+      throw channelError(
+        406,
+        "PRECONDITION_FAILED",
+        "Invalid argument, 'x-delayed-type' must be an existing exchange type",
+      );
+    }
+    if (!["direct", "topic", "fanout", "headers"].includes(routingType as string)) {
+      throw channelError(503, "COMMAND_INVALID", `unknown exchange type '${String(routingType)}'`);
+    }
+    const durable = options?.durable ?? true;
+    const autoDelete = options?.autoDelete ?? false;
+    const internal = options?.internal ?? false;
+    const existing = this.exchanges.get(name);
+    if (existing) {
+      const mismatch =
+        existing.type !== routingType || existing.delayed !== delayed
+          ? "type"
+          : existing.durable !== durable
+            ? "durable"
+            : existing.autoDelete !== autoDelete
+              ? "auto_delete"
+              : existing.internal !== internal
+                ? "internal"
+                : undefined;
+      if (mismatch) {
+        throw channelError(
+          406,
+          "PRECONDITION_FAILED",
+          `inequivalent arg '${mismatch}' for exchange '${name}'`,
+        );
+      }
+      return { exchange: name };
+    }
+    this.exchanges.set(name, {
+      name,
+      type: routingType as ExchangeType,
+      delayed,
+      durable,
+      autoDelete,
+      internal,
+      arguments: { ...options?.arguments },
+      bindings: [],
+    });
+    return { exchange: name };
+  }
+
+  /** @internal */
+  checkExchange(name: string): Replies.Empty {
+    this.requireExchange(name);
+    return {};
+  }
+
+  /** @internal */
+  deleteExchange(name: string): Replies.Empty {
+    this.exchanges.delete(name);
+    for (const exchange of this.exchanges.values()) {
+      exchange.bindings = exchange.bindings.filter(
+        (binding) => !(binding.destinationType === "exchange" && binding.destination === name),
+      );
+    }
+    return {};
+  }
+
+  /** @internal */
+  declareQueue(
+    name: string | undefined,
+    options: Options.AssertQueue | undefined,
+    owner: InMemoryConnection,
+  ): Replies.AssertQueue {
+    const queueName = name === undefined || name === "" ? `amq.gen-${randomUUID()}` : name;
+    const args = queueArgumentsFrom(options);
+    const durable = options?.durable ?? true;
+    const exclusive = options?.exclusive ?? false;
+    const autoDelete = options?.autoDelete ?? false;
+    const existing = this.queues.get(queueName);
+
+    if (existing) {
+      if (existing.exclusive && existing.owner !== owner) {
+        throw channelError(
+          405,
+          "RESOURCE_LOCKED",
+          `cannot obtain exclusive access to locked queue '${queueName}'`,
+        );
+      }
+      const mismatch =
+        existing.durable !== durable
+          ? "durable"
+          : existing.exclusive !== exclusive
+            ? "exclusive"
+            : existing.autoDelete !== autoDelete
+              ? "auto_delete"
+              : [...new Set([...Object.keys(existing.arguments), ...Object.keys(args)])].find(
+                  (key) => !valuesEqual(existing.arguments[key], args[key]),
+                );
+      if (mismatch) {
+        throw channelError(
+          406,
+          "PRECONDITION_FAILED",
+          `inequivalent arg '${mismatch}' for queue '${queueName}'`,
+        );
+      }
+      return {
+        queue: queueName,
+        messageCount: existing.messages.length,
+        consumerCount: existing.consumers.length,
+      };
+    }
+
+    if (args["x-queue-type"] === "stream" && (!durable || exclusive || autoDelete)) {
+      throw channelError(
+        406,
+        "PRECONDITION_FAILED",
+        `invalid property '${!durable ? "non-durable" : exclusive ? "exclusive" : "auto-delete"}' for queue '${queueName}'`,
+      );
+    }
+
+    this.queues.set(queueName, {
+      name: queueName,
+      durable,
+      exclusive,
+      autoDelete,
+      arguments: args,
+      owner: exclusive ? owner : undefined,
+      messages: [],
+      consumers: [],
+      nextConsumerIndex: 0,
+      dispatchScheduled: false,
+      expiryTimer: undefined,
+    });
+    return { queue: queueName, messageCount: 0, consumerCount: 0 };
+  }
+
+  /** @internal */
+  checkQueue(name: string): Replies.AssertQueue {
+    const queue = this.requireQueue(name);
+    return {
+      queue: name,
+      messageCount: queue.messages.length,
+      consumerCount: queue.consumers.length,
+    };
+  }
+
+  /** @internal */
+  deleteQueue(name: string): Replies.DeleteQueue {
+    const queue = this.queues.get(name);
+    if (!queue) return { messageCount: 0 };
+    this.queues.delete(name);
+    clearTimeout(queue.expiryTimer);
+    for (const consumer of queue.consumers) {
+      consumer.channel._forgetConsumer(consumer.consumerTag);
+    }
+    for (const exchange of this.exchanges.values()) {
+      exchange.bindings = exchange.bindings.filter(
+        (binding) => !(binding.destinationType === "queue" && binding.destination === name),
+      );
+    }
+    return { messageCount: queue.messages.length };
+  }
+
+  /** @internal */
+  purgeQueue(name: string): Replies.PurgeQueue {
+    const queue = this.requireQueue(name);
+    const messageCount = queue.messages.length;
+    queue.messages = [];
+    return { messageCount };
+  }
+
+  /** @internal */
+  bind(
+    destinationType: "queue" | "exchange",
+    destination: string,
+    source: string,
+    routingKey: string,
+    args: Record<string, unknown> | undefined,
+  ): Replies.Empty {
+    if (source === "") {
+      throw channelError(403, "ACCESS_REFUSED", "operation not permitted on the default exchange");
+    }
+    const exchange = this.requireExchange(source);
+    if (destinationType === "queue") this.requireQueue(destination);
+    else this.requireExchange(destination);
+
+    const binding: BindingState = {
+      destinationType,
+      destination,
+      routingKey,
+      arguments: { ...args },
+    };
+    if (!exchange.bindings.some((existing) => valuesEqual(existing, binding))) {
+      exchange.bindings.push(binding);
+    }
+    return {};
+  }
+
+  /** @internal */
+  unbind(
+    destinationType: "queue" | "exchange",
+    destination: string,
+    source: string,
+    routingKey: string,
+    args: Record<string, unknown> | undefined,
+  ): Replies.Empty {
+    const exchange = this.requireExchange(source);
+    const target: BindingState = {
+      destinationType,
+      destination,
+      routingKey,
+      arguments: { ...args },
+    };
+    exchange.bindings = exchange.bindings.filter((binding) => !valuesEqual(binding, target));
+    return {};
+  }
+
+  // ---------------------------------------------------------------------------
+  // Publishing and routing
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Route a message to every matching queue.
+   *
+   * @internal
+   */
+  publish(
+    exchange: string,
+    routingKey: string,
+    content: Buffer,
+    properties: MessageProperties,
+    extraRoutingKeys: string[] = [],
+  ): void {
+    if (exchange === "" && routingKey.startsWith(`${DIRECT_REPLY_TO}.`)) {
+      // Replies to a channel that has gone away are silently dropped, as on RabbitMQ.
+      const token = routingKey.slice(DIRECT_REPLY_TO.length + 1);
+      this.replyChannels.get(token)?._deliverReply(content, routingKey, properties);
+      return;
+    }
+
+    const delay: unknown = properties.headers?.["x-delay"];
+    if (this.exchanges.get(exchange)?.delayed && typeof delay === "number" && delay > 0) {
+      // Route once the delay elapses; the header is kept, as with the plugin.
+      const timer = setTimeout(() => {
+        this.delayTimers.delete(timer);
+        this.deliver(exchange, routingKey, content, properties, extraRoutingKeys);
+      }, delay);
+      timer.unref();
+      this.delayTimers.add(timer);
+      return;
+    }
+    this.deliver(exchange, routingKey, content, properties, extraRoutingKeys);
+  }
+
+  /**
+   * Enqueue a message in every queue its exchange routes it to.
+   */
+  private deliver(
+    exchange: string,
+    routingKey: string,
+    content: Buffer,
+    properties: MessageProperties,
+    extraRoutingKeys: string[],
+  ): void {
+    const queueNames = new Set<string>();
+    for (const key of [routingKey, ...extraRoutingKeys]) {
+      this.route(exchange, key, properties.headers, queueNames, new Set());
+    }
+
+    const ttl = this.messageTtl(properties);
+    for (const queueName of queueNames) {
+      const queue = this.queues.get(queueName);
+      if (!queue) continue;
+      const queueTtl = queue.arguments["x-message-ttl"];
+      const effectiveTtl = typeof queueTtl === "number" ? Math.min(queueTtl, ttl ?? Infinity) : ttl;
+      this.enqueue(queue, {
+        content: Buffer.from(content),
+        exchange,
+        routingKey,
+        properties: {
+          ...properties,
+          headers: properties.headers === undefined ? undefined : { ...properties.headers },
+        },
+        redelivered: false,
+        deliveryCount: 0,
+        expiresAt: effectiveTtl === undefined ? undefined : Date.now() + effectiveTtl,
+        sequence: this.sequence++,
+        publishedAt: Date.now(),
+      });
+    }
+  }
+
+  /** @internal */
+  requireExchange(name: string): ExchangeState {
+    const exchange = this.exchanges.get(name);
+    if (!exchange) {
+      throw channelError(404, "NOT_FOUND", `no exchange '${name}' in vhost '/'`);
+    }
+    return exchange;
+  }
+
+  /** @internal */
+  requireQueue(name: string): QueueState {
+    const queue = this.queues.get(name);
+    if (!queue) {
+      throw channelError(404, "NOT_FOUND", `no queue '${name}' in vhost '/'`);
+    }
+    return queue;
+  }
+
+  private messageTtl(properties: MessageProperties): number | undefined {
+    if (properties.expiration === undefined) return undefined;
+    const ttl = Number(properties.expiration);
+    if (!Number.isInteger(ttl) || ttl < 0) {
+      throw channelError(
+        406,
+        "PRECONDITION_FAILED",
+        `invalid expiration '${String(properties.expiration)}'`,
+      );
+    }
+    return ttl;
+  }
+
+  private route(
+    exchangeName: string,
+    routingKey: string,
+    headers: MessagePropertyHeaders | undefined,
+    queueNames: Set<string>,
+    visited: Set<string>,
+  ): void {
+    if (exchangeName === "") {
+      if (this.queues.has(routingKey)) queueNames.add(routingKey);
+      return;
+    }
+    // Exchange-to-exchange bindings may form cycles; each exchange routes once.
+    if (visited.has(exchangeName)) return;
+    visited.add(exchangeName);
+
+    const exchange = this.exchanges.get(exchangeName);
+    if (!exchange) return;
+
+    for (const binding of exchange.bindings) {
+      const matches =
+        exchange.type === "fanout"
+          ? true
+          : exchange.type === "direct"
+            ? binding.routingKey === routingKey
+            : exchange.type === "topic"
+              ? matchesTopic(binding.routingKey, routingKey)
+              : matchesHeaders(binding.arguments, headers);
+      if (!matches) continue;
+
+      if (binding.destinationType === "queue") {
+        queueNames.add(binding.destination);
+      } else {
+        this.route(binding.destination, routingKey, headers, queueNames, visited);
+      }
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Queues and delivery
+  // ---------------------------------------------------------------------------
+
+  private enqueue(queue: QueueState, message: StoredMessage): void {
+    if (isStream(queue)) {
+      // Streams are append-only logs: the index of an entry is its offset.
+      queue.messages.push(message);
+      this.scheduleDispatch(queue);
+      return;
+    }
+
+    const index = queue.messages.findIndex((queued) => queued.sequence > message.sequence);
+    if (index === -1) queue.messages.push(message);
+    else queue.messages.splice(index, 0, message);
+
+    const maxLength = queue.arguments["x-max-length"];
+    if (typeof maxLength === "number") {
+      // Default overflow behaviour is drop-head.
+      while (queue.messages.length > maxLength) {
+        this.deadLetter(queue, queue.messages.shift()!, "maxlen");
+      }
+    }
+
+    this.scheduleExpiry(queue);
+    this.scheduleDispatch(queue);
+  }
+
+  private scheduleDispatch(queue: QueueState): void {
+    if (queue.dispatchScheduled) return;
+    queue.dispatchScheduled = true;
+    // Deliver asynchronously, like a real broker: publishers never observe
+    // their consumers running inside the publish call.
+    setImmediate(() => {
+      queue.dispatchScheduled = false;
+      if (this.queues.get(queue.name) === queue) this.dispatch(queue);
+    });
+  }
+
+  private dispatch(queue: QueueState): void {
+    if (isStream(queue)) {
+      this.dispatchStream(queue);
+      return;
+    }
+    this.expireMessages(queue);
+    while (queue.messages.length > 0) {
+      const consumer = this.nextConsumer(queue);
+      if (!consumer) return;
+      const message = this.dequeue(queue);
+      consumer.channel._deliver(consumer, message, queue);
+    }
+  }
+
+  /**
+   * Stream consumers each read the log independently from their own offset;
+   * delivered entries stay in the stream.
+   */
+  private dispatchStream(queue: QueueState): void {
+    for (const consumer of queue.consumers) {
+      while (
+        consumer.streamOffset !== undefined &&
+        consumer.streamOffset < queue.messages.length &&
+        consumer.unacked < consumer.prefetch
+      ) {
+        const offset = consumer.streamOffset++;
+        consumer.channel._deliver(consumer, queue.messages[offset]!, queue, offset);
+      }
+    }
+  }
+
+  private nextConsumer(queue: QueueState): ConsumerState | undefined {
+    const count = queue.consumers.length;
+    for (let i = 0; i < count; i++) {
+      const index = (queue.nextConsumerIndex + i) % count;
+      const consumer = queue.consumers[index]!;
+      if (consumer.noAck || consumer.prefetch === 0 || consumer.unacked < consumer.prefetch) {
+        queue.nextConsumerIndex = (index + 1) % count;
+        return consumer;
+      }
+    }
+    return undefined;
+  }
+
+  private dequeue(queue: QueueState): StoredMessage {
+    const maxPriority = queue.arguments["x-max-priority"];
+    if (typeof maxPriority !== "number") return queue.messages.shift()!;
+
+    const priorityOf = (message: StoredMessage) =>
+      Math.min(
+        typeof message.properties.priority === "number" ? message.properties.priority : 0,
+        maxPriority,
+      );
+    let best = 0;
+    for (let i = 1; i < queue.messages.length; i++) {
+      if (priorityOf(queue.messages[i]!) > priorityOf(queue.messages[best]!)) best = i;
+    }
+    return queue.messages.splice(best, 1)[0]!;
+  }
+
+  private scheduleExpiry(queue: QueueState): void {
+    const next = queue.messages.reduce<number | undefined>(
+      (earliest, message) =>
+        message.expiresAt !== undefined && (earliest === undefined || message.expiresAt < earliest)
+          ? message.expiresAt
+          : earliest,
+      undefined,
+    );
+    clearTimeout(queue.expiryTimer);
+    queue.expiryTimer = undefined;
+    if (next === undefined) return;
+
+    queue.expiryTimer = setTimeout(
+      () => {
+        queue.expiryTimer = undefined;
+        if (this.queues.get(queue.name) !== queue) return;
+        this.expireMessages(queue);
+        this.scheduleExpiry(queue);
+      },
+      Math.max(0, next - Date.now()),
+    );
+    // Pending TTLs must not keep the test process alive.
+    queue.expiryTimer.unref();
+  }
+
+  private expireMessages(queue: QueueState): void {
+    const now = Date.now();
+    const expired = queue.messages.filter(
+      (message) => message.expiresAt !== undefined && message.expiresAt <= now,
+    );
+    if (expired.length === 0) return;
+    queue.messages = queue.messages.filter((message) => !expired.includes(message));
+    for (const message of expired) this.deadLetter(queue, message, "expired");
+  }
+
+  /**
+   * Return a delivery to its queue, either for redelivery or — when
+   * `requeue` is false — to the queue's dead letter exchange.
+   *
+   * @internal
+   */
+  settle(queueName: string, message: StoredMessage, requeue: boolean): void {
+    const queue = this.queues.get(queueName);
+    // Stream entries are never removed, requeued or dead-lettered.
+    if (!queue || isStream(queue)) return;
+    if (requeue) {
+      this.enqueue(queue, {
+        ...message,
+        redelivered: true,
+        deliveryCount: message.deliveryCount + 1,
+      });
+    } else {
+      this.deadLetter(queue, message, "rejected");
+    }
+  }
+
+  /** @internal */
+  addConsumer(consumer: ConsumerState): void {
+    const queue = this.requireQueue(consumer.queue);
+    if (queue.exclusive && queue.owner !== consumer.channel._connection) {
+      throw channelError(
+        405,
+        "RESOURCE_LOCKED",
+        `cannot obtain exclusive access to locked queue '${queue.name}'`,
+      );
+    }
+    if (isStream(queue)) {
+      if (consumer.noAck) {
+        throw channelError(
+          406,
+          "PRECONDITION_FAILED",
+          `consumer must use manual acknowledgements to consume stream '${queue.name}'`,
+        );
+      }
+      if (consumer.prefetch === 0) {
+        throw channelError(
+          406,
+          "PRECONDITION_FAILED",
+          `consumer prefetch count is not set for '${queue.name}'`,
+        );
+      }
+      consumer.streamOffset = resolveStreamOffset(
+        queue.messages,
+        consumer.arguments["x-stream-offset"],
+      );
+    }
+    queue.consumers.push(consumer);
+    this.scheduleDispatch(queue);
+  }
+
+  /** @internal */
+  removeConsumer(consumer: ConsumerState): void {
+    const queue = this.queues.get(consumer.queue);
+    if (!queue) return;
+    queue.consumers = queue.consumers.filter((existing) => existing !== consumer);
+    queue.nextConsumerIndex = 0;
+    if (queue.autoDelete && queue.consumers.length === 0) this.deleteQueue(queue.name);
+  }
+
+  /**
+   * A consumer freed a prefetch slot; try to hand it more work.
+   *
+   * @internal
+   */
+  wake(queueName: string): void {
+    const queue = this.queues.get(queueName);
+    if (queue) this.scheduleDispatch(queue);
+  }
+
+  private deadLetter(queue: QueueState, message: StoredMessage, reason: XDeath["reason"]): void {
+    const exchange = queue.arguments["x-dead-letter-exchange"];
+    if (typeof exchange !== "string") return;
+    const deadLetterRoutingKey = queue.arguments["x-dead-letter-routing-key"];
+    const routingKey =
+      typeof deadLetterRoutingKey === "string" ? deadLetterRoutingKey : message.routingKey;
+
+    const headers: MessagePropertyHeaders = { ...message.properties.headers };
+    const deaths = [...(headers["x-death"] ?? [])];
+    const index = deaths.findIndex(
+      (death) => death.queue === queue.name && death.reason === reason,
+    );
+    const previous = index === -1 ? undefined : deaths.splice(index, 1)[0];
+    const death: XDeath = {
+      count: (previous?.count ?? 0) + 1,
+      reason,
+      queue: queue.name,
+      time: { "!": "timestamp", value: Math.floor(Date.now() / 1000) },
+      exchange: message.exchange,
+      "routing-keys": [message.routingKey],
+      ...(message.properties.expiration !== undefined && {
+        "original-expiration": message.properties.expiration,
+      }),
+    };
+    // Most recent death first, as RabbitMQ orders `x-death`.
+    headers["x-death"] = [death, ...deaths];
+    headers["x-first-death-reason"] ??= reason;
+    headers["x-first-death-queue"] ??= queue.name;
+    headers["x-first-death-exchange"] ??= message.exchange;
+    headers["x-last-death-reason"] = reason;
+    headers["x-last-death-queue"] = queue.name;
+    headers["x-last-death-exchange"] = message.exchange;
+
+    this.publish(exchange, routingKey, message.content, {
+      ...message.properties,
+      // The per-message TTL is consumed by dead-lettering so the message does
+      // not expire again in the target queue.
+      expiration: undefined,
+      headers,
+    });
+  }
+}
+
+/**
+ * Minimal stand-in for amqp-connection-manager's `AmqpConnectionManager`
+ * backed by an {@link InMemoryBroker}.
+ *
+ * @internal
+ */
+class InMemoryConnection extends EventEmitter {
+  private readonly channels: Set<InMemoryChannelWrapper> = new Set();
+  private closed = false;
+
+  constructor(
+    readonly url: string,
+    readonly broker: InMemoryBroker | undefined,
+  ) {
+    super();
+    broker?._register(this);
+  }
+
+  get channelCount(): number {
+    return this.channels.size;
+  }
+
+  isConnected(): boolean {
+    return !this.closed && this.broker !== undefined && !this.broker._isClosed();
+  }
+
+  connect(): Promise<void> {
+    return Promise.resolve();
+  }
+
+  reconnect(): void {}
+
+  /**
+   * Stand-in for the underlying amqplib connection, opening plain channels
+   * like the ones handed to setup functions.
+   */
+  get connection(): { createChannel(): Promise<Channel> } | undefined {
+    if (!this.isConnected()) return undefined;
+    return {
+      createChannel: async () => {
+        const wrapper = this.createChannel();
+        await wrapper.waitForConnect();
+        return wrapper._channel;
+      },
+    };
+  }
+
+  createChannel(options: CreateChannelOpts = {}): InMemoryChannelWrapper {
+    const channel = new InMemoryChannelWrapper(this, options);
+    this.channels.add(channel);
+    channel.once("close", () => this.channels.delete(channel));
+    return channel;
+  }
+
+  async close(): Promise<void> {
+    if (this.closed) return;
+    this.closed = true;
+    await Promise.all(Array.from(this.channels, (channel) => channel.close()));
+    this.broker?._disconnect(this);
+    this.emit("disconnect", { err: new Error("Connection closed") });
+  }
+}
+
+/**
+ * Stand-in for amqp-connection-manager's `ChannelWrapper`. Encodes content
+ * like the real wrapper, so message bytes on the wire are identical to a
+ * RabbitMQ-backed run: the `Buffer`s produced by the client and worker
+ * codecs, and strings, are published as-is, unless the channel is created
+ * with `json: true` through `channelOptions`, which JSON-serialises every
+ * content.
+ *
+ * @internal
+ */
+class InMemoryChannelWrapper extends EventEmitter {
+  readonly name: string | undefined;
+  private readonly json: boolean;
+  private readonly setups: NonNullable<CreateChannelOpts["setup"]>[] = [];
+  private readonly consumers: Map<string, ConsumerState> = new Map();
+  private readonly unacked: Map<number, UnackedDelivery> = new Map();
+  private readonly replyToken = randomUUID();
+  private readonly channel: Channel;
+  private readonly ready: Promise<void>;
+  private replyConsumer: ConsumerState | undefined;
+  private nextDeliveryTag = 1;
+  /** Prefetch applied to consumers created after the last `basic.qos(global=false)`. */
+  private consumerPrefetch = 0;
+  private closed = false;
+
+  constructor(
+    readonly _connection: InMemoryConnection,
+    options: CreateChannelOpts,
+  ) {
+    super();
+    this.name = options.name;
+    this.json = options.json ?? false;
+    if (options.setup) this.setups.push(options.setup);
+    const channel = this.createChannelFacade();
+    this.channel = channel;
+
+    this.ready = (async () => {
+      // Fails fast when the broker was never created or has been closed.
+      void this.broker;
+      for (const setup of this.setups) {
+        await runSetup(setup, channel);
+      }
+    })();
+    this.ready.then(
+      () => this.emit("connect"),
+      (error: unknown) => {
+        if (this.listenerCount("error") > 0) this.emit("error", error);
+      },
+    );
+  }
+
+  private get broker(): InMemoryBroker {
+    const broker = this._connection.broker;
+    if (!broker || broker._isClosed()) {
+      throw new Error(`No in-memory broker is running at ${this._connection.url}`);
+    }
+    return broker;
+  }
+
+  waitForConnect(): Promise<void> {
+    return this.ready;
+  }
+
+  /** @internal */
+  get _channel(): Channel {
+    return this.channel;
+  }
+
+  queueLength(): number {
+    return 0;
+  }
+
+  async addSetup(setup: NonNullable<CreateChannelOpts["setup"]>): Promise<void> {
+    await this.ready;
+    this.setups.push(setup);
+    await runSetup(setup, this.channel);
+  }
+
+  async removeSetup(
+    setup: NonNullable<CreateChannelOpts["setup"]>,
+    teardown?: NonNullable<CreateChannelOpts["setup"]>,
+  ): Promise<void> {
+    const index = this.setups.indexOf(setup);
+    if (index !== -1) this.setups.splice(index, 1);
+    await this.ready;
+    if (teardown && !this.closed) await runSetup(teardown, this.channel);
+  }
+
+  async publish(
+    exchange: string,
+    routingKey: string,
+    content: unknown,
+    options?: Options.Publish,
+  ): Promise<boolean> {
+    await this.ready;
+    this.assertOpen();
+    const properties = propertiesFrom(options);
+    if (properties.replyTo === DIRECT_REPLY_TO) {
+      if (!this.replyConsumer) {
+        throw channelError(406, "PRECONDITION_FAILED", "fast reply consumer does not exist");
+      }
+      properties.replyTo = `${DIRECT_REPLY_TO}.${this.replyToken}`;
+    }
+    if (exchange !== "") this.broker.requireExchange(exchange);
+    this.broker.publish(exchange, routingKey, this.encode(content), properties, [
+      ...[options?.CC ?? []].flat(),
+      ...[options?.BCC ?? []].flat(),
+    ]);
+    return true;
+  }
+
+  sendToQueue(queue: string, content: unknown, options?: Options.Publish): Promise<boolean> {
+    return this.publish("", queue, content, options);
+  }
+
+  async consume(
+    queue: string,
+    onMessage: (msg: ConsumeMessage | null) => void,
+    options: Options.Consume & { prefetch?: number } = {},
+  ): Promise<Replies.Consume> {
+    await this.ready;
+    this.assertOpen();
+    const { prefetch, ...consumeOptions } = options;
+    if (typeof prefetch === "number") this.consumerPrefetch = prefetch;
+
+    const consumerTag = consumeOptions.consumerTag ?? `amq.ctag-${randomUUID()}`;
+    const consumer: ConsumerState = {
+      consumerTag,
+      queue,
+      channel: this,
+      onMessage,
+      noAck: consumeOptions.noAck ?? false,
+      prefetch: this.consumerPrefetch,
+      unacked: 0,
+      streamOffset: undefined,
+      arguments: consumeOptions.arguments ?? {},
+    };
+
+    if (queue === DIRECT_REPLY_TO) {
+      if (!consumer.noAck) {
+        throw channelError(406, "PRECONDITION_FAILED", "reply consumer cannot acknowledge");
+      }
+      this.replyConsumer = consumer;
+      this.broker._registerReplyChannel(this.replyToken, this);
+    } else {
+      this.broker.addConsumer(consumer);
+    }
+    this.consumers.set(consumerTag, consumer);
+    return { consumerTag };
+  }
+
+  async cancel(consumerTag: string): Promise<void> {
+    const consumer = this.consumers.get(consumerTag);
+    if (!consumer) return;
+    this.consumers.delete(consumerTag);
+    if (consumer === this.replyConsumer) {
+      this.replyConsumer = undefined;
+      this.broker._unregisterReplyChannel(this.replyToken);
+    } else {
+      this.broker.removeConsumer(consumer);
+    }
+  }
+
+  ack(message: ConsumeMessage, allUpTo = false): void {
+    this.settle(message, allUpTo, (delivery) => {
+      this.broker.wake(delivery.queue);
+    });
+  }
+
+  ackAll(): void {
+    this.settleAll((delivery) => this.broker.wake(delivery.queue));
+  }
+
+  nack(message: ConsumeMessage, allUpTo = false, requeue = true): void {
+    this.settle(message, allUpTo, (delivery) => {
+      this.broker.settle(delivery.queue, delivery.message, requeue);
+      this.broker.wake(delivery.queue);
+    });
+  }
+
+  nackAll(requeue = true): void {
+    this.settleAll((delivery) => {
+      this.broker.settle(delivery.queue, delivery.message, requeue);
+      this.broker.wake(delivery.queue);
+    });
+  }
+
+  async close(): Promise<void> {
+    if (this.closed) return;
+    this.closed = true;
+    for (const consumerTag of Array.from(this.consumers.keys())) {
+      await this.cancel(consumerTag);
+    }
+    // Unacked deliveries go back to their queues, flagged as redelivered.
+    this.settleAll((delivery) => {
+      this.broker.settle(delivery.queue, delivery.message, true);
+      this.broker.wake(delivery.queue);
+    });
+    this.emit("close");
+  }
+
+  /** @internal */
+  _deliver(
+    consumer: ConsumerState,
+    message: StoredMessage,
+    queue: QueueState,
+    streamOffset?: number,
+  ): void {
+    const deliveryTag = this.nextDeliveryTag++;
+    if (!consumer.noAck) {
+      consumer.unacked++;
+      this.unacked.set(deliveryTag, { message, queue: queue.name, consumer });
+    }
+
+    const headers =
+      streamOffset !== undefined
+        ? { ...message.properties.headers, "x-stream-offset": streamOffset }
+        : queue.arguments["x-queue-type"] === "quorum" && message.deliveryCount > 0
+          ? { ...message.properties.headers, "x-delivery-count": message.deliveryCount }
+          : message.properties.headers === undefined
+            ? undefined
+            : { ...message.properties.headers };
+
+    this.invoke(consumer, {
+      content: Buffer.from(message.content),
+      fields: {
+        deliveryTag,
+        redelivered: message.redelivered,
+        exchange: message.exchange,
+        routingKey: message.routingKey,
+        consumerTag: consumer.consumerTag,
+      },
+      properties: { ...message.properties, headers },
+    });
+  }
+
+  /** @internal */
+  _deliverReply(content: Buffer, routingKey: string, properties: MessageProperties): void {
+    const consumer = this.replyConsumer;
+    if (!consumer) return;
+    setImmediate(() => {
+      if (this.replyConsumer !== consumer) return;
+      this.invoke(consumer, {
+        content: Buffer.from(content),
+        fields: {
+          deliveryTag: this.nextDeliveryTag++,
+          redelivered: false,
+          exchange: "",
+          routingKey,
+          consumerTag: consumer.consumerTag,
+        },
+        properties,
+      });
+    });
+  }
+
+  /**
+   * The queue this consumer was reading from has been deleted.
+   *
+   * @internal
+   */
+  _forgetConsumer(consumerTag: string): void {
+    const consumer = this.consumers.get(consumerTag);
+    if (!consumer) return;
+    this.consumers.delete(consumerTag);
+    // Like amqplib, signal broker-side cancellation with a `null` message.
+    consumer.onMessage(null);
+  }
+
+  private invoke(consumer: ConsumerState, message: ConsumeMessage): void {
+    try {
+      consumer.onMessage(message);
+    } catch (error) {
+      if (this.listenerCount("error") > 0) this.emit("error", error);
+    }
+  }
+
+  private settle(
+    message: ConsumeMessage,
+    allUpTo: boolean,
+    onSettled: (delivery: UnackedDelivery) => void,
+  ): void {
+    if (this.closed) return;
+    const deliveryTag = message.fields.deliveryTag;
+    const tags = allUpTo
+      ? Array.from(this.unacked.keys()).filter((tag) => tag <= deliveryTag)
+      : [deliveryTag];
+
+    if (!allUpTo && !this.unacked.has(deliveryTag)) {
+      // RabbitMQ closes the channel on an unknown/double ack; surface it
+      // without taking the whole process down when nobody listens.
+      if (this.listenerCount("error") > 0) {
+        this.emit(
+          "error",
+          channelError(406, "PRECONDITION_FAILED", `unknown delivery tag ${deliveryTag}`),
+        );
+      }
+      return;
+    }
+
+    for (const tag of tags) {
+      const delivery = this.unacked.get(tag);
+      if (!delivery) continue;
+      this.unacked.delete(tag);
+      delivery.consumer.unacked--;
+      onSettled(delivery);
+    }
+  }
+
+  private settleAll(onSettled: (delivery: UnackedDelivery) => void): void {
+    const deliveries = Array.from(this.unacked.values());
+    this.unacked.clear();
+    for (const delivery of deliveries) {
+      delivery.consumer.unacked--;
+      onSettled(delivery);
+    }
+  }
+
+  private encode(content: unknown): Buffer {
+    if (this.json) return Buffer.from(JSON.stringify(content));
+    if (typeof content === "string") return Buffer.from(content);
+    if (Buffer.isBuffer(content)) return content;
+    throw new Error("Invalid message content");
+  }
+
+  private assertOpen(): void {
+    if (this.closed) throw new Error("Channel closed");
+  }
+
+  /**
+   * The amqplib `Channel` subset handed to setup functions — enough for
+   * `setupAmqpTopology`, prefetch and passive declarations (`verifyAmqpTopology`).
+   */
+  private createChannelFacade(): Channel {
+    const run = <T>(operation: () => T): Promise<T> => {
+      try {
+        this.assertOpen();
+        return Promise.resolve(operation());
+      } catch (error) {
+        return Promise.reject(error);
+      }
+    };
+    const broker = () => this.broker;
+
+    const facade = {
+      assertExchange: (exchange: string, type: string, options?: Options.AssertExchange) =>
+        run(() => broker().declareExchange(exchange, type, options)),
+      checkExchange: (exchange: string) => run(() => broker().checkExchange(exchange)),
+      deleteExchange: (exchange: string) => run(() => broker().deleteExchange(exchange)),
+      assertQueue: (queue?: string, options?: Options.AssertQueue) =>
+        run(() => broker().declareQueue(queue, options, this._connection)),
+      checkQueue: (queue: string) => run(() => broker().checkQueue(queue)),
+      deleteQueue: (queue: string) => run(() => broker().deleteQueue(queue)),
+      purgeQueue: (queue: string) => run(() => broker().purgeQueue(queue)),
+      bindQueue: (queue: string, source: string, pattern: string, args?: Record<string, unknown>) =>
+        run(() => broker().bind("queue", queue, source, pattern, args)),
+      unbindQueue: (
+        queue: string,
+        source: string,
+        pattern: string,
+        args?: Record<string, unknown>,
+      ) => run(() => broker().unbind("queue", queue, source, pattern, args)),
+      bindExchange: (
+        destination: string,
+        source: string,
+        pattern: string,
+        args?: Record<string, unknown>,
+      ) => run(() => broker().bind("exchange", destination, source, pattern, args)),
+      unbindExchange: (
+        destination: string,
+        source: string,
+        pattern: string,
+        args?: Record<string, unknown>,
+      ) => run(() => broker().unbind("exchange", destination, source, pattern, args)),
+      prefetch: (count: number, global?: boolean) =>
+        run(() => {
+          if (!global) this.consumerPrefetch = count;
+          return {};
+        }),
+      cancel: (consumerTag: string) => this.cancel(consumerTag).then(() => ({})),
+      close: () => this.close(),
+    };
+
+    // Only the members above are implemented; setup functions reaching for
+    // anything else fail loudly instead of silently misbehaving.
+    return facade as unknown as Channel;
+  }
+}
+
+/**
+ * Resolve `memory://` connection URLs to a connection on the matching
+ * {@link InMemoryBroker}.
+ *
+ * @returns A connection when the first URL uses the in-memory scheme, `undefined` otherwise
+ * @internal
+ */
+export function connectInMemory(urls: ConnectionUrl[]): AmqpConnectionManager | undefined {
+  const url = urls[0];
+  if (typeof url !== "string" || !url.startsWith(IN_MEMORY_SCHEME)) return undefined;
+
+  // A URL without a live broker still yields a connection so the failure
+  // surfaces through `waitForConnect` like any other unreachable broker. The
+  // in-memory connection implements the subset of AmqpConnectionManager and
+  // ChannelWrapper that AmqpClient uses.
+  return new InMemoryConnection(url, brokers.get(url)) as unknown as AmqpConnectionManager;
+}
@@ -5,22 +5,77 @@ export {
   type ConsumerOptions,
   DEFAULT_CONNECT_TIMEOUT_MS,
   type PublishOptions,
+  type TopologyMode,
 } from "./amqp-client.js";
+export { cborCodec } from "./cbor.js";
+export { type Codec, CodecRegistry, DEFAULT_CONTENT_TYPE, jsonCodec } from "./codec.js";
 export {
   _getConnectionCountForTesting,
   _resetConnectionsForTesting,
 } from "./connection-manager.js";
-export { MessageValidationError, TechnicalError } from "./errors.js";
+export {
+  decryptMessage,
+  ENCRYPTION_KEY_ID_HEADER,
+  encryptMessage,
+  type EncryptionKey,
+  InMemoryKeyProvider,
+  type InMemoryKeyProviderOptions,
+  type KeyProvider,
+} from "./encryption.js";
+export { InMemoryBroker, type InMemoryQueueInfo } from "./in-memory-broker.js";
+export {
+  KeyLookupError,
+  MessageValidationError,
+  SignatureVerificationError,
+  TechnicalError,
+} from "./errors.js";
 export type { Logger, LoggerContext } from "./logger.js";
+export {
+  CAUSATION_ID_HEADER,
+  getMessageContext,
+  type MessageContext,
+  runWithMessageContext,
+} from "./message-context.js";
+export { messagePackCodec } from "./msgpack.js";
 export { safeJsonParse } from "./parsing.js";
-export { setupAmqpTopology } from "./setup.js";
+export { setupAmqpTopology, verifyAmqpTopology } from "./setup.js";
+export {
+  InMemorySignatureVerifier,
+  SIGNATURE_HEADER,
+  SIGNATURE_KEY_ID_HEADER,
+  type SignatureAlgorithm,
+  type SignatureVerifier,
+  SIGNED_PROPERTIES_HEADER,
+  type SignedProperty,
+  signMessage,
+  type SigningOptions,
+  type VerificationKey,
+  verifyMessageSignature,
+} from "./signing.js";
+export {
+  applyTopology,
+  type ApplyTopologyOptions,
+  type BrokerBinding,
+  type BrokerExchange,
+  type BrokerQueue,
+  type BrokerState,
+  fetchBrokerState,
+  type FetchBrokerStateOptions,
+  formatTopologyPlan,
+  planTopology,
+  type TopologyChange,
+  type TopologyDifference,
+  type TopologyPlan,
+} from "./topology.js";
 export {
   _resetTelemetryCacheForTesting,
   defaultTelemetryProvider,
   endSpanError,
   endSpanSuccess,
   MessagingSemanticConventions,
+  recordCircuitBreakerTransition,
   recordConsumeMetric,
+  recordDuplicateMessage,
   recordLateRpcReply,
   recordPublishMetric,
   startConsumeSpan,
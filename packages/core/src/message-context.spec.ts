@@ -0,0 +1,20 @@
+import { describe, expect, it } from "vitest";
+import { getMessageContext, runWithMessageContext } from "./message-context.js";
+
+describe("runWithMessageContext", () => {
+  it("should expose the context to the function and its asynchronous continuations", async () => {
+    // GIVEN
+    const context = { messageId: "message-1", correlationId: "correlation-1" };
+
+    // WHEN
+    const seen = await runWithMessageContext(context, async () => {
+      const before = getMessageContext();
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      return [before, getMessageContext()];
+    });
+
+    // THEN
+    expect(seen).toEqual([context, context]);
+    expect(getMessageContext()).toBeUndefined();
+  });
+});
@@ -0,0 +1,55 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+
+/**
+ * Header carrying the `messageId` of the message whose handling caused a
+ * message to be published.
+ */
+export const CAUSATION_ID_HEADER = "x-causation-id";
+
+/**
+ * The message being handled, inherited by the messages published while
+ * handling it: they get its `correlationId` and its `messageId` as
+ * causation id.
+ */
+export type MessageContext = {
+  /** Id of the message being handled, sent as the causation id. */
+  messageId: string | undefined;
+  /** Correlation id shared by every message of the same flow. */
+  correlationId: string | undefined;
+};
+
+const messageContextStorage = new AsyncLocalStorage<MessageContext>();
+
+/**
+ * Run a function with a message context. Messages published by a
+ * `TypedAmqpClient` from the function, including from its asynchronous
+ * continuations, inherit the context's correlation and causation ids.
+ *
+ * The worker runs every handler with the context of the message it handles.
+ * Call it directly to start a flow outside of a handler, e.g. with the
+ * request id of an HTTP request.
+ *
+ * @param context - The message context
+ * @param fn - The function to run
+ * @returns The function's return value
+ *
+ * @example
+ * ```typescript
+ * app.post("/orders", (req, res) =>
+ *   runWithMessageContext({ messageId: undefined, correlationId: req.id }, () =>
+ *     client.publish("orderCreated", req.body),
+ *   ),
+ * );
+ * ```
+ */
+export function runWithMessageContext<T>(context: MessageContext, fn: () => T): T {
+  return messageContextStorage.run(context, fn);
+}
+
+/**
+ * The context of the message being handled, or `undefined` outside of
+ * {@link runWithMessageContext}.
+ */
+export function getMessageContext(): MessageContext | undefined {
+  return messageContextStorage.getStore();
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { messagePackCodec } from "./msgpack.js";
+
+const hex = (value: unknown): string => messagePackCodec.encode(value).toString("hex");
+const decodeHex = (value: string): unknown => messagePackCodec.decode(Buffer.from(value, "hex"));
+
+describe("messagePackCodec", () => {
+  it("should encode values in their smallest format", () => {
+    // GIVEN / WHEN / THEN
+    expect(hex({ compact: true, schema: 0 })).toBe("82a7636f6d70616374c3a6736368656d6100");
+    expect(hex(-1)).toBe("ff");
+    expect(hex(-33)).toBe("d0df");
+    expect(hex(256)).toBe("cd0100");
+    expect(hex(2 ** 32)).toBe("cf0000000100000000");
+    expect(hex(1.5)).toBe("ca3fc00000");
+    expect(hex(0.1)).toBe("cb3fb999999999999a");
+    expect(hex(new Date(0))).toBe("d6ff00000000");
+    expect(hex(Buffer.from([1, 2]))).toBe("c4020102");
+  });
+
+  it("should round-trip a payload", () => {
+    // GIVEN
+    const payload = {
+      deviceId: "sensor-1",
+      readings: [21.5, -3, 1_000_000, 0.1],
+      tags: { é: "ü", nested: [null, true, false, "x".repeat(300)] },
+      raw: Buffer.from("bytes"),
+      at: new Date("2026-01-02T03:04:05.678Z"),
+      big: 2n ** 60n,
+    };
+
+    // WHEN
+    const decoded = messagePackCodec.decode(messagePackCodec.encode(payload));
+
+    // THEN
+    expect(decoded).toEqual(payload);
+  });
+
+  it("should encode like JSON.stringify for values JSON does not represent", () => {
+    // GIVEN
+    const payload = { kept: 1, missing: undefined, fn: () => 1, list: [undefined, () => 1] };
+
+    // WHEN
+    const decoded = messagePackCodec.decode(messagePackCodec.encode(payload));
+
+    // THEN
+    expect(decoded).toEqual(JSON.parse(JSON.stringify(payload)));
+  });
+
+  it("should define __proto__ keys as own properties", () => {
+    // GIVEN
+    const buffer = "81a95f5f70726f746f5f5f81a5706f6c6c7501";
+
+    // WHEN
+    const decoded = decodeHex(buffer) as Record<string, unknown>;
+
+    // THEN
+    expect(Object.getPrototypeOf(decoded)).toBe(Object.prototype);
+    expect(Object.hasOwn(decoded, "__proto__")).toBe(true);
+  });
+
+  it("should throw on malformed content", () => {
+    // GIVEN / WHEN / THEN
+    expect(() => decodeHex("92c3")).toThrow(RangeError);
+    expect(() => decodeHex("c3c3")).toThrow("Unexpected data after the MessagePack value");
+    expect(() => decodeHex("c1")).toThrow("Invalid MessagePack format 0xc1");
+    expect(() => messagePackCodec.encode(Symbol("x"))).toThrow(TypeError);
+  });
+});
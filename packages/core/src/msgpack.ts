@@ -0,0 +1,347 @@
+import { ByteReader, ByteWriter, serializableEntries, setEntry, toSafeNumber } from "./binary.js";
+import type { Codec } from "./codec.js";
+
+/** Extension type of the MessagePack timestamp */
+const TIMESTAMP_EXTENSION = -1;
+
+/**
+ * MessagePack codec, with the `application/msgpack` content type.
+ *
+ * Encodes the same values as `JSON.stringify`, plus:
+ * - `Uint8Array` and `Buffer` as binary, decoded as `Buffer`
+ * - `Date` as the timestamp extension, decoded as `Date`
+ * - `bigint` in the 64-bit range, decoded as `number` when it is a safe integer
+ *
+ * Numbers are encoded in the smallest integer or float format that holds them
+ * exactly, which makes numeric payloads such as telemetry much smaller than
+ * their JSON text.
+ *
+ * @example
+ * ```typescript
+ * const telemetryMessage = defineMessage(telemetrySchema, {
+ *   contentType: messagePackCodec.contentType,
+ * });
+ * ```
+ */
+export const messagePackCodec: Codec = {
+  contentType: "application/msgpack",
+  encode(value) {
+    const writer = new ByteWriter();
+    encodeValue(writer, value);
+    return writer.toBuffer();
+  },
+  decode(buffer) {
+    const reader = new ByteReader(buffer);
+    const value = decodeValue(reader);
+    if (!reader.done) throw new Error("Unexpected data after the MessagePack value");
+    return value;
+  },
+};
+
+function encodeValue(writer: ByteWriter, value: unknown): void {
+  if (value === null || value === undefined) {
+    writer.uint8(0xc0);
+    return;
+  }
+  switch (typeof value) {
+    case "boolean":
+      writer.uint8(value ? 0xc3 : 0xc2);
+      return;
+    case "number":
+      encodeNumber(writer, value);
+      return;
+    case "bigint":
+      encodeBigInt(writer, value);
+      return;
+    case "string":
+      encodeString(writer, value);
+      return;
+    case "object":
+      encodeObject(writer, value);
+      return;
+    default:
+      throw new TypeError(`Cannot encode a value of type ${typeof value} as MessagePack`);
+  }
+}
+
+function encodeNumber(writer: ByteWriter, value: number): void {
+  if (!Number.isSafeInteger(value)) {
+    if (Math.fround(value) === value || Number.isNaN(value)) {
+      writer.uint8(0xca);
+      writer.float32(value);
+    } else {
+      writer.uint8(0xcb);
+      writer.float64(value);
+    }
+    return;
+  }
+
+  if (value >= 0) {
+    if (value < 0x80) {
+      writer.uint8(value);
+    } else if (value < 0x100) {
+      writer.uint8(0xcc);
+      writer.uint8(value);
+    } else if (value < 0x10000) {
+      writer.uint8(0xcd);
+      writer.uint16(value);
+    } else if (value < 0x100000000) {
+      writer.uint8(0xce);
+      writer.uint32(value);
+    } else {
+      writer.uint8(0xcf);
+      writer.uint64(BigInt(value));
+    }
+  } else if (value >= -0x20) {
+    writer.int8(value);
+  } else if (value >= -0x80) {
+    writer.uint8(0xd0);
+    writer.int8(value);
+  } else if (value >= -0x8000) {
+    writer.uint8(0xd1);
+    writer.int16(value);
+  } else if (value >= -0x80000000) {
+    writer.uint8(0xd2);
+    writer.int32(value);
+  } else {
+    writer.uint8(0xd3);
+    writer.int64(BigInt(value));
+  }
+}
+
+function encodeBigInt(writer: ByteWriter, value: bigint): void {
+  if (value >= BigInt(Number.MIN_SAFE_INTEGER) && value <= BigInt(Number.MAX_SAFE_INTEGER)) {
+    encodeNumber(writer, Number(value));
+  } else if (value >= 0n && value < 1n << 64n) {
+    writer.uint8(0xcf);
+    writer.uint64(value);
+  } else if (value < 0n && value >= -(1n << 63n)) {
+    writer.uint8(0xd3);
+    writer.int64(value);
+  } else {
+    throw new RangeError(`Cannot encode ${value} as MessagePack: out of the 64-bit range`);
+  }
+}
+
+function encodeString(writer: ByteWriter, value: string): void {
+  const bytes = Buffer.from(value, "utf8");
+  if (bytes.length < 0x20) {
+    writer.uint8(0xa0 | bytes.length);
+  } else if (bytes.length < 0x100) {
+    writer.uint8(0xd9);
+    writer.uint8(bytes.length);
+  } else if (bytes.length < 0x10000) {
+    writer.uint8(0xda);
+    writer.uint16(bytes.length);
+  } else {
+    writer.uint8(0xdb);
+    writer.uint32(bytes.length);
+  }
+  writer.bytes(bytes);
+}
+
+function encodeObject(writer: ByteWriter, value: object): void {
+  if (value instanceof Uint8Array) {
+    if (value.length < 0x100) {
+      writer.uint8(0xc4);
+      writer.uint8(value.length);
+    } else if (value.length < 0x10000) {
+      writer.uint8(0xc5);
+      writer.uint16(value.length);
+    } else {
+      writer.uint8(0xc6);
+      writer.uint32(value.length);
+    }
+    writer.bytes(value);
+    return;
+  }
+
+  if (value instanceof Date) {
+    encodeTimestamp(writer, value);
+    return;
+  }
+
+  if (Array.isArray(value)) {
+    encodeLength(writer, value.length, [0x90, 0x0f], 0xdc, 0xdd);
+    for (const item of value) {
+      // JSON.stringify writes null for array items it cannot represent.
+      encodeValue(writer, typeof item === "function" || typeof item === "symbol" ? null : item);
+    }
+    return;
+  }
+
+  const toJSON = (value as { toJSON?: unknown }).toJSON;
+  if (typeof toJSON === "function") {
+    encodeValue(writer, toJSON.call(value));
+    return;
+  }
+
+  const entries = value instanceof Map ? [...value.entries()] : serializableEntries(value);
+  encodeLength(writer, entries.length, [0x80, 0x0f], 0xde, 0xdf);
+  for (const [key, entry] of entries) {
+    encodeValue(writer, key);
+    encodeValue(writer, entry);
+  }
+}
+
+function encodeLength(
+  writer: ByteWriter,
+  length: number,
+  [fixPrefix, fixMax]: [number, number],
+  prefix16: number,
+  prefix32: number,
+): void {
+  if (length <= fixMax) {
+    writer.uint8(fixPrefix | length);
+  } else if (length < 0x10000) {
+    writer.uint8(prefix16);
+    writer.uint16(length);
+  } else {
+    writer.uint8(prefix32);
+    writer.uint32(length);
+  }
+}
+
+function encodeTimestamp(writer: ByteWriter, value: Date): void {
+  const time = value.getTime();
+  if (Number.isNaN(time)) throw new RangeError("Cannot encode an invalid Date as MessagePack");
+  const seconds = Math.floor(time / 1000);
+  const nanoseconds = (time - seconds * 1000) * 1_000_000;
+
+  if (seconds >= 0 && seconds < 0x400000000) {
+    if (nanoseconds === 0 && seconds < 0x100000000) {
+      // timestamp 32
+      writer.uint8(0xd6);
+      writer.int8(TIMESTAMP_EXTENSION);
+      writer.uint32(seconds);
+    } else {
+      // timestamp 64
+      writer.uint8(0xd7);
+      writer.int8(TIMESTAMP_EXTENSION);
+      writer.uint64((BigInt(nanoseconds) << 34n) | BigInt(seconds));
+    }
+  } else {
+    // timestamp 96
+    writer.uint8(0xc7);
+    writer.uint8(12);
+    writer.int8(TIMESTAMP_EXTENSION);
+    writer.uint32(nanoseconds);
+    writer.int64(BigInt(seconds));
+  }
+}
+
+function decodeValue(reader: ByteReader): unknown {
+  const byte = reader.uint8();
+
+  if (byte < 0x80) return byte;
+  if (byte < 0x90) return decodeMap(reader, byte & 0x0f);
+  if (byte < 0xa0) return decodeArray(reader, byte & 0x0f);
+  if (byte < 0xc0) return reader.utf8(byte & 0x1f);
+  if (byte >= 0xe0) return byte - 0x100;
+
+  switch (byte) {
+    case 0xc0:
+      return null;
+    case 0xc2:
+      return false;
+    case 0xc3:
+      return true;
+    case 0xc4:
+      return reader.bytes(reader.uint8());
+    case 0xc5:
+      return reader.bytes(reader.uint16());
+    case 0xc6:
+      return reader.bytes(reader.uint32());
+    case 0xc7:
+      return decodeExtension(reader, reader.uint8());
+    case 0xc8:
+      return decodeExtension(reader, reader.uint16());
+    case 0xc9:
+      return decodeExtension(reader, reader.uint32());
+    case 0xca:
+      return reader.float32();
+    case 0xcb:
+      return reader.float64();
+    case 0xcc:
+      return reader.uint8();
+    case 0xcd:
+      return reader.uint16();
+    case 0xce:
+      return reader.uint32();
+    case 0xcf:
+      return toSafeNumber(reader.uint64());
+    case 0xd0:
+      return reader.int8();
+    case 0xd1:
+      return reader.int16();
+    case 0xd2:
+      return reader.int32();
+    case 0xd3:
+      return toSafeNumber(reader.int64());
+    case 0xd4:
+      return decodeExtension(reader, 1);
+    case 0xd5:
+      return decodeExtension(reader, 2);
+    case 0xd6:
+      return decodeExtension(reader, 4);
+    case 0xd7:
+      return decodeExtension(reader, 8);
+    case 0xd8:
+      return decodeExtension(reader, 16);
+    case 0xd9:
+      return reader.utf8(reader.uint8());
+    case 0xda:
+      return reader.utf8(reader.uint16());
+    case 0xdb:
+      return reader.utf8(reader.uint32());
+    case 0xdc:
+      return decodeArray(reader, reader.uint16());
+    case 0xdd:
+      return decodeArray(reader, reader.uint32());
+    case 0xde:
+      return decodeMap(reader, reader.uint16());
+    case 0xdf:
+      return decodeMap(reader, reader.uint32());
+    default:
+      throw new Error(`Invalid MessagePack format 0x${byte.toString(16)}`);
+  }
+}
+
+function decodeArray(reader: ByteReader, length: number): unknown[] {
+  const result: unknown[] = [];
+  for (let index = 0; index < length; index++) result.push(decodeValue(reader));
+  return result;
+}
+
+function decodeMap(reader: ByteReader, length: number): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (let index = 0; index < length; index++) {
+    const key = decodeValue(reader);
+    setEntry(result, key, decodeValue(reader));
+  }
+  return result;
+}
+
+function decodeExtension(reader: ByteReader, length: number): Date {
+  const type = reader.int8();
+  if (type !== TIMESTAMP_EXTENSION) {
+    throw new Error(`Unsupported MessagePack extension type ${type}`);
+  }
+  switch (length) {
+    case 4:
+      return new Date(reader.uint32() * 1000);
+    case 8: {
+      const value = reader.uint64();
+      const nanoseconds = Number(value >> 34n);
+      const seconds = Number(value & 0x3ffffffffn);
+      return new Date(seconds * 1000 + nanoseconds / 1_000_000);
+    }
+    case 12: {
+      const nanoseconds = reader.uint32();
+      const seconds = Number(reader.int64());
+      return new Date(seconds * 1000 + nanoseconds / 1_000_000);
+    }
+    default:
+      throw new Error(`Invalid MessagePack timestamp length ${length}`);
+  }
+}
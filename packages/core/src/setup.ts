@@ -1,6 +1,10 @@
-import type { ContractDefinition } from "@amqp-contract/contract";
+import type {
+  ContractDefinition,
+  ExchangeDefinition,
+  QueueDefinition,
+} from "@amqp-contract/contract";
 import { extractQueue } from "@amqp-contract/contract";
-import type { Channel } from "amqplib";
+import type { Channel, Options } from "amqplib";
 import { TechnicalError } from "./errors.js";
 
 /**
@@ -32,12 +36,7 @@ export async function setupAmqpTopology(
   const exchanges = Object.values(contract.exchanges ?? {}).filter((e) => e.name !== "");
   const exchangeResults = await Promise.allSettled(
     exchanges.map((exchange) =>
-      channel.assertExchange(exchange.name, exchange.type, {
-        ...(exchange.durable !== undefined && { durable: exchange.durable }),
-        ...(exchange.autoDelete !== undefined && { autoDelete: exchange.autoDelete }),
-        ...(exchange.internal !== undefined && { internal: exchange.internal }),
-        ...(exchange.arguments !== undefined && { arguments: exchange.arguments }),
-      }),
+      channel.assertExchange(exchange.name, ...exchangeAssertion(exchange)),
     ),
   );
   const exchangeErrors = exchangeResults
@@ -77,38 +76,7 @@ export async function setupAmqpTopology(
   const queueResults = await Promise.allSettled(
     queueEntries.map((queueEntry) => {
       const queue = extractQueue(queueEntry);
-      // Build queue arguments, merging dead letter configuration and queue type
-      const queueArguments: Record<string, unknown> = { ...queue.arguments };
-
-      // Set queue type
-      queueArguments["x-queue-type"] = queue.type;
-
-      if (queue.deadLetter) {
-        queueArguments["x-dead-letter-exchange"] = queue.deadLetter.exchange.name;
-        if (queue.deadLetter.routingKey) {
-          queueArguments["x-dead-letter-routing-key"] = queue.deadLetter.routingKey;
-        }
-      }
-
-      // Handle type-specific properties using discriminated union
-      if (queue.type === "quorum") {
-        return channel.assertQueue(queue.name, {
-          durable: true, // Quorum queues are always durable
-          arguments: queueArguments,
-        });
-      }
-
-      if (queue.maxPriority !== undefined) {
-        queueArguments["x-max-priority"] = queue.maxPriority;
-      }
-
-      // Classic queue
-      return channel.assertQueue(queue.name, {
-        ...(queue.durable !== undefined && { durable: queue.durable }),
-        ...(queue.exclusive !== undefined && { exclusive: queue.exclusive }),
-        ...(queue.autoDelete !== undefined && { autoDelete: queue.autoDelete }),
-        arguments: queueArguments,
-      });
+      return channel.assertQueue(queue.name, queueAssertion(queue));
     }),
   );
   const queueErrors = queueResults
@@ -167,3 +135,148 @@ export async function setupAmqpTopology(
     );
   }
 }
+
+/**
+ * Type and options `assertExchange` declares an exchange with.
+ *
+ * @internal
+ */
+export function exchangeAssertion(
+  exchange: ExchangeDefinition,
+): [type: string, options: Options.AssertExchange] {
+  // Delayed exchanges are declared with the delayed message plugin's
+  // exchange type, routing like `x-delayed-type`.
+  return [
+    exchange.delayed ? "x-delayed-message" : exchange.type,
+    {
+      ...(exchange.durable !== undefined && { durable: exchange.durable }),
+      ...(exchange.autoDelete !== undefined && { autoDelete: exchange.autoDelete }),
+      ...(exchange.internal !== undefined && { internal: exchange.internal }),
+      ...(exchange.delayed
+        ? { arguments: { ...exchange.arguments, "x-delayed-type": exchange.type } }
+        : exchange.arguments !== undefined && { arguments: exchange.arguments }),
+    },
+  ];
+}
+
+/**
+ * Options `assertQueue` declares a queue with, folding the dead letter
+ * configuration, queue type and type-specific properties into arguments.
+ *
+ * @internal
+ */
+export function queueAssertion(queue: QueueDefinition): Options.AssertQueue {
+  const queueArguments: Record<string, unknown> = { ...queue.arguments };
+
+  // Set queue type
+  queueArguments["x-queue-type"] = queue.type;
+
+  if (queue.deadLetter) {
+    queueArguments["x-dead-letter-exchange"] = queue.deadLetter.exchange.name;
+    if (queue.deadLetter.routingKey) {
+      queueArguments["x-dead-letter-routing-key"] = queue.deadLetter.routingKey;
+    }
+  }
+
+  // Handle type-specific properties using discriminated union
+  if (queue.type === "stream") {
+    if (queue.maxAge !== undefined) {
+      queueArguments["x-max-age"] = queue.maxAge;
+    }
+    if (queue.maxLengthBytes !== undefined) {
+      queueArguments["x-max-length-bytes"] = queue.maxLengthBytes;
+    }
+    if (queue.maxSegmentSizeBytes !== undefined) {
+      queueArguments["x-stream-max-segment-size-bytes"] = queue.maxSegmentSizeBytes;
+    }
+    return {
+      durable: true, // Stream queues are always durable
+      arguments: queueArguments,
+    };
+  }
+
+  if (queue.type === "quorum") {
+    return {
+      durable: true, // Quorum queues are always durable
+      arguments: queueArguments,
+    };
+  }
+
+  if (queue.maxPriority !== undefined) {
+    queueArguments["x-max-priority"] = queue.maxPriority;
+  }
+
+  // Classic queue
+  return {
+    ...(queue.durable !== undefined && { durable: queue.durable }),
+    ...(queue.exclusive !== undefined && { exclusive: queue.exclusive }),
+    ...(queue.autoDelete !== undefined && { autoDelete: queue.autoDelete }),
+    arguments: queueArguments,
+  };
+}
+
+/**
+ * Verify that the exchanges and queues of a contract exist, without creating
+ * them, using passive declarations (`checkExchange` / `checkQueue`).
+ *
+ * This is for brokers where the application lacks the `configure` permission
+ * needed by {@link setupAmqpTopology}. A failed passive declaration closes the
+ * channel it ran on, so each check after a failure runs on a new channel and
+ * the error lists every missing resource. Bindings cannot be checked
+ * passively and are not verified.
+ *
+ * @param connection - The AMQP connection to open verification channels on
+ * @param contract - The contract definition containing the topology specification
+ * @throws {TechnicalError} If resources are missing, or a check fails for another reason (e.g. access refused)
+ *
+ * @example
+ * ```typescript
+ * await verifyAmqpTopology(connection, contract);
+ * ```
+ */
+export async function verifyAmqpTopology(
+  connection: { createChannel(): Promise<Channel> },
+  contract: ContractDefinition,
+): Promise<void> {
+  const checks = [
+    ...Object.values(contract.exchanges ?? {})
+      .filter((exchange) => exchange.name !== "")
+      .map((exchange) => ({
+        resource: `exchange "${exchange.name}"`,
+        check: (channel: Channel) => channel.checkExchange(exchange.name),
+      })),
+    ...Object.values(contract.queues ?? {}).map((queueEntry) => {
+      const queue = extractQueue(queueEntry);
+      return {
+        resource: `queue "${queue.name}"`,
+        check: (channel: Channel) => channel.checkQueue(queue.name),
+      };
+    }),
+  ];
+
+  const missing: string[] = [];
+  let channel: Channel | undefined;
+  try {
+    for (const { resource, check } of checks) {
+      channel ??= await connection.createChannel();
+      try {
+        await check(channel);
+      } catch (error) {
+        // The broker closed the channel; the next check opens a new one.
+        channel = undefined;
+        if ((error as { code?: unknown }).code !== 404) {
+          throw new TechnicalError(`Failed to verify ${resource}`, error);
+        }
+        missing.push(resource);
+      }
+    }
+  } finally {
+    await channel?.close().catch(() => undefined);
+  }
+
+  if (missing.length > 0) {
+    throw new TechnicalError(
+      `AMQP topology verification failed, missing resources: ${missing.join(", ")}`,
+    );
+  }
+}
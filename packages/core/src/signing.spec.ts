@@ -0,0 +1,154 @@
+import { errAsync } from "neverthrow";
+import { generateKeyPairSync, randomBytes } from "node:crypto";
+import { describe, expect, it } from "vitest";
+import { KeyLookupError, SignatureVerificationError, TechnicalError } from "./errors.js";
+import {
+  InMemorySignatureVerifier,
+  SIGNATURE_HEADER,
+  SIGNATURE_KEY_ID_HEADER,
+  SIGNED_PROPERTIES_HEADER,
+  signMessage,
+  verifyMessageSignature,
+} from "./signing.js";
+
+const content = Buffer.from(JSON.stringify({ orderId: "order-1" }));
+const properties = {
+  appId: "billing-service",
+  contentType: "application/json",
+  messageId: "message-1",
+  timestamp: 1_700_000_000,
+};
+
+describe("signMessage / verifyMessageSignature", () => {
+  it("should sign messages with a shared HMAC secret", async () => {
+    // GIVEN
+    const secret = randomBytes(32);
+    const verifier = new InMemorySignatureVerifier({
+      "billing-service": { algorithm: "hmac-sha256", key: secret },
+    });
+
+    // WHEN
+    const headers = signMessage(content, properties, {
+      algorithm: "hmac-sha256",
+      keyId: "billing-service",
+      key: secret,
+    })._unsafeUnwrap();
+    const verified = await verifyMessageSignature(
+      content,
+      { ...properties, headers },
+      verifier,
+      "processOrder",
+    );
+
+    // THEN
+    expect(headers).toEqual({
+      [SIGNATURE_HEADER]: expect.any(String),
+      [SIGNATURE_KEY_ID_HEADER]: "billing-service",
+      [SIGNED_PROPERTIES_HEADER]: "appId,contentEncoding,contentType,messageId,timestamp,type",
+    });
+    expect(verified.isOk()).toBe(true);
+  });
+
+  it("should sign messages with an Ed25519 private key and verify them with its public key", async () => {
+    // GIVEN
+    const { privateKey, publicKey } = generateKeyPairSync("ed25519");
+    const verifier = new InMemorySignatureVerifier({
+      "billing-service": { algorithm: "ed25519", key: publicKey },
+    });
+
+    // WHEN
+    const headers = signMessage(content, properties, {
+      algorithm: "ed25519",
+      keyId: "billing-service",
+      key: privateKey,
+      properties: ["messageId"],
+    })._unsafeUnwrap();
+    const verified = await verifyMessageSignature(
+      content,
+      { messageId: "message-1", headers },
+      verifier,
+      "processOrder",
+    );
+
+    // THEN
+    expect(headers[SIGNED_PROPERTIES_HEADER]).toBe("messageId");
+    expect(verified.isOk()).toBe(true);
+  });
+
+  it("should reject unsigned, altered and untrusted messages with a SignatureVerificationError", async () => {
+    // GIVEN
+    const secret = randomBytes(32);
+    const verifier = new InMemorySignatureVerifier({
+      "billing-service": { algorithm: "hmac-sha256", key: secret },
+    });
+    const headers = signMessage(content, properties, {
+      algorithm: "hmac-sha256",
+      keyId: "billing-service",
+      key: secret,
+    })._unsafeUnwrap();
+    const forged = signMessage(content, properties, {
+      algorithm: "hmac-sha256",
+      keyId: "shipping-service",
+      key: secret,
+    })._unsafeUnwrap();
+
+    // WHEN
+    const results = await Promise.all([
+      verifyMessageSignature(content, properties, verifier, "processOrder"),
+      verifyMessageSignature(
+        Buffer.from(JSON.stringify({ orderId: "order-2" })),
+        { ...properties, headers },
+        verifier,
+        "processOrder",
+      ),
+      verifyMessageSignature(
+        content,
+        { ...properties, messageId: "message-2", headers },
+        verifier,
+        "processOrder",
+      ),
+      verifyMessageSignature(
+        content,
+        { ...properties, headers: { ...headers, [SIGNED_PROPERTIES_HEADER]: "replyTo" } },
+        verifier,
+        "processOrder",
+      ),
+      verifyMessageSignature(content, { ...properties, headers: forged }, verifier, "processOrder"),
+    ]);
+
+    // THEN
+    const causes = results.map((result) => result._unsafeUnwrapErr().cause);
+    expect(causes.every((cause) => cause instanceof SignatureVerificationError)).toBe(true);
+    expect(causes.map((cause) => (cause as SignatureVerificationError).reason)).toEqual([
+      "message is not signed",
+      "invalid signature",
+      "invalid signature",
+      `invalid "${SIGNED_PROPERTIES_HEADER}" header`,
+      'untrusted key id "shipping-service"',
+    ]);
+  });
+
+  it("should return a TechnicalError caused by a KeyLookupError when the key lookup fails", async () => {
+    // GIVEN
+    const headers = signMessage(content, properties, {
+      algorithm: "hmac-sha256",
+      keyId: "billing-service",
+      key: randomBytes(32),
+    })._unsafeUnwrap();
+    const unavailable = new TechnicalError("KMS throttled");
+
+    // WHEN
+    const verified = await verifyMessageSignature(
+      content,
+      { ...properties, headers },
+      { getKey: () => errAsync(unavailable) },
+      "processOrder",
+    );
+
+    // THEN
+    const error = verified._unsafeUnwrapErr();
+    expect(error.message).toBe('Failed to look up signature key "billing-service"');
+    expect(error.cause).toBeInstanceOf(KeyLookupError);
+    expect(error.cause).toMatchObject({ keyId: "billing-service", cause: unavailable });
+  });
+});
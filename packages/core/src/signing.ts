@@ -0,0 +1,268 @@
+import { errAsync, okAsync, Result, type ResultAsync } from "neverthrow";
+import {
+  createHmac,
+  type KeyLike,
+  sign as signData,
+  timingSafeEqual,
+  verify as verifyData,
+} from "node:crypto";
+import { KeyLookupError, SignatureVerificationError, TechnicalError } from "./errors.js";
+
+/**
+ * Header carrying the base64 signature of a message.
+ */
+export const SIGNATURE_HEADER = "x-signature";
+
+/**
+ * Header carrying the id of the key a message was signed with.
+ */
+export const SIGNATURE_KEY_ID_HEADER = "x-signature-key-id";
+
+/**
+ * Header listing, comma-separated, the message properties covered by the signature.
+ */
+export const SIGNED_PROPERTIES_HEADER = "x-signed-properties";
+
+/**
+ * Supported signature algorithms.
+ *
+ * - `hmac-sha256`: shared secret between the producer and its consumers
+ * - `ed25519`: the producer signs with a private key and consumers verify
+ *   with its public key, so consumers cannot forge messages
+ */
+export type SignatureAlgorithm = "hmac-sha256" | "ed25519";
+
+/**
+ * Message properties that can be covered by a signature. Properties rewritten
+ * by the broker or by retries, like `replyTo` or `expiration`, cannot be signed.
+ */
+export type SignedProperty =
+  | "appId"
+  | "contentEncoding"
+  | "contentType"
+  | "correlationId"
+  | "messageId"
+  | "timestamp"
+  | "type"
+  | "userId";
+
+/**
+ * Values of the message properties a signature may cover.
+ */
+type SignableProperties = Partial<Record<SignedProperty, unknown>>;
+
+const SIGNABLE_PROPERTIES: ReadonlySet<string> = new Set<SignedProperty>([
+  "appId",
+  "contentEncoding",
+  "contentType",
+  "correlationId",
+  "messageId",
+  "timestamp",
+  "type",
+  "userId",
+]);
+
+const DEFAULT_SIGNED_PROPERTIES: ReadonlyArray<SignedProperty> = [
+  "appId",
+  "contentEncoding",
+  "contentType",
+  "messageId",
+  "timestamp",
+  "type",
+];
+
+/**
+ * Client option signing every published message.
+ *
+ * @example
+ * ```typescript
+ * const signing: SigningOptions = {
+ *   algorithm: "ed25519",
+ *   keyId: "billing-service",
+ *   key: readFileSync("billing-service.key.pem", "utf8"),
+ * };
+ * ```
+ */
+export type SigningOptions = {
+  algorithm: SignatureAlgorithm;
+  /** Id consumers look the verification key up by, e.g. the producer's `appId`. */
+  keyId: string;
+  /** The HMAC secret, or the Ed25519 private key. */
+  key: KeyLike;
+  /**
+   * Message properties covered by the signature in addition to the body.
+   * Defaults to `appId`, `contentEncoding`, `contentType`, `messageId`,
+   * `timestamp` and `type`.
+   */
+  properties?: ReadonlyArray<SignedProperty> | undefined;
+};
+
+/**
+ * A key verifying the signatures of one key id.
+ */
+export type VerificationKey = {
+  algorithm: SignatureAlgorithm;
+  /** The HMAC secret, or the Ed25519 public key. */
+  key: KeyLike;
+};
+
+/**
+ * Source of the keys a consumer trusts, looked up by the key id of each message.
+ */
+export type SignatureVerifier = {
+  /** Key verifying the given key id, or `undefined` when the key id is not trusted. */
+  getKey(keyId: string): ResultAsync<VerificationKey | undefined, TechnicalError>;
+};
+
+/**
+ * {@link SignatureVerifier} trusting a fixed set of keys.
+ *
+ * @example
+ * ```typescript
+ * const verifier = new InMemorySignatureVerifier({
+ *   "billing-service": { algorithm: "ed25519", key: billingPublicKeyPem },
+ * });
+ * ```
+ */
+export class InMemorySignatureVerifier implements SignatureVerifier {
+  constructor(private readonly keys: Readonly<Record<string, VerificationKey>>) {}
+
+  getKey(keyId: string): ResultAsync<VerificationKey | undefined, TechnicalError> {
+    return okAsync(Object.hasOwn(this.keys, keyId) ? this.keys[keyId] : undefined);
+  }
+}
+
+/**
+ * Data covered by a signature: the key id, the algorithm and the signed
+ * properties as a JSON line, followed by the body. JSON escapes line breaks,
+ * so the first line break always ends the properties.
+ */
+function signedData(
+  content: Buffer,
+  keyId: string,
+  algorithm: SignatureAlgorithm,
+  propertyNames: ReadonlyArray<SignedProperty>,
+  properties: SignableProperties,
+): Buffer {
+  const signedProperties = propertyNames.map((name) => [name, properties[name] ?? null]);
+  return Buffer.concat([
+    Buffer.from(`${JSON.stringify([keyId, algorithm, signedProperties])}\n`),
+    content,
+  ]);
+}
+
+/**
+ * Sign a message body and properties, as they are published.
+ *
+ * @param content - The published message body
+ * @param properties - The published message properties
+ * @param options - The client's signing options
+ * @returns The headers to add to the message
+ *
+ * @internal
+ */
+export function signMessage(
+  content: Buffer,
+  properties: SignableProperties,
+  options: SigningOptions,
+): Result<Record<string, string>, TechnicalError> {
+  const propertyNames = options.properties ?? DEFAULT_SIGNED_PROPERTIES;
+  return Result.fromThrowable(
+    () => {
+      const data = signedData(content, options.keyId, options.algorithm, propertyNames, properties);
+      const signature =
+        options.algorithm === "ed25519"
+          ? signData(null, data, options.key)
+          : createHmac("sha256", options.key).update(data).digest();
+      return {
+        [SIGNATURE_HEADER]: signature.toString("base64"),
+        [SIGNATURE_KEY_ID_HEADER]: options.keyId,
+        [SIGNED_PROPERTIES_HEADER]: propertyNames.join(","),
+      };
+    },
+    (error) => new TechnicalError(`Failed to sign message with key "${options.keyId}"`, error),
+  )();
+}
+
+/**
+ * Verify the signature of a received message.
+ *
+ * Fails with a `TechnicalError` caused by a {@link SignatureVerificationError}
+ * when the message is unsigned, signed with an untrusted key id or algorithm,
+ * or was altered after signing, and with a `TechnicalError` caused by a
+ * {@link KeyLookupError} when the verifier fails to look the key up.
+ *
+ * @param content - The received message body
+ * @param properties - The received message properties, including headers
+ * @param verifier - The consumer's signature verifier
+ * @param consumerName - The consumer, for error messages
+ *
+ * @internal
+ */
+export function verifyMessageSignature(
+  content: Buffer,
+  properties: SignableProperties & { headers?: Record<string, unknown> | undefined },
+  verifier: SignatureVerifier,
+  consumerName: string,
+): ResultAsync<void, TechnicalError> {
+  const rejected = (reason: string) =>
+    errAsync<void, TechnicalError>(
+      new TechnicalError(
+        "Signature verification failed",
+        new SignatureVerificationError(consumerName, reason),
+      ),
+    );
+
+  const signature = properties.headers?.[SIGNATURE_HEADER];
+  const keyId = properties.headers?.[SIGNATURE_KEY_ID_HEADER];
+  const signedProperties = properties.headers?.[SIGNED_PROPERTIES_HEADER] ?? "";
+  if (typeof signature !== "string" || typeof keyId !== "string") {
+    return rejected("message is not signed");
+  }
+  if (typeof signedProperties !== "string") {
+    return rejected(`invalid "${SIGNED_PROPERTIES_HEADER}" header`);
+  }
+  const propertyNames = signedProperties === "" ? [] : signedProperties.split(",");
+  if (!propertyNames.every(isSignedProperty)) {
+    return rejected(`invalid "${SIGNED_PROPERTIES_HEADER}" header`);
+  }
+
+  return verifier
+    .getKey(keyId)
+    .mapErr(
+      (error) =>
+        new TechnicalError(
+          `Failed to look up signature key "${keyId}"`,
+          new KeyLookupError(keyId, error),
+        ),
+    )
+    .andThen((verificationKey) => {
+      if (verificationKey === undefined) {
+        return rejected(`untrusted key id "${keyId}"`);
+      }
+      const { algorithm, key } = verificationKey;
+      const data = signedData(content, keyId, algorithm, propertyNames, properties);
+      const expected = Buffer.from(signature, "base64");
+      const verified = Result.fromThrowable(
+        () =>
+          algorithm === "ed25519"
+            ? verifyData(null, data, key, expected)
+            : timingSafeCompare(createHmac("sha256", key).update(data).digest(), expected),
+        (error) => new TechnicalError(`Failed to verify signature with key "${keyId}"`, error),
+      )();
+      if (verified.isErr()) {
+        return errAsync<void, TechnicalError>(verified.error);
+      }
+      return verified.value
+        ? okAsync<void, TechnicalError>(undefined)
+        : rejected("invalid signature");
+    });
+}
+
+function isSignedProperty(name: string): name is SignedProperty {
+  return SIGNABLE_PROPERTIES.has(name);
+}
+
+function timingSafeCompare(actual: Buffer, expected: Buffer): boolean {
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
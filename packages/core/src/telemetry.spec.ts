@@ -5,6 +5,8 @@ import {
   endSpanError,
   endSpanSuccess,
   recordConsumeMetric,
+  recordCircuitBreakerTransition,
+  recordDuplicateMessage,
   recordPublishMetric,
   startConsumeSpan,
   startPublishSpan,
@@ -19,6 +21,8 @@ const noopProvider: TelemetryProvider = {
   getPublishLatencyHistogram: () => undefined,
   getConsumeLatencyHistogram: () => undefined,
   getLateRpcReplyCounter: () => undefined,
+  getDuplicateMessageCounter: () => undefined,
+  getCircuitBreakerTransitionCounter: () => undefined,
 };
 
 function createMockSpan() {
@@ -239,4 +243,59 @@ describe("Telemetry", () => {
       });
     });
   });
+
+  describe("recordDuplicateMessage", () => {
+    it("should do nothing when the counter is undefined", () => {
+      expect(() =>
+        recordDuplicateMessage(noopProvider, "test-queue", "testConsumer"),
+      ).not.toThrow();
+    });
+
+    it("should record the counter when available", () => {
+      const mockCounter = { add: vi.fn() };
+
+      const provider: TelemetryProvider = {
+        ...noopProvider,
+        getDuplicateMessageCounter: () =>
+          mockCounter as unknown as ReturnType<TelemetryProvider["getDuplicateMessageCounter"]>,
+      };
+
+      recordDuplicateMessage(provider, "test-queue", "testConsumer");
+
+      expect(mockCounter.add).toHaveBeenCalledWith(1, {
+        "messaging.system": "rabbitmq",
+        "messaging.destination.name": "test-queue",
+        "amqp.consumer.name": "testConsumer",
+      });
+    });
+  });
+
+  describe("recordCircuitBreakerTransition", () => {
+    it("should do nothing when the counter is undefined", () => {
+      expect(() =>
+        recordCircuitBreakerTransition(noopProvider, "test-queue", "testConsumer", "open"),
+      ).not.toThrow();
+    });
+
+    it("should record the counter with the state entered", () => {
+      const mockCounter = { add: vi.fn() };
+
+      const provider: TelemetryProvider = {
+        ...noopProvider,
+        getCircuitBreakerTransitionCounter: () =>
+          mockCounter as unknown as ReturnType<
+            TelemetryProvider["getCircuitBreakerTransitionCounter"]
+          >,
+      };
+
+      recordCircuitBreakerTransition(provider, "test-queue", "testConsumer", "half-open");
+
+      expect(mockCounter.add).toHaveBeenCalledWith(1, {
+        "messaging.system": "rabbitmq",
+        "messaging.destination.name": "test-queue",
+        "amqp.consumer.name": "testConsumer",
+        "amqp.circuit_breaker.state": "half-open",
+      });
+    });
+  });
 });
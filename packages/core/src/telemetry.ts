@@ -35,6 +35,8 @@ export const MessagingSemanticConventions = {
   MESSAGING_RABBITMQ_MESSAGE_DELIVERY_TAG: "messaging.rabbitmq.message.delivery_tag",
   AMQP_PUBLISHER_NAME: "amqp.publisher.name",
   AMQP_CONSUMER_NAME: "amqp.consumer.name",
+  AMQP_CIRCUIT_BREAKER_STATE: "amqp.circuit_breaker.state",
+  MESSAGING_BATCH_MESSAGE_COUNT: "messaging.batch.message_count",
 
   // Error attributes
   ERROR_TYPE: "error.type",
@@ -88,6 +90,18 @@ export type TelemetryProvider = {
    * OpenTelemetry is not available.
    */
   getLateRpcReplyCounter: () => Counter | undefined;
+
+  /**
+   * Get a counter for duplicate messages skipped by consumer deduplication.
+   * Returns undefined if OpenTelemetry is not available.
+   */
+  getDuplicateMessageCounter: () => Counter | undefined;
+
+  /**
+   * Get a counter for consumer circuit breaker state transitions.
+   * Returns undefined if OpenTelemetry is not available.
+   */
+  getCircuitBreakerTransitionCounter: () => Counter | undefined;
 };
 
 /**
@@ -120,6 +134,8 @@ let cachedConsumeCounter: Counter | undefined;
 let cachedPublishLatencyHistogram: Histogram | undefined;
 let cachedConsumeLatencyHistogram: Histogram | undefined;
 let cachedLateRpcReplyCounter: Counter | undefined;
+let cachedDuplicateMessageCounter: Counter | undefined;
+let cachedCircuitBreakerTransitionCounter: Counter | undefined;
 
 /**
  * Try to load the OpenTelemetry API module.
@@ -164,6 +180,8 @@ function getMeterInstruments(): {
   publishLatencyHistogram: Histogram | undefined;
   consumeLatencyHistogram: Histogram | undefined;
   lateRpcReplyCounter: Counter | undefined;
+  duplicateMessageCounter: Counter | undefined;
+  circuitBreakerTransitionCounter: Counter | undefined;
 } {
   if (cachedPublishCounter !== undefined) {
     return {
@@ -172,6 +190,8 @@ function getMeterInstruments(): {
       publishLatencyHistogram: cachedPublishLatencyHistogram,
       consumeLatencyHistogram: cachedConsumeLatencyHistogram,
       lateRpcReplyCounter: cachedLateRpcReplyCounter,
+      duplicateMessageCounter: cachedDuplicateMessageCounter,
+      circuitBreakerTransitionCounter: cachedCircuitBreakerTransitionCounter,
     };
   }
 
@@ -183,6 +203,8 @@ function getMeterInstruments(): {
       publishLatencyHistogram: undefined,
       consumeLatencyHistogram: undefined,
       lateRpcReplyCounter: undefined,
+      duplicateMessageCounter: undefined,
+      circuitBreakerTransitionCounter: undefined,
     };
   }
 
@@ -214,12 +236,27 @@ function getMeterInstruments(): {
     unit: "{message}",
   });
 
+  cachedDuplicateMessageCounter = meter.createCounter("amqp.worker.messages.duplicate", {
+    description: "Duplicate messages acknowledged without running the handler (deduplication)",
+    unit: "{message}",
+  });
+
+  cachedCircuitBreakerTransitionCounter = meter.createCounter(
+    "amqp.worker.circuit_breaker.transitions",
+    {
+      description: "Consumer circuit breaker state transitions, by the state entered",
+      unit: "{transition}",
+    },
+  );
+
   return {
     publishCounter: cachedPublishCounter,
     consumeCounter: cachedConsumeCounter,
     publishLatencyHistogram: cachedPublishLatencyHistogram,
     consumeLatencyHistogram: cachedConsumeLatencyHistogram,
     lateRpcReplyCounter: cachedLateRpcReplyCounter,
+    duplicateMessageCounter: cachedDuplicateMessageCounter,
+    circuitBreakerTransitionCounter: cachedCircuitBreakerTransitionCounter,
   };
 }
 
@@ -233,6 +270,8 @@ export const defaultTelemetryProvider: TelemetryProvider = {
   getPublishLatencyHistogram: () => getMeterInstruments().publishLatencyHistogram,
   getConsumeLatencyHistogram: () => getMeterInstruments().consumeLatencyHistogram,
   getLateRpcReplyCounter: () => getMeterInstruments().lateRpcReplyCounter,
+  getDuplicateMessageCounter: () => getMeterInstruments().duplicateMessageCounter,
+  getCircuitBreakerTransitionCounter: () => getMeterInstruments().circuitBreakerTransitionCounter,
 };
 
 /**
@@ -410,6 +449,49 @@ export function recordLateRpcReply(
   counter?.add(1, attributes);
 }
 
+/**
+ * Record a duplicate message that consumer deduplication acknowledged
+ * without running the handler.
+ */
+export function recordDuplicateMessage(
+  provider: TelemetryProvider,
+  queueName: string,
+  consumerName: string,
+): void {
+  const counter = provider.getDuplicateMessageCounter();
+
+  const attributes: Attributes = {
+    [MessagingSemanticConventions.MESSAGING_SYSTEM]:
+      MessagingSemanticConventions.MESSAGING_SYSTEM_RABBITMQ,
+    [MessagingSemanticConventions.MESSAGING_DESTINATION]: queueName,
+    [MessagingSemanticConventions.AMQP_CONSUMER_NAME]: consumerName,
+  };
+
+  counter?.add(1, attributes);
+}
+
+/**
+ * Record a consumer circuit breaker entering a new state.
+ */
+export function recordCircuitBreakerTransition(
+  provider: TelemetryProvider,
+  queueName: string,
+  consumerName: string,
+  state: "closed" | "open" | "half-open",
+): void {
+  const counter = provider.getCircuitBreakerTransitionCounter();
+
+  const attributes: Attributes = {
+    [MessagingSemanticConventions.MESSAGING_SYSTEM]:
+      MessagingSemanticConventions.MESSAGING_SYSTEM_RABBITMQ,
+    [MessagingSemanticConventions.MESSAGING_DESTINATION]: queueName,
+    [MessagingSemanticConventions.AMQP_CONSUMER_NAME]: consumerName,
+    [MessagingSemanticConventions.AMQP_CIRCUIT_BREAKER_STATE]: state,
+  };
+
+  counter?.add(1, attributes);
+}
+
 /**
  * Reset the cached OpenTelemetry API module and instruments.
  * For testing purposes only.
@@ -423,4 +505,6 @@ export function _resetTelemetryCacheForTesting(): void {
   cachedPublishLatencyHistogram = undefined;
   cachedConsumeLatencyHistogram = undefined;
   cachedLateRpcReplyCounter = undefined;
+  cachedDuplicateMessageCounter = undefined;
+  cachedCircuitBreakerTransitionCounter = undefined;
 }
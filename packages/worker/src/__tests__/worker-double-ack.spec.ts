@@ -50,6 +50,8 @@ describe("Worker defensive nack guard", () => {
       getConsumeLatencyHistogram: () =>
         noopHistogram as unknown as ReturnType<TelemetryProvider["getConsumeLatencyHistogram"]>,
       getLateRpcReplyCounter: () => undefined,
+      getDuplicateMessageCounter: () => undefined,
+      getCircuitBreakerTransitionCounter: () => undefined,
     };
 
     const TestMessage = z.object({ id: z.string() });
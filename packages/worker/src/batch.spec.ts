@@ -0,0 +1,76 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { MessageBatcher } from "./batch.js";
+
+describe("MessageBatcher", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should hand a batch over as soon as it is full", async () => {
+    // GIVEN
+    const batches: number[][] = [];
+    const batcher = new MessageBatcher<number>(2, 1_000, async (batch) => {
+      batches.push([...batch]);
+    });
+
+    // WHEN
+    const added = [batcher.add(1), batcher.add(2), batcher.add(3)];
+    await Promise.all(added.slice(0, 2));
+
+    // THEN
+    expect(batches).toEqual([[1, 2]]);
+  });
+
+  it("should hand a partial batch over once the wait time elapses", async () => {
+    // GIVEN
+    const batches: number[][] = [];
+    const batcher = new MessageBatcher<number>(10, 1_000, async (batch) => {
+      batches.push([...batch]);
+    });
+    const added = batcher.add(1);
+
+    // WHEN
+    await vi.advanceTimersByTimeAsync(999);
+    const beforeWaitTime = batches.length;
+    await vi.advanceTimersByTimeAsync(1);
+    await added;
+
+    // THEN
+    expect(beforeWaitTime).toBe(0);
+    expect(batches).toEqual([[1]]);
+  });
+
+  it("should reject every item of a batch whose handling failed", async () => {
+    // GIVEN
+    const batcher = new MessageBatcher<number>(2, 1_000, () => Promise.reject(new Error("boom")));
+
+    // WHEN
+    const added = [batcher.add(1), batcher.add(2)];
+
+    // THEN
+    await expect(Promise.allSettled(added)).resolves.toEqual([
+      { status: "rejected", reason: new Error("boom") },
+      { status: "rejected", reason: new Error("boom") },
+    ]);
+  });
+
+  it("should hand the current batch over on flush", async () => {
+    // GIVEN
+    const batches: number[][] = [];
+    const batcher = new MessageBatcher<number>(10, 1_000, async (batch) => {
+      batches.push([...batch]);
+    });
+    const added = batcher.add(1);
+
+    // WHEN
+    await batcher.flush();
+    await added;
+
+    // THEN
+    expect(batches).toEqual([[1]]);
+  });
+});
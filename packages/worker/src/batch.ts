@@ -0,0 +1,138 @@
+import type {
+  ConsumerOptions as AmqpClientConsumerOptions,
+  SignatureVerifier,
+} from "@amqp-contract/core";
+import type { HandlerError } from "./errors.js";
+import type { StreamOffset } from "./worker.js";
+
+/**
+ * Options of a batch consumer, see {@link defineBatchHandler}. They override
+ * the worker's `defaultConsumerOptions`.
+ *
+ * Batch consumers do not support the per-message features of regular
+ * consumers: the worker's `middlewares` and the `deduplication`,
+ * `middlewares`, `circuitBreaker`, `concurrency` and `ordering` consumer
+ * options, including from `defaultConsumerOptions`, do not apply to them.
+ * Their handler runs with the correlation id of the batch's messages when
+ * they all share it, and without causation id unless the batch holds a
+ * single message.
+ */
+export type BatchConsumerOptions = AmqpClientConsumerOptions & {
+  /**
+   * Maximum number of messages passed to the handler at once. Also used as
+   * the consumer `prefetch` when none is set: a lower prefetch keeps batches
+   * from filling up.
+   */
+  maxBatchSize: number;
+  /**
+   * Maximum time in ms the first message of a batch waits for the batch to
+   * fill up before the handler runs anyway. Defaults to 1s.
+   */
+  maxWaitMs?: number | undefined;
+  /**
+   * Starting point when consuming a stream queue. Only valid for handlers
+   * whose queue is defined with `type: "stream"`.
+   */
+  streamOffset?: StreamOffset;
+  /**
+   * Only accept messages signed by a key this verifier trusts, like the
+   * `signatureVerifier` consumer option.
+   */
+  signatureVerifier?: SignatureVerifier;
+};
+
+/**
+ * Failure of a single message of a batch.
+ */
+export type BatchMessageFailure = {
+  /** Index of the message in the batch passed to the handler */
+  index: number;
+  /** Error routed through the queue's retry policy, like a handler error */
+  error: HandlerError;
+};
+
+/**
+ * Successful outcome of a batch handler: either nothing, when every message
+ * was processed, or the messages that failed. Messages not listed in
+ * `failures` are acknowledged.
+ */
+export type BatchHandlerResult = void | { failures: ReadonlyArray<BatchMessageFailure> };
+
+/**
+ * Default time {@link BatchConsumerOptions.maxWaitMs} a batch waits to fill up.
+ *
+ * @internal
+ */
+export const DEFAULT_BATCH_MAX_WAIT_MS = 1_000;
+
+/**
+ * Whether a handler entry is a batch handler entry created by
+ * {@link defineBatchHandler}.
+ *
+ * @internal
+ */
+export function isBatchHandlerEntry(
+  entry: unknown,
+): entry is { type: "batch"; handler: unknown; options: BatchConsumerOptions } {
+  return (
+    typeof entry === "object" &&
+    entry !== null &&
+    !Array.isArray(entry) &&
+    (entry as { type?: unknown }).type === "batch"
+  );
+}
+
+/**
+ * Groups items into batches of at most `maxBatchSize`, handing a batch over
+ * once it is full or `maxWaitMs` after its first item was added.
+ *
+ * @internal
+ */
+export class MessageBatcher<T> {
+  private pending: Array<{
+    item: T;
+    resolve: () => void;
+    reject: (error: unknown) => void;
+  }> = [];
+  private timer: ReturnType<typeof setTimeout> | undefined;
+
+  constructor(
+    readonly maxBatchSize: number,
+    private readonly maxWaitMs: number,
+    private readonly onBatch: (batch: ReadonlyArray<T>) => Promise<void>,
+  ) {}
+
+  /**
+   * Add an item to the current batch.
+   *
+   * @returns A promise settling once the batch of the item has been handled
+   */
+  add(item: T): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.pending.push({ item, resolve, reject });
+      if (this.pending.length >= this.maxBatchSize) {
+        void this.flush();
+      } else if (this.pending.length === 1) {
+        this.timer = setTimeout(() => void this.flush(), this.maxWaitMs);
+      }
+    });
+  }
+
+  /**
+   * Hand the current batch over right away, if not empty.
+   */
+  async flush(): Promise<void> {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    const batch = this.pending;
+    this.pending = [];
+    if (batch.length === 0) return;
+
+    try {
+      await this.onBatch(batch.map(({ item }) => item));
+      for (const { resolve } of batch) resolve();
+    } catch (error: unknown) {
+      for (const { reject } of batch) reject(error);
+    }
+  }
+}
@@ -0,0 +1,97 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { CircuitBreaker, type CircuitState } from "./circuit-breaker.js";
+
+describe("CircuitBreaker", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const createBreaker = () => {
+    const transitions: CircuitState[] = [];
+    const breaker = new CircuitBreaker(
+      { failureThreshold: 2, windowMs: 1_000, resetTimeoutMs: 5_000 },
+      (state) => transitions.push(state),
+    );
+    return { breaker, transitions };
+  };
+
+  it("should open after the failure threshold is reached within the window", async () => {
+    // GIVEN
+    const { breaker, transitions } = createBreaker();
+
+    // WHEN
+    breaker.record(true, "run");
+    breaker.record(true, "run");
+
+    // THEN
+    expect(transitions).toEqual(["open"]);
+    expect(await breaker.admit()).toBe("reject");
+  });
+
+  it("should not count failures that left the window", () => {
+    // GIVEN
+    const { breaker, transitions } = createBreaker();
+    breaker.record(true, "run");
+    vi.advanceTimersByTime(1_000);
+
+    // WHEN
+    breaker.record(true, "run");
+
+    // THEN
+    expect(transitions).toEqual([]);
+    expect(breaker.state).toBe("closed");
+  });
+
+  it("should admit a single probe once half-open and close when it succeeds", async () => {
+    // GIVEN
+    const { breaker, transitions } = createBreaker();
+    breaker.record(true, "run");
+    breaker.record(true, "run");
+    vi.advanceTimersByTime(5_000);
+
+    // WHEN
+    const probe = await breaker.admit();
+    const waiting = breaker.admit();
+    breaker.record(false, probe);
+
+    // THEN
+    expect(probe).toBe("probe");
+    expect(await waiting).toBe("run");
+    expect(transitions).toEqual(["open", "half-open", "closed"]);
+  });
+
+  it("should open again when the probe fails", async () => {
+    // GIVEN
+    const { breaker, transitions } = createBreaker();
+    breaker.record(true, "run");
+    breaker.record(true, "run");
+    vi.advanceTimersByTime(5_000);
+
+    // WHEN
+    const probe = await breaker.admit();
+    const waiting = breaker.admit();
+    breaker.record(true, probe);
+
+    // THEN
+    expect(await waiting).toBe("reject");
+    expect(transitions).toEqual(["open", "half-open", "open"]);
+  });
+
+  it("should not half-open once disposed", () => {
+    // GIVEN
+    const { breaker, transitions } = createBreaker();
+    breaker.record(true, "run");
+    breaker.record(true, "run");
+
+    // WHEN
+    breaker.dispose();
+    vi.advanceTimersByTime(5_000);
+
+    // THEN
+    expect(transitions).toEqual(["open"]);
+  });
+});
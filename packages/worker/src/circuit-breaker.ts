@@ -0,0 +1,142 @@
+/**
+ * Per-consumer circuit breaker options.
+ *
+ * The breaker counts handler failures with a `RetryableError` — the errors
+ * that signal a transient, usually downstream, problem. Once
+ * `failureThreshold` of them happen within `windowMs`, the circuit opens:
+ * the consumer is paused and the messages it already received are requeued
+ * without running the handler. After `resetTimeoutMs`, the circuit
+ * half-opens and the consumer resumes with a single probe message. The
+ * circuit closes if the probe does not fail with a `RetryableError`, and
+ * opens again otherwise.
+ */
+export type CircuitBreakerOptions = {
+  /** Number of `RetryableError` failures within `windowMs` that opens the circuit. */
+  failureThreshold: number;
+  /** Sliding window in ms over which failures are counted. Defaults to 60s. */
+  windowMs?: number | undefined;
+  /** Time in ms the circuit stays open before a probe message is let through. Defaults to 30s. */
+  resetTimeoutMs?: number | undefined;
+};
+
+/**
+ * State of a consumer circuit breaker.
+ */
+export type CircuitState = "closed" | "open" | "half-open";
+
+const DEFAULT_WINDOW_MS = 60_000;
+const DEFAULT_RESET_TIMEOUT_MS = 30_000;
+
+/**
+ * Whether a delivered message may be processed:
+ *
+ * - `run`: the circuit is closed
+ * - `probe`: the circuit is half-open and this message is the probe
+ * - `reject`: the circuit is open; the message must be requeued unprocessed
+ *
+ * @internal
+ */
+export type CircuitAdmission = "run" | "probe" | "reject";
+
+/**
+ * Circuit breaker state machine for one consumer.
+ *
+ * @internal
+ */
+export class CircuitBreaker {
+  private currentState: CircuitState = "closed";
+  private failures: number[] = [];
+  private readonly windowMs: number;
+  private readonly resetTimeoutMs: number;
+  private resetTimer: ReturnType<typeof setTimeout> | undefined;
+  /** Settles once the in-flight probe has been processed. */
+  private probe: Promise<void> | undefined;
+  private endProbe: (() => void) | undefined;
+  private disposed = false;
+
+  constructor(
+    private readonly options: CircuitBreakerOptions,
+    private readonly onStateChange: (state: CircuitState) => void,
+  ) {
+    this.windowMs = options.windowMs ?? DEFAULT_WINDOW_MS;
+    this.resetTimeoutMs = options.resetTimeoutMs ?? DEFAULT_RESET_TIMEOUT_MS;
+  }
+
+  get state(): CircuitState {
+    return this.currentState;
+  }
+
+  /**
+   * Decide whether a delivered message may be processed. While a probe is in
+   * flight, other messages wait for its outcome.
+   */
+  async admit(): Promise<CircuitAdmission> {
+    while (this.currentState === "half-open" && this.probe) {
+      await this.probe;
+    }
+    if (this.currentState === "open") return "reject";
+    if (this.currentState === "half-open") {
+      this.probe = new Promise((resolve) => {
+        this.endProbe = resolve;
+      });
+      return "probe";
+    }
+    return "run";
+  }
+
+  /**
+   * Record the outcome of a message admitted by {@link admit}.
+   *
+   * @param failed - Whether the handler failed with a `RetryableError`
+   * @param admission - What {@link admit} returned for the message
+   */
+  record(failed: boolean, admission: CircuitAdmission): void {
+    if (admission === "probe") {
+      const endProbe = this.endProbe;
+      this.probe = undefined;
+      this.endProbe = undefined;
+      if (failed) {
+        this.open();
+      } else {
+        this.failures = [];
+        this.transition("closed");
+      }
+      endProbe?.();
+      return;
+    }
+
+    if (!failed || this.currentState !== "closed") return;
+    const now = Date.now();
+    this.failures = this.failures.filter((time) => time > now - this.windowMs);
+    this.failures.push(now);
+    if (this.failures.length >= this.options.failureThreshold) {
+      this.open();
+    }
+  }
+
+  /**
+   * Stop the reset timer, and keep the circuit from half-opening again.
+   */
+  dispose(): void {
+    this.disposed = true;
+    clearTimeout(this.resetTimer);
+    this.resetTimer = undefined;
+  }
+
+  private open(): void {
+    this.failures = [];
+    this.transition("open");
+    clearTimeout(this.resetTimer);
+    if (this.disposed) return;
+    this.resetTimer = setTimeout(() => {
+      this.resetTimer = undefined;
+      this.transition("half-open");
+    }, this.resetTimeoutMs);
+  }
+
+  private transition(state: CircuitState): void {
+    if (state === this.currentState) return;
+    this.currentState = state;
+    this.onStateChange(state);
+  }
+}
@@ -0,0 +1,101 @@
+import type { ConsumeMessage } from "amqplib";
+import { describe, expect, it } from "vitest";
+import { ConsumerScheduler, resolveOrderingKey } from "./concurrency.js";
+
+describe("ConsumerScheduler", () => {
+  const deferred = () => {
+    let resolve!: () => void;
+    const promise = new Promise<void>((r) => {
+      resolve = r;
+    });
+    return { promise, resolve };
+  };
+
+  it("should run at most `limit` tasks at once", async () => {
+    // GIVEN
+    const scheduler = new ConsumerScheduler(2);
+    const gates = [deferred(), deferred(), deferred()];
+    const started: number[] = [];
+
+    // WHEN
+    const runs = gates.map((gate, index) =>
+      scheduler.run(undefined, () => {
+        started.push(index);
+        return gate.promise;
+      }),
+    );
+    await Promise.resolve();
+    const startedBeforeRelease = [...started];
+    gates[0]!.resolve();
+    await runs[0];
+    await Promise.resolve();
+
+    // THEN
+    expect(startedBeforeRelease).toEqual([0, 1]);
+    expect(started).toEqual([0, 1, 2]);
+    gates[1]!.resolve();
+    gates[2]!.resolve();
+    await Promise.all(runs);
+  });
+
+  it("should run tasks sharing a key in order and other keys in parallel", async () => {
+    // GIVEN
+    const scheduler = new ConsumerScheduler();
+    const gate = deferred();
+    const events: string[] = [];
+    const task = (label: string, wait?: Promise<void>) => async () => {
+      events.push(`${label}:start`);
+      await wait;
+      events.push(`${label}:end`);
+    };
+
+    // WHEN
+    const runs = [
+      scheduler.run("order-1", task("a1", gate.promise)),
+      scheduler.run("order-1", task("a2")),
+      scheduler.run("order-2", task("b1")),
+    ];
+    await runs[2];
+    const beforeRelease = [...events];
+    gate.resolve();
+    await Promise.all(runs);
+
+    // THEN
+    expect(beforeRelease).toEqual(["a1:start", "b1:start", "b1:end"]);
+    expect(events.slice(3)).toEqual(["a1:end", "a2:start", "a2:end"]);
+  });
+
+  it("should keep going with a key after a task fails", async () => {
+    // GIVEN
+    const scheduler = new ConsumerScheduler(1);
+
+    // WHEN
+    const failed = scheduler.run("order-1", () => Promise.reject(new Error("boom")));
+    const next = scheduler.run("order-1", () => Promise.resolve("done"));
+
+    // THEN
+    await expect(failed).rejects.toThrow("boom");
+    await expect(next).resolves.toBe("done");
+  });
+});
+
+describe("resolveOrderingKey", () => {
+  const rawMessage = {
+    properties: { headers: { "x-aggregate-id": 42 } },
+  } as unknown as ConsumeMessage;
+  const message = { payload: { orderId: "order-1" }, headers: undefined };
+
+  it("should read the key from a header", () => {
+    expect(resolveOrderingKey({ header: "x-aggregate-id" }, message, rawMessage)).toBe("42");
+  });
+
+  it("should compute the key from the message", () => {
+    expect(
+      resolveOrderingKey(
+        ({ payload }) => (payload as { orderId: string }).orderId,
+        message,
+        rawMessage,
+      ),
+    ).toBe("order-1");
+  });
+});
@@ -0,0 +1,123 @@
+import type { ConsumeMessage } from "amqplib";
+
+/**
+ * Where the ordering key of a message comes from:
+ *
+ * - `{ header }`: the value of the given message header
+ * - a function of the validated message and the raw AMQP message
+ *
+ * Messages without a key are not ordered relative to any other message, nor
+ * are messages for which the function throws: the error is logged and the
+ * message is processed without ordering.
+ */
+export type OrderingKey<TMessage = { payload: unknown; headers: unknown }> =
+  | { header: string }
+  | ((message: TMessage, rawMessage: ConsumeMessage) => string | undefined);
+
+/**
+ * Consumer ordering options.
+ *
+ * With `mode: "per-key"`, messages sharing a key are processed one after the
+ * other, in delivery order, while messages with different keys run in
+ * parallel. A message is only considered processed once it has been acked,
+ * nacked or republished for retry, so a retried message is processed after
+ * the messages of the same key that followed it. Since the key is only known
+ * once the message is validated, messages are decoded and validated one at a
+ * time, in delivery order.
+ */
+export type OrderingOptions<TMessage = { payload: unknown; headers: unknown }> = {
+  mode: "per-key";
+  key: OrderingKey<TMessage>;
+};
+
+/**
+ * Resolve the ordering key of a message.
+ *
+ * @internal
+ */
+export function resolveOrderingKey(
+  key: OrderingKey,
+  message: { payload: unknown; headers: unknown },
+  rawMessage: ConsumeMessage,
+): string | undefined {
+  if (typeof key === "function") {
+    return key(message, rawMessage);
+  }
+  const value: unknown = rawMessage.properties.headers?.[key.header];
+  return typeof value === "string" || typeof value === "number" ? String(value) : undefined;
+}
+
+/**
+ * Schedules the processing of a consumer's messages: at most `limit` tasks
+ * run at once, and tasks sharing a key run one after the other, in the order
+ * they were scheduled.
+ *
+ * @internal
+ */
+export class ConsumerScheduler {
+  private active = 0;
+  private readonly waiting: Array<() => void> = [];
+  /** Last scheduled task of every key, settled once it is done. */
+  private readonly keyTails = new Map<string, Promise<void>>();
+  /** Last step run by {@link inDeliveryOrder}, settled once it is done. */
+  private deliveryTail: Promise<void> = Promise.resolve();
+
+  constructor(private readonly limit: number = Number.POSITIVE_INFINITY) {}
+
+  /**
+   * Run a task once the previous task with the same key is done and a slot
+   * is free.
+   */
+  run<T>(key: string | undefined, task: () => PromiseLike<T>): Promise<T> {
+    if (key === undefined) {
+      return this.runInSlot(task);
+    }
+
+    const previous = this.keyTails.get(key) ?? Promise.resolve();
+    const result = previous.then(() => this.runInSlot(task));
+    const tail = result.then(
+      () => undefined,
+      () => undefined,
+    );
+    this.keyTails.set(key, tail);
+    void tail.then(() => {
+      // Forget keys once their last task is done so the map stays bounded.
+      if (this.keyTails.get(key) === tail) this.keyTails.delete(key);
+    });
+    return result;
+  }
+
+  /**
+   * Run a step once the steps of the previously delivered messages are done.
+   * Ordered consumers parse messages and schedule them with {@link run} in
+   * such a step, so that messages taking longer to decode or validate cannot
+   * be scheduled ahead of the messages delivered before them.
+   */
+  inDeliveryOrder<T>(step: () => PromiseLike<T>): Promise<T> {
+    const result = this.deliveryTail.then(step);
+    this.deliveryTail = result.then(
+      () => undefined,
+      () => undefined,
+    );
+    return result;
+  }
+
+  private async runInSlot<T>(task: () => PromiseLike<T>): Promise<T> {
+    if (this.active >= this.limit) {
+      // The slot is handed over by the task releasing it.
+      await new Promise<void>((resolve) => this.waiting.push(resolve));
+    } else {
+      this.active++;
+    }
+    try {
+      return await task();
+    } finally {
+      const next = this.waiting.shift();
+      if (next) {
+        next();
+      } else {
+        this.active--;
+      }
+    }
+  }
+}
@@ -1,10 +1,10 @@
-import { deflate, gzip } from "node:zlib";
+import * as zlib from "node:zlib";
 import { describe, expect, it } from "vitest";
 import { decompressBuffer } from "./decompression.js";
 import { promisify } from "node:util";
 
-const gzipAsync = promisify(gzip);
-const deflateAsync = promisify(deflate);
+const gzipAsync = promisify(zlib.gzip);
+const deflateAsync = promisify(zlib.deflate);
 
 describe("Decompression utilities", () => {
   describe("decompressBuffer", () => {
@@ -33,6 +33,27 @@ describe("Decompression utilities", () => {
       expect(decompressed).toEqual(testData);
     });
 
+    it("should decompress brotli-compressed data", async () => {
+      const testData = Buffer.from(JSON.stringify({ message: "Hello, World!" }));
+      const compressed = zlib.brotliCompressSync(testData);
+
+      const decompressed = (await decompressBuffer(compressed, "br"))._unsafeUnwrap();
+
+      expect(decompressed).toEqual(testData);
+    });
+
+    it.skipIf(typeof zlib.zstdCompressSync !== "function")(
+      "should decompress zstd-compressed data",
+      async () => {
+        const testData = Buffer.from(JSON.stringify({ message: "Hello, World!" }));
+        const compressed = zlib.zstdCompressSync(testData);
+
+        const decompressed = (await decompressBuffer(compressed, "zstd"))._unsafeUnwrap();
+
+        expect(decompressed).toEqual(testData);
+      },
+    );
+
     it("should handle case-insensitive content-encoding", async () => {
       const testData = Buffer.from(JSON.stringify({ message: "Hello, World!" }));
       const compressed = await gzipAsync(testData);
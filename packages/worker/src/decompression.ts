@@ -1,15 +1,16 @@
 import { TechnicalError } from "@amqp-contract/core";
 import { errAsync, okAsync, ResultAsync } from "neverthrow";
-import { gunzip, inflate } from "node:zlib";
+import * as zlib from "node:zlib";
 import { promisify } from "node:util";
 
-const gunzipAsync = promisify(gunzip);
-const inflateAsync = promisify(inflate);
+const gunzipAsync = promisify(zlib.gunzip);
+const inflateAsync = promisify(zlib.inflate);
+const brotliDecompressAsync = promisify(zlib.brotliDecompress);
 
 /**
  * Supported content encodings for message decompression.
  */
-const SUPPORTED_ENCODINGS = ["gzip", "deflate"] as const;
+const SUPPORTED_ENCODINGS = ["gzip", "deflate", "br", "zstd"] as const;
 
 /**
  * Type for supported content encodings.
@@ -27,7 +28,7 @@ function isSupportedEncoding(encoding: string): encoding is SupportedEncoding {
  * Decompress a buffer based on the content-encoding header.
  *
  * @param buffer - The buffer to decompress
- * @param contentEncoding - The content-encoding header value (e.g., 'gzip', 'deflate')
+ * @param contentEncoding - The content-encoding header value (e.g., 'gzip', 'br')
  * @returns A ResultAsync resolving to the decompressed buffer or a TechnicalError
  *
  * @internal
@@ -63,5 +64,23 @@ export function decompressBuffer(
         inflateAsync(buffer),
         (error) => new TechnicalError("Failed to decompress deflate", error),
       );
+    case "br":
+      return ResultAsync.fromPromise(
+        brotliDecompressAsync(buffer),
+        (error) => new TechnicalError("Failed to decompress br", error),
+      );
+    case "zstd":
+      // Looked up at call time: zstd is missing from older Node.js versions
+      if (typeof zlib.zstdDecompress !== "function") {
+        return errAsync(
+          new TechnicalError(
+            `zstd decompression is not supported by Node.js ${process.version}, it requires Node.js 22.15 or later`,
+          ),
+        );
+      }
+      return ResultAsync.fromPromise(
+        promisify(zlib.zstdDecompress)(buffer),
+        (error) => new TechnicalError("Failed to decompress zstd", error),
+      );
   }
 }
@@ -0,0 +1,82 @@
+import type { ConsumeMessage } from "amqplib";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { InMemoryDeduplicationStore, resolveDeduplicationId } from "./deduplication.js";
+
+describe("InMemoryDeduplicationStore", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should report recorded keys until their TTL elapses", async () => {
+    // GIVEN
+    const store = new InMemoryDeduplicationStore({ ttlMs: 1_000 });
+    await store.add("a");
+
+    // WHEN
+    const beforeExpiry = await store.has("a");
+    vi.advanceTimersByTime(1_000);
+    const afterExpiry = await store.has("a");
+
+    // THEN
+    expect({
+      beforeExpiry: beforeExpiry._unsafeUnwrap(),
+      afterExpiry: afterExpiry._unsafeUnwrap(),
+    }).toEqual({ beforeExpiry: true, afterExpiry: false });
+  });
+
+  it("should evict the least recently used key when full", async () => {
+    // GIVEN
+    const store = new InMemoryDeduplicationStore({ maxEntries: 2 });
+    await store.add("a");
+    await store.add("b");
+    await store.has("a");
+
+    // WHEN
+    await store.add("c");
+
+    // THEN
+    const results = await Promise.all(["a", "b", "c"].map((key) => store.has(key)));
+    expect(results.map((result) => result._unsafeUnwrap())).toEqual([true, false, true]);
+  });
+});
+
+describe("resolveDeduplicationId", () => {
+  const rawMessage = (properties: Partial<ConsumeMessage["properties"]>) =>
+    ({ properties: { headers: {}, ...properties } }) as unknown as ConsumeMessage;
+  const message = { payload: { orderId: "order-1" }, headers: undefined };
+
+  it.each([
+    {
+      description: "the messageId property by default",
+      key: undefined,
+      raw: rawMessage({ messageId: "msg-1" }),
+      expected: "msg-1",
+    },
+    {
+      description: "undefined when there is no messageId",
+      key: "messageId" as const,
+      raw: rawMessage({}),
+      expected: undefined,
+    },
+    {
+      description: "a header value",
+      key: { header: "x-event-id" },
+      raw: rawMessage({ headers: { "x-event-id": 42 } }),
+      expected: "42",
+    },
+    {
+      description: "the result of a key function",
+      key: (msg: typeof message) => msg.payload.orderId,
+      raw: rawMessage({}),
+      expected: "order-1",
+    },
+  ])("should resolve $description", ({ key, raw, expected }) => {
+    expect(
+      resolveDeduplicationId(key as Parameters<typeof resolveDeduplicationId>[0], message, raw),
+    ).toBe(expected);
+  });
+});
@@ -0,0 +1,117 @@
+import type { TechnicalError } from "@amqp-contract/core";
+import type { ConsumeMessage } from "amqplib";
+import { okAsync, type ResultAsync } from "neverthrow";
+
+/**
+ * Storage for the ids of messages that have already been processed.
+ *
+ * Keys are scoped by the worker as `<consumerName>:<messageId>`, so a single
+ * store can be shared by every consumer of a worker — or by several worker
+ * instances, when backed by a shared database such as Redis.
+ */
+export type DeduplicationStore = {
+  /** Whether the key has been recorded and has not expired yet. */
+  has(key: string): ResultAsync<boolean, TechnicalError>;
+  /** Record the key as processed. */
+  add(key: string): ResultAsync<void, TechnicalError>;
+};
+
+/**
+ * Where the deduplication id of a message comes from:
+ *
+ * - `"messageId"`: the AMQP `messageId` property
+ * - `{ header }`: the value of the given message header
+ * - a function of the validated message and the raw AMQP message
+ *
+ * Messages without an id are processed normally and never deduplicated.
+ */
+export type DeduplicationKey<TMessage = { payload: unknown; headers: unknown }> =
+  | "messageId"
+  | { header: string }
+  | ((message: TMessage, rawMessage: ConsumeMessage) => string | undefined);
+
+/**
+ * Consumer deduplication options.
+ *
+ * Before running the handler, the worker looks the message id up in `store`.
+ * Duplicates are acknowledged without running the handler. The id is
+ * recorded only once the handler succeeded and the message was acked, so a
+ * failed attempt never hides a later retry.
+ *
+ * For RPC handlers, duplicates are acknowledged without a reply.
+ */
+export type DeduplicationOptions<TMessage = { payload: unknown; headers: unknown }> = {
+  store: DeduplicationStore;
+  /** Where the message id comes from. Defaults to `"messageId"`. */
+  key?: DeduplicationKey<TMessage>;
+};
+
+/**
+ * Options for {@link InMemoryDeduplicationStore}.
+ */
+export type InMemoryDeduplicationStoreOptions = {
+  /** Maximum number of ids kept; the least recently used ids are evicted first. Defaults to 10 000. */
+  maxEntries?: number;
+  /** Time in ms after which a recorded id expires. Defaults to one hour. */
+  ttlMs?: number;
+};
+
+/**
+ * {@link DeduplicationStore} that keeps ids in memory, bounded by an LRU
+ * policy and a TTL.
+ *
+ * Ids are only shared within the current process, so duplicates delivered
+ * to another worker instance — or redelivered after a restart — are not
+ * detected. Use a shared store for those.
+ */
+export class InMemoryDeduplicationStore implements DeduplicationStore {
+  private readonly maxEntries: number;
+  private readonly ttlMs: number;
+  /** Key → expiry time in ms. Map iteration order doubles as the LRU order. */
+  private readonly entries = new Map<string, number>();
+
+  constructor(options: InMemoryDeduplicationStoreOptions = {}) {
+    this.maxEntries = options.maxEntries ?? 10_000;
+    this.ttlMs = options.ttlMs ?? 3_600_000;
+  }
+
+  has(key: string): ResultAsync<boolean, TechnicalError> {
+    const expiresAt = this.entries.get(key);
+    if (expiresAt === undefined) return okAsync(false);
+    this.entries.delete(key);
+    if (expiresAt <= Date.now()) return okAsync(false);
+    // Re-insert to mark the key as most recently used.
+    this.entries.set(key, expiresAt);
+    return okAsync(true);
+  }
+
+  add(key: string): ResultAsync<void, TechnicalError> {
+    this.entries.delete(key);
+    this.entries.set(key, Date.now() + this.ttlMs);
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+    return okAsync(undefined);
+  }
+}
+
+/**
+ * Extract the deduplication id of a message.
+ *
+ * @internal
+ */
+export function resolveDeduplicationId(
+  key: DeduplicationKey | undefined,
+  message: { payload: unknown; headers: unknown },
+  rawMessage: ConsumeMessage,
+): string | undefined {
+  if (key === undefined || key === "messageId") {
+    const messageId: unknown = rawMessage.properties.messageId;
+    return typeof messageId === "string" && messageId.length > 0 ? messageId : undefined;
+  }
+  if (typeof key === "function") {
+    return key(message, rawMessage);
+  }
+  const value: unknown = rawMessage.properties.headers?.[key.header];
+  return typeof value === "string" || typeof value === "number" ? String(value) : undefined;
+}
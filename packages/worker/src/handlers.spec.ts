@@ -7,7 +7,7 @@ import {
   defineQueue,
   defineRpc,
 } from "@amqp-contract/contract";
-import { defineHandler, defineHandlers } from "./handlers.js";
+import { defineBatchHandler, defineHandler, defineHandlers } from "./handlers.js";
 import { describe, expect, it } from "vitest";
 import type { ConsumeMessage } from "amqplib";
 import { z } from "zod";
@@ -137,6 +137,34 @@ describe("handlers", () => {
     });
   });
 
+  describe("defineBatchHandler", () => {
+    it("should create a batch handler entry", () => {
+      // GIVEN
+      const handler = (messages: ReadonlyArray<{ payload: { id: string; data: string } }>) => {
+        console.log(messages.length);
+        return okAsync(undefined);
+      };
+
+      // WHEN
+      const result = defineBatchHandler(testContract, "testConsumer", handler, {
+        maxBatchSize: 100,
+      });
+
+      // THEN
+      expect(result).toEqual({ type: "batch", handler, options: { maxBatchSize: 100 } });
+    });
+
+    it("should throw error if name is not in contract", () => {
+      // WHEN/THEN
+      expect(() => {
+        // @ts-expect-error Testing runtime validation with invalid name
+        defineBatchHandler(testContract, "nonExistent", () => okAsync(undefined), {
+          maxBatchSize: 100,
+        });
+      }).toThrow('Handler target "nonExistent" not found in contract.');
+    });
+  });
+
   describe("defineHandlers (safe handlers)", () => {
     it("should create multiple safe handlers spanning consumers and RPCs", () => {
       // GIVEN
@@ -3,12 +3,18 @@ import type {
   InferConsumerNames,
   InferRpcNames,
 } from "@amqp-contract/contract";
+import type { BatchConsumerOptions } from "./batch.js";
 import type {
+  WorkerInferConsumedMessage,
+  WorkerInferConsumerBatchHandler,
+  WorkerInferConsumerBatchHandlerEntry,
   WorkerInferConsumerHandler,
   WorkerInferConsumerHandlerEntry,
   WorkerInferHandlers,
+  WorkerInferRpcConsumedMessage,
   WorkerInferRpcHandler,
   WorkerInferRpcHandlerEntry,
+  WorkerInferRpcResponse,
 } from "./types.js";
 import { ConsumerOptions } from "./worker.js";
 
@@ -90,7 +96,7 @@ function validateHandlers<TContract extends ContractDefinition>(
  * @param handler - The handler function — for consumers, returns
  *   `ResultAsync<void, HandlerError>`; for RPCs, returns
  *   `ResultAsync<TResponse, HandlerError>`.
- * @param options - Optional consumer options (prefetch)
+ * @param options - Optional consumer options (prefetch, middlewares, ...)
  * @returns A type-safe handler that can be used with TypedAmqpWorker
  *
  * @example Consumer handler
@@ -133,7 +139,7 @@ export function defineHandler<
   contract: TContract,
   name: TName,
   handler: WorkerInferConsumerHandler<TContract, TName>,
-  options: ConsumerOptions,
+  options: ConsumerOptions<WorkerInferConsumedMessage<TContract, TName>, void>,
 ): WorkerInferConsumerHandlerEntry<TContract, TName>;
 export function defineHandler<
   TContract extends ContractDefinition,
@@ -150,12 +156,15 @@ export function defineHandler<
   contract: TContract,
   name: TName,
   handler: WorkerInferRpcHandler<TContract, TName>,
-  options: ConsumerOptions,
+  options: ConsumerOptions<
+    WorkerInferRpcConsumedMessage<TContract, TName>,
+    WorkerInferRpcResponse<TContract, TName>
+  >,
 ): WorkerInferRpcHandlerEntry<TContract, TName>;
 export function defineHandler<
   TContract extends ContractDefinition,
   TName extends InferConsumerNames<TContract> | InferRpcNames<TContract>,
->(contract: TContract, name: TName, handler: unknown, options?: ConsumerOptions): unknown {
+>(contract: TContract, name: TName, handler: unknown, options?: unknown): unknown {
   validateHandlerTargetExists(contract, String(name));
 
   if (options) {
@@ -164,6 +173,54 @@ export function defineHandler<
   return handler;
 }
 
+/**
+ * Define a batch handler for a consumer in a contract.
+ *
+ * The handler receives up to `maxBatchSize` validated messages at once,
+ * gathered for at most `maxWaitMs`. Every message is then settled on its
+ * own: acknowledged when it succeeded, or routed through the queue's retry
+ * policy when it failed — all of them when the handler returns an error, or
+ * those listed in `failures` when it returns `{ failures }`.
+ *
+ * Messages failing schema validation are rejected on their own and never
+ * reach the handler.
+ *
+ * @template TContract - The contract definition type
+ * @template TName - The consumer name from the contract
+ * @param contract - The contract definition containing the consumer
+ * @param name - The name of the consumer from the contract
+ * @param handler - The batch handler function
+ * @param options - Batch size and wait time, plus consumer options such as `prefetch`
+ * @returns A batch handler entry that can be used with TypedAmqpWorker
+ * @throws {Error} If the consumer is not found in the contract
+ *
+ * @example
+ * ```typescript
+ * const insertEvents = defineBatchHandler(
+ *   analyticsContract,
+ *   'trackEvent',
+ *   (messages) =>
+ *     ResultAsync.fromPromise(
+ *       warehouse.insert(messages.map(({ payload }) => payload)),
+ *       (error) => new RetryableError('Warehouse insert failed', error),
+ *     ).map(() => undefined),
+ *   { maxBatchSize: 500, maxWaitMs: 2_000 },
+ * );
+ * ```
+ */
+export function defineBatchHandler<
+  TContract extends ContractDefinition,
+  TName extends InferConsumerNames<TContract>,
+>(
+  contract: TContract,
+  name: TName,
+  handler: WorkerInferConsumerBatchHandler<TContract, TName>,
+  options: BatchConsumerOptions,
+): WorkerInferConsumerBatchHandlerEntry<TContract, TName> {
+  validateHandlerTargetExists(contract, String(name));
+  return { type: "batch", handler, options };
+}
+
 /**
  * Define multiple type-safe handlers for consumers and RPCs in a contract.
  *
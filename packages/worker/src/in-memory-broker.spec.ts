@@ -0,0 +1,1481 @@
+import {
+  defineContract,
+  defineEventConsumer,
+  defineEventPublisher,
+  defineExchange,
+  defineMessage,
+  defineQueue,
+  defineRpc,
+} from "@amqp-contract/contract";
+import {
+  AmqpClient,
+  cborCodec,
+  encryptMessage,
+  getMessageContext,
+  InMemoryBroker,
+  InMemoryKeyProvider,
+  InMemorySignatureVerifier,
+  messagePackCodec,
+  signMessage,
+  TechnicalError,
+} from "@amqp-contract/core";
+import type { ConsumeMessage } from "amqplib";
+import { errAsync, okAsync, ResultAsync } from "neverthrow";
+import { randomBytes } from "node:crypto";
+import { gzipSync } from "node:zlib";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import { InMemoryDeduplicationStore } from "./deduplication.js";
+import { NonRetryableError, RetryableError } from "./errors.js";
+import { defineBatchHandler } from "./handlers.js";
+import { TypedAmqpWorker } from "./worker.js";
+
+describe("TypedAmqpWorker with InMemoryBroker", () => {
+  let broker: InMemoryBroker;
+  const closables: Array<{ close: () => ResultAsync<unknown, unknown> }> = [];
+
+  beforeEach(() => {
+    broker = new InMemoryBroker();
+  });
+
+  afterEach(async () => {
+    for (const closable of closables.splice(0).reverse()) {
+      await closable.close();
+    }
+    await broker.close();
+  });
+
+  it("should retry a failed message through the ttl-backoff wait queue", async () => {
+    // GIVEN
+    const exchange = defineExchange("orders", { type: "topic" });
+    const dlx = defineExchange("orders-dlx", { type: "direct" });
+    const queue = defineQueue("order-processing", {
+      type: "quorum",
+      deadLetter: { exchange: dlx },
+      retry: { mode: "ttl-backoff", maxRetries: 2, initialDelayMs: 10, jitter: false },
+    });
+    const orderCreated = defineEventPublisher(
+      exchange,
+      defineMessage(z.object({ orderId: z.string() })),
+      { routingKey: "order.created" },
+    );
+    const contract = defineContract({
+      publishers: { orderCreated },
+      consumers: { processOrder: defineEventConsumer(orderCreated, queue) },
+    });
+
+    const attempts: string[] = [];
+    const worker = (
+      await TypedAmqpWorker.create({
+        contract,
+        urls: [broker.url],
+        handlers: {
+          processOrder: ({ payload }) => {
+            attempts.push(payload.orderId);
+            return attempts.length === 1
+              ? errAsync(new RetryableError("Temporary failure"))
+              : okAsync(undefined);
+          },
+        },
+      })
+    )._unsafeUnwrap();
+    closables.push(worker);
+
+    const publisher = new AmqpClient(contract, { urls: [broker.url] });
+    closables.push(publisher);
+
+    // WHEN
+    (await publisher.publish("orders", "order.created", { orderId: "order-1" }))._unsafeUnwrap();
+
+    // THEN
+    await vi.waitFor(() => expect(attempts).toEqual(["order-1", "order-1"]));
+    await vi.waitFor(() =>
+      expect({
+        main: broker.getQueueInfo("order-processing")?.messageCount,
+        wait: broker.getQueueInfo("order-processing-wait")?.messageCount,
+      }).toEqual({ main: 0, wait: 0 }),
+    );
+  });
+
+  it("should pass message properties and delivery details to handlers", async () => {
+    // GIVEN
+    const exchange = defineExchange("orders", { type: "topic" });
+    const queue = defineQueue("order-processing", {
+      type: "quorum",
+      retry: { mode: "ttl-backoff", maxRetries: 2, initialDelayMs: 10, jitter: false },
+    });
+    const orderCreated = defineEventPublisher(
+      exchange,
+      defineMessage(z.object({ orderId: z.string() })),
+      { routingKey: "order.created" },
+    );
+    const contract = defineContract({
+      publishers: { orderCreated },
+      consumers: { processOrder: defineEventConsumer(orderCreated, queue) },
+    });
+
+    const deliveries: Array<{ properties: unknown; delivery: unknown }> = [];
+    const worker = (
+      await TypedAmqpWorker.create({
+        contract,
+        urls: [broker.url],
+        handlers: {
+          processOrder: ({ properties, delivery }) => {
+            deliveries.push({ properties, delivery });
+            return deliveries.length === 1
+              ? errAsync(new RetryableError("Temporary failure"))
+              : okAsync(undefined);
+          },
+        },
+      })
+    )._unsafeUnwrap();
+    closables.push(worker);
+
+    const publisher = new AmqpClient(contract, { urls: [broker.url] });
+    closables.push(publisher);
+
+    // WHEN
+    (
+      await publisher.publish(
+        "orders",
+        "order.created",
+        { orderId: "order-1" },
+        { messageId: "message-1", appId: "order-service", timestamp: 1_700_000_000 },
+      )
+    )._unsafeUnwrap();
+
+    // THEN
+    await vi.waitFor(() => expect(deliveries).toHaveLength(2));
+    const properties = {
+      messageId: "message-1",
+      appId: "order-service",
+      timestamp: new Date(1_700_000_000_000),
+    };
+    expect(deliveries).toEqual([
+      {
+        properties: expect.objectContaining(properties),
+        delivery: {
+          redelivered: false,
+          exchange: "orders",
+          routingKey: "order.created",
+          retryCount: 0,
+          firstDeathReason: undefined,
+        },
+      },
+      {
+        properties: expect.objectContaining(properties),
+        delivery: expect.objectContaining({ retryCount: 1, firstDeathReason: "expired" }),
+      },
+    ]);
+  });
+
+  it("should run handlers in the context of the message they handle", async () => {
+    // GIVEN
+    const exchange = defineExchange("orders", { type: "topic" });
+    const orderCreated = defineEventPublisher(
+      exchange,
+      defineMessage(z.object({ orderId: z.string() })),
+      { routingKey: "order.created" },
+    );
+    const contract = defineContract({
+      publishers: { orderCreated },
+      consumers: {
+        processOrder: defineEventConsumer(
+          orderCreated,
+          defineQueue("order-processing", { type: "classic" }),
+        ),
+      },
+    });
+
+    const contexts: unknown[] = [];
+    const worker = (
+      await TypedAmqpWorker.create({
+        contract,
+        urls: [broker.url],
+        handlers: {
+          processOrder: () =>
+            ResultAsync.fromSafePromise(new Promise((resolve) => setTimeout(resolve, 1))).map(
+              () => {
+                contexts.push(getMessageContext());
+              },
+            ),
+        },
+      })
+    )._unsafeUnwrap();
+    closables.push(worker);
+
+    const publisher = new AmqpClient(contract, { urls: [broker.url] });
+    closables.push(publisher);
+
+    // WHEN
+    (
+      await publisher.publish(
+        "orders",
+        "order.created",
+        { orderId: "order-1" },
+        { messageId: "message-1", correlationId: "flow-1" },
+      )
+    )._unsafeUnwrap();
+
+    // THEN
+    await vi.waitFor(() =>
+      expect(contexts).toEqual([{ messageId: "message-1", correlationId: "flow-1" }]),
+    );
+  });
+
+  it("should decode messages by content type and retry them with the same bytes", async () => {
+    // GIVEN
+    const exchange = defineExchange("telemetry", { type: "topic" });
+    const queue = defineQueue("telemetry-processing", {
+      type: "quorum",
+      retry: { mode: "ttl-backoff", maxRetries: 2, initialDelayMs: 10, jitter: false },
+    });
+    const readingRecorded = defineEventPublisher(
+      exchange,
+      defineMessage(z.object({ sensorId: z.string(), at: z.date() }), {
+        contentType: "application/msgpack",
+      }),
+      { routingKey: "reading.recorded" },
+    );
+    const contract = defineContract({
+      publishers: { readingRecorded },
+      consumers: { processReading: defineEventConsumer(readingRecorded, queue) },
+    });
+
+    const deliveries: Array<{ payload: unknown; content: Buffer }> = [];
+    const worker = (
+      await TypedAmqpWorker.create({
+        contract,
+        urls: [broker.url],
+        handlers: {
+          processReading: ({ payload }, rawMessage) => {
+            deliveries.push({ payload, content: rawMessage.content });
+            return deliveries.length === 1
+              ? errAsync(new RetryableError("Temporary failure"))
+              : okAsync(undefined);
+          },
+        },
+      })
+    )._unsafeUnwrap();
+    closables.push(worker);
+
+    const publisher = new AmqpClient(contract, { urls: [broker.url] });
+    closables.push(publisher);
+    const payload = { sensorId: "sensor-1", at: new Date("2026-01-01T00:00:00Z") };
+    const content = gzipSync(messagePackCodec.encode(payload));
+
+    // WHEN
+    (
+      await publisher.publish("telemetry", "reading.recorded", content, {
+        contentType: "application/msgpack",
+        contentEncoding: "gzip",
+      })
+    )._unsafeUnwrap();
+
+    // THEN
+    await vi.waitFor(() => expect(deliveries).toHaveLength(2));
+    expect(deliveries.map((delivery) => delivery.payload)).toEqual([payload, payload]);
+    expect(deliveries[1]!.content).toEqual(content);
+  });
+
+  it("should acknowledge duplicates without running the handler again", async () => {
+    // GIVEN
+    const exchange = defineExchange("orders", { type: "topic" });
+    const orderCreated = defineEventPublisher(
+      exchange,
+      defineMessage(z.object({ orderId: z.string() })),
+      { routingKey: "order.created" },
+    );
+    const contract = defineContract({
+      publishers: { orderCreated },
+      consumers: {
+        processOrder: defineEventConsumer(
+          orderCreated,
+          defineQueue("order-processing", {
+            type: "quorum",
+            retry: { mode: "immediate-requeue", maxRetries: 3 },
+          }),
+        ),
+      },
+    });
+
+    const attempts: string[] = [];
+    const worker = (
+      await TypedAmqpWorker.create({
+        contract,
+        urls: [broker.url],
+        handlers: {
+          processOrder: [
+            ({ payload }) => {
+              attempts.push(payload.orderId);
+              // Fail the first attempt: the id must not be recorded until a retry succeeds.
+              return attempts.length === 1
+                ? errAsync(new RetryableError("Temporary failure"))
+                : okAsync(undefined);
+            },
+            {
+              deduplication: {
+                store: new InMemoryDeduplicationStore(),
+                key: ({ payload }) => payload.orderId,
+              },
+            },
+          ],
+        },
+      })
+    )._unsafeUnwrap();
+    closables.push(worker);
+
+    const publisher = new AmqpClient(contract, { urls: [broker.url] });
+    closables.push(publisher);
+
+    // WHEN
+    (await publisher.publish("orders", "order.created", { orderId: "order-1" }))._unsafeUnwrap();
+    await vi.waitFor(() => expect(attempts).toEqual(["order-1", "order-1"]));
+    (await publisher.publish("orders", "order.created", { orderId: "order-1" }))._unsafeUnwrap();
+    (await publisher.publish("orders", "order.created", { orderId: "order-2" }))._unsafeUnwrap();
+
+    // THEN
+    await vi.waitFor(() => expect(attempts).toEqual(["order-1", "order-1", "order-2"]));
+    await vi.waitFor(() => expect(broker.getQueueInfo("order-processing")?.messageCount).toBe(0));
+  });
+
+  it("should only pass AMQP consume options to the broker", async () => {
+    // GIVEN
+    const exchange = defineExchange("orders", { type: "fanout" });
+    const orderCreated = defineEventPublisher(
+      exchange,
+      defineMessage(z.object({ orderId: z.string() })),
+    );
+    const contract = defineContract({
+      publishers: { orderCreated },
+      consumers: {
+        processOrder: defineEventConsumer(
+          orderCreated,
+          defineQueue("order-processing", { type: "quorum" }),
+        ),
+      },
+    });
+    const consume = vi.spyOn(AmqpClient.prototype, "consume");
+
+    // WHEN
+    const worker = (
+      await TypedAmqpWorker.create({
+        contract,
+        urls: [broker.url],
+        handlers: {
+          processOrder: [
+            () => okAsync(undefined),
+            {
+              prefetch: 5,
+              deduplication: { store: new InMemoryDeduplicationStore() },
+              middlewares: [],
+              circuitBreaker: { failureThreshold: 5, resetTimeoutMs: 1_000 },
+              concurrency: 2,
+              ordering: { mode: "per-key", key: ({ payload }) => payload.orderId },
+              signatureVerifier: new InMemorySignatureVerifier({}),
+            },
+          ],
+        },
+      })
+    )._unsafeUnwrap();
+    closables.push(worker);
+
+    // THEN
+    expect(consume).toHaveBeenCalledWith("order-processing", expect.any(Function), {
+      prefetch: 5,
+    });
+    consume.mockRestore();
+  });
+
+  it("should stop delivering to a paused consumer until it is resumed", async () => {
+    // GIVEN
+    const exchange = defineExchange("orders", { type: "topic" });
+    const orderCreated = defineEventPublisher(
+      exchange,
+      defineMessage(z.object({ orderId: z.string() })),
+      { routingKey: "order.created" },
+    );
+    const contract = defineContract({
+      publishers: { orderCreated },
+      consumers: {
+        processOrder: defineEventConsumer(
+          orderCreated,
+          defineQueue("order-processing", { type: "quorum" }),
+        ),
+        auditOrder: defineEventConsumer(
+          orderCreated,
+          defineQueue("order-audit", { type: "quorum" }),
+        ),
+      },
+    });
+
+    const processed: string[] = [];
+    const worker = (
+      await TypedAmqpWorker.create({
+        contract,
+        urls: [broker.url],
+        handlers: {
+          processOrder: [
+            ({ payload }) => {
+              processed.push(payload.orderId);
+              return okAsync(undefined);
+            },
+            { prefetch: 5 },
+          ],
+          auditOrder: () => okAsync(undefined),
+        },
+      })
+    )._unsafeUnwrap();
+    closables.push(worker);
+    const publisher = new AmqpClient(contract, { urls: [broker.url] });
+    closables.push(publisher);
+
+    // WHEN
+    (await worker.pause("processOrder"))._unsafeUnwrap();
+    (await publisher.publish("orders", "order.created", { orderId: "order-1" }))._unsafeUnwrap();
+    await vi.waitFor(() => expect(broker.getQueueInfo("order-audit")?.messageCount).toBe(0));
+    const whilePaused = {
+      states: worker.getConsumerStates(),
+      pending: broker.getQueueInfo("order-processing")?.messageCount,
+      processed: [...processed],
+    };
+    (await worker.resume("processOrder"))._unsafeUnwrap();
+
+    // THEN
+    expect(whilePaused).toEqual({
+      states: { processOrder: "paused", auditOrder: "consuming" },
+      pending: 1,
+      processed: [],
+    });
+    await vi.waitFor(() => expect(processed).toEqual(["order-1"]));
+    expect(worker.getConsumerStates()).toEqual({
+      processOrder: "consuming",
+      auditOrder: "consuming",
+    });
+  });
+
+  it("should pause a consumer while its circuit breaker is open", async () => {
+    // GIVEN
+    const exchange = defineExchange("orders", { type: "fanout" });
+    const orderCreated = defineEventPublisher(
+      exchange,
+      defineMessage(z.object({ orderId: z.string() })),
+    );
+    const contract = defineContract({
+      publishers: { orderCreated },
+      consumers: {
+        processOrder: defineEventConsumer(
+          orderCreated,
+          defineQueue("order-processing", {
+            type: "quorum",
+            retry: { mode: "immediate-requeue", maxRetries: 5 },
+          }),
+        ),
+      },
+    });
+
+    const attempts: string[] = [];
+    const worker = (
+      await TypedAmqpWorker.create({
+        contract,
+        urls: [broker.url],
+        handlers: {
+          processOrder: [
+            ({ payload }) => {
+              attempts.push(payload.orderId);
+              return attempts.length <= 2
+                ? errAsync(new RetryableError("Downstream unavailable"))
+                : okAsync(undefined);
+            },
+            { circuitBreaker: { failureThreshold: 2, resetTimeoutMs: 200 } },
+          ],
+        },
+      })
+    )._unsafeUnwrap();
+    closables.push(worker);
+    const publisher = new AmqpClient(contract, { urls: [broker.url] });
+    closables.push(publisher);
+
+    // WHEN
+    (await publisher.publish("orders", "", { orderId: "order-1" }))._unsafeUnwrap();
+    await vi.waitFor(() => expect(attempts).toHaveLength(2));
+    const whileOpen = worker.getConsumerStates();
+
+    // THEN
+    expect(whileOpen).toEqual({ processOrder: "circuit-open" });
+    await vi.waitFor(() => expect(attempts).toEqual(["order-1", "order-1", "order-1"]));
+    await vi.waitFor(() => expect(broker.getQueueInfo("order-processing")?.messageCount).toBe(0));
+    expect(worker.getConsumerStates()).toEqual({ processOrder: "consuming" });
+  });
+
+  it("should process messages sharing an ordering key one at a time", async () => {
+    // GIVEN
+    const exchange = defineExchange("orders", { type: "fanout" });
+    const orderEvent = defineEventPublisher(
+      exchange,
+      defineMessage(z.object({ orderId: z.string(), step: z.number() })),
+    );
+    const contract = defineContract({
+      publishers: { orderEvent },
+      consumers: {
+        processOrder: defineEventConsumer(
+          orderEvent,
+          defineQueue("order-processing", { type: "quorum" }),
+        ),
+      },
+    });
+
+    const events: string[] = [];
+    const worker = (
+      await TypedAmqpWorker.create({
+        contract,
+        urls: [broker.url],
+        handlers: {
+          processOrder: [
+            ({ payload }) => {
+              const label = `${payload.orderId}#${payload.step}`;
+              events.push(`${label}:start`);
+              // Make the first event of order-1 the slowest one.
+              const delayMs = payload.orderId === "order-1" && payload.step === 1 ? 50 : 0;
+              return ResultAsync.fromSafePromise(
+                new Promise((resolve) => setTimeout(resolve, delayMs)),
+              ).map(() => {
+                events.push(`${label}:end`);
+              });
+            },
+            {
+              prefetch: 10,
+              concurrency: 2,
+              ordering: { mode: "per-key", key: ({ payload }) => payload.orderId },
+            },
+          ],
+        },
+      })
+    )._unsafeUnwrap();
+    closables.push(worker);
+    const publisher = new AmqpClient(contract, { urls: [broker.url] });
+    closables.push(publisher);
+
+    // WHEN
+    for (const [orderId, step] of [
+      ["order-1", 1],
+      ["order-1", 2],
+      ["order-2", 1],
+    ] as const) {
+      (await publisher.publish("orders", "", { orderId, step }))._unsafeUnwrap();
+    }
+
+    // THEN
+    await vi.waitFor(() => expect(events).toHaveLength(6));
+    expect(events.indexOf("order-2#1:end")).toBeLessThan(events.indexOf("order-1#1:end"));
+    expect(events.indexOf("order-1#2:start")).toBeGreaterThan(events.indexOf("order-1#1:end"));
+  });
+
+  it("should keep the delivery order of messages slower to validate than the next ones", async () => {
+    // GIVEN
+    const exchange = defineExchange("orders", { type: "fanout" });
+    const orderEvent = defineEventPublisher(
+      exchange,
+      defineMessage(
+        z.object({ orderId: z.string(), step: z.number() }).refine(async ({ step }) => {
+          // Make the first event take longer to validate than the second one.
+          await new Promise((resolve) => setTimeout(resolve, step === 1 ? 50 : 0));
+          return true;
+        }),
+      ),
+    );
+    const contract = defineContract({
+      publishers: { orderEvent },
+      consumers: {
+        processOrder: defineEventConsumer(
+          orderEvent,
+          defineQueue("order-processing", { type: "quorum" }),
+        ),
+      },
+    });
+
+    const handled: number[] = [];
+    const worker = (
+      await TypedAmqpWorker.create({
+        contract,
+        urls: [broker.url],
+        handlers: {
+          processOrder: [
+            ({ payload }) => {
+              handled.push(payload.step);
+              return okAsync(undefined);
+            },
+            {
+              prefetch: 10,
+              ordering: { mode: "per-key", key: ({ payload }) => payload.orderId },
+            },
+          ],
+        },
+      })
+    )._unsafeUnwrap();
+    closables.push(worker);
+    const publisher = new AmqpClient(contract, { urls: [broker.url] });
+    closables.push(publisher);
+
+    // WHEN
+    (await publisher.publish("orders", "", { orderId: "order-1", step: 1 }))._unsafeUnwrap();
+    (await publisher.publish("orders", "", { orderId: "order-1", step: 2 }))._unsafeUnwrap();
+
+    // THEN
+    await vi.waitFor(() => expect(handled).toHaveLength(2));
+    expect(handled).toEqual([1, 2]);
+  });
+
+  it("should process messages without ordering when the ordering key function throws", async () => {
+    // GIVEN
+    const exchange = defineExchange("orders", { type: "fanout" });
+    const orderEvent = defineEventPublisher(
+      exchange,
+      defineMessage(z.object({ orderId: z.string().optional(), step: z.number() })),
+    );
+    const contract = defineContract({
+      publishers: { orderEvent },
+      consumers: {
+        processOrder: defineEventConsumer(
+          orderEvent,
+          defineQueue("order-processing", { type: "quorum" }),
+        ),
+      },
+    });
+
+    const handled: number[] = [];
+    const warnings: Array<{ message: string; context: Record<string, unknown> | undefined }> = [];
+    const worker = (
+      await TypedAmqpWorker.create({
+        contract,
+        urls: [broker.url],
+        logger: {
+          debug: () => {},
+          info: () => {},
+          warn: (message, context) => warnings.push({ message, context }),
+          error: () => {},
+        },
+        handlers: {
+          processOrder: [
+            ({ payload }) => {
+              handled.push(payload.step);
+              return okAsync(undefined);
+            },
+            {
+              ordering: {
+                mode: "per-key",
+                key: ({ payload }) => {
+                  if (payload.orderId === undefined) throw new Error("Missing order id");
+                  return payload.orderId;
+                },
+              },
+            },
+          ],
+        },
+      })
+    )._unsafeUnwrap();
+    closables.push(worker);
+    const publisher = new AmqpClient(contract, { urls: [broker.url] });
+    closables.push(publisher);
+
+    // WHEN
+    (await publisher.publish("orders", "", { step: 1 }))._unsafeUnwrap();
+    (await publisher.publish("orders", "", { orderId: "order-1", step: 2 }))._unsafeUnwrap();
+
+    // THEN
+    await vi.waitFor(() => expect(handled).toHaveLength(2));
+    await vi.waitFor(() => expect(broker.getQueueInfo("order-processing")?.messageCount).toBe(0));
+    expect(handled).toEqual([1, 2]);
+    expect(warnings).toEqual([
+      {
+        message: "Ordering key function threw; processing message without ordering",
+        context: expect.objectContaining({
+          consumerName: "processOrder",
+          queueName: "order-processing",
+          error: new Error("Missing order id"),
+        }),
+      },
+    ]);
+  });
+
+  it("should hand messages to a batch handler and settle each one", async () => {
+    // GIVEN
+    const exchange = defineExchange("analytics", { type: "fanout" });
+    const eventTracked = defineEventPublisher(
+      exchange,
+      defineMessage(z.object({ eventId: z.string() })),
+    );
+    const contract = defineContract({
+      publishers: { eventTracked },
+      consumers: {
+        storeEvents: defineEventConsumer(
+          eventTracked,
+          defineQueue("analytics-sink", { type: "quorum" }),
+        ),
+      },
+    });
+
+    const batches: string[][] = [];
+    const worker = (
+      await TypedAmqpWorker.create({
+        contract,
+        urls: [broker.url],
+        handlers: {
+          storeEvents: defineBatchHandler(
+            contract,
+            "storeEvents",
+            (messages) => {
+              batches.push(messages.map(({ payload }) => payload.eventId));
+              const failures = messages.flatMap(({ payload }, index) =>
+                payload.eventId === "bad" ? [{ index, error: new NonRetryableError("bad") }] : [],
+              );
+              return okAsync({ failures });
+            },
+            { maxBatchSize: 3, maxWaitMs: 50 },
+          ),
+        },
+      })
+    )._unsafeUnwrap();
+    closables.push(worker);
+    const publisher = new AmqpClient(contract, { urls: [broker.url] });
+    closables.push(publisher);
+
+    // WHEN
+    for (const eventId of ["e1", "bad", "e2", "e3"]) {
+      (await publisher.publish("analytics", "", { eventId }))._unsafeUnwrap();
+    }
+
+    // THEN
+    await vi.waitFor(() => expect(batches).toEqual([["e1", "bad", "e2"], ["e3"]]));
+    await vi.waitFor(() => expect(broker.getQueueInfo("analytics-sink")?.messageCount).toBe(0));
+  });
+
+  it("should apply default consumer options and the batch's message context to batch handlers", async () => {
+    // GIVEN
+    const exchange = defineExchange("analytics", { type: "fanout" });
+    const eventTracked = defineEventPublisher(
+      exchange,
+      defineMessage(z.object({ eventId: z.string() })),
+    );
+    const contract = defineContract({
+      publishers: { eventTracked },
+      consumers: {
+        storeEvents: defineEventConsumer(
+          eventTracked,
+          defineQueue("analytics-sink", { type: "quorum" }),
+        ),
+      },
+    });
+
+    const batches: Array<{ eventIds: string[]; context: unknown }> = [];
+    const worker = (
+      await TypedAmqpWorker.create({
+        contract,
+        urls: [broker.url],
+        defaultConsumerOptions: { prefetch: 2 },
+        handlers: {
+          storeEvents: defineBatchHandler(
+            contract,
+            "storeEvents",
+            (messages) =>
+              ResultAsync.fromSafePromise(new Promise((resolve) => setTimeout(resolve, 1))).map(
+                () => {
+                  batches.push({
+                    eventIds: messages.map(({ payload }) => payload.eventId),
+                    context: getMessageContext(),
+                  });
+                },
+              ),
+            { maxBatchSize: 3, maxWaitMs: 50 },
+          ),
+        },
+      })
+    )._unsafeUnwrap();
+    closables.push(worker);
+    const publisher = new AmqpClient(contract, { urls: [broker.url] });
+    closables.push(publisher);
+
+    // WHEN
+    for (const [eventId, correlationId] of [
+      ["e1", "flow-1"],
+      ["e2", "flow-1"],
+      ["e3", "flow-2"],
+    ] as const) {
+      (
+        await publisher.publish("analytics", "", { eventId }, { messageId: eventId, correlationId })
+      )._unsafeUnwrap();
+    }
+
+    // THEN
+    await vi.waitFor(() => expect(batches).toHaveLength(2));
+    expect(batches).toEqual([
+      { eventIds: ["e1", "e2"], context: { messageId: undefined, correlationId: "flow-1" } },
+      { eventIds: ["e3"], context: { messageId: "e3", correlationId: "flow-2" } },
+    ]);
+  });
+
+  it("should fail to pause a consumer the worker does not handle", async () => {
+    // GIVEN
+    const exchange = defineExchange("orders", { type: "fanout" });
+    const orderCreated = defineEventPublisher(
+      exchange,
+      defineMessage(z.object({ orderId: z.string() })),
+    );
+    const contract = defineContract({
+      consumers: {
+        processOrder: defineEventConsumer(
+          orderCreated,
+          defineQueue("order-processing", { type: "quorum" }),
+        ),
+      },
+    });
+    const worker = (
+      await TypedAmqpWorker.create({
+        contract,
+        urls: [broker.url],
+        handlers: { processOrder: () => okAsync(undefined) },
+      })
+    )._unsafeUnwrap();
+    closables.push(worker);
+
+    // WHEN
+    const result = await worker.pause("unknown" as "processOrder");
+
+    // THEN
+    expect(result._unsafeUnwrapErr().message).toBe('Unknown consumer "unknown"');
+  });
+
+  describe("close", () => {
+    const exchange = defineExchange("orders", { type: "topic" });
+    const orderCreated = defineEventPublisher(
+      exchange,
+      defineMessage(z.object({ orderId: z.string() })),
+      { routingKey: "order.created" },
+    );
+    const contract = defineContract({
+      publishers: { orderCreated },
+      consumers: {
+        processOrder: defineEventConsumer(
+          orderCreated,
+          defineQueue("order-processing", { type: "quorum" }),
+        ),
+      },
+    });
+
+    it("should wait for in-flight messages before closing the connection", async () => {
+      // GIVEN
+      let finish!: () => void;
+      const started = vi.fn();
+      const worker = (
+        await TypedAmqpWorker.create({
+          contract,
+          urls: [broker.url],
+          handlers: {
+            processOrder: () => {
+              started();
+              return ResultAsync.fromSafePromise(
+                new Promise<void>((resolve) => {
+                  finish = resolve;
+                }),
+              );
+            },
+          },
+        })
+      )._unsafeUnwrap();
+      const publisher = new AmqpClient(contract, { urls: [broker.url] });
+      closables.push(publisher);
+      (await publisher.publish("orders", "order.created", { orderId: "order-1" }))._unsafeUnwrap();
+      await vi.waitFor(() => expect(started).toHaveBeenCalled());
+
+      // WHEN
+      let closed = false;
+      const closing = worker.close({ drainTimeoutMs: 5_000 }).andTee(() => {
+        closed = true;
+      });
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      const closedBeforeHandlerFinished = closed;
+      finish();
+      const result = await closing;
+
+      // THEN
+      expect(closedBeforeHandlerFinished).toBe(false);
+      expect(result._unsafeUnwrap()).toEqual({ abandoned: 0 });
+      expect(broker.getQueueInfo("order-processing")?.messageCount).toBe(0);
+    });
+
+    it("should abandon messages still in flight when the drain times out", async () => {
+      // GIVEN
+      const started = vi.fn();
+      const worker = (
+        await TypedAmqpWorker.create({
+          contract,
+          urls: [broker.url],
+          handlers: {
+            processOrder: () => {
+              started();
+              return ResultAsync.fromSafePromise(new Promise<void>(() => {}));
+            },
+          },
+        })
+      )._unsafeUnwrap();
+      const publisher = new AmqpClient(contract, { urls: [broker.url] });
+      closables.push(publisher);
+      (await publisher.publish("orders", "order.created", { orderId: "order-1" }))._unsafeUnwrap();
+      await vi.waitFor(() => expect(started).toHaveBeenCalled());
+
+      // WHEN
+      const result = await worker.close({ drainTimeoutMs: 10 });
+
+      // THEN
+      expect(result._unsafeUnwrap()).toEqual({ abandoned: 1 });
+      await vi.waitFor(() => expect(broker.getQueueInfo("order-processing")?.messageCount).toBe(1));
+    });
+  });
+
+  it("should replay a stream queue from the configured offset", async () => {
+    // GIVEN
+    const exchange = defineExchange("audit", { type: "fanout" });
+    const queue = defineQueue("audit-log", { type: "stream", maxAge: "7D" });
+    const auditEvent = defineEventPublisher(exchange, defineMessage(z.object({ id: z.number() })));
+    const contract = defineContract({
+      publishers: { auditEvent },
+      consumers: { replayAudit: defineEventConsumer(auditEvent, queue) },
+    });
+
+    const publisher = new AmqpClient(contract, { urls: [broker.url] });
+    closables.push(publisher);
+    (await publisher.waitForConnect())._unsafeUnwrap();
+    for (const id of [1, 2]) {
+      (await publisher.publish("audit", "", { id }))._unsafeUnwrap();
+    }
+    await vi.waitFor(() => expect(broker.getQueueInfo("audit-log")?.messageCount).toBe(2));
+
+    // WHEN
+    const received: number[] = [];
+    const worker = (
+      await TypedAmqpWorker.create({
+        contract,
+        urls: [broker.url],
+        handlers: {
+          replayAudit: [
+            ({ payload }) => {
+              received.push(payload.id);
+              return okAsync(undefined);
+            },
+            { streamOffset: { offset: 1 } },
+          ],
+        },
+      })
+    )._unsafeUnwrap();
+    closables.push(worker);
+
+    // THEN
+    await vi.waitFor(() => expect(received).toEqual([2]));
+    expect(broker.getQueueInfo("audit-log")?.messageCount).toBe(2);
+  });
+
+  it("should reject a stream offset on a non-stream queue", async () => {
+    // GIVEN
+    const exchange = defineExchange("audit", { type: "fanout" });
+    const auditEvent = defineEventPublisher(exchange, defineMessage(z.object({ id: z.number() })));
+    const contract = defineContract({
+      consumers: {
+        replayAudit: defineEventConsumer(auditEvent, defineQueue("audit", { type: "quorum" })),
+      },
+    });
+
+    // WHEN
+    const result = await TypedAmqpWorker.create({
+      contract,
+      urls: [broker.url],
+      handlers: { replayAudit: [() => okAsync(undefined), { streamOffset: "first" }] },
+    });
+
+    // THEN
+    expect(result.isErr()).toBe(true);
+  });
+
+  it("should fail to start in verify topology mode when queues are missing", async () => {
+    // GIVEN
+    const exchange = defineExchange("orders", { type: "topic" });
+    const orderCreated = defineEventPublisher(
+      exchange,
+      defineMessage(z.object({ orderId: z.string() })),
+      { routingKey: "order.created" },
+    );
+    const contract = defineContract({
+      consumers: {
+        processOrder: defineEventConsumer(orderCreated, defineQueue("order-processing")),
+      },
+    });
+    const setup = new AmqpClient({ exchanges: { exchange } }, { urls: [broker.url] });
+    closables.push(setup);
+    (await setup.waitForConnect())._unsafeUnwrap();
+
+    // WHEN
+    const result = await TypedAmqpWorker.create({
+      contract,
+      urls: [broker.url],
+      handlers: { processOrder: () => okAsync(undefined) },
+      topology: "verify",
+    });
+
+    // THEN
+    expect(result._unsafeUnwrapErr().message).toBe(
+      'AMQP topology verification failed, missing resources: queue "order-processing"',
+    );
+  });
+
+  it("should reply to RPC requests over direct reply-to", async () => {
+    // GIVEN
+    const add = defineRpc(defineQueue("rpc-add", { type: "classic" }), {
+      request: defineMessage(z.object({ a: z.number(), b: z.number() })),
+      response: defineMessage(z.object({ sum: z.number() })),
+    });
+    const contract = defineContract({ rpcs: { add } });
+
+    const worker = (
+      await TypedAmqpWorker.create({
+        contract,
+        urls: [broker.url],
+        handlers: { add: ({ payload }) => okAsync({ sum: payload.a + payload.b }) },
+      })
+    )._unsafeUnwrap();
+    closables.push(worker);
+
+    const caller = new AmqpClient(contract, { urls: [broker.url] });
+    closables.push(caller);
+    const replies: ConsumeMessage[] = [];
+    (
+      await caller.consume(
+        "amq.rabbitmq.reply-to",
+        (msg) => {
+          if (msg) replies.push(msg);
+        },
+        { noAck: true },
+      )
+    )._unsafeUnwrap();
+
+    // WHEN
+    (
+      await caller.sendToQueue(
+        "rpc-add",
+        { a: 1, b: 2 },
+        { replyTo: "amq.rabbitmq.reply-to", correlationId: "call-1" },
+      )
+    )._unsafeUnwrap();
+
+    // THEN
+    await vi.waitFor(() => expect(replies).toHaveLength(1));
+    expect({
+      correlationId: replies[0]!.properties.correlationId,
+      payload: JSON.parse(replies[0]!.content.toString()),
+    }).toEqual({ correlationId: "call-1", payload: { sum: 3 } });
+  });
+
+  it("should decrypt messages across key rotations and reject unencrypted ones", async () => {
+    // GIVEN
+    const exchange = defineExchange("customers", { type: "topic" });
+    const queue = defineQueue("customer-sync", {
+      type: "quorum",
+      retry: { mode: "ttl-backoff", maxRetries: 2, initialDelayMs: 10, jitter: false },
+    });
+    const message = defineMessage(z.object({ email: z.string() }), { encryption: "required" });
+    const customerUpdated = defineEventPublisher(exchange, message, {
+      routingKey: "customer.updated",
+    });
+    const contract = defineContract({
+      publishers: { customerUpdated },
+      consumers: { syncCustomer: defineEventConsumer(customerUpdated, queue) },
+    });
+    const keys = { k1: randomBytes(32), k2: randomBytes(32) };
+
+    const emails: string[] = [];
+    const worker = (
+      await TypedAmqpWorker.create({
+        contract,
+        urls: [broker.url],
+        keyProvider: new InMemoryKeyProvider({ currentKeyId: "k2", keys }),
+        handlers: {
+          syncCustomer: ({ payload }) => {
+            emails.push(payload.email);
+            return emails.length === 1
+              ? errAsync(new RetryableError("Temporary failure"))
+              : okAsync(undefined);
+          },
+        },
+      })
+    )._unsafeUnwrap();
+    closables.push(worker);
+
+    const publisher = new AmqpClient(contract, { urls: [broker.url] });
+    closables.push(publisher);
+    const beforeRotation = new InMemoryKeyProvider({ currentKeyId: "k1", keys });
+    const encrypted = (
+      await encryptMessage(Buffer.from('{"email":"jane@example.com"}'), message, beforeRotation)
+    )._unsafeUnwrap();
+
+    // WHEN
+    (
+      await publisher.publish("customers", "customer.updated", { email: "plain@example.com" })
+    )._unsafeUnwrap();
+    (
+      await publisher.publish("customers", "customer.updated", encrypted.content, {
+        headers: encrypted.headers,
+      })
+    )._unsafeUnwrap();
+
+    // THEN
+    await vi.waitFor(() => expect(emails).toEqual(["jane@example.com", "jane@example.com"]));
+    await vi.waitFor(() => expect(broker.getQueueInfo("customer-sync")?.messageCount).toBe(0));
+  });
+
+  it("should retry messages whose decryption key lookup fails and dead-letter undecryptable ones", async () => {
+    // GIVEN
+    const exchange = defineExchange("customers", { type: "topic" });
+    const dlx = defineExchange("customers-dlx", { type: "fanout" });
+    const queue = defineQueue("customer-sync", {
+      type: "quorum",
+      deadLetter: { exchange: dlx },
+      retry: { mode: "ttl-backoff", maxRetries: 2, initialDelayMs: 10, jitter: false },
+    });
+    const message = defineMessage(z.object({ email: z.string() }), { encryption: "required" });
+    const customerUpdated = defineEventPublisher(exchange, message, {
+      routingKey: "customer.updated",
+    });
+    const contract = defineContract({
+      publishers: { customerUpdated },
+      consumers: { syncCustomer: defineEventConsumer(customerUpdated, queue) },
+    });
+    const keyProvider = new InMemoryKeyProvider({
+      currentKeyId: "k1",
+      keys: { k1: randomBytes(32) },
+    });
+    let lookups = 0;
+
+    const emails: string[] = [];
+    const worker = (
+      await TypedAmqpWorker.create({
+        contract,
+        urls: [broker.url],
+        keyProvider: {
+          currentKey: () => keyProvider.currentKey(),
+          // The KMS is unavailable on the first lookup only.
+          getKey: (id) =>
+            ++lookups === 1
+              ? errAsync(new TechnicalError("KMS throttled"))
+              : keyProvider.getKey(id),
+        },
+        handlers: {
+          syncCustomer: ({ payload }) => {
+            emails.push(payload.email);
+            return okAsync(undefined);
+          },
+        },
+      })
+    )._unsafeUnwrap();
+    closables.push(worker);
+
+    const publisher = new AmqpClient(contract, { urls: [broker.url] });
+    closables.push(publisher);
+    publisher.addSetup(async (channel) => {
+      await channel.assertQueue("customer-sync-dlq");
+      await channel.bindQueue("customer-sync-dlq", "customers-dlx", "");
+    });
+    const encrypted = (
+      await encryptMessage(Buffer.from('{"email":"jane@example.com"}'), message, keyProvider)
+    )._unsafeUnwrap();
+    const tampered = Buffer.from(encrypted.content);
+    tampered[20]! ^= 1;
+
+    // WHEN
+    (
+      await publisher.publish("customers", "customer.updated", encrypted.content, {
+        headers: encrypted.headers,
+      })
+    )._unsafeUnwrap();
+    await vi.waitFor(() => expect(emails).toEqual(["jane@example.com"]));
+    (
+      await publisher.publish("customers", "customer.updated", tampered, {
+        headers: encrypted.headers,
+      })
+    )._unsafeUnwrap();
+
+    // THEN
+    await vi.waitFor(() => expect(broker.getQueueInfo("customer-sync-dlq")?.messageCount).toBe(1));
+    expect(emails).toEqual(["jane@example.com"]);
+    expect(lookups).toBe(3);
+  });
+
+  it("should dead-letter messages failing signature verification", async () => {
+    // GIVEN
+    const exchange = defineExchange("payments", { type: "topic" });
+    const dlx = defineExchange("payments-dlx", { type: "fanout" });
+    const queue = defineQueue("payment-processing", {
+      type: "quorum",
+      deadLetter: { exchange: dlx },
+    });
+    const paymentCaptured = defineEventPublisher(
+      exchange,
+      defineMessage(z.object({ paymentId: z.string() })),
+      { routingKey: "payment.captured" },
+    );
+    const contract = defineContract({
+      publishers: { paymentCaptured },
+      consumers: { capturePayment: defineEventConsumer(paymentCaptured, queue) },
+    });
+    const secret = randomBytes(32);
+    const signing = { algorithm: "hmac-sha256", key: secret, properties: ["messageId"] } as const;
+
+    const paymentIds: string[] = [];
+    const logged: Array<{ message: string; context: Record<string, unknown> | undefined }> = [];
+    const worker = (
+      await TypedAmqpWorker.create({
+        contract,
+        urls: [broker.url],
+        logger: {
+          debug: () => {},
+          info: () => {},
+          warn: () => {},
+          error: (message, context) => logged.push({ message, context }),
+        },
+        handlers: {
+          capturePayment: [
+            ({ payload }) => {
+              paymentIds.push(payload.paymentId);
+              return okAsync(undefined);
+            },
+            {
+              signatureVerifier: new InMemorySignatureVerifier({
+                "billing-service": { algorithm: "hmac-sha256", key: secret },
+              }),
+            },
+          ],
+        },
+      })
+    )._unsafeUnwrap();
+    closables.push(worker);
+
+    const publisher = new AmqpClient(contract, { urls: [broker.url] });
+    closables.push(publisher);
+    publisher.addSetup(async (channel) => {
+      await channel.assertQueue("payment-processing-dlq");
+      await channel.bindQueue("payment-processing-dlq", "payments-dlx", "");
+    });
+    const publishSigned = (paymentId: string, keyId: string) => {
+      const content = Buffer.from(JSON.stringify({ paymentId }));
+      const headers = signMessage(
+        content,
+        { messageId: paymentId },
+        { ...signing, keyId },
+      )._unsafeUnwrap();
+      return publisher.publish("payments", "payment.captured", content, {
+        messageId: paymentId,
+        headers,
+      });
+    };
+
+    // WHEN
+    (await publishSigned("payment-1", "billing-service"))._unsafeUnwrap();
+    (await publishSigned("payment-2", "shipping-service"))._unsafeUnwrap();
+    (
+      await publisher.publish("payments", "payment.captured", { paymentId: "payment-3" })
+    )._unsafeUnwrap();
+
+    // THEN
+    await vi.waitFor(() =>
+      expect(broker.getQueueInfo("payment-processing-dlq")?.messageCount).toBe(2),
+    );
+    expect(paymentIds).toEqual(["payment-1"]);
+    expect(logged).toHaveLength(2);
+    expect(new Set(logged.map(({ message }) => message))).toEqual(
+      new Set(["Message failed signature verification; sending to DLQ"]),
+    );
+    expect(logged.map(({ context }) => context?.["reason"])).toEqual(
+      expect.arrayContaining(['untrusted key id "shipping-service"', "message is not signed"]),
+    );
+  });
+
+  it("should retry messages whose signature key lookup fails", async () => {
+    // GIVEN
+    const exchange = defineExchange("payments", { type: "topic" });
+    const queue = defineQueue("payment-processing", {
+      type: "quorum",
+      retry: { mode: "ttl-backoff", maxRetries: 2, initialDelayMs: 10, jitter: false },
+    });
+    const paymentCaptured = defineEventPublisher(
+      exchange,
+      defineMessage(z.object({ paymentId: z.string() })),
+      { routingKey: "payment.captured" },
+    );
+    const contract = defineContract({
+      publishers: { paymentCaptured },
+      consumers: { capturePayment: defineEventConsumer(paymentCaptured, queue) },
+    });
+    const secret = randomBytes(32);
+    const trusted = new InMemorySignatureVerifier({
+      "billing-service": { algorithm: "hmac-sha256", key: secret },
+    });
+    let lookups = 0;
+
+    const paymentIds: string[] = [];
+    const worker = (
+      await TypedAmqpWorker.create({
+        contract,
+        urls: [broker.url],
+        handlers: {
+          capturePayment: [
+            ({ payload }) => {
+              paymentIds.push(payload.paymentId);
+              return okAsync(undefined);
+            },
+            {
+              signatureVerifier: {
+                // The key registry is unavailable on the first lookup only.
+                getKey: (keyId) =>
+                  ++lookups === 1
+                    ? errAsync(new TechnicalError("Key registry unavailable"))
+                    : trusted.getKey(keyId),
+              },
+            },
+          ],
+        },
+      })
+    )._unsafeUnwrap();
+    closables.push(worker);
+
+    const publisher = new AmqpClient(contract, { urls: [broker.url] });
+    closables.push(publisher);
+    const content = Buffer.from(JSON.stringify({ paymentId: "payment-1" }));
+    const headers = signMessage(
+      content,
+      {},
+      { algorithm: "hmac-sha256", keyId: "billing-service", key: secret, properties: [] },
+    )._unsafeUnwrap();
+
+    // WHEN
+    (await publisher.publish("payments", "payment.captured", content, { headers }))._unsafeUnwrap();
+
+    // THEN
+    await vi.waitFor(() => expect(paymentIds).toEqual(["payment-1"]));
+    expect(lookups).toBe(2);
+    await vi.waitFor(() => expect(broker.getQueueInfo("payment-processing")?.messageCount).toBe(0));
+  });
+
+  it("should encode RPC replies with the codec of the response message", async () => {
+    // GIVEN
+    const add = defineRpc(defineQueue("rpc-add", { type: "classic" }), {
+      request: defineMessage(z.object({ a: z.number(), b: z.number() }), {
+        contentType: "application/cbor",
+      }),
+      response: defineMessage(z.object({ sum: z.number() }), { contentType: "application/cbor" }),
+    });
+    const contract = defineContract({ rpcs: { add } });
+
+    const worker = (
+      await TypedAmqpWorker.create({
+        contract,
+        urls: [broker.url],
+        handlers: { add: ({ payload }) => okAsync({ sum: payload.a + payload.b }) },
+      })
+    )._unsafeUnwrap();
+    closables.push(worker);
+
+    const caller = new AmqpClient(contract, { urls: [broker.url] });
+    closables.push(caller);
+    const replies: ConsumeMessage[] = [];
+    (
+      await caller.consume(
+        "amq.rabbitmq.reply-to",
+        (msg) => {
+          if (msg) replies.push(msg);
+        },
+        { noAck: true },
+      )
+    )._unsafeUnwrap();
+
+    // WHEN
+    (
+      await caller.sendToQueue("rpc-add", cborCodec.encode({ a: 1, b: 2 }), {
+        contentType: "application/cbor",
+        replyTo: "amq.rabbitmq.reply-to",
+        correlationId: "call-1",
+      })
+    )._unsafeUnwrap();
+
+    // THEN
+    await vi.waitFor(() => expect(replies).toHaveLength(1));
+    expect({
+      contentType: replies[0]!.properties.contentType,
+      payload: cborCodec.decode(replies[0]!.content),
+    }).toEqual({ contentType: "application/cbor", payload: { sum: 3 } });
+  });
+
+  it("should run worker and handler middlewares around the handler", async () => {
+    // GIVEN
+    const add = defineRpc(defineQueue("rpc-add", { type: "classic" }), {
+      request: defineMessage(z.object({ a: z.number(), b: z.number() })),
+      response: defineMessage(z.object({ sum: z.number() })),
+    });
+    const contract = defineContract({ rpcs: { add } });
+
+    const calls: string[] = [];
+    const worker = (
+      await TypedAmqpWorker.create({
+        contract,
+        urls: [broker.url],
+        middlewares: [
+          ({ consumerName }, next) => {
+            calls.push(`worker:${consumerName}`);
+            return next();
+          },
+        ],
+        handlers: {
+          add: [
+            ({ payload }) => okAsync({ sum: payload.a + payload.b }),
+            {
+              middlewares: [
+                ({ message }, next) => {
+                  calls.push("handler");
+                  return next({ ...message, payload: { ...message.payload, b: 10 } }).map(
+                    ({ sum }) => ({ sum: sum * 2 }),
+                  );
+                },
+              ],
+            },
+          ],
+        },
+      })
+    )._unsafeUnwrap();
+    closables.push(worker);
+
+    const caller = new AmqpClient(contract, { urls: [broker.url] });
+    closables.push(caller);
+    const replies: ConsumeMessage[] = [];
+    (
+      await caller.consume(
+        "amq.rabbitmq.reply-to",
+        (msg) => {
+          if (msg) replies.push(msg);
+        },
+        { noAck: true },
+      )
+    )._unsafeUnwrap();
+
+    // WHEN
+    (
+      await caller.sendToQueue(
+        "rpc-add",
+        { a: 1, b: 2 },
+        { replyTo: "amq.rabbitmq.reply-to", correlationId: "call-1" },
+      )
+    )._unsafeUnwrap();
+
+    // THEN
+    await vi.waitFor(() => expect(replies).toHaveLength(1));
+    expect({
+      calls,
+      payload: JSON.parse(replies[0]!.content.toString()),
+    }).toEqual({ calls: ["worker:add", "handler"], payload: { sum: 22 } });
+  });
+});
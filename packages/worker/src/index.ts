@@ -1,5 +1,14 @@
 export { TypedAmqpWorker } from "./worker.js";
-export type { CreateWorkerOptions, ConsumerOptions } from "./worker.js";
+export type {
+  CreateWorkerOptions,
+  ConsumerOptions,
+  ConsumerState,
+  StreamOffset,
+  WorkerCloseOptions,
+  WorkerCloseResult,
+} from "./worker.js";
+export { closeOnSignals } from "./shutdown.js";
+export type { CloseOnSignalsOptions } from "./shutdown.js";
 export {
   // Error classes (HandlerError is an abstract base class)
   HandlerError,
@@ -14,10 +23,23 @@ export {
   nonRetryable,
   retryable,
 } from "./errors.js";
-export { defineHandler, defineHandlers } from "./handlers.js";
+export { defineBatchHandler, defineHandler, defineHandlers } from "./handlers.js";
+export type { BatchConsumerOptions, BatchHandlerResult, BatchMessageFailure } from "./batch.js";
+export type { WorkerMiddleware, WorkerMiddlewareContext } from "./middleware.js";
+export type { CircuitBreakerOptions, CircuitState } from "./circuit-breaker.js";
+export type { OrderingKey, OrderingOptions } from "./concurrency.js";
+export { InMemoryDeduplicationStore } from "./deduplication.js";
+export type {
+  DeduplicationKey,
+  DeduplicationOptions,
+  DeduplicationStore,
+  InMemoryDeduplicationStoreOptions,
+} from "./deduplication.js";
 export type {
   WorkerConsumedMessage,
   WorkerInferConsumedMessage,
+  WorkerInferConsumerBatchHandler,
+  WorkerInferConsumerBatchHandlerEntry,
   WorkerInferConsumerHandler,
   WorkerInferConsumerHandlerEntry,
   WorkerInferConsumerHeaders,
@@ -28,4 +50,6 @@ export type {
   WorkerInferRpcHeaders,
   WorkerInferRpcRequest,
   WorkerInferRpcResponse,
+  WorkerMessageDelivery,
+  WorkerMessageProperties,
 } from "./types.js";
@@ -0,0 +1,79 @@
+import type { ConsumeMessage } from "amqplib";
+import { errAsync, okAsync } from "neverthrow";
+import { describe, expect, it, vi } from "vitest";
+import { NonRetryableError } from "./errors.js";
+import { composeMiddlewares, type WorkerMiddleware } from "./middleware.js";
+
+describe("composeMiddlewares", () => {
+  const rawMessage = {} as ConsumeMessage;
+  type Message = { payload: { value: number }; headers: undefined };
+  const message: Message = { payload: { value: 1 }, headers: undefined };
+
+  it("should run middlewares outermost first around the handler", async () => {
+    // GIVEN
+    const calls: string[] = [];
+    const tracing =
+      (label: string): WorkerMiddleware<Message, number> =>
+      (_context, next) => {
+        calls.push(`${label}:before`);
+        return next().andTee(() => {
+          calls.push(`${label}:after`);
+        });
+      };
+    const handler = composeMiddlewares<Message, number>(
+      [tracing("outer"), tracing("inner")],
+      ({ payload }) => {
+        calls.push("handler");
+        return okAsync(payload.value);
+      },
+      "process",
+    );
+
+    // WHEN
+    const result = await handler(message, rawMessage);
+
+    // THEN
+    expect(result._unsafeUnwrap()).toBe(1);
+    expect(calls).toEqual([
+      "outer:before",
+      "inner:before",
+      "handler",
+      "inner:after",
+      "outer:after",
+    ]);
+  });
+
+  it("should pass the replaced message and transformed response through", async () => {
+    // GIVEN
+    const enrich: WorkerMiddleware<Message, number> = ({ message: current }, next) =>
+      next({ ...current, payload: { value: current.payload.value + 1 } }).map(
+        (response) => response * 10,
+      );
+    const handler = composeMiddlewares<Message, number>(
+      [enrich],
+      ({ payload }) => okAsync(payload.value),
+      "process",
+    );
+
+    // WHEN
+    const result = await handler(message, rawMessage);
+
+    // THEN
+    expect(result._unsafeUnwrap()).toBe(20);
+  });
+
+  it("should short-circuit the handler when a middleware returns an error", async () => {
+    // GIVEN
+    const handlerFn = vi.fn(() => okAsync(0));
+    const deny: WorkerMiddleware<Message, number> = ({ consumerName }) =>
+      errAsync(new NonRetryableError(`${consumerName} denied`));
+    const handler = composeMiddlewares<Message, number>([deny], handlerFn, "process");
+
+    // WHEN
+    const result = await handler(message, rawMessage);
+
+    // THEN
+    expect(result._unsafeUnwrapErr()).toEqual(new NonRetryableError("process denied"));
+    expect(handlerFn).not.toHaveBeenCalled();
+  });
+});
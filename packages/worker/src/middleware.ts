@@ -0,0 +1,74 @@
+import type { ConsumeMessage } from "amqplib";
+import type { ResultAsync } from "neverthrow";
+import type { HandlerError } from "./errors.js";
+
+/**
+ * What a {@link WorkerMiddleware} receives for each message.
+ *
+ * @typeParam TMessage - The validated message type
+ */
+export type WorkerMiddlewareContext<TMessage = { payload: unknown; headers: unknown }> = {
+  /** The validated message, as passed on by the previous middleware */
+  message: TMessage;
+  /** The raw AMQP message */
+  rawMessage: ConsumeMessage;
+  /** Name of the consumer or RPC handling the message */
+  consumerName: string;
+};
+
+/**
+ * Middleware wrapping a handler call.
+ *
+ * A middleware calls `next()` to run the rest of the pipeline and returns its
+ * result, optionally transformed — for RPC handlers, the mapped value is the
+ * response that gets validated and published. Passing a message to `next`
+ * replaces the message seen by the following middlewares and the handler.
+ *
+ * Returning a {@link HandlerError} without calling `next` short-circuits the
+ * handler; the error is routed like a handler error (`RetryableError` is
+ * retried, `NonRetryableError` goes to the DLQ).
+ *
+ * @typeParam TMessage - The validated message type
+ * @typeParam TResponse - The handler's response type (`void` for regular consumers)
+ *
+ * @example
+ * ```typescript
+ * const timing: WorkerMiddleware = ({ consumerName }, next) => {
+ *   const start = Date.now();
+ *   return next().andTee(() => {
+ *     console.log(`${consumerName} took ${Date.now() - start}ms`);
+ *   });
+ * };
+ * ```
+ */
+export type WorkerMiddleware<
+  TMessage = { payload: unknown; headers: unknown },
+  TResponse = unknown,
+> = (
+  context: WorkerMiddlewareContext<TMessage>,
+  next: (message?: TMessage) => ResultAsync<TResponse, HandlerError>,
+) => ResultAsync<TResponse, HandlerError>;
+
+/**
+ * Wrap a handler with middlewares; the first middleware is the outermost.
+ *
+ * @internal
+ */
+export function composeMiddlewares<TMessage, TResponse>(
+  middlewares: ReadonlyArray<WorkerMiddleware<TMessage, TResponse>>,
+  handler: (message: TMessage, rawMessage: ConsumeMessage) => ResultAsync<TResponse, HandlerError>,
+  consumerName: string,
+): (message: TMessage, rawMessage: ConsumeMessage) => ResultAsync<TResponse, HandlerError> {
+  if (middlewares.length === 0) return handler;
+
+  return (message, rawMessage) => {
+    const dispatch = (index: number, current: TMessage): ResultAsync<TResponse, HandlerError> => {
+      const middleware = middlewares[index];
+      if (middleware === undefined) return handler(current, rawMessage);
+      return middleware({ message: current, rawMessage, consumerName }, (next = current) =>
+        dispatch(index + 1, next),
+      );
+    };
+    return dispatch(0, message);
+  };
+}
@@ -0,0 +1,208 @@
+import { defineQueue, extractQueue } from "@amqp-contract/contract";
+import type { ConsumeMessage } from "amqplib";
+import { describe, expect, it } from "vitest";
+import {
+  getRetryCount,
+  toBatchMessageContext,
+  toMessageContext,
+  toMessageDelivery,
+  toMessageProperties,
+} from "./properties.js";
+
+function consumeMessage(
+  properties: Partial<ConsumeMessage["properties"]>,
+  fields: Partial<ConsumeMessage["fields"]> = {},
+): ConsumeMessage {
+  return {
+    content: Buffer.from("{}"),
+    fields: { redelivered: false, exchange: "orders", routingKey: "order.created", ...fields },
+    properties: { headers: {}, ...properties },
+  } as ConsumeMessage;
+}
+
+const queue = extractQueue(defineQueue("orders", { type: "quorum" }));
+
+describe("toMessageProperties", () => {
+  it("should normalize the AMQP properties of a message", () => {
+    // GIVEN
+    const msg = consumeMessage({
+      messageId: "message-1",
+      correlationId: "correlation-1",
+      timestamp: 1_700_000_000,
+      appId: "billing-service",
+      type: "order.created",
+      contentType: "application/json",
+      priority: 5,
+      deliveryMode: 2,
+    });
+
+    // WHEN
+    const properties = toMessageProperties(msg);
+
+    // THEN
+    expect(properties).toEqual({
+      messageId: "message-1",
+      correlationId: "correlation-1",
+      timestamp: new Date("2023-11-14T22:13:20.000Z"),
+      appId: "billing-service",
+      userId: undefined,
+      type: "order.created",
+      contentType: "application/json",
+      contentEncoding: undefined,
+      priority: 5,
+      replyTo: undefined,
+      expiration: undefined,
+      persistent: true,
+    });
+  });
+});
+
+describe("toMessageDelivery", () => {
+  it("should describe a first delivery", () => {
+    // GIVEN
+    const msg = consumeMessage({});
+
+    // WHEN
+    const delivery = toMessageDelivery(msg, queue);
+
+    // THEN
+    expect(delivery).toEqual({
+      redelivered: false,
+      exchange: "orders",
+      routingKey: "order.created",
+      retryCount: 0,
+      firstDeathReason: undefined,
+    });
+  });
+
+  it("should read the first death reason from the oldest x-death entry", () => {
+    // GIVEN
+    const msg = consumeMessage(
+      {
+        headers: {
+          "x-retry-count": 2,
+          "x-death": [
+            {
+              reason: "expired",
+              queue: "orders-wait",
+              exchange: "orders-wait",
+              "routing-keys": ["order.created"],
+              count: 2,
+              time: { "!": "timestamp", value: 1_700_000_060 },
+            },
+            {
+              reason: "rejected",
+              queue: "orders",
+              exchange: "orders",
+              "routing-keys": ["order.created"],
+              count: 1,
+              time: { "!": "timestamp", value: 1_700_000_000 },
+            },
+          ],
+        },
+      },
+      { redelivered: true },
+    );
+
+    // WHEN
+    const delivery = toMessageDelivery(msg, queue);
+
+    // THEN
+    expect(delivery).toMatchObject({
+      redelivered: true,
+      retryCount: 2,
+      firstDeathReason: "rejected",
+    });
+  });
+});
+
+describe("getRetryCount", () => {
+  const msg = consumeMessage({ headers: { "x-delivery-count": 3, "x-retry-count": 1 } });
+
+  it("should read the delivery count of quorum queues in immediate-requeue mode", () => {
+    // GIVEN
+    const requeueQueue = extractQueue(
+      defineQueue("orders", {
+        type: "quorum",
+        retry: { mode: "immediate-requeue", maxRetries: 5 },
+      }),
+    );
+
+    // WHEN / THEN
+    expect(getRetryCount(msg, requeueQueue)).toBe(3);
+  });
+
+  it("should read the worker's retry count of classic queues in immediate-requeue mode", () => {
+    // GIVEN
+    const requeueQueue = extractQueue(
+      defineQueue("orders", {
+        type: "classic",
+        retry: { mode: "immediate-requeue", maxRetries: 5 },
+      }),
+    );
+
+    // WHEN / THEN
+    expect(getRetryCount(msg, requeueQueue)).toBe(1);
+  });
+
+  it("should read the worker's retry count in ttl-backoff mode", () => {
+    // GIVEN
+    const backoffQueue = extractQueue(
+      defineQueue("orders", {
+        type: "quorum",
+        retry: { mode: "ttl-backoff", maxRetries: 5 },
+      }),
+    );
+
+    // WHEN / THEN
+    expect(getRetryCount(msg, backoffQueue)).toBe(1);
+  });
+
+  it("should ignore the delivery count of queues without retries", () => {
+    // GIVEN / WHEN / THEN
+    expect(getRetryCount(consumeMessage({ headers: { "x-delivery-count": 3 } }), queue)).toBe(0);
+  });
+});
+
+describe("toMessageContext", () => {
+  it("should start a correlation from the message id of uncorrelated messages", () => {
+    // GIVEN
+    const correlated = consumeMessage({ messageId: "message-2", correlationId: "flow-1" });
+    const uncorrelated = consumeMessage({ messageId: "message-1" });
+
+    // WHEN / THEN
+    expect(toMessageContext(correlated)).toEqual({
+      messageId: "message-2",
+      correlationId: "flow-1",
+    });
+    expect(toMessageContext(uncorrelated)).toEqual({
+      messageId: "message-1",
+      correlationId: "message-1",
+    });
+  });
+});
+
+describe("toBatchMessageContext", () => {
+  it("should keep the ids shared by every message of the batch", () => {
+    // GIVEN
+    const flow = [
+      consumeMessage({ messageId: "message-1", correlationId: "flow-1" }),
+      consumeMessage({ messageId: "message-2", correlationId: "flow-1" }),
+    ];
+    const mixed = [...flow, consumeMessage({ messageId: "message-3" })];
+
+    // WHEN / THEN
+    expect(toBatchMessageContext(flow.slice(0, 1))).toEqual({
+      messageId: "message-1",
+      correlationId: "flow-1",
+    });
+    expect(toBatchMessageContext(flow)).toEqual({
+      messageId: undefined,
+      correlationId: "flow-1",
+    });
+    expect(toBatchMessageContext(mixed)).toEqual({
+      messageId: undefined,
+      correlationId: undefined,
+    });
+  });
+});
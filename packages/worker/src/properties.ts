@@ -0,0 +1,112 @@
+import type { QueueDefinition } from "@amqp-contract/contract";
+import type { MessageContext } from "@amqp-contract/core";
+import type { ConsumeMessage } from "amqplib";
+import type { WorkerMessageDelivery, WorkerMessageProperties } from "./types.js";
+
+/**
+ * Normalize the AMQP properties of a consumed message.
+ *
+ * @internal
+ */
+export function toMessageProperties({ properties }: ConsumeMessage): WorkerMessageProperties {
+  return {
+    messageId: asString(properties.messageId),
+    correlationId: asString(properties.correlationId),
+    timestamp:
+      typeof properties.timestamp === "number" ? new Date(properties.timestamp * 1000) : undefined,
+    appId: asString(properties.appId),
+    userId: asString(properties.userId),
+    type: asString(properties.type),
+    contentType: asString(properties.contentType),
+    contentEncoding: asString(properties.contentEncoding),
+    priority: typeof properties.priority === "number" ? properties.priority : undefined,
+    replyTo: asString(properties.replyTo),
+    expiration: properties.expiration === undefined ? undefined : String(properties.expiration),
+    persistent: properties.deliveryMode === 2,
+  };
+}
+
+/**
+ * Describe how a consumed message was delivered to a consumer of `queue`.
+ *
+ * @internal
+ */
+export function toMessageDelivery(
+  msg: ConsumeMessage,
+  queue: QueueDefinition,
+): WorkerMessageDelivery {
+  return {
+    redelivered: msg.fields.redelivered,
+    exchange: msg.fields.exchange,
+    routingKey: msg.fields.routingKey,
+    retryCount: getRetryCount(msg, queue),
+    firstDeathReason: getFirstDeathReason(msg),
+  };
+}
+
+/**
+ * Context a message is handled in: messages published by its handler inherit
+ * its correlation id, or its `messageId` when it has none, and its
+ * `messageId` as causation id.
+ *
+ * @internal
+ */
+export function toMessageContext({ properties }: ConsumeMessage): MessageContext {
+  const messageId = asString(properties.messageId);
+  return { messageId, correlationId: asString(properties.correlationId) ?? messageId };
+}
+
+/**
+ * Context a batch is handled in: the `messageId` and correlation id of
+ * {@link toMessageContext} when every message of the batch shares them. A
+ * batch of a single flow passes its correlation id on, while a batch mixing
+ * flows starts new ones.
+ *
+ * @internal
+ */
+export function toBatchMessageContext(msgs: ReadonlyArray<ConsumeMessage>): MessageContext {
+  const [first, ...rest] = msgs.map(toMessageContext);
+  return {
+    messageId: rest.every(({ messageId }) => messageId === first?.messageId)
+      ? first?.messageId
+      : undefined,
+    correlationId: rest.every(({ correlationId }) => correlationId === first?.correlationId)
+      ? first?.correlationId
+      : undefined,
+  };
+}
+
+/**
+ * Number of times a message was retried by the retry policy of its queue:
+ * quorum queues in `immediate-requeue` mode count retries in their
+ * `x-delivery-count` header, while the other retries are republished by the
+ * worker with an `x-retry-count` header.
+ *
+ * @internal
+ */
+export function getRetryCount(msg: ConsumeMessage, queue: QueueDefinition): number {
+  const header =
+    queue.retry.mode === "immediate-requeue" && queue.type === "quorum"
+      ? "x-delivery-count"
+      : "x-retry-count";
+  const count: unknown = msg.properties.headers?.[header];
+  return typeof count === "number" ? count : 0;
+}
+
+/**
+ * Reason of the oldest entry of the `x-death` header, which RabbitMQ orders
+ * most recent first, falling back to the `x-first-death-reason` header.
+ */
+function getFirstDeathReason(msg: ConsumeMessage): string | undefined {
+  const headers = msg.properties.headers;
+  const deaths: unknown = headers?.["x-death"];
+  const firstDeath: unknown = Array.isArray(deaths) ? deaths.at(-1) : undefined;
+  if (typeof firstDeath === "object" && firstDeath !== null && "reason" in firstDeath) {
+    return asString(firstDeath.reason);
+  }
+  return asString(headers?.["x-first-death-reason"]);
+}
+
+function asString(value: unknown): string | undefined {
+  return typeof value === "string" ? value : undefined;
+}
@@ -9,6 +9,7 @@ import { type AmqpClient, type Logger, TechnicalError } from "@amqp-contract/cor
 import type { ConsumeMessage } from "amqplib";
 import { err, errAsync, ok, okAsync, ResultAsync } from "neverthrow";
 import { NonRetryableError } from "./errors.js";
+import { getRetryCount } from "./properties.js";
 
 type RetryContext = {
   amqpClient: AmqpClient;
@@ -96,10 +97,7 @@ function handleErrorImmediateRequeue(
   // Get retry count from headers
   // For quorum queues, the header x-delivery-count is automatically incremented on each delivery attempt
   // For classic queues, the header x-retry-count is manually incremented by the worker when re-publishing messages
-  const retryCount =
-    queue.type === "quorum"
-      ? ((msg.properties.headers?.["x-delivery-count"] as number) ?? 0)
-      : ((msg.properties.headers?.["x-retry-count"] as number) ?? 0);
+  const retryCount = getRetryCount(msg, queue);
 
   // Max retries exceeded -> DLQ. The caller already logged the original error;
   // emit only the routing decision here.
@@ -184,7 +182,7 @@ function handleErrorTtlBackoff(
   const queueName = queue.name;
 
   // Get retry count from headers
-  const retryCount = (msg.properties.headers?.["x-retry-count"] as number) ?? 0;
+  const retryCount = getRetryCount(msg, queue);
 
   // Max retries exceeded -> DLQ. The caller already logged the original error;
   // emit only the routing decision here.
@@ -242,51 +240,6 @@ function calculateRetryDelay(retryCount: number, config: ResolvedTtlBackoffRetry
   return Math.floor(Math.min(delay, maxDelayMs));
 }
 
-/**
- * Parse message content for republishing.
- *
- * The channel is configured with `json: true`, so values published as plain
- * objects are encoded once at publish time. Re-publishing the raw `Buffer`
- * would then trigger a *second* JSON.stringify (turning the bytes into a
- * stringified base64 blob), so for JSON payloads we must round-trip back to
- * the parsed value. For any other content type — or when the message is
- * compressed — we pass the bytes through untouched, since re-parsing would
- * either fail or silently corrupt binary data.
- */
-function parseMessageContentForRetry(
-  ctx: RetryContext,
-  msg: ConsumeMessage,
-  queueName: string,
-): Buffer | unknown {
-  if (msg.properties.contentEncoding) {
-    // Compressed (gzip, brotli, …) — opaque to us; keep the buffer as-is so
-    // the consumer's decompressor sees the same bytes the producer sent.
-    return msg.content;
-  }
-
-  const contentType = msg.properties.contentType;
-  const isJson =
-    contentType === undefined ||
-    contentType === "application/json" ||
-    contentType.startsWith("application/json;") ||
-    contentType.endsWith("+json");
-
-  if (!isJson) {
-    // Binary or other text payload — preserve bytes exactly.
-    return msg.content;
-  }
-
-  try {
-    return JSON.parse(msg.content.toString());
-  } catch (parseErr) {
-    ctx.logger?.warn("Failed to parse JSON message for retry, using original buffer", {
-      queueName,
-      error: parseErr,
-    });
-    return msg.content;
-  }
-}
-
 /**
  * Publish message with an incremented x-retry-count header and optional TTL.
  */
@@ -314,8 +267,6 @@ function publishForRetry(
   const retryCount = (msg.properties.headers?.["x-retry-count"] as number) ?? 0;
   const newRetryCount = retryCount + 1;
 
-  const content = parseMessageContentForRetry(ctx, msg, queueName);
-
   // Publish FIRST, then ack the original only if the publish succeeded.
   //
   // Acking before publishing would lose the message if the publish then fails:
@@ -325,8 +276,12 @@ function publishForRetry(
   // makes amqp-connection-manager redeliver it (or, on channel close, the
   // broker re-enqueues), so we either get the retry through or get another
   // chance at the original.
+  //
+  // The body is republished as the exact bytes received, with the original
+  // properties: whatever codec and compression produced it, the consumer
+  // decodes the retry like the first delivery.
   return ctx.amqpClient
-    .publish(exchange, routingKey, content, {
+    .publish(exchange, routingKey, msg.content, {
       ...msg.properties,
       ...(delayMs !== undefined ? { expiration: delayMs.toString() } : {}), // Per-message TTL
       headers: {
@@ -0,0 +1,70 @@
+import { TechnicalError } from "@amqp-contract/core";
+import { errAsync, okAsync } from "neverthrow";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { closeOnSignals } from "./shutdown.js";
+
+describe("closeOnSignals", () => {
+  const disposers: Array<() => void> = [];
+
+  afterEach(() => {
+    for (const dispose of disposers.splice(0)) dispose();
+    vi.restoreAllMocks();
+  });
+
+  it("should close the worker with the drain timeout on the first signal only", async () => {
+    // GIVEN
+    const worker = { close: vi.fn(() => okAsync({ abandoned: 0 })) };
+    disposers.push(
+      closeOnSignals(worker, {
+        signals: ["SIGUSR2", "SIGHUP"],
+        drainTimeoutMs: 5_000,
+        exit: false,
+      }),
+    );
+
+    // WHEN
+    process.emit("SIGUSR2", "SIGUSR2");
+    process.emit("SIGHUP", "SIGHUP");
+
+    // THEN
+    expect(worker.close).toHaveBeenCalledTimes(1);
+    expect(worker.close).toHaveBeenCalledWith({ drainTimeoutMs: 5_000 });
+  });
+
+  it.each([
+    { description: "0 when drained", close: () => okAsync({ abandoned: 0 }), code: 0 },
+    {
+      description: "1 when messages were abandoned",
+      close: () => okAsync({ abandoned: 2 }),
+      code: 1,
+    },
+    {
+      description: "1 when closing failed",
+      close: () => errAsync(new TechnicalError("close failed")),
+      code: 1,
+    },
+  ])("should exit with $description", async ({ close, code }) => {
+    // GIVEN
+    const exit = vi.spyOn(process, "exit").mockImplementation(() => undefined as never);
+    disposers.push(closeOnSignals({ close }, { signals: ["SIGUSR2"] }));
+
+    // WHEN
+    process.emit("SIGUSR2", "SIGUSR2");
+
+    // THEN
+    await vi.waitFor(() => expect(exit).toHaveBeenCalledWith(code));
+  });
+
+  it("should stop listening once disposed", () => {
+    // GIVEN
+    const worker = { close: vi.fn(() => okAsync({ abandoned: 0 })) };
+    const listeners = process.listenerCount("SIGTERM");
+    const dispose = closeOnSignals(worker, { exit: false });
+
+    // WHEN
+    dispose();
+
+    // THEN
+    expect(process.listenerCount("SIGTERM")).toBe(listeners);
+  });
+});
@@ -0,0 +1,70 @@
+import type { ContractDefinition } from "@amqp-contract/contract";
+import type { Logger } from "@amqp-contract/core";
+import type { TypedAmqpWorker, WorkerCloseOptions } from "./worker.js";
+
+/**
+ * Options for {@link closeOnSignals}.
+ */
+export type CloseOnSignalsOptions = WorkerCloseOptions & {
+  /** Signals that trigger the shutdown. Defaults to `["SIGTERM", "SIGINT"]`. */
+  signals?: ReadonlyArray<NodeJS.Signals> | undefined;
+  /**
+   * Whether to exit the process once the worker is closed: with code 0 if
+   * every in-flight message was drained, 1 otherwise. Defaults to `true`.
+   * A second signal received while draining exits immediately with code 1.
+   */
+  exit?: boolean | undefined;
+  logger?: Logger | undefined;
+};
+
+/**
+ * Gracefully close a worker when the process receives a termination signal.
+ *
+ * On the first signal, the worker stops consuming and drains its in-flight
+ * messages (see {@link TypedAmqpWorker.close}) before the process exits.
+ *
+ * @returns A function removing the signal listeners
+ *
+ * @example
+ * ```typescript
+ * const worker = (await TypedAmqpWorker.create({ contract, handlers, urls }))._unsafeUnwrap();
+ * closeOnSignals(worker, { drainTimeoutMs: 10_000 });
+ * ```
+ */
+export function closeOnSignals(
+  worker: Pick<TypedAmqpWorker<ContractDefinition>, "close">,
+  options: CloseOnSignalsOptions = {},
+): () => void {
+  const { signals = ["SIGTERM", "SIGINT"], exit = true, logger, drainTimeoutMs } = options;
+  let closing = false;
+
+  const onSignal = (signal: NodeJS.Signals): void => {
+    if (closing) {
+      logger?.warn("Received another signal while draining; exiting now", { signal });
+      if (exit) process.exit(1);
+      return;
+    }
+    closing = true;
+    logger?.info("Received signal; closing worker", { signal });
+
+    void worker.close({ drainTimeoutMs }).match(
+      ({ abandoned }) => {
+        logger?.info("Worker closed", { abandoned });
+        if (exit) process.exit(abandoned === 0 ? 0 : 1);
+      },
+      (error) => {
+        logger?.error("Failed to close worker", { error });
+        if (exit) process.exit(1);
+      },
+    );
+  };
+
+  for (const signal of signals) {
+    process.on(signal, onSignal);
+  }
+  return () => {
+    for (const signal of signals) {
+      process.off(signal, onSignal);
+    }
+  };
+}
@@ -10,6 +10,7 @@ import type {
 import type { StandardSchemaV1 } from "@standard-schema/spec";
 import type { ConsumeMessage } from "amqplib";
 import type { ResultAsync } from "neverthrow";
+import type { BatchConsumerOptions, BatchHandlerResult } from "./batch.js";
 import type { HandlerError } from "./errors.js";
 import { ConsumerOptions } from "./worker.js";
 
@@ -134,11 +135,57 @@ export type WorkerInferRpcResponse<
 // Consumed message envelopes
 // =============================================================================
 
+/**
+ * AMQP properties of a consumed message, normalized. Properties the publisher
+ * did not set are `undefined`.
+ */
+export type WorkerMessageProperties = {
+  messageId: string | undefined;
+  correlationId: string | undefined;
+  /** The AMQP `timestamp` property, in seconds per the AMQP spec, as a `Date`. */
+  timestamp: Date | undefined;
+  appId: string | undefined;
+  userId: string | undefined;
+  type: string | undefined;
+  contentType: string | undefined;
+  contentEncoding: string | undefined;
+  priority: number | undefined;
+  replyTo: string | undefined;
+  expiration: string | undefined;
+  /** Whether the message was published with `persistent: true` (delivery mode 2). */
+  persistent: boolean;
+};
+
+/**
+ * How a consumed message was delivered.
+ */
+export type WorkerMessageDelivery = {
+  /** Whether the broker delivered the message before without it being acked. */
+  redelivered: boolean;
+  /** The exchange the message was published to, `""` for the default exchange. */
+  exchange: string;
+  routingKey: string;
+  /**
+   * Number of times the message was retried by the retry policy of its queue:
+   * the `x-delivery-count` header set by quorum queues in `immediate-requeue`
+   * mode, or the `x-retry-count` header set by the worker's other retries.
+   * `0` on the first delivery.
+   */
+  retryCount: number;
+  /**
+   * Why the message was first dead-lettered (`"rejected"`, `"expired"`,
+   * `"maxlen"` or `"delivery_limit"`), from its `x-death` header, or
+   * `undefined` when it never was.
+   */
+  firstDeathReason: string | undefined;
+};
+
 /**
  * A consumed message containing parsed payload and headers.
  *
  * This type represents the first argument passed to consumer handlers.
- * It contains the validated payload and (if defined in the message schema) the validated headers.
+ * It contains the validated payload, the validated headers (if defined in the
+ * message schema), and the message's AMQP properties and delivery details.
  *
  * @template TPayload - The inferred payload type from the message schema
  * @template THeaders - The inferred headers type from the message schema (undefined if not defined)
@@ -148,6 +195,8 @@ export type WorkerInferRpcResponse<
  * const handler = defineHandler(contract, 'processOrder', (message, rawMessage) => {
  *   console.log(message.payload.orderId);  // Typed payload
  *   console.log(message.headers?.priority); // Typed headers (if defined)
+ *   console.log(message.properties.messageId); // AMQP properties
+ *   console.log(message.delivery.retryCount); // Delivery details
  *   console.log(rawMessage.fields.deliveryTag); // Raw AMQP message
  *   return okAsync(undefined);
  * });
@@ -158,6 +207,10 @@ export type WorkerConsumedMessage<TPayload, THeaders = undefined> = {
   payload: TPayload;
   /** The validated message headers (present only when headers schema is defined) */
   headers: THeaders extends undefined ? undefined : THeaders;
+  /** The message's AMQP properties */
+  properties: WorkerMessageProperties;
+  /** How the message was delivered */
+  delivery: WorkerMessageDelivery;
 };
 
 /**
@@ -202,6 +255,20 @@ export type WorkerInferConsumerHandler<
   rawMessage: ConsumeMessage,
 ) => ResultAsync<void, HandlerError>;
 
+/**
+ * Batch handler signature for a consumer, see `defineBatchHandler`. Receives
+ * the validated messages of a batch and their raw AMQP messages, in the same
+ * order. Returning an error fails every message of the batch; returning
+ * `{ failures }` fails only the listed messages.
+ */
+export type WorkerInferConsumerBatchHandler<
+  TContract extends ContractDefinition,
+  TName extends InferConsumerNames<TContract>,
+> = (
+  messages: ReadonlyArray<WorkerInferConsumedMessage<TContract, TName>>,
+  rawMessages: ReadonlyArray<ConsumeMessage>,
+) => ResultAsync<BatchHandlerResult, HandlerError>;
+
 /**
  * Handler signature for an RPC. Returns
  * `ResultAsync<TResponse, HandlerError>` where `TResponse` is the inferred
@@ -218,14 +285,31 @@ export type WorkerInferRpcHandler<
 ) => ResultAsync<WorkerInferRpcResponse<TContract, TName>, HandlerError>;
 
 /**
- * Handler entry for a regular consumer — function or `[handler, options]`.
+ * Handler entry for a regular consumer — function, `[handler, options]` or
+ * batch handler entry.
  */
 export type WorkerInferConsumerHandlerEntry<
   TContract extends ContractDefinition,
   TName extends InferConsumerNames<TContract>,
 > =
   | WorkerInferConsumerHandler<TContract, TName>
-  | readonly [WorkerInferConsumerHandler<TContract, TName>, ConsumerOptions];
+  | readonly [
+      WorkerInferConsumerHandler<TContract, TName>,
+      ConsumerOptions<WorkerInferConsumedMessage<TContract, TName>, void>,
+    ]
+  | WorkerInferConsumerBatchHandlerEntry<TContract, TName>;
+
+/**
+ * Handler entry for a batch consumer, created with `defineBatchHandler`.
+ */
+export type WorkerInferConsumerBatchHandlerEntry<
+  TContract extends ContractDefinition,
+  TName extends InferConsumerNames<TContract>,
+> = {
+  readonly type: "batch";
+  readonly handler: WorkerInferConsumerBatchHandler<TContract, TName>;
+  readonly options: BatchConsumerOptions;
+};
 
 /**
  * Handler entry for an RPC — function or `[handler, options]`.
@@ -235,7 +319,13 @@ export type WorkerInferRpcHandlerEntry<
   TName extends InferRpcNames<TContract>,
 > =
   | WorkerInferRpcHandler<TContract, TName>
-  | readonly [WorkerInferRpcHandler<TContract, TName>, ConsumerOptions];
+  | readonly [
+      WorkerInferRpcHandler<TContract, TName>,
+      ConsumerOptions<
+        WorkerInferRpcConsumedMessage<TContract, TName>,
+        WorkerInferRpcResponse<TContract, TName>
+      >,
+    ];
 
 /**
  * All handlers for a contract: one entry per `consumers` key plus one entry
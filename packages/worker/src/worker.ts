@@ -3,31 +3,72 @@ import {
   type ContractDefinition,
   type InferConsumerNames,
   type InferRpcNames,
+  type MessageDefinition,
+  type QueueEntry,
   extractConsumer,
   extractQueue,
 } from "@amqp-contract/contract";
 import {
   AmqpClient,
+  type Codec,
+  CodecRegistry,
   ConsumerOptions as AmqpClientConsumerOptions,
+  DEFAULT_CONTENT_TYPE,
+  decryptMessage,
+  encryptMessage,
+  KeyLookupError,
+  type KeyProvider,
   type Logger,
+  runWithMessageContext,
+  SignatureVerificationError,
+  type SignatureVerifier,
   TechnicalError,
   type TelemetryProvider,
+  verifyMessageSignature,
+  type TopologyMode,
   defaultTelemetryProvider,
   endSpanError,
   endSpanSuccess,
+  recordCircuitBreakerTransition,
   recordConsumeMetric,
-  safeJsonParse,
+  recordDuplicateMessage,
   startConsumeSpan,
 } from "@amqp-contract/core";
 import type { StandardSchemaV1 } from "@standard-schema/spec";
 import type { AmqpConnectionManagerOptions, ConnectionUrl } from "amqp-connection-manager";
 import type { ConsumeMessage } from "amqplib";
-import { err, errAsync, ok, okAsync, ResultAsync } from "neverthrow";
+import { err, errAsync, ok, okAsync, type Result, ResultAsync } from "neverthrow";
+import {
+  type BatchHandlerResult,
+  DEFAULT_BATCH_MAX_WAIT_MS,
+  isBatchHandlerEntry,
+  MessageBatcher,
+} from "./batch.js";
+import {
+  CircuitBreaker,
+  type CircuitAdmission,
+  type CircuitBreakerOptions,
+  type CircuitState,
+} from "./circuit-breaker.js";
+import { ConsumerScheduler, type OrderingOptions, resolveOrderingKey } from "./concurrency.js";
+import {
+  type DeduplicationOptions,
+  type DeduplicationStore,
+  resolveDeduplicationId,
+} from "./deduplication.js";
 import { decompressBuffer } from "./decompression.js";
 import type { HandlerError } from "./errors.js";
-import { MessageValidationError, NonRetryableError } from "./errors.js";
+import { MessageValidationError, NonRetryableError, RetryableError } from "./errors.js";
+import { composeMiddlewares, type WorkerMiddleware } from "./middleware.js";
+import {
+  getRetryCount,
+  toBatchMessageContext,
+  toMessageContext,
+  toMessageDelivery,
+  toMessageProperties,
+} from "./properties.js";
 import { handleError } from "./retry.js";
-import type { WorkerInferHandlers } from "./types.js";
+import type { WorkerConsumedMessage, WorkerInferHandlers } from "./types.js";
 
 /**
  * Either a regular consumer name or an RPC name from the contract.
@@ -47,7 +88,221 @@ type StoredHandler = (
   rawMessage: ConsumeMessage,
 ) => ResultAsync<unknown, HandlerError>;
 
-export type ConsumerOptions = AmqpClientConsumerOptions;
+/**
+ * Batch handler stored on the worker, widened like {@link StoredHandler}.
+ */
+type StoredBatchHandler = (
+  messages: ReadonlyArray<{ payload: unknown; headers: unknown }>,
+  rawMessages: ReadonlyArray<ConsumeMessage>,
+) => ResultAsync<BatchHandlerResult, HandlerError>;
+
+/**
+ * A validated message waiting in a batch.
+ */
+type BatchedMessage = {
+  message: { payload: unknown; headers: unknown };
+  rawMessage: ConsumeMessage;
+};
+
+/**
+ * Where a stream queue consumer starts reading, sent as the `x-stream-offset`
+ * consumer argument.
+ *
+ * - `"first"`: the first message still retained in the stream
+ * - `"last"`: the last chunk of messages written to the stream
+ * - `"next"`: only messages published after the consumer starts (RabbitMQ's default)
+ * - `{ offset }`: a specific numeric offset
+ * - `{ timestamp }`: the first messages published at or after the given time
+ */
+export type StreamOffset = "first" | "last" | "next" | { offset: number } | { timestamp: Date };
+
+/**
+ * Per-handler consumer options.
+ *
+ * @typeParam TMessage - The validated message type passed to the handler, used to type
+ *   deduplication key functions and middlewares
+ * @typeParam TResponse - The handler's response type, used to type middlewares
+ */
+export type ConsumerOptions<
+  TMessage = { payload: unknown; headers: unknown },
+  TResponse = unknown,
+> = AmqpClientConsumerOptions & {
+  /**
+   * Starting point when consuming a stream queue. Only valid for handlers
+   * whose queue is defined with `type: "stream"`.
+   */
+  streamOffset?: StreamOffset;
+  /**
+   * Skip messages that have already been processed successfully, based on
+   * a message id looked up in a {@link DeduplicationStore}.
+   */
+  deduplication?: DeduplicationOptions<TMessage>;
+  /**
+   * Middlewares wrapping this handler, run after the worker-wide
+   * `middlewares` of {@link CreateWorkerOptions}, in array order.
+   */
+  middlewares?: ReadonlyArray<WorkerMiddleware<TMessage, TResponse>>;
+  /**
+   * Pause this consumer after repeated `RetryableError` failures, key lookup
+   * failures included, then probe with a single message before resuming. Not
+   * supported for stream queues.
+   */
+  circuitBreaker?: CircuitBreakerOptions;
+  /**
+   * Maximum number of messages processed at once by this consumer. Unlike
+   * `prefetch`, which bounds the unacknowledged messages held by the worker,
+   * it bounds the handlers running in parallel. Defaults to no limit.
+   */
+  concurrency?: number;
+  /**
+   * Process messages sharing a key in delivery order, while messages with
+   * different keys run in parallel.
+   */
+  ordering?: OrderingOptions<TMessage>;
+  /**
+   * Only accept messages signed by a key this verifier trusts, looked up by
+   * the `x-signature-key-id` header. Unsigned messages and messages failing
+   * verification are rejected without retry and go to the dead letter exchange,
+   * while messages whose key lookup fails are retried like a `RetryableError`.
+   */
+  signatureVerifier?: SignatureVerifier;
+};
+
+/**
+ * Prefetch applied to stream queue consumers that do not configure one:
+ * RabbitMQ refuses stream consumers without a prefetch limit.
+ */
+const DEFAULT_STREAM_PREFETCH = 100;
+
+/**
+ * Default time {@link TypedAmqpWorker.close} waits for in-flight messages.
+ */
+const DEFAULT_DRAIN_TIMEOUT_MS = 30_000;
+
+/**
+ * Runtime state of a consumer, as reported by {@link TypedAmqpWorker.getConsumerStates}.
+ *
+ * - `"consuming"`: the consumer is registered and receives messages
+ * - `"paused"`: the consumer was paused with {@link TypedAmqpWorker.pause}
+ * - `"circuit-open"`: the consumer's circuit breaker is open; it resumes by itself
+ * - `"cancelled"`: the broker cancelled the consumer, e.g. because its queue was deleted
+ * - `"stopped"`: the consumer is not registered, either because the worker is starting or closed
+ *   or because a resume failed
+ */
+export type ConsumerState = "consuming" | "paused" | "circuit-open" | "cancelled" | "stopped";
+
+/**
+ * Options for {@link TypedAmqpWorker.close}.
+ */
+export type WorkerCloseOptions = {
+  /**
+   * Maximum time in ms to wait for in-flight messages to be processed
+   * (acked, nacked or republished for retry) before the connection is
+   * closed. Defaults to 30s. Pass `0` to close without waiting.
+   */
+  drainTimeoutMs?: number | undefined;
+};
+
+/**
+ * Outcome of {@link TypedAmqpWorker.close}.
+ */
+export type WorkerCloseResult = {
+  /**
+   * Number of messages still being processed when the drain timed out.
+   * They were neither acked nor nacked, so the broker redelivers them.
+   */
+  abandoned: number;
+};
+
+/**
+ * Translate worker consumer options into `AmqpClient.consume` options,
+ * mapping `streamOffset` to the `x-stream-offset` consumer argument.
+ */
+function toConsumeOptions(
+  queueEntry: QueueEntry,
+  options: ConsumerOptions | undefined,
+): Result<AmqpClientConsumerOptions, TechnicalError> {
+  const {
+    streamOffset,
+    deduplication: _deduplication,
+    middlewares: _middlewares,
+    circuitBreaker,
+    concurrency,
+    ordering: _ordering,
+    signatureVerifier: _signatureVerifier,
+    ...consumeOptions
+  } = options ?? {};
+  const queue = extractQueue(queueEntry);
+
+  if (concurrency !== undefined && (!Number.isSafeInteger(concurrency) || concurrency < 1)) {
+    return err(
+      new TechnicalError(
+        `Invalid concurrency: expected a positive integer, got ${String(concurrency)}`,
+      ),
+    );
+  }
+
+  if (circuitBreaker !== undefined) {
+    if (queue.type === "stream") {
+      return err(
+        new TechnicalError(
+          `circuitBreaker is not supported for stream queues, but queue "${queue.name}" is a stream queue`,
+        ),
+      );
+    }
+    if (
+      !Number.isSafeInteger(circuitBreaker.failureThreshold) ||
+      circuitBreaker.failureThreshold < 1
+    ) {
+      return err(
+        new TechnicalError(
+          `Invalid circuitBreaker: expected a positive integer failureThreshold, got ${String(circuitBreaker.failureThreshold)}`,
+        ),
+      );
+    }
+  }
+
+  if (queue.type !== "stream") {
+    if (streamOffset !== undefined) {
+      return err(
+        new TechnicalError(
+          `streamOffset is only supported for stream queues, but queue "${queue.name}" is a ${queue.type} queue`,
+        ),
+      );
+    }
+    return ok(consumeOptions);
+  }
+
+  let offset: unknown;
+  if (streamOffset === undefined || typeof streamOffset === "string") {
+    offset = streamOffset;
+  } else if ("offset" in streamOffset) {
+    if (!Number.isSafeInteger(streamOffset.offset) || streamOffset.offset < 0) {
+      return err(
+        new TechnicalError(
+          `Invalid streamOffset: expected a non-negative integer offset, got ${String(streamOffset.offset)}`,
+        ),
+      );
+    }
+    offset = streamOffset.offset;
+  } else {
+    const time = streamOffset.timestamp.getTime();
+    if (Number.isNaN(time)) {
+      return err(new TechnicalError("Invalid streamOffset: timestamp is an invalid date"));
+    }
+    // AMQP timestamps are whole seconds; amqplib needs the explicit type tag
+    // to encode the value as a timestamp rather than a plain integer.
+    offset = { "!": "timestamp", value: Math.floor(time / 1000) };
+  }
+
+  return ok({
+    ...consumeOptions,
+    prefetch: consumeOptions.prefetch ?? DEFAULT_STREAM_PREFETCH,
+    ...(offset === undefined
+      ? {}
+      : { arguments: { ...consumeOptions.arguments, "x-stream-offset": offset } }),
+  });
+}
 
 /**
  * Type guard to check if a handler entry is a tuple format [handler, options].
@@ -125,6 +380,36 @@ export type CreateWorkerOptions<TContract extends ContractDefinition> = {
    * Handler-specific options provided in tuple form override these defaults.
    */
   defaultConsumerOptions?: ConsumerOptions | undefined;
+  /**
+   * Middlewares wrapping every handler, outermost first. They run before the
+   * handler-specific `middlewares` consumer option and see the validated
+   * message untyped, since they apply to all consumers and RPCs.
+   *
+   * @example
+   * ```typescript
+   * const requireTenant: WorkerMiddleware = ({ rawMessage }, next) =>
+   *   rawMessage.properties.headers?.["x-tenant-id"] === undefined
+   *     ? errAsync(new NonRetryableError("Missing tenant"))
+   *     : next();
+   * ```
+   */
+  middlewares?: ReadonlyArray<WorkerMiddleware> | undefined;
+  /**
+   * Codecs used to decode payloads, selected by the `contentType` property of
+   * each incoming message, in addition to the built-in JSON, MessagePack and
+   * CBOR codecs. A codec replaces the built-in one with the same content type.
+   * RPC replies are encoded with them too.
+   */
+  codecs?: ReadonlyArray<Codec> | undefined;
+  /**
+   * Provider of the keys decrypting incoming messages, looked up by the key id
+   * in their `x-encryption-key-id` header. Messages that fail to decrypt, and
+   * unencrypted messages defined with `encryption: "required"`, are rejected
+   * without retry like a `NonRetryableError`, while messages whose key lookup
+   * fails are retried like a `RetryableError`. RPC replies whose response
+   * message requires encryption are encrypted with its current key.
+   */
+  keyProvider?: KeyProvider | undefined;
   /**
    * Maximum time in ms to wait for the AMQP connection to become ready before
    * `create()` resolves to an `err(TechnicalError)`. Defaults to 30s
@@ -132,6 +417,14 @@ export type CreateWorkerOptions<TContract extends ContractDefinition> = {
    * disable the timeout and let amqp-connection-manager retry indefinitely.
    */
   connectTimeoutMs?: number | null | undefined;
+  /**
+   * How the contract topology is handled on connect: `"assert"` (default)
+   * creates it, `"verify"` checks that its exchanges and queues exist and
+   * fails `create()` with a `TechnicalError` listing the missing ones, and
+   * `"skip"` leaves it alone. Use `"verify"` or `"skip"` when the application
+   * lacks the `configure` permission.
+   */
+  topology?: TopologyMode | undefined;
 };
 
 /**
@@ -188,7 +481,23 @@ export class TypedAmqpWorker<TContract extends ContractDefinition> {
    */
   private readonly actualHandlers: Partial<Record<HandlerName<TContract>, StoredHandler>>;
   private readonly consumerOptions: Partial<Record<HandlerName<TContract>, ConsumerOptions>>;
-  private readonly consumerTags: Set<string> = new Set();
+  /** Batch consumers created with `defineBatchHandler`, keyed by handler name. */
+  private readonly batchConsumers: Map<
+    string,
+    { handler: StoredBatchHandler; batcher: MessageBatcher<BatchedMessage> }
+  > = new Map();
+  /** Consumer tag of every registered consumer, keyed by handler name. */
+  private readonly consumerTags: Map<string, string> = new Map();
+  /** Consumers paused with {@link pause}; they stay paused across reconnects. */
+  private readonly pausedConsumers: Set<string> = new Set();
+  /** Consumers cancelled by the broker. */
+  private readonly cancelledConsumers: Set<string> = new Set();
+  /** Circuit breaker of every consumer configuring one, keyed by handler name. */
+  private readonly circuitBreakers: Map<string, CircuitBreaker> = new Map();
+  /** Scheduler of every consumer limiting its concurrency or ordering its messages. */
+  private readonly schedulers: Map<string, ConsumerScheduler> = new Map();
+  /** Consume callbacks that are still processing a message. */
+  private readonly inFlight: Set<Promise<void>> = new Set();
   private readonly telemetry: TelemetryProvider;
 
   private constructor(
@@ -196,6 +505,9 @@ export class TypedAmqpWorker<TContract extends ContractDefinition> {
     private readonly amqpClient: AmqpClient,
     handlers: WorkerInferHandlers<TContract>,
     private readonly defaultConsumerOptions: ConsumerOptions,
+    middlewares: ReadonlyArray<WorkerMiddleware>,
+    private readonly codecs: CodecRegistry,
+    private readonly keyProvider: KeyProvider | undefined,
     private readonly logger?: Logger,
     telemetry?: TelemetryProvider,
   ) {
@@ -210,17 +522,57 @@ export class TypedAmqpWorker<TContract extends ContractDefinition> {
       const handlerEntry = handlersRecord[handlerName];
       const typedName = handlerName as HandlerName<TContract>;
 
-      if (isHandlerTuple(handlerEntry)) {
-        const [handler, options] = handlerEntry;
-        this.actualHandlers[typedName] = handler as StoredHandler;
+      if (isBatchHandlerEntry(handlerEntry)) {
+        const { maxBatchSize, maxWaitMs, ...batchOptions } = handlerEntry.options;
+        const batchHandler = handlerEntry.handler as StoredBatchHandler;
+        // Batch consumers only take the defaults that apply to them, see
+        // `BatchConsumerOptions`.
+        const {
+          deduplication: _deduplication,
+          middlewares: _middlewares,
+          circuitBreaker: _circuitBreaker,
+          concurrency: _concurrency,
+          ordering: _ordering,
+          ...defaultOptions
+        } = this.defaultConsumerOptions;
+        const consumeOptions = { ...defaultOptions, ...batchOptions };
         this.consumerOptions[typedName] = {
-          ...this.defaultConsumerOptions,
-          ...options,
+          ...consumeOptions,
+          prefetch: consumeOptions.prefetch ?? maxBatchSize,
         };
-      } else {
-        this.actualHandlers[typedName] = handlerEntry as StoredHandler;
-        this.consumerOptions[typedName] = this.defaultConsumerOptions;
+        this.batchConsumers.set(handlerName, {
+          handler: batchHandler,
+          batcher: new MessageBatcher(
+            maxBatchSize,
+            maxWaitMs ?? DEFAULT_BATCH_MAX_WAIT_MS,
+            (batch) => this.processBatch(typedName, batchHandler, batch),
+          ),
+        });
+        continue;
+      }
+
+      const [handler, options] = isHandlerTuple(handlerEntry)
+        ? [handlerEntry[0], { ...this.defaultConsumerOptions, ...handlerEntry[1] }]
+        : [handlerEntry, this.defaultConsumerOptions];
+
+      this.consumerOptions[typedName] = options;
+      if (options.concurrency !== undefined || options.ordering) {
+        this.schedulers.set(handlerName, new ConsumerScheduler(options.concurrency));
+      }
+      if (options.circuitBreaker) {
+        this.circuitBreakers.set(
+          handlerName,
+          new CircuitBreaker(options.circuitBreaker, (state) =>
+            this.onCircuitStateChange(typedName, state),
+          ),
+        );
       }
+      // Worker-wide middlewares wrap the handler-specific ones.
+      this.actualHandlers[typedName] = composeMiddlewares(
+        [...middlewares, ...(options.middlewares ?? [])],
+        handler as StoredHandler,
+        handlerName,
+      );
     }
   }
 
@@ -228,13 +580,13 @@ export class TypedAmqpWorker<TContract extends ContractDefinition> {
    * Build a `ConsumerDefinition`-shaped view for a handler name, regardless
    * of whether it came from `contract.consumers` or `contract.rpcs`. The
    * dispatch path treats both uniformly; the returned `isRpc` flag (and the
-   * accompanying `responseSchema`) tells `processMessage` whether to validate
-   * the handler return value and publish a reply.
+   * accompanying `response` message) tells `processMessage` whether to
+   * validate the handler return value and publish a reply.
    */
   private resolveConsumerView(name: HandlerName<TContract>): {
     consumer: ConsumerDefinition;
     isRpc: boolean;
-    responseSchema?: StandardSchemaV1;
+    response?: MessageDefinition;
   } {
     // Use `Object.hasOwn` rather than `key in rpcs` so prototype properties
     // (e.g. "toString") on a plain object are not misclassified as RPC names.
@@ -244,7 +596,7 @@ export class TypedAmqpWorker<TContract extends ContractDefinition> {
       return {
         consumer: { queue: rpc.queue, message: rpc.request },
         isRpc: true,
-        responseSchema: rpc.response.payload,
+        response: rpc.response,
       };
     }
     const consumerEntry = this.contract.consumers![name as string]!;
@@ -284,9 +636,13 @@ export class TypedAmqpWorker<TContract extends ContractDefinition> {
     urls,
     connectionOptions,
     defaultConsumerOptions,
+    middlewares,
+    codecs,
+    keyProvider,
     logger,
     telemetry,
     connectTimeoutMs,
+    topology,
   }: CreateWorkerOptions<TContract>): ResultAsync<TypedAmqpWorker<TContract>, TechnicalError> {
     const worker = new TypedAmqpWorker(
       contract,
@@ -294,9 +650,13 @@ export class TypedAmqpWorker<TContract extends ContractDefinition> {
         urls,
         connectionOptions,
         connectTimeoutMs,
+        topology,
       }),
       handlers,
       defaultConsumerOptions ?? {},
+      middlewares ?? [],
+      new CodecRegistry(codecs),
+      keyProvider,
       logger,
       telemetry,
     );
@@ -328,19 +688,27 @@ export class TypedAmqpWorker<TContract extends ContractDefinition> {
   /**
    * Close the AMQP channel and connection.
    *
-   * This gracefully closes the connection to the AMQP broker,
-   * stopping all message consumption and cleaning up resources.
+   * Consumers are cancelled first so no new message is delivered, then the
+   * worker waits up to `drainTimeoutMs` for the messages being processed to
+   * be acked, nacked or republished for retry. Only then is the connection
+   * released.
+   *
+   * @returns A ResultAsync resolving to the number of messages abandoned
+   *   because the drain timed out.
    *
    * @example
    * ```typescript
-   * const closeResult = await worker.close();
+   * const closeResult = await worker.close({ drainTimeoutMs: 10_000 });
    * if (closeResult.isOk()) {
-   *   console.log('Worker closed successfully');
+   *   console.log(`Worker closed, ${closeResult.value.abandoned} messages abandoned`);
    * }
    * ```
    */
-  close(): ResultAsync<void, TechnicalError> {
-    const cancellations = Array.from(this.consumerTags).map((consumerTag) =>
+  close(options: WorkerCloseOptions = {}): ResultAsync<WorkerCloseResult, TechnicalError> {
+    for (const breaker of this.circuitBreakers.values()) {
+      breaker.dispose();
+    }
+    const cancellations = Array.from(this.consumerTags.values()).map((consumerTag) =>
       // Swallow per-consumer cancel errors during close — they are best-effort
       // cleanup and we still want to release the underlying connection.
       this.amqpClient.cancel(consumerTag).orElse((error) => {
@@ -352,9 +720,229 @@ export class TypedAmqpWorker<TContract extends ContractDefinition> {
     return ResultAsync.combine(cancellations)
       .andTee(() => {
         this.consumerTags.clear();
+        // Hand partial batches over now rather than after their wait time.
+        for (const { batcher } of this.batchConsumers.values()) {
+          void batcher.flush();
+        }
+      })
+      .andThen(() => this.drain(options.drainTimeoutMs ?? DEFAULT_DRAIN_TIMEOUT_MS))
+      .andThen((abandoned) => this.amqpClient.close().map(() => ({ abandoned })));
+  }
+
+  /**
+   * Stop consuming from a consumer's queue, leaving the rest of the worker
+   * running.
+   *
+   * The consumer is cancelled on the broker, so its unacknowledged prefetched
+   * messages stay with the worker until they are processed, and no new message
+   * is delivered. Paused consumers are not re-registered when the connection
+   * recovers. Pausing an already paused consumer is a no-op.
+   *
+   * @param name - The consumer or RPC name from the contract
+   *
+   * @example
+   * ```typescript
+   * // Stop processing payments while the payment provider is down
+   * await worker.pause('processPayment');
+   * ```
+   */
+  pause(name: HandlerName<TContract>): ResultAsync<void, TechnicalError> {
+    const unknown = this.checkHandlerName(name);
+    if (unknown) return errAsync(unknown);
+    if (this.pausedConsumers.has(String(name))) return okAsync(undefined);
+
+    this.pausedConsumers.add(String(name));
+    return this.cancelConsumer(name)
+      .andTee(() => {
+        this.logger?.info("Consumer paused", { consumerName: String(name) });
       })
-      .andThen(() => this.amqpClient.close())
-      .map(() => undefined);
+      .orTee(() => {
+        this.pausedConsumers.delete(String(name));
+      })
+      .mapErr((error) => new TechnicalError(`Failed to pause consumer "${String(name)}"`, error));
+  }
+
+  /**
+   * Start consuming again for a consumer paused with {@link pause}, or
+   * cancelled by the broker. The consumer is registered with its original
+   * options, prefetch included. Resuming a consuming consumer is a no-op.
+   * While its circuit breaker is open, the consumer is only unpaused: it
+   * resumes when the circuit half-opens.
+   *
+   * @param name - The consumer or RPC name from the contract
+   */
+  resume(name: HandlerName<TContract>): ResultAsync<void, TechnicalError> {
+    const unknown = this.checkHandlerName(name);
+    if (unknown) return errAsync(unknown);
+    if (this.consumerTags.has(String(name))) return okAsync(undefined);
+
+    this.pausedConsumers.delete(String(name));
+    if (this.circuitBreakers.get(String(name))?.state === "open") return okAsync(undefined);
+    return this.consume(name).andTee(() => {
+      this.logger?.info("Consumer resumed", { consumerName: String(name) });
+    });
+  }
+
+  /**
+   * Report the runtime state of every consumer and RPC handler of the worker.
+   *
+   * @example
+   * ```typescript
+   * worker.getConsumerStates();
+   * // { processOrder: 'consuming', processPayment: 'paused' }
+   * ```
+   */
+  getConsumerStates(): Record<HandlerName<TContract>, ConsumerState> {
+    const states: Record<string, ConsumerState> = {};
+    for (const name of Object.keys(this.consumerOptions)) {
+      states[name] = this.pausedConsumers.has(name)
+        ? "paused"
+        : this.circuitBreakers.get(name)?.state === "open"
+          ? "circuit-open"
+          : this.consumerTags.has(name)
+            ? "consuming"
+            : this.cancelledConsumers.has(name)
+              ? "cancelled"
+              : "stopped";
+    }
+    return states as Record<HandlerName<TContract>, ConsumerState>;
+  }
+
+  /**
+   * Return an error for names that are not handled by this worker. Names are
+   * type-checked, but may come from untyped sources such as an admin endpoint.
+   */
+  private checkHandlerName(name: HandlerName<TContract>): TechnicalError | undefined {
+    if (Object.hasOwn(this.consumerOptions, name as string)) return undefined;
+    return new TechnicalError(`Unknown consumer "${String(name)}"`);
+  }
+
+  /**
+   * Run the processing of a validated message under the consumer's
+   * concurrency limit and per-key ordering, when configured. A message whose
+   * ordering key function throws is processed without ordering.
+   */
+  private schedule(
+    name: HandlerName<TContract>,
+    queueName: string,
+    validatedMessage: { payload: unknown; headers: unknown },
+    msg: ConsumeMessage,
+    task: () => ResultAsync<void, TechnicalError>,
+  ): ResultAsync<void, TechnicalError> {
+    const scheduler = this.schedulers.get(String(name));
+    if (!scheduler) return task();
+
+    const ordering = this.consumerOptions[name]?.ordering;
+    let key: string | undefined;
+    try {
+      key = ordering ? resolveOrderingKey(ordering.key, validatedMessage, msg) : undefined;
+    } catch (error: unknown) {
+      this.logger?.warn("Ordering key function threw; processing message without ordering", {
+        consumerName: String(name),
+        queueName,
+        error,
+      });
+    }
+    return new ResultAsync(scheduler.run(key, task));
+  }
+
+  /**
+   * Run the parsing and scheduling of a message once the previously delivered
+   * messages of the consumer are parsed and scheduled, when the consumer
+   * orders its messages. Their ordering key is only known once they are
+   * validated, and decrypting, decompressing or validating them takes more or
+   * less time depending on the message.
+   */
+  private parseInDeliveryOrder<T>(
+    name: HandlerName<TContract>,
+    step: () => ResultAsync<T, TechnicalError>,
+  ): ResultAsync<T, TechnicalError> {
+    const scheduler = this.schedulers.get(String(name));
+    if (!scheduler || !this.consumerOptions[name]?.ordering) return step();
+    return new ResultAsync(scheduler.inDeliveryOrder(step));
+  }
+
+  /**
+   * Cancel a consumer on the broker, if registered.
+   */
+  private cancelConsumer(name: HandlerName<TContract>): ResultAsync<void, TechnicalError> {
+    const consumerTag = this.consumerTags.get(String(name));
+    if (consumerTag === undefined) return okAsync(undefined);
+
+    return this.amqpClient.cancel(consumerTag).andTee(() => {
+      this.consumerTags.delete(String(name));
+    });
+  }
+
+  /**
+   * Report a circuit breaker transition, cancel the consumer when the circuit
+   * opens and register it again for the probe when the circuit half-opens,
+   * unless it was paused with {@link pause} in the meantime.
+   */
+  private onCircuitStateChange(name: HandlerName<TContract>, state: CircuitState): void {
+    const consumerName = String(name);
+    const queueName = extractQueue(this.resolveConsumerView(name).consumer.queue).name;
+    const context = { consumerName, queueName, circuitState: state };
+    try {
+      recordCircuitBreakerTransition(this.telemetry, queueName, consumerName, state);
+    } catch (telemetryError: unknown) {
+      this.logger?.warn("Telemetry recording threw; ignoring", {
+        consumerName,
+        queueName,
+        error: telemetryError,
+      });
+    }
+
+    switch (state) {
+      case "open":
+        this.logger?.warn("Circuit breaker opened; pausing consumer", context);
+        void this.cancelConsumer(name).orTee((error) => {
+          this.logger?.error("Failed to pause consumer for open circuit", { ...context, error });
+        });
+        return;
+      case "half-open":
+        this.logger?.info("Circuit breaker half-open; resuming consumer with a probe", context);
+        if (this.pausedConsumers.has(consumerName) || this.consumerTags.has(consumerName)) return;
+        void this.consume(name).orTee((error) => {
+          this.logger?.error("Failed to resume consumer for half-open circuit", {
+            ...context,
+            error,
+          });
+        });
+        return;
+      case "closed":
+        this.logger?.info("Circuit breaker closed", context);
+        return;
+    }
+  }
+
+  /**
+   * Wait for the in-flight consume callbacks to settle, up to `timeoutMs`.
+   * Resolves to the number of callbacks still running at the deadline.
+   */
+  private drain(timeoutMs: number): ResultAsync<number, never> {
+    if (this.inFlight.size === 0) {
+      return okAsync(0);
+    }
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const deadline = new Promise<void>((resolve) => {
+      timer = setTimeout(resolve, timeoutMs);
+    });
+
+    return ResultAsync.fromSafePromise(
+      Promise.race([Promise.allSettled(this.inFlight), deadline]).then(() => {
+        clearTimeout(timer);
+        const abandoned = this.inFlight.size;
+        if (abandoned > 0) {
+          this.logger?.warn("Drain timed out; abandoning in-flight messages", {
+            abandoned,
+            drainTimeoutMs: timeoutMs,
+          });
+        }
+        return abandoned;
+      }),
+    );
   }
 
   /**
@@ -380,13 +968,28 @@ export class TypedAmqpWorker<TContract extends ContractDefinition> {
    */
   private consume(name: HandlerName<TContract>): ResultAsync<void, TechnicalError> {
     const view = this.resolveConsumerView(name);
+    const batchConsumer = this.batchConsumers.get(String(name));
+    if (batchConsumer) {
+      const { maxBatchSize } = batchConsumer.batcher;
+      if (!Number.isSafeInteger(maxBatchSize) || maxBatchSize < 1) {
+        return errAsync(
+          new TechnicalError(
+            `Invalid maxBatchSize: expected a positive integer, got ${String(maxBatchSize)}`,
+          ),
+        );
+      }
+      return this.consumeSingle(name, view, (msg) =>
+        this.processBatchedDelivery(msg, view.consumer, name, batchConsumer.batcher),
+      );
+    }
+
     // Non-null assertion safe: `WorkerInferHandlers<TContract>` requires every
     // consumers / rpcs key to have a handler, so by the time we reach this
     // dispatch path the entry exists in `actualHandlers`. Enforced by the type
     // system at the public API boundary, not by a runtime check.
     const handler = this.actualHandlers[name]!;
 
-    return this.consumeSingle(name, view, handler);
+    return this.consumeSingle(name, view, (msg) => this.processDelivery(msg, view, name, handler));
   }
 
   /**
@@ -419,23 +1022,39 @@ export class TypedAmqpWorker<TContract extends ContractDefinition> {
   }
 
   /**
-   * Parse and validate a message from AMQP. Pure: returns the validated payload
-   * and headers, or an error. The dispatch path in {@link processMessage} routes
-   * validation/parse errors directly to the DLQ (single nack) — they never enter
-   * the retry pipeline because retrying an unparseable or schema-violating
-   * payload cannot succeed.
+   * Parse and validate a message from AMQP: verify its signature when the
+   * consumer requires one, decrypt, decompress, decode, then validate it.
+   * Pure: returns the validated payload and headers along with the message's
+   * normalized properties and delivery details, or an error. The
+   * dispatch path in {@link processMessage} routes signature, decryption,
+   * parse and validation errors directly to the DLQ (single nack) — they
+   * never enter the retry pipeline because retrying a forged, undecryptable,
+   * unparseable or schema-violating payload cannot succeed. Only key lookup
+   * failures are retried, see {@link parseAndValidateOrNack}.
    */
   private parseAndValidateMessage(
     msg: ConsumeMessage,
     consumer: ConsumerDefinition,
     consumerName: HandlerName<TContract>,
-  ): ResultAsync<{ payload: unknown; headers: unknown }, TechnicalError> {
+  ): ResultAsync<WorkerConsumedMessage<unknown, unknown>, TechnicalError> {
     const context = { consumerName: String(consumerName) };
+    const signatureVerifier = this.consumerOptions[consumerName]?.signatureVerifier;
 
-    const parsePayload = decompressBuffer(msg.content, msg.properties.contentEncoding)
-      .andThen((buffer) =>
-        safeJsonParse(buffer, (error) => new TechnicalError("Failed to parse JSON", error)),
+    const parsePayload = (
+      signatureVerifier
+        ? verifyMessageSignature(
+            msg.content,
+            msg.properties,
+            signatureVerifier,
+            context.consumerName,
+          )
+        : okAsync<void, TechnicalError>(undefined)
+    )
+      .andThen(() =>
+        decryptMessage(msg.content, msg.properties.headers, consumer.message, this.keyProvider),
       )
+      .andThen((buffer) => decompressBuffer(buffer, msg.properties.contentEncoding))
+      .andThen((buffer) => this.codecs.decode(buffer, msg.properties.contentType))
       .andThen((parsed) =>
         this.validateSchema(consumer.message.payload as StandardSchemaV1, parsed, {
           ...context,
@@ -457,6 +1076,8 @@ export class TypedAmqpWorker<TContract extends ContractDefinition> {
     return ResultAsync.combine([parsePayload, parseHeaders]).map(([payload, headers]) => ({
       payload,
       headers,
+      properties: toMessageProperties(msg),
+      delivery: toMessageDelivery(msg, extractQueue(consumer.queue)),
     }));
   }
 
@@ -483,7 +1104,7 @@ export class TypedAmqpWorker<TContract extends ContractDefinition> {
     msg: ConsumeMessage,
     queueName: string,
     rpcName: HandlerName<TContract>,
-    responseSchema: StandardSchemaV1,
+    responseMessage: MessageDefinition,
     response: unknown,
   ): ResultAsync<void, HandlerError> {
     const replyTo = msg.properties.replyTo;
@@ -518,7 +1139,7 @@ export class TypedAmqpWorker<TContract extends ContractDefinition> {
     // we don't want that to crash the consume callback.
     let rawValidation: ReturnType<StandardSchemaV1["~standard"]["validate"]>;
     try {
-      rawValidation = responseSchema["~standard"].validate(response);
+      rawValidation = responseMessage.payload["~standard"].validate(response);
     } catch (error: unknown) {
       return errAsync(new NonRetryableError("RPC response schema validation threw", error));
     }
@@ -541,29 +1162,37 @@ export class TypedAmqpWorker<TContract extends ContractDefinition> {
         }
         return ok<unknown, HandlerError>(validation.value);
       })
-      .andThen((validatedResponse) =>
-        this.amqpClient
-          .publish("", replyTo, validatedResponse, {
-            correlationId,
-            contentType: "application/json",
-          })
-          // Reply-side failures are not retryable from the inbox: by the time
-          // the broker can't deliver the reply, the caller's RPC future has
-          // already (or will soon) time out. Retrying the original message
-          // re-runs the handler against a stale caller. Send to DLQ instead so
-          // the failure is visible without churning the queue.
-          .mapErr(
-            (error: TechnicalError): HandlerError =>
-              new NonRetryableError("Failed to publish RPC response", error),
-          )
-          .andThen((published) =>
-            published
-              ? ok<void, HandlerError>(undefined)
-              : err<void, HandlerError>(
-                  new NonRetryableError("Failed to publish RPC response: channel buffer full"),
-                ),
-          ),
-      );
+      .andThen((validatedResponse) => {
+        const contentType = responseMessage.contentType ?? DEFAULT_CONTENT_TYPE;
+        return (
+          this.codecs
+            .encode(validatedResponse, contentType)
+            .asyncAndThen((content) => encryptMessage(content, responseMessage, this.keyProvider))
+            .andThen(({ content, headers }) =>
+              this.amqpClient.publish("", replyTo, content, {
+                correlationId,
+                contentType,
+                ...(Object.keys(headers).length > 0 && { headers }),
+              }),
+            )
+            // Reply-side failures are not retryable from the inbox: by the time
+            // the broker can't deliver the reply, the caller's RPC future has
+            // already (or will soon) time out. Retrying the original message
+            // re-runs the handler against a stale caller. Send to DLQ instead so
+            // the failure is visible without churning the queue.
+            .mapErr(
+              (error: TechnicalError): HandlerError =>
+                new NonRetryableError("Failed to publish RPC response", error),
+            )
+            .andThen((published) =>
+              published
+                ? ok<void, HandlerError>(undefined)
+                : err<void, HandlerError>(
+                    new NonRetryableError("Failed to publish RPC response: channel buffer full"),
+                  ),
+            )
+        );
+      });
   }
 
   /**
@@ -571,30 +1200,79 @@ export class TypedAmqpWorker<TContract extends ContractDefinition> {
    * queue's DLX (if configured) receives the poison message and bypass the
    * retry pipeline — a malformed payload is deterministic and retrying it
    * would burn the queue's retry budget on a guaranteed failure.
+   *
+   * Key lookup failures are the exception: the key provider or signature
+   * verifier may recover, so the message goes through the retry policy like
+   * a `RetryableError`.
    */
   private parseAndValidateOrNack(
     msg: ConsumeMessage,
     consumer: ConsumerDefinition,
     name: HandlerName<TContract>,
-  ): ResultAsync<{ payload: unknown; headers: unknown }, TechnicalError> {
+  ): ResultAsync<WorkerConsumedMessage<unknown, unknown>, TechnicalError> {
     return this.parseAndValidateMessage(msg, consumer, name).orElse((parseError) => {
+      if (parseError.cause instanceof KeyLookupError) {
+        return handleError(
+          { amqpClient: this.amqpClient, logger: this.logger },
+          new RetryableError(parseError.message, parseError.cause),
+          msg,
+          String(name),
+          consumer,
+        ).andThen(() => errAsync(parseError));
+      }
       this.amqpClient.nack(msg, false, false);
       return errAsync(parseError);
     });
   }
 
+  /**
+   * Log a message rejected by {@link parseAndValidateOrNack}, singling out
+   * signature verification failures, which may indicate forged messages, and
+   * key lookup failures, which are retried.
+   */
+  private logRejectedMessage(
+    name: HandlerName<TContract>,
+    queueName: string,
+    error: TechnicalError,
+  ): void {
+    if (error.cause instanceof KeyLookupError) {
+      this.logger?.error("Failed to look up message key; retrying message", {
+        consumerName: String(name),
+        queueName,
+        keyId: error.cause.keyId,
+        error,
+      });
+      return;
+    }
+    if (error.cause instanceof SignatureVerificationError) {
+      this.logger?.error("Message failed signature verification; sending to DLQ", {
+        consumerName: String(name),
+        queueName,
+        reason: error.cause.reason,
+        error,
+      });
+      return;
+    }
+    this.logger?.error("Failed to parse/validate message; sending to DLQ", {
+      consumerName: String(name),
+      queueName,
+      error,
+    });
+  }
+
   /**
    * Invoke the handler and ack the message on success. Returns the handler's
    * response (RPC) or `undefined` (regular consumer). Errors propagate as
    * `HandlerError` for downstream RPC reply publishing or routing via
-   * {@link handleError}.
+   * {@link handleError}. The handler runs in the message's context, so the
+   * messages it publishes inherit its correlation and causation ids.
    */
   private runHandler(
     handler: StoredHandler,
     validatedMessage: { payload: unknown; headers: unknown },
     msg: ConsumeMessage,
   ): ResultAsync<unknown, HandlerError> {
-    return handler(validatedMessage, msg);
+    return runWithMessageContext(toMessageContext(msg), () => handler(validatedMessage, msg));
   }
 
   /**
@@ -604,15 +1282,87 @@ export class TypedAmqpWorker<TContract extends ContractDefinition> {
    */
   private publishReplyIfRpc(
     msg: ConsumeMessage,
-    view: { consumer: ConsumerDefinition; isRpc: boolean; responseSchema?: StandardSchemaV1 },
+    view: { consumer: ConsumerDefinition; isRpc: boolean; response?: MessageDefinition },
     name: HandlerName<TContract>,
     handlerResponse: unknown,
   ): ResultAsync<void, HandlerError> {
-    if (!view.isRpc || !view.responseSchema) {
+    if (!view.isRpc || !view.response) {
       return okAsync<void, HandlerError>(undefined);
     }
     const queueName = extractQueue(view.consumer.queue).name;
-    return this.publishRpcResponse(msg, queueName, name, view.responseSchema, handlerResponse);
+    return this.publishRpcResponse(msg, queueName, name, view.response, handlerResponse);
+  }
+
+  /**
+   * Look the message up in the handler's deduplication store, if configured.
+   * Store failures are logged and the message is processed: running a
+   * handler twice is preferable to stalling the queue on a store outage.
+   */
+  private checkDuplicate(
+    msg: ConsumeMessage,
+    validatedMessage: { payload: unknown; headers: unknown },
+    name: HandlerName<TContract>,
+    queueName: string,
+  ): ResultAsync<
+    { duplicate: boolean; id: string | undefined; store: DeduplicationStore | undefined },
+    never
+  > {
+    const deduplication = this.consumerOptions[name]?.deduplication;
+    if (!deduplication) {
+      return okAsync({ duplicate: false, id: undefined, store: undefined });
+    }
+
+    let id: string | undefined;
+    try {
+      id = resolveDeduplicationId(deduplication.key, validatedMessage, msg);
+    } catch (error: unknown) {
+      this.logger?.warn("Deduplication key function threw; processing message", {
+        consumerName: String(name),
+        queueName,
+        error,
+      });
+    }
+    if (id === undefined) {
+      return okAsync({ duplicate: false, id: undefined, store: undefined });
+    }
+
+    const { store } = deduplication;
+    return store
+      .has(`${String(name)}:${id}`)
+      .map((duplicate) => ({ duplicate, id, store }))
+      .orElse((error) => {
+        this.logger?.warn("Deduplication store lookup failed; processing message", {
+          consumerName: String(name),
+          queueName,
+          messageId: id,
+          error,
+        });
+        return okAsync({ duplicate: false, id, store });
+      });
+  }
+
+  /**
+   * Record a successfully processed message in the deduplication store.
+   * Failures are logged only: the message has already been acked.
+   */
+  private recordProcessed(
+    dedup: { id: string | undefined; store: DeduplicationStore | undefined },
+    name: HandlerName<TContract>,
+    queueName: string,
+  ): ResultAsync<void, never> {
+    const { id, store } = dedup;
+    if (id === undefined || store === undefined) {
+      return okAsync(undefined);
+    }
+    return store.add(`${String(name)}:${id}`).orElse((error) => {
+      this.logger?.warn("Failed to record processed message for deduplication", {
+        consumerName: String(name),
+        queueName,
+        messageId: id,
+        error,
+      });
+      return okAsync(undefined);
+    });
   }
 
   /**
@@ -634,7 +1384,7 @@ export class TypedAmqpWorker<TContract extends ContractDefinition> {
    */
   private processMessage(
     msg: ConsumeMessage,
-    view: { consumer: ConsumerDefinition; isRpc: boolean; responseSchema?: StandardSchemaV1 },
+    view: { consumer: ConsumerDefinition; isRpc: boolean; response?: MessageDefinition },
     name: HandlerName<TContract>,
     handler: StoredHandler,
     state: { messageHandled: boolean },
@@ -646,73 +1396,87 @@ export class TypedAmqpWorker<TContract extends ContractDefinition> {
       "messaging.rabbitmq.message.delivery_tag": msg.fields.deliveryTag,
     });
 
-    return this.parseAndValidateOrNack(msg, consumer, name)
-      .orTee((parseError) => {
-        this.logger?.error("Failed to parse/validate message; sending to DLQ", {
-          consumerName: String(name),
-          queueName,
-          error: parseError,
-        });
-        // parseAndValidateOrNack already nacked; mark handled so the
-        // catch-all in consumeSingle does not double-act.
-        state.messageHandled = true;
-      })
-      .andThen<void, TechnicalError>((validatedMessage) =>
-        this.runHandler(handler, validatedMessage, msg)
-          .andThen((handlerResponse) =>
-            this.publishReplyIfRpc(msg, view, name, handlerResponse).andTee(() => {
-              this.logger?.info("Message consumed successfully", {
-                consumerName: String(name),
-                queueName,
-              });
-              this.amqpClient.ack(msg);
-              state.messageHandled = true;
-            }),
-          )
-          .orElse((handlerError: HandlerError) => {
-            this.logger?.error("Error processing message", {
-              consumerName: String(name),
-              queueName,
-              errorType: handlerError.name,
-              retryCount:
-                (msg.properties.headers?.["x-delivery-count"] as number | undefined) ??
-                (msg.properties.headers?.["x-retry-count"] as number | undefined) ??
-                0,
-              error: handlerError.message,
-            });
-
-            // Route the failure to retry / DLQ via handleError. On its
-            // success paths (retry republish, immediate-requeue nack, DLQ
-            // nack) the message has been ack'd or nack'd, so mark it
-            // handled. On its failure paths (e.g. TTL-backoff misconfig)
-            // no ack/nack happens and the message will be redelivered —
-            // leave messageHandled false so the consume catch-all can
-            // defensive-nack if needed.
-            //
-            // Either way, re-fail the chain with the original handlerError
-            // as `cause` so the failure-telemetry path fires; routing-
-            // internal errors (TechnicalError) take precedence and surface
-            // as the chain's error directly.
-            return handleError(
-              { amqpClient: this.amqpClient, logger: this.logger },
-              handlerError,
-              msg,
-              String(name),
-              consumer,
-            )
-              .andTee(() => {
+    return this.parseInDeliveryOrder(name, () =>
+      this.parseAndValidateOrNack(msg, consumer, name)
+        .orTee((parseError) => {
+          this.logRejectedMessage(name, queueName, parseError);
+          // parseAndValidateOrNack already nacked or retried the message;
+          // mark handled so the catch-all in consumeSingle does not double-act.
+          state.messageHandled = true;
+        })
+        // Wrap the scheduled processing so that parseInDeliveryOrder only
+        // waits for the message to be scheduled, not processed.
+        .map((validatedMessage) => ({
+          processed: this.schedule(name, queueName, validatedMessage, msg, () =>
+            this.checkDuplicate(msg, validatedMessage, name, queueName).andThen((dedup) => {
+              if (dedup.duplicate) {
+                this.logger?.info("Duplicate message acknowledged without running the handler", {
+                  consumerName: String(name),
+                  queueName,
+                  messageId: dedup.id,
+                });
+                this.amqpClient.ack(msg);
                 state.messageHandled = true;
-              })
-              .andThen(() =>
-                errAsync<void, TechnicalError>(
-                  new TechnicalError(
-                    `Handler "${String(name)}" failed: ${handlerError.message}`,
+                recordDuplicateMessage(this.telemetry, queueName, String(name));
+                return okAsync<void, TechnicalError>(undefined);
+              }
+              return this.runHandler(handler, validatedMessage, msg)
+                .andThen((handlerResponse) =>
+                  this.publishReplyIfRpc(msg, view, name, handlerResponse).andTee(() => {
+                    this.logger?.info("Message consumed successfully", {
+                      consumerName: String(name),
+                      queueName,
+                    });
+                    this.amqpClient.ack(msg);
+                    state.messageHandled = true;
+                  }),
+                )
+                .andThen(() => this.recordProcessed(dedup, name, queueName))
+                .orElse((handlerError: HandlerError) => {
+                  this.logger?.error("Error processing message", {
+                    consumerName: String(name),
+                    queueName,
+                    errorType: handlerError.name,
+                    retryCount: getRetryCount(msg, extractQueue(consumer.queue)),
+                    error: handlerError.message,
+                  });
+
+                  // Route the failure to retry / DLQ via handleError. On its
+                  // success paths (retry republish, immediate-requeue nack, DLQ
+                  // nack) the message has been ack'd or nack'd, so mark it
+                  // handled. On its failure paths (e.g. TTL-backoff misconfig)
+                  // no ack/nack happens and the message will be redelivered —
+                  // leave messageHandled false so the consume catch-all can
+                  // defensive-nack if needed.
+                  //
+                  // Either way, re-fail the chain with the original handlerError
+                  // as `cause` so the failure-telemetry path fires; routing-
+                  // internal errors (TechnicalError) take precedence and surface
+                  // as the chain's error directly.
+                  return handleError(
+                    { amqpClient: this.amqpClient, logger: this.logger },
                     handlerError,
-                  ),
-                ),
-              );
-          }),
-      )
+                    msg,
+                    String(name),
+                    consumer,
+                  )
+                    .andTee(() => {
+                      state.messageHandled = true;
+                    })
+                    .andThen(() =>
+                      errAsync<void, TechnicalError>(
+                        new TechnicalError(
+                          `Handler "${String(name)}" failed: ${handlerError.message}`,
+                          handlerError,
+                        ),
+                      ),
+                    );
+                });
+            }),
+          ),
+        })),
+    )
+      .andThen(({ processed }) => processed)
       .andTee(() => {
         // Telemetry must never throw out of the consume loop — wrap each
         // call so an instrumentation bug cannot poison the dispatch path
@@ -762,14 +1526,18 @@ export class TypedAmqpWorker<TContract extends ContractDefinition> {
   }
 
   /**
-   * Consume messages one at a time.
+   * Register a consumer, running `processDelivery` for every message.
    */
   private consumeSingle(
     name: HandlerName<TContract>,
-    view: { consumer: ConsumerDefinition; isRpc: boolean; responseSchema?: StandardSchemaV1 },
-    handler: StoredHandler,
+    view: { consumer: ConsumerDefinition; isRpc: boolean; response?: MessageDefinition },
+    processDelivery: (msg: ConsumeMessage) => Promise<void>,
   ): ResultAsync<void, TechnicalError> {
     const queueName = extractQueue(view.consumer.queue).name;
+    const consumeOptions = toConsumeOptions(view.consumer.queue, this.consumerOptions[name]);
+    if (consumeOptions.isErr()) {
+      return errAsync(consumeOptions.error);
+    }
 
     return this.amqpClient
       .consume(
@@ -780,52 +1548,233 @@ export class TypedAmqpWorker<TContract extends ContractDefinition> {
               consumerName: String(name),
               queueName,
             });
+            this.consumerTags.delete(String(name));
+            this.cancelledConsumers.add(String(name));
             return;
           }
-          // The dispatch path is built on `ResultAsync` so handler failures
-          // are values, not exceptions. Defensively guard the boundary anyway:
-          // a handler that violates the contract by throwing synchronously (or
-          // any unexpected fault inside processMessage) would otherwise leave
-          // the message neither acked nor nacked, and amqp-connection-manager
-          // would not redeliver it until the channel closes. nack(requeue=false)
-          // routes it via DLX if configured.
-          //
-          // The `state.messageHandled` flag guards the catch-block nack: if
-          // an exception is thrown *after* the message was already ack'd or
-          // nack'd (e.g. from the telemetry chain in processMessage's tail),
-          // a second nack would target the same delivery tag and close the
-          // channel with 406 PRECONDITION_FAILED.
-          const state = { messageHandled: false };
+          const delivery = processDelivery(msg);
+          this.inFlight.add(delivery);
           try {
-            await this.processMessage(msg, view, name, handler, state);
-          } catch (error: unknown) {
-            if (state.messageHandled) {
-              this.logger?.error(
-                "Uncaught error in consume callback after message was already handled; not nacking",
-                {
-                  consumerName: String(name),
-                  queueName,
-                  error,
-                },
-              );
-              return;
-            }
-            this.logger?.error("Uncaught error in consume callback; nacking message", {
-              consumerName: String(name),
-              queueName,
-              error,
-            });
-            this.amqpClient.nack(msg, false, false);
+            await delivery;
+          } finally {
+            this.inFlight.delete(delivery);
           }
         },
-        this.consumerOptions[name],
+        consumeOptions.value,
       )
       .andTee((consumerTag) => {
-        this.consumerTags.add(consumerTag);
+        this.consumerTags.set(String(name), consumerTag);
+        this.cancelledConsumers.delete(String(name));
       })
       .map(() => undefined)
       .mapErr(
         (error) => new TechnicalError(`Failed to start consuming for "${String(name)}"`, error),
       );
   }
+
+  /**
+   * Process one delivery, guaranteeing the message is acked or nacked even
+   * if the dispatch path throws.
+   */
+  private async processDelivery(
+    msg: ConsumeMessage,
+    view: { consumer: ConsumerDefinition; isRpc: boolean; response?: MessageDefinition },
+    name: HandlerName<TContract>,
+    handler: StoredHandler,
+  ): Promise<void> {
+    const queueName = extractQueue(view.consumer.queue).name;
+    // The dispatch path is built on `ResultAsync` so handler failures
+    // are values, not exceptions. Defensively guard the boundary anyway:
+    // a handler that violates the contract by throwing synchronously (or
+    // any unexpected fault inside processMessage) would otherwise leave
+    // the message neither acked nor nacked, and amqp-connection-manager
+    // would not redeliver it until the channel closes. nack(requeue=false)
+    // routes it via DLX if configured.
+    //
+    // The `state.messageHandled` flag guards the catch-block nack: if
+    // an exception is thrown *after* the message was already ack'd or
+    // nack'd (e.g. from the telemetry chain in processMessage's tail),
+    // a second nack would target the same delivery tag and close the
+    // channel with 406 PRECONDITION_FAILED.
+    const breaker = this.circuitBreakers.get(String(name));
+    const admission: CircuitAdmission = breaker ? await breaker.admit() : "run";
+    if (admission === "reject") {
+      // The circuit opened while this message was prefetched: hand it back
+      // to the queue without running the handler.
+      this.amqpClient.nack(msg, false, true);
+      return;
+    }
+
+    const state = { messageHandled: false };
+    let failed = false;
+    try {
+      const result = await this.processMessage(msg, view, name, handler, state);
+      failed =
+        result.isErr() &&
+        (result.error.cause instanceof RetryableError ||
+          result.error.cause instanceof KeyLookupError);
+    } catch (error: unknown) {
+      if (state.messageHandled) {
+        this.logger?.error(
+          "Uncaught error in consume callback after message was already handled; not nacking",
+          {
+            consumerName: String(name),
+            queueName,
+            error,
+          },
+        );
+        return;
+      }
+      this.logger?.error("Uncaught error in consume callback; nacking message", {
+        consumerName: String(name),
+        queueName,
+        error,
+      });
+      this.amqpClient.nack(msg, false, false);
+    } finally {
+      breaker?.record(failed, admission);
+    }
+  }
+
+  /**
+   * Validate one delivery of a batch consumer and add it to the current
+   * batch. Resolves once its batch has been handled.
+   */
+  private async processBatchedDelivery(
+    msg: ConsumeMessage,
+    consumer: ConsumerDefinition,
+    name: HandlerName<TContract>,
+    batcher: MessageBatcher<BatchedMessage>,
+  ): Promise<void> {
+    const queueName = extractQueue(consumer.queue).name;
+    try {
+      const validated = await this.parseAndValidateOrNack(msg, consumer, name);
+      if (validated.isErr()) {
+        this.logRejectedMessage(name, queueName, validated.error);
+        return;
+      }
+      await batcher.add({ message: validated.value, rawMessage: msg });
+    } catch (error: unknown) {
+      // processBatch settles every message itself and is not expected to
+      // throw; whether this message was already acked is unknown here, so
+      // leave it to be redelivered rather than risk a double ack.
+      this.logger?.error("Uncaught error while processing batch", {
+        consumerName: String(name),
+        queueName,
+        error,
+      });
+    }
+  }
+
+  /**
+   * Run a batch handler, then settle every message of the batch: ack the
+   * successful ones and route the failed ones through the retry policy. The
+   * handler runs in the context shared by the messages of the batch, see
+   * {@link toBatchMessageContext}.
+   */
+  private async processBatch(
+    name: HandlerName<TContract>,
+    handler: StoredBatchHandler,
+    batch: ReadonlyArray<BatchedMessage>,
+  ): Promise<void> {
+    const { consumer } = this.resolveConsumerView(name);
+    const queueName = extractQueue(consumer.queue).name;
+    const startTime = Date.now();
+    const span = startConsumeSpan(this.telemetry, queueName, String(name), {
+      "messaging.batch.message_count": batch.length,
+    });
+
+    let result: Result<BatchHandlerResult, HandlerError>;
+    try {
+      const rawMessages = batch.map(({ rawMessage }) => rawMessage);
+      result = await runWithMessageContext(toBatchMessageContext(rawMessages), () =>
+        handler(
+          batch.map(({ message }) => message),
+          rawMessages,
+        ),
+      );
+    } catch (error: unknown) {
+      // Same outcome as a throwing single-message handler: dead-letter.
+      result = err(new NonRetryableError("Batch handler threw", error));
+    }
+
+    const failures = new Map<number, HandlerError>();
+    if (result.isErr()) {
+      for (const index of batch.keys()) {
+        failures.set(index, result.error);
+      }
+    } else if (result.value) {
+      for (const { index, error } of result.value.failures) {
+        if (batch[index] === undefined) {
+          this.logger?.warn("Ignoring batch failure with an out-of-range index", {
+            consumerName: String(name),
+            queueName,
+            index,
+          });
+          continue;
+        }
+        failures.set(index, error);
+      }
+    }
+
+    await Promise.all(
+      batch.map(({ rawMessage }, index) => {
+        const handlerError = failures.get(index);
+        if (handlerError === undefined) {
+          this.amqpClient.ack(rawMessage);
+          return Promise.resolve();
+        }
+        this.logger?.error("Error processing message", {
+          consumerName: String(name),
+          queueName,
+          errorType: handlerError.name,
+          error: handlerError.message,
+        });
+        return handleError(
+          { amqpClient: this.amqpClient, logger: this.logger },
+          handlerError,
+          rawMessage,
+          String(name),
+          consumer,
+        ).orTee((routingError) => {
+          this.logger?.error("Failed to route failed batch message", {
+            consumerName: String(name),
+            queueName,
+            error: routingError,
+          });
+        });
+      }),
+    );
+    this.logger?.info("Batch consumed", {
+      consumerName: String(name),
+      queueName,
+      size: batch.length,
+      failed: failures.size,
+    });
+
+    try {
+      const durationMs = Date.now() - startTime;
+      const [firstFailure] = failures.values();
+      if (firstFailure === undefined) {
+        endSpanSuccess(span);
+      } else {
+        endSpanError(span, firstFailure);
+      }
+      for (const index of batch.keys()) {
+        recordConsumeMetric(
+          this.telemetry,
+          queueName,
+          String(name),
+          !failures.has(index),
+          durationMs,
+        );
+      }
+    } catch (telemetryError: unknown) {
+      this.logger?.warn("Telemetry recording threw; ignoring", {
+        consumerName: String(name),
+        queueName,
+        error: telemetryError,
+      });
+    }
+  }
 }